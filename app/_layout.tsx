@@ -9,34 +9,138 @@ global.Buffer = global.Buffer || Buffer; // Assign Buffer to global namespace
 import { LazorKitProvider } from '@lazorkit/wallet-mobile-adapter';
 // eslint-disable-next-line import/first -- Polyfills must be imported before other modules
 import { Stack } from 'expo-router';
+// eslint-disable-next-line import/first -- Polyfills must be imported before other modules
+import { useEffect, useState } from 'react';
+// eslint-disable-next-line import/first -- Polyfills must be imported before other modules
+import { View, ActivityIndicator, StyleSheet, AppState } from 'react-native';
+// eslint-disable-next-line import/first -- Polyfills must be imported before other modules
+import { NetworkService } from '../services/NetworkService';
+// eslint-disable-next-line import/first -- Polyfills must be imported before other modules
+import { SecurityService } from '../services/SecurityService';
+// eslint-disable-next-line import/first -- Polyfills must be imported before other modules
+import { WalletService } from '../services/WalletService';
+// eslint-disable-next-line import/first -- Polyfills must be imported before other modules
+import { Colors } from '../services/constants';
+// eslint-disable-next-line import/first -- Polyfills must be imported before other modules
+import { AppLockGate } from '../components/AppLockGate';
+// eslint-disable-next-line import/first -- Polyfills must be imported before other modules
+import type { NetworkProfile } from '../types';
 
 /**
  * Root layout component for the Lazorkit Mobile Wallet Starter.
- * Configures the LazorKitProvider with Devnet RPC, Portal, and Paymaster.
+ * Configures the LazorKitProvider with RPC, Portal, and Paymaster from the active network profile.
  *
- * Note: Session loading and auto-navigation handled in Welcome screen (index.tsx) for simplicity.
- * The SDK manages its own wallet state internally.
+ * The persisted network selection is loaded before the provider renders. Switching networks
+ * (Settings screen) re-creates the provider via its key so the SDK picks up the new endpoints.
+ *
+ * Session bootstrap: the active wallet's session is restored (WalletService.restoreSession())
+ * before its network selection is loaded, since settings are stored per wallet. A valid
+ * session rehydrates the SDK wallet so Home opens connected; an expired one opens Home in
+ * read-only watch mode, where signing requires reconnecting with the passkey. The Welcome
+ * screen routes on the result. The session is re-checked each time the app returns to the
+ * foreground (WalletService.refreshSession()).
+ *
+ * App lock: security settings are loaded first (SecurityService), locking the app on cold
+ * start when app lock is on. AppLockGate covers the app until the user unlocks with
+ * biometrics or the device passcode, and hides it in the app switcher.
  */
 export default function RootLayout() {
+  const [network, setNetwork] = useState<NetworkProfile | null>(null);
+
+  /**
+   * Load security settings (app lock, session expiry), restore the active wallet
+   * (SDK wallet or watch mode), then its network selection, and follow later
+   * network switches.
+   */
+  useEffect(() => {
+    SecurityService.loadSettings()
+      .then(() => WalletService.restoreSession())
+      .then(() => NetworkService.loadActiveNetwork())
+      .then(setNetwork);
+    return NetworkService.subscribe(setNetwork);
+  }, []);
+
+  /**
+   * Re-check the session expiry policy whenever the app returns to the foreground,
+   * so a session that expired while the app was open falls back to watch mode.
+   */
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        WalletService.refreshSession();
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
+  // Wait for session restore and network selection before configuring the SDK
+  if (!network) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={Colors.primary.purple} />
+      </View>
+    );
+  }
+
   return (
-    <LazorKitProvider
-      rpcUrl="https://api.devnet.solana.com" // Solana Devnet RPC endpoint for blockchain interactions
-      portalUrl="https://portal.lazor.sh" // Lazorkit Portal for WebAuthn passkey authentication
-      configPaymaster={{
-        paymasterUrl: 'https://kora.devnet.lazorkit.com', // Lazorkit Paymaster for gasless transactions
-      }}
-    >
-      <Stack>
-        <Stack.Screen name="index" options={{ title: 'Welcome' }} />
-        {/* Callback screen - handles deep link redirect from Portal */}
-        <Stack.Screen name="callback" options={{ headerShown: false }} />
-        {/* Home screen - displays wallet address after successful authentication */}
-        <Stack.Screen name="home" options={{ title: 'Wallet' }} />
-        {/* Transfer screen - USDC transfer form with input validation (Story 2.1) */}
-        <Stack.Screen name="transfer" options={{ title: 'Send USDC' }} />
-        {/* Confirm screen - transaction confirmation and signing (Story 2.2) */}
-        <Stack.Screen name="confirm" options={{ title: 'Confirm Transaction' }} />
-      </Stack>
-    </LazorKitProvider>
+    <AppLockGate>
+      <LazorKitProvider
+        key={network.id}
+        rpcUrl={network.rpcUrl} // Solana RPC endpoint for blockchain interactions
+        portalUrl={network.portalUrl} // Lazorkit Portal for WebAuthn passkey authentication
+        configPaymaster={{
+          paymasterUrl: network.paymasterUrl, // Lazorkit Paymaster for gasless transactions
+        }}
+      >
+        <Stack>
+          <Stack.Screen name="index" options={{ title: 'Welcome' }} />
+          {/* Callback screen - handles deep link redirect from Portal */}
+          <Stack.Screen name="callback" options={{ headerShown: false }} />
+          {/* Home screen - displays wallet address after successful authentication */}
+          <Stack.Screen name="home" options={{ title: 'Wallet' }} />
+          {/* Transfer screen - token transfer form with token picker and input validation (Story 2.1) */}
+          <Stack.Screen name="transfer" options={{ title: 'Send' }} />
+          {/* Confirm screen - transaction confirmation and signing (Story 2.2) */}
+          <Stack.Screen name="confirm" options={{ title: 'Confirm Transaction' }} />
+          {/* Batch payout screens - recipient list (typed or CSV) and batch signing */}
+          <Stack.Screen name="batch" options={{ title: 'Batch Payout' }} />
+          <Stack.Screen name="batch-confirm" options={{ title: 'Confirm Batch' }} />
+          {/* Scheduled transfer screens - due queue, schedule list and schedule form */}
+          <Stack.Screen name="scheduled" options={{ title: 'Scheduled Transfers' }} />
+          <Stack.Screen name="schedule-edit" options={{ title: 'Schedule Transfer' }} />
+          {/* History screens - on-chain USDC transfer history and detail view */}
+          <Stack.Screen name="history" options={{ title: 'History' }} />
+          <Stack.Screen name="history-detail" options={{ title: 'Transaction Details' }} />
+          {/* Export screen - CSV/JSON statements from the transaction journal */}
+          <Stack.Screen name="export" options={{ title: 'Export Statement' }} />
+          {/* Settings screen - network profile selector */}
+          <Stack.Screen name="settings" options={{ title: 'Settings' }} />
+          {/* Spending policy screen - limits, recipient allowlist/denylist */}
+          <Stack.Screen name="policy" options={{ title: 'Spending Policy' }} />
+          {/* Receive screen - wallet address QR code and Solana Pay request builder */}
+          <Stack.Screen name="receive" options={{ title: 'Receive' }} />
+          {/* Payment requests screen - status of Solana Pay requests (pending/paid/expired) */}
+          <Stack.Screen name="requests" options={{ title: 'Payment Requests' }} />
+          {/* Scan screen - camera QR scanner for Solana Pay links and addresses */}
+          <Stack.Screen name="scan" options={{ title: 'Scan QR Code' }} />
+          {/* Contacts screens - address book list and add/edit form */}
+          <Stack.Screen name="contacts" options={{ title: 'Contacts' }} />
+          <Stack.Screen name="contact-edit" options={{ title: 'Contact' }} />
+          {/* Security screen - app lock and session expiry */}
+          <Stack.Screen name="security" options={{ title: 'App Lock & Sessions' }} />
+          {/* Wallets screen - registered wallets, switching, nicknames */}
+          <Stack.Screen name="wallets" options={{ title: 'Wallets' }} />
+        </Stack>
+      </LazorKitProvider>
+    </AppLockGate>
   );
 }
+
+const styles = StyleSheet.create({
+  loadingContainer: {
+    flex: 1,
+    backgroundColor: Colors.neutral[50],
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
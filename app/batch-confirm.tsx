@@ -0,0 +1,655 @@
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  ScrollView,
+  Linking,
+} from 'react-native';
+import { useEffect, useRef, useState } from 'react';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useWallet } from '@lazorkit/wallet-mobile-adapter';
+import { Colors, Typography, Spacing, BorderRadius, NATIVE_SOL } from '../services/constants';
+import { SolanaService, BatchTransferPlan } from '../services/SolanaService';
+import { ContactService } from '../services/ContactService';
+import { NetworkService } from '../services/NetworkService';
+import { ConfirmationService } from '../services/ConfirmationService';
+import { TransactionJournalService } from '../services/TransactionJournalService';
+import { SecurityService } from '../services/SecurityService';
+import { PolicyService } from '../services/PolicyService';
+import {
+  createWalletError,
+  normalizeWalletError,
+  UserCancelledError,
+} from '../services/errors';
+import type { PolicyEvaluation, TransactionRequest, TransactionStatus } from '../types';
+import { formatLabeledAddress, formatTokenBaseUnits } from '../utils/FormattingUtils';
+
+/**
+ * Outcome of one recipient in the batch.
+ * - 'ready': Will be sent when the batch is confirmed
+ * - 'skipped': Failed its pre-checks (e.g. recipient account missing); never sent
+ * - 'signing': Its transaction is being checked or signed
+ * - 'submitted': Sent, waiting for confirmation
+ * - 'confirmed': Confirmed on-chain
+ * - 'failed': Rejected before sending, or failed/expired on-chain
+ * - 'cancelled': Not sent because the batch was cancelled
+ */
+interface RecipientResult {
+  status: 'ready' | 'skipped' | 'signing' | 'submitted' | 'confirmed' | 'failed' | 'cancelled';
+  signature?: string;
+  error?: string;
+}
+
+/**
+ * Human-readable labels for recipient statuses.
+ */
+const STATUS_LABELS: Record<RecipientResult['status'], string> = {
+  ready: 'Ready',
+  skipped: 'Skipped',
+  signing: 'Signing...',
+  submitted: 'Confirming...',
+  confirmed: 'Confirmed',
+  failed: 'Failed',
+  cancelled: 'Not sent',
+};
+
+/**
+ * Batch Confirm Screen
+ *
+ * Reviews and sends a batch payout from the Batch Payout screen:
+ * 1. Pack the transfers with SolanaService.buildBatchTransfer() (as many per
+ *    transaction as size limits allow); recipients failing pre-checks are skipped
+ * 2. Show recipients, total, and how many passkey prompts are needed; check
+ *    every transfer and the running total against the spending policy
+ *    (PolicyService.evaluateBatch()), blocking the whole batch on any violation
+ * 3. On confirm, each packed transaction is simulated, signed and sent via the
+ *    Lazorkit SDK, then tracked with ConfirmationService
+ * 4. Report the outcome per recipient
+ *
+ * The batch is confirmed once; the passkey prompt still appears once per packed
+ * transaction. Cancelling a prompt stops the batch: later transactions are not sent.
+ * A failure of one transaction (simulation, paymaster) does not stop the others.
+ *
+ * Every transfer is journaled with TransactionJournalService.
+ */
+export default function BatchConfirmScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams();
+  const wallet = useWallet();
+
+  // Parse transfers from route params (passed as JSON string)
+  const transfers: TransactionRequest[] = JSON.parse(params.transfers as string);
+  // A batch pays out a single asset (SolanaService.buildBatchTransfer() rejects mixed batches)
+  const first = transfers[0];
+  const asset = first.asset === 'sol' ? NATIVE_SOL : first.token;
+  const total = transfers.reduce((sum, transfer) => sum + BigInt(transfer.amountLamports), 0n);
+
+  // Batches whose total reaches the re-authentication threshold ask for biometrics before signing
+  const reauthToken = first.asset === 'spl-token' ? first.token : undefined;
+  const reauthRequired = SecurityService.requiresReauthentication(reauthToken, total);
+
+  const [plan, setPlan] = useState<BatchTransferPlan | null>(null);
+  const [planError, setPlanError] = useState<string | null>(null);
+  const [policy, setPolicy] = useState<PolicyEvaluation | null>(null);
+  const [policyError, setPolicyError] = useState<string | null>(null);
+  const [reauthAvailable, setReauthAvailable] = useState(true);
+  const [phase, setPhase] = useState<'preview' | 'sending' | 'done'>('preview');
+  const [currentTransaction, setCurrentTransaction] = useState(0);
+  const [results, setResults] = useState<RecipientResult[]>(() =>
+    transfers.map(() => ({ status: 'ready' }))
+  );
+  const [labels, setLabels] = useState<Map<string, string>>(new Map());
+
+  // Unsubscribe from ConfirmationService updates when leaving the screen
+  const unsubscribesRef = useRef<(() => void)[]>([]);
+  useEffect(() => () => unsubscribesRef.current.forEach((unsubscribe) => unsubscribe()), []);
+
+  /**
+   * Update the results of the given recipients.
+   */
+  const updateResults = (indexes: number[], update: RecipientResult) => {
+    setResults((previous) =>
+      previous.map((result, index) => (indexes.includes(index) ? update : result))
+    );
+  };
+
+  /**
+   * Pack the batch and mark recipients that cannot be sent.
+   */
+  useEffect(() => {
+    if (!wallet.smartWalletPubkey) return;
+
+    SolanaService.buildBatchTransfer(transfers, wallet.smartWalletPubkey)
+      .then((result) => {
+        setPlan(result);
+        setResults((previous) =>
+          previous.map((entry, index) => {
+            const skipped = result.skipped.find((item) => item.index === index);
+            return skipped ? { status: 'skipped', error: skipped.error.message } : entry;
+          })
+        );
+      })
+      .catch((error) => {
+        console.error('[BatchConfirmScreen] Failed to build batch:', error);
+        setPlanError(normalizeWalletError(error).message);
+      });
+
+    ContactService.getContacts().then((contacts) =>
+      setLabels(new Map(contacts.map((contact) => [contact.address, contact.label])))
+    );
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- transfers is re-parsed each render; params string is stable
+  }, [params.transfers, wallet.smartWalletPubkey]);
+
+  /**
+   * Check the batch against the spending policy. If the policy cannot be read
+   * the batch stays blocked.
+   */
+  useEffect(() => {
+    PolicyService.evaluateBatch(transfers)
+      .then(setPolicy)
+      .catch((error) => {
+        console.error('[BatchConfirmScreen] Failed to check spending policy:', error);
+        setPolicyError('Could not check your spending policy. Please try again.');
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- transfers is re-parsed each render; params string is stable
+  }, [params.transfers]);
+
+  /**
+   * Check that a high-value batch can be confirmed: without enrolled
+   * biometrics or passcode it is blocked.
+   */
+  useEffect(() => {
+    if (reauthRequired) {
+      SecurityService.canUseAppLock().then(setReauthAvailable);
+    }
+  }, [reauthRequired]);
+
+  // Signing needs a packed batch that passed the policy, a connected wallet (not watch
+  // mode) and, for a high-value batch, local authentication to confirm it with
+  const signingAllowed =
+    !!plan &&
+    plan.transactions.length > 0 &&
+    !!policy &&
+    !policy.blocked &&
+    wallet.isConnected &&
+    (!reauthRequired || reauthAvailable);
+
+  /**
+   * Apply a confirmation update to the recipients of one transaction.
+   */
+  const handleConfirmationUpdate = (
+    indexes: number[],
+    signature: string,
+    status: TransactionStatus
+  ) => {
+    if (status.status === 'confirmed' || status.status === 'finalized') {
+      updateResults(indexes, { status: 'confirmed', signature });
+    } else if (status.status === 'failed' || status.status === 'expired') {
+      updateResults(indexes, {
+        status: 'failed',
+        signature,
+        error: createWalletError(status.errorCode ?? 'PROGRAM_ERROR', status.error).message,
+      });
+    }
+  };
+
+  /**
+   * Handle "Confirm & Sign All" button press.
+   *
+   * Journals every transfer, then sends the packed transactions one by one:
+   * simulate, sign and send (passkey prompt), record the submission and track
+   * its confirmation in the background. Cancelling a prompt stops the batch.
+   * Does nothing unless the spending policy allows the batch and the wallet is
+   * connected (see signingAllowed). A batch whose total reaches the
+   * re-authentication threshold first asks for biometrics or the device passcode.
+   */
+  const handleConfirmAndSign = async () => {
+    if (!plan || !signingAllowed) return;
+    if (!(await SecurityService.confirmHighValueTransfer(reauthToken, total))) return;
+    setPhase('sending');
+
+    // Journal every transfer up front so unsent ones are recorded too
+    const journalIds: string[] = [];
+    for (const transfer of transfers) {
+      journalIds.push((await TransactionJournalService.recordAttempt(transfer)).id);
+    }
+    for (const { index, error } of plan.skipped) {
+      await TransactionJournalService.recordFailure(journalIds[index], error);
+    }
+
+    for (const [position, { transaction, transferIndexes }] of plan.transactions.entries()) {
+      setCurrentTransaction(position + 1);
+      updateResults(transferIndexes, { status: 'signing' });
+      let signature: string | undefined;
+
+      try {
+        // Simulate before the passkey prompt: a transaction that would fail is never signed
+        const simulation = await SolanaService.simulateTransfer(
+          transaction,
+          transfers[transferIndexes[0]]
+        );
+        if (simulation.status === 'failed') {
+          throw createWalletError(simulation.code ?? 'PROGRAM_ERROR', simulation.reason);
+        }
+
+        const txSignature = await wallet.signAndSendTransaction(
+          {
+            instructions: transaction.instructions,
+            transactionOptions: {
+              clusterSimulation: NetworkService.getActiveProfile().clusterSimulation,
+            },
+          },
+          {
+            redirectUrl: 'passkey-integ://batch-confirm',
+          }
+        );
+        signature = txSignature;
+        updateResults(transferIndexes, { status: 'submitted', signature: txSignature });
+        for (const index of transferIndexes) {
+          await TransactionJournalService.recordSubmission(journalIds[index], txSignature);
+        }
+
+        // Track in the background; the next transaction is signed meanwhile
+        const pending = await ConfirmationService.recordSubmission(
+          txSignature,
+          transfers[transferIndexes[0]]
+        );
+        ConfirmationService.track(pending);
+        unsubscribesRef.current.push(
+          ConfirmationService.subscribe(txSignature, (status) =>
+            handleConfirmationUpdate(transferIndexes, txSignature, status)
+          )
+        );
+      } catch (error) {
+        const walletError = normalizeWalletError(error, { symbol: asset.symbol });
+        console.error('Batch transaction error:', error);
+        for (const index of transferIndexes) {
+          await TransactionJournalService.recordFailure(journalIds[index], walletError);
+        }
+        // After submission the transfer may still land; keep it as submitted
+        if (!signature) {
+          updateResults(transferIndexes, { status: 'failed', error: walletError.message });
+        }
+
+        if (walletError.code === 'USER_CANCELLED') {
+          const remaining = plan.transactions
+            .slice(position + 1)
+            .flatMap((item) => item.transferIndexes);
+          const cancelled = new UserCancelledError('Not sent: the batch was cancelled');
+          for (const index of remaining) {
+            await TransactionJournalService.recordFailure(journalIds[index], cancelled);
+          }
+          updateResults(remaining, { status: 'cancelled', error: cancelled.message });
+          break;
+        }
+      }
+    }
+
+    setPhase('done');
+  };
+
+  /**
+   * Navigate back to Wallet Home screen.
+   * Uses router.replace() to prevent user from navigating back to this screen.
+   */
+  const handleBackToHome = () => {
+    router.replace('/home');
+  };
+
+  const count = (status: RecipientResult['status']) =>
+    results.filter((result) => result.status === status).length;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContainer}>
+      <Text style={styles.title}>
+        {phase === 'preview'
+          ? 'Confirm Batch'
+          : phase === 'sending'
+          ? 'Sending Batch'
+          : 'Batch Complete'}
+      </Text>
+
+      <View style={styles.detailsCard}>
+        <View style={styles.detailRow}>
+          <Text style={styles.label}>Recipients</Text>
+          <Text style={styles.value}>{transfers.length}</Text>
+        </View>
+
+        <View style={styles.detailRow}>
+          <Text style={styles.label}>Total</Text>
+          <Text style={styles.value}>{formatTokenBaseUnits(total, asset)}</Text>
+        </View>
+
+        {plan && (
+          <View style={styles.detailRow}>
+            <Text style={styles.label}>Transactions</Text>
+            <Text style={styles.value}>
+              {phase === 'sending'
+                ? `Signing ${currentTransaction} of ${plan.transactions.length}`
+                : `${plan.transactions.length} (one passkey prompt each)`}
+            </Text>
+          </View>
+        )}
+
+        {phase === 'done' && (
+          <Text style={styles.statusMessage}>
+            {count('confirmed')} confirmed · {count('submitted')} confirming · {count('failed')}{' '}
+            failed · {count('skipped') + count('cancelled')} not sent
+          </Text>
+        )}
+
+        {plan && plan.skipped.length > 0 && phase === 'preview' && (
+          <Text style={styles.noticeText}>
+            {plan.skipped.length} recipient(s) will be skipped (see below)
+          </Text>
+        )}
+
+        <View style={styles.gaslessBadge}>
+          <Text style={styles.gaslessBadgeText}>⚡ Gasless Transaction</Text>
+        </View>
+      </View>
+
+      {!plan && !planError && (
+        <ActivityIndicator size="large" color={Colors.primary.purple} />
+      )}
+      {planError && <Text style={[styles.statusMessage, styles.errorText]}>{planError}</Text>}
+
+      {transfers.map((transfer, index) => {
+        const result = results[index];
+        return (
+          <TouchableOpacity
+            key={index}
+            style={styles.row}
+            disabled={!result.signature}
+            onPress={() =>
+              result.signature && Linking.openURL(SolanaService.getExplorerUrl(result.signature))
+            }
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={`${formatTokenBaseUnits(transfer.amountLamports, asset)} to ${
+              labels.get(transfer.recipientAddress) ?? transfer.recipientAddress
+            }, ${STATUS_LABELS[result.status]}`}
+            accessibilityHint={result.signature ? 'Opens the transaction on Solana Explorer' : undefined}
+            accessibilityState={{ disabled: !result.signature }}
+          >
+            <View style={styles.rowMain}>
+              <Text style={styles.rowTitle}>
+                {formatLabeledAddress(
+                  transfer.recipientAddress,
+                  labels.get(transfer.recipientAddress)
+                )}
+              </Text>
+              {result.error && <Text style={styles.rowError}>{result.error}</Text>}
+            </View>
+            <View>
+              <Text style={styles.rowAmount}>
+                {formatTokenBaseUnits(transfer.amountLamports, asset)}
+              </Text>
+              <Text
+                style={[
+                  styles.rowStatus,
+                  result.status === 'confirmed' && styles.statusConfirmed,
+                  (result.status === 'failed' || result.status === 'skipped') &&
+                    styles.errorText,
+                ]}
+              >
+                {STATUS_LABELS[result.status]}
+              </Text>
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+
+      {phase === 'preview' && (
+        <>
+          {/* Spending policy could not be checked: fail closed */}
+          {policyError && (
+            <View style={styles.policyCard} accessible={true} accessibilityLiveRegion="polite">
+              <Text style={styles.policyTitle}>Spending policy could not be checked</Text>
+              <Text style={styles.policyText}>{policyError}</Text>
+            </View>
+          )}
+
+          {/* Spending policy: any violation blocks the whole batch */}
+          {policy && policy.blocked && (
+            <View style={styles.policyCard} accessible={true} accessibilityLiveRegion="polite">
+              <Text style={styles.policyTitle}>Blocked by your spending policy</Text>
+              {policy.violations.map((violation, index) => (
+                <Text key={index} style={styles.policyText}>
+                  • {violation.message}
+                </Text>
+              ))}
+            </View>
+          )}
+
+          {/* Watch mode: signing needs a reconnect from Home */}
+          {!wallet.isConnected && (
+            <Text style={styles.errorText}>
+              Your wallet is in watch mode. Reconnect from Home to sign this batch.
+            </Text>
+          )}
+
+          {/* High-value batch: local authentication before the passkey prompts */}
+          {reauthRequired &&
+            (reauthAvailable ? (
+              <Text style={styles.noticeText}>
+                This batch is above your re-authentication threshold. You will be asked to
+                unlock with biometrics or your device passcode before signing.
+              </Text>
+            ) : (
+              <Text style={styles.errorText}>
+                This batch is above your re-authentication threshold. Set up biometrics or a
+                device passcode to send it.
+              </Text>
+            ))}
+
+          <TouchableOpacity
+            style={[styles.primaryButton, !signingAllowed && { opacity: 0.5 }]}
+            onPress={handleConfirmAndSign}
+            disabled={!signingAllowed}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel="Confirm and sign all transfers with biometrics"
+            accessibilityState={{ disabled: !signingAllowed }}
+          >
+            <Text style={styles.primaryButtonText}>Confirm & Sign All</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => router.back()}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel="Cancel batch"
+          >
+            <Text style={styles.secondaryButtonText}>Cancel</Text>
+          </TouchableOpacity>
+        </>
+      )}
+
+      {phase === 'sending' && (
+        <ActivityIndicator
+          style={styles.sendingIndicator}
+          size="large"
+          color={Colors.primary.purple}
+        />
+      )}
+
+      {phase === 'done' && (
+        <TouchableOpacity
+          style={styles.primaryButton}
+          onPress={handleBackToHome}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel="Return to wallet home"
+        >
+          <Text style={styles.primaryButtonText}>Back to Home</Text>
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.neutral[50],
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    padding: Spacing.xl,
+  },
+  title: {
+    fontSize: Typography.fontSize.h2,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.neutral[900],
+    textAlign: 'center',
+    marginBottom: Spacing.xl,
+  },
+  detailsCard: {
+    backgroundColor: '#fff',
+    borderRadius: BorderRadius.md,
+    padding: Spacing.xl,
+    marginBottom: Spacing.xl,
+    shadowColor: '#000',
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    shadowOffset: { width: 0, height: 2 },
+    elevation: 3,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: Spacing.lg,
+  },
+  label: {
+    fontSize: Typography.fontSize.body,
+    color: Colors.neutral[900],
+    fontWeight: Typography.fontWeight.semibold,
+  },
+  value: {
+    fontSize: Typography.fontSize.body,
+    color: Colors.neutral[900],
+    textAlign: 'right',
+    flex: 1,
+    marginLeft: Spacing.md,
+  },
+  noticeText: {
+    fontSize: Typography.fontSize.caption,
+    color: Colors.warning,
+    marginBottom: Spacing.md,
+  },
+  policyCard: {
+    backgroundColor: '#fff',
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.error,
+    padding: Spacing.lg,
+    marginBottom: Spacing.md,
+  },
+  policyTitle: {
+    fontSize: Typography.fontSize.body,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.error,
+    marginBottom: Spacing.sm,
+  },
+  policyText: {
+    fontSize: Typography.fontSize.caption,
+    color: Colors.neutral[900],
+    marginBottom: Spacing.xs,
+  },
+  gaslessBadge: {
+    backgroundColor: Colors.primary.purple,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+    alignSelf: 'flex-start',
+    marginTop: Spacing.md,
+  },
+  gaslessBadgeText: {
+    color: '#fff',
+    fontSize: Typography.fontSize.caption,
+    fontWeight: Typography.fontWeight.semibold,
+  },
+  statusMessage: {
+    fontSize: Typography.fontSize.body,
+    textAlign: 'center',
+    color: Colors.neutral[900],
+    marginBottom: Spacing.lg,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    marginBottom: Spacing.sm,
+  },
+  rowMain: {
+    flex: 1,
+    marginRight: Spacing.md,
+  },
+  rowTitle: {
+    fontSize: Typography.fontSize.body,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.neutral[900],
+  },
+  rowError: {
+    fontSize: Typography.fontSize.caption,
+    color: Colors.error,
+    marginTop: Spacing.xs,
+  },
+  rowAmount: {
+    fontSize: Typography.fontSize.body,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.neutral[900],
+    textAlign: 'right',
+  },
+  rowStatus: {
+    fontSize: Typography.fontSize.caption,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.warning,
+    textAlign: 'right',
+    marginTop: Spacing.xs,
+  },
+  statusConfirmed: {
+    color: Colors.success,
+  },
+  primaryButton: {
+    height: 44,
+    backgroundColor: Colors.primary.purple,
+    borderRadius: BorderRadius.sm,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: Spacing.xl,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: Typography.fontSize.body,
+    fontWeight: Typography.fontWeight.semibold,
+  },
+  sendingIndicator: {
+    marginTop: Spacing.xl,
+  },
+  secondaryButton: {
+    height: 44,
+    borderWidth: 1,
+    borderColor: Colors.neutral[900],
+    borderRadius: BorderRadius.sm,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: Spacing.lg,
+  },
+  secondaryButtonText: {
+    color: Colors.neutral[900],
+    fontSize: Typography.fontSize.body,
+    fontWeight: Typography.fontWeight.semibold,
+  },
+  errorText: {
+    color: Colors.error,
+  },
+});
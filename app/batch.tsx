@@ -0,0 +1,327 @@
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Switch,
+} from 'react-native';
+import { useState } from 'react';
+import { useRouter } from 'expo-router';
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import { NetworkService } from '../services/NetworkService';
+import {
+  Colors,
+  Typography,
+  Spacing,
+  BorderRadius,
+  NATIVE_SOL,
+  MAX_BATCH_RECIPIENTS,
+} from '../services/constants';
+import { buildBatchRequests, parseBatchRecipients } from '../utils/BatchUtils';
+import { TokenInfo, TransactionRequest } from '../types';
+
+/**
+ * Batch Payout Screen
+ *
+ * Collects a list of recipients for one asset, typed in by hand or imported
+ * from a CSV file (address,amount[,memo] per line; see BatchUtils), and opens
+ * the Batch Confirm screen where the whole batch is reviewed and signed once.
+ *
+ * Every line is validated before review; invalid lines are listed by line
+ * number and must be fixed first.
+ */
+export default function BatchScreen() {
+  const router = useRouter();
+
+  // Tokens available on the active network (USDC first)
+  const tokens = NetworkService.getTokens();
+
+  const [asset, setAsset] = useState<TransactionRequest['asset']>('spl-token');
+  const [selectedToken, setSelectedToken] = useState<TokenInfo>(tokens[0]);
+  const [recipientsText, setRecipientsText] = useState('');
+  const [createRecipientAccount, setCreateRecipientAccount] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const selectedAsset = asset === 'sol' ? NATIVE_SOL : selectedToken;
+
+  /**
+   * Pick a CSV file and load its contents into the recipient list.
+   */
+  const handleImportCsv = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['text/csv', 'text/comma-separated-values', 'text/plain'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled) return;
+
+      setRecipientsText(await new File(result.assets[0].uri).text());
+      setErrors([]);
+    } catch (error: any) {
+      console.error('[BatchScreen] Failed to import CSV:', error);
+      setErrors([error.message || 'Unable to read the selected file.']);
+    }
+  };
+
+  /**
+   * Validate the recipient list and open the Batch Confirm screen.
+   */
+  const handleReview = () => {
+    const { recipients, errors: lineErrors } = parseBatchRecipients(
+      recipientsText,
+      selectedAsset
+    );
+
+    if (lineErrors.length > 0) {
+      setErrors(lineErrors.map(({ line, message }) => `Line ${line}: ${message}`));
+      return;
+    }
+    if (recipients.length === 0) {
+      setErrors(['Add at least one recipient']);
+      return;
+    }
+    if (recipients.length > MAX_BATCH_RECIPIENTS) {
+      setErrors([`A batch can have at most ${MAX_BATCH_RECIPIENTS} recipients`]);
+      return;
+    }
+
+    setErrors([]);
+    const transfers = buildBatchRequests(recipients, asset === 'sol' ? null : selectedToken, {
+      createRecipientAccount,
+    });
+    router.push({
+      pathname: '/batch-confirm',
+      params: { transfers: JSON.stringify(transfers) },
+    });
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={{ flex: 1 }}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+    >
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.contentContainer}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={styles.inputContainer}>
+          <Text style={styles.label}>Asset</Text>
+          <View style={styles.tokenPicker}>
+            {[...tokens, null].map((token) => {
+              const selected = token
+                ? asset === 'spl-token' && token.mint === selectedToken.mint
+                : asset === 'sol';
+              const option = token ?? NATIVE_SOL;
+
+              return (
+                <TouchableOpacity
+                  key={token?.mint ?? 'sol'}
+                  style={[styles.tokenOption, selected && styles.tokenOptionSelected]}
+                  onPress={() => {
+                    setAsset(token ? 'spl-token' : 'sol');
+                    if (token) setSelectedToken(token);
+                    setErrors([]);
+                  }}
+                  accessible={true}
+                  accessibilityRole="radio"
+                  accessibilityLabel={`${option.name} (${option.symbol})`}
+                  accessibilityState={{ selected }}
+                >
+                  <Text
+                    style={[styles.tokenOptionText, selected && styles.tokenOptionTextSelected]}
+                  >
+                    {option.symbol}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.label}>Recipients</Text>
+          <TextInput
+            style={[styles.input, styles.recipientsInput, errors.length > 0 && styles.inputError]}
+            placeholder={`address,amount,memo\n(one recipient per line, amounts in ${selectedAsset.symbol})`}
+            placeholderTextColor={Colors.neutral[500]}
+            value={recipientsText}
+            onChangeText={(text) => {
+              setRecipientsText(text);
+              setErrors([]);
+            }}
+            multiline={true}
+            textAlignVertical="top"
+            autoCapitalize="none"
+            autoCorrect={false}
+            accessible={true}
+            accessibilityLabel="Recipients, one address and amount per line"
+          />
+          {errors.map((error) => (
+            <Text key={error} style={styles.errorText}>
+              {error}
+            </Text>
+          ))}
+          <TouchableOpacity
+            style={styles.linkButton}
+            onPress={handleImportCsv}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel="Import CSV file"
+            accessibilityHint="Replaces the recipient list with the contents of a CSV file"
+          >
+            <Text style={styles.linkText}>Import CSV</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Create Recipient Account Toggle (opt-in, SPL tokens only) */}
+        {asset === 'spl-token' && (
+          <View style={styles.switchContainer}>
+            <View style={styles.switchTextContainer}>
+              <Text style={styles.label}>Create missing {selectedToken.symbol} accounts</Text>
+              <Text style={styles.helperText}>
+                Recipients who have never held {selectedToken.symbol} are skipped unless this is
+                on. Your wallet pays a small SOL rent for each account.
+              </Text>
+            </View>
+            <Switch
+              value={createRecipientAccount}
+              onValueChange={setCreateRecipientAccount}
+              trackColor={{ true: Colors.primary.purple, false: '#E5E5E5' }}
+              accessible={true}
+              accessibilityLabel={`Create missing recipient ${selectedToken.symbol} accounts`}
+            />
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={[styles.button, !recipientsText.trim() && styles.buttonDisabled]}
+          onPress={handleReview}
+          disabled={!recipientsText.trim()}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel="Review batch"
+          accessibilityHint="Validates recipients and proceeds to batch confirmation"
+          accessibilityState={{ disabled: !recipientsText.trim() }}
+        >
+          <Text style={styles.buttonText}>Review Batch</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.neutral[50], // Light background
+  },
+  contentContainer: {
+    padding: Spacing.xl, // 24pt padding
+  },
+  inputContainer: {
+    marginBottom: Spacing.lg, // 16pt
+  },
+  label: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.neutral[900],
+    marginBottom: Spacing.sm, // 8pt
+  },
+  input: {
+    height: 44, // WCAG AA minimum touch target
+    borderWidth: 1,
+    borderColor: '#E5E5E5', // Light gray border
+    borderRadius: BorderRadius.sm, // 8pt
+    paddingHorizontal: Spacing.lg, // 16pt
+    fontSize: Typography.fontSize.body, // 15pt
+    backgroundColor: '#fff',
+    color: Colors.neutral[900],
+  },
+  recipientsInput: {
+    height: 200,
+    paddingTop: Spacing.md, // 12pt
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace', // Align addresses
+    fontSize: Typography.fontSize.caption, // 11pt
+  },
+  inputError: {
+    borderColor: Colors.error, // Red border for errors
+  },
+  errorText: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    color: Colors.error, // Red text
+    marginTop: Spacing.xs, // 4pt
+  },
+  helperText: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    color: Colors.neutral[500],
+    marginTop: Spacing.xs, // 4pt
+  },
+  tokenPicker: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm, // 8pt
+  },
+  tokenOption: {
+    height: 36,
+    paddingHorizontal: Spacing.lg, // 16pt
+    borderRadius: BorderRadius.full, // Pill shape
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    backgroundColor: '#fff',
+    justifyContent: 'center',
+  },
+  tokenOptionSelected: {
+    borderColor: Colors.primary.purple,
+    backgroundColor: Colors.primary.purple,
+  },
+  tokenOptionText: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.neutral[900],
+  },
+  tokenOptionTextSelected: {
+    color: '#fff',
+  },
+  switchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: Spacing.xl, // 24pt
+  },
+  switchTextContainer: {
+    flex: 1,
+    marginRight: Spacing.md, // 12pt
+  },
+  linkButton: {
+    minHeight: 44, // WCAG AA minimum touch target
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+  },
+  linkText: {
+    fontSize: Typography.fontSize.body, // 15pt
+    color: Colors.primary.purple,
+    fontWeight: Typography.fontWeight.semibold, // 600
+  },
+  button: {
+    height: 44, // WCAG AA minimum touch target
+    backgroundColor: Colors.primary.purple, // Solana purple
+    borderRadius: BorderRadius.sm, // 8pt
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+  },
+  buttonDisabled: {
+    opacity: 0.5, // Visual feedback for disabled state
+  },
+});
@@ -6,31 +6,77 @@ import {
   ActivityIndicator,
   ScrollView,
   Linking,
+  Switch,
 } from 'react-native';
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useWallet } from '@lazorkit/wallet-mobile-adapter';
-import { Colors, Typography, Spacing, BorderRadius } from '../services/constants';
+import { Colors, Typography, Spacing, BorderRadius, NATIVE_SOL } from '../services/constants';
 import { SolanaService } from '../services/SolanaService';
-import { TransactionRequest } from '../types';
-import { truncateAddress, formatUSDC } from '../utils/FormattingUtils';
+import { ContactService } from '../services/ContactService';
+import { NetworkService } from '../services/NetworkService';
+import { ConfirmationService } from '../services/ConfirmationService';
+import { TransactionJournalService } from '../services/TransactionJournalService';
+import { ScheduleService } from '../services/ScheduleService';
+import { PolicyService } from '../services/PolicyService';
+import { SecurityService } from '../services/SecurityService';
+import { createWalletError, normalizeWalletError, WalletError } from '../services/errors';
+import {
+  PolicyEvaluation,
+  RecipientAccountStatus,
+  TransactionRequest,
+  TransactionStatus,
+} from '../types';
+import {
+  truncateAddress,
+  formatLabeledAddress,
+  formatTokenBaseUnits,
+  formatSOL,
+  formatConfirmationStatus,
+  formatDateTime,
+} from '../utils/FormattingUtils';
 
 /**
  * Transaction Confirm Screen
  *
  * Handles the complete transaction signing and submission flow:
- * 1. Display transaction preview (recipient, amount, gasless badge)
+ * 1. Display transaction preview (recipient with contact label, amount, memo, account creation rent, gasless badge)
  * 2. User confirms and triggers biometric authentication
- * 3. Build USDC transfer transaction using SolanaService
- * 4. Sign and submit via Lazorkit SDK (triggers biometric prompt)
- * 5. Poll for blockchain confirmation
- * 6. Display success/failure state with transaction details
+ * 3. Build SOL or token transfer transaction using SolanaService
+ * 4. Simulate the transaction; stop with the decoded reason if it would fail
+ * 5. Sign and submit via Lazorkit SDK (triggers biometric prompt)
+ * 6. Track confirmation with ConfirmationService (processed → confirmed → finalized)
+ * 7. Display success/failure state with transaction details
+ *
+ * Every attempt is journaled with TransactionJournalService, including ones
+ * that never reach the chain (cancelled biometrics, paymaster rejection).
+ *
+ * The transfer is checked against the spending policy (PolicyService) before
+ * it can be signed: blocking violations disable Confirm & Sign, other
+ * violations (over a limit, new recipient) must be explicitly acknowledged.
+ * If the policy cannot be checked, signing stays disabled.
+ *
+ * A scheduled run (optional `scheduledRun` param, JSON { scheduleId, dueAt },
+ * from the Scheduled Transfers screen) also records its outcome with
+ * ScheduleService: 'submitted' once sent, then 'sent' when confirmed on-chain or
+ * 'failed' if nothing was sent or the transfer failed.
  *
  * State Management:
  * - transactionStatus: Tracks UI state (preview → pending → confirmed/failed)
  * - signature: Transaction signature returned from blockchain
- * - error: User-friendly error message if transaction fails
+ * - failure: Typed WalletError if transaction fails (UI renders from failure.code)
  * - isSubmitting: Loading state for button during signing
+ * - isChecking: Pre-flight simulation is running (before the biometric prompt)
+ * - preflightFailed: Simulation showed the transfer would fail, so nothing was signed
+ * - confirmation: Latest TransactionStatus from ConfirmationService (commitment, confirmations)
+ * - trackingTimedOut: Still unconfirmed after tracking timeout; resumed later from Home
+ * - policy: Spending policy evaluation (null while loading or if the check failed)
+ * - policyError: The spending policy could not be checked (signing stays blocked)
+ * - policyAcknowledged: User confirmed sending despite non-blocking policy violations
+ *
+ * Success is shown once the transfer is 'confirmed'; the finality row keeps
+ * updating until it is 'finalized'. Leaving the screen does not lose the
+ * transaction: it stays persisted until final and Home resumes tracking it.
  *
  * Paymaster Integration:
  * - Paymaster automatically sponsors gas fees when using wallet.signAndSendTransaction()
@@ -52,43 +98,179 @@ export default function ConfirmScreen() {
     params.transactionRequest as string
   );
 
+  // Symbol and decimals of the transferred asset (native SOL or an SPL token)
+  const asset = transactionRequest.asset === 'sol' ? NATIVE_SOL : transactionRequest.token;
+  const { symbol } = asset;
+
+  // Scheduled run being paid, if opened from the Scheduled Transfers screen
+  const scheduledRun: { scheduleId: string; dueAt: number } | null = params.scheduledRun
+    ? JSON.parse(params.scheduledRun as string)
+    : null;
+
   // Component state for transaction lifecycle
   const [transactionStatus, setTransactionStatus] = useState<
     'preview' | 'pending' | 'confirmed' | 'failed'
   >('preview');
   const [signature, setSignature] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [failure, setFailure] = useState<WalletError | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+  const [preflightFailed, setPreflightFailed] = useState(false);
+  const [confirmation, setConfirmation] = useState<TransactionStatus | null>(null);
+  const [trackingTimedOut, setTrackingTimedOut] = useState(false);
+  const [policy, setPolicy] = useState<PolicyEvaluation | null>(null);
+  const [policyError, setPolicyError] = useState<string | null>(null);
+  const [policyAcknowledged, setPolicyAcknowledged] = useState(false);
+  const [reauthAvailable, setReauthAvailable] = useState(true);
+
+  // Unsubscribe from ConfirmationService updates when leaving the screen
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+  useEffect(() => () => unsubscribeRef.current?.(), []);
+  const [recipientAccount, setRecipientAccount] = useState<RecipientAccountStatus | null>(null);
+  const [recipientLabel, setRecipientLabel] = useState<string | undefined>(undefined);
+
+  /**
+   * Look up the recipient in the address book to show its label.
+   */
+  useEffect(() => {
+    ContactService.findByAddress(transactionRequest.recipientAddress).then((contact) =>
+      setRecipientLabel(contact?.label)
+    );
+  }, [transactionRequest.recipientAddress]);
+
+  /**
+   * Look up recipient's token account when account creation is opted in.
+   * Used to show the rent line in the preview and to explain paymaster rent rejections.
+   */
+  useEffect(() => {
+    if (transactionRequest.asset !== 'spl-token' || !transactionRequest.createRecipientAccount) {
+      return;
+    }
+
+    SolanaService.getRecipientAccountStatus(
+      transactionRequest.recipientAddress,
+      transactionRequest.token
+    )
+      .then(setRecipientAccount)
+      .catch((err) => console.error('Failed to check recipient account:', err));
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- transactionRequest is re-parsed each render; params string is stable
+  }, [params.transactionRequest]);
+
+  /**
+   * Check the transfer against the spending policy (limits, recipient lists, new recipient).
+   */
+  useEffect(() => {
+    PolicyService.evaluateTransfer(transactionRequest)
+      .then(setPolicy)
+      .catch((error) => {
+        console.error('[ConfirmScreen] Failed to check spending policy:', error);
+        setPolicyError('Could not check your spending policy. Please try again.');
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- transactionRequest is re-parsed each render; params string is stable
+  }, [params.transactionRequest]);
+
+  // Signing is allowed once the policy is checked (never if the check failed), not blocked
+  // and any warnings acknowledged
+  const policyAllowsSigning =
+    !!policy && !policy.blocked && (!policy.requiresConfirmation || policyAcknowledged);
+
+  // Transfers at or above the re-authentication threshold ask for biometrics before signing
+  const reauthToken =
+    transactionRequest.asset === 'spl-token' ? transactionRequest.token : undefined;
+  const reauthRequired = SecurityService.requiresReauthentication(
+    reauthToken,
+    BigInt(transactionRequest.amountLamports)
+  );
+
+  /**
+   * Check that a high-value transfer can be confirmed: without enrolled
+   * biometrics or passcode it is blocked.
+   */
+  useEffect(() => {
+    if (reauthRequired) {
+      SecurityService.canUseAppLock().then(setReauthAvailable);
+    }
+  }, [reauthRequired]);
+
+  // Signing also needs a connected SDK wallet (in watch mode the user must reconnect
+  // first) and, for a high-value transfer, local authentication to confirm it with
+  const signingAllowed =
+    policyAllowsSigning && wallet.isConnected && (!reauthRequired || reauthAvailable);
+
+  // True when this transfer will create the recipient's token account
+  const createsRecipientAccount =
+    transactionRequest.asset === 'spl-token' &&
+    !!transactionRequest.createRecipientAccount &&
+    recipientAccount?.exists === false;
 
   /**
    * Handle "Confirm & Sign" button press.
    *
+   * Does nothing unless the spending policy allows signing and the wallet is
+   * connected (see signingAllowed). A high-value transfer (see reauthRequired)
+   * first asks for biometrics or the device passcode; cancelling, or a device
+   * without either, stays on the preview.
+   *
    * Initiates the complete transaction signing and submission flow:
-   * 1. Build USDC transfer transaction with SolanaService
-   * 2. Trigger biometric authentication via wallet.signAndSendTransaction()
-   * 3. Paymaster automatically sponsors gas fees (handled by SDK)
-   * 4. Poll for transaction confirmation on blockchain
-   * 5. Update UI based on result (confirmed or failed)
+   * 1. Build SOL or token transfer transaction with SolanaService
+   * 2. Simulate it with SolanaService.simulateTransfer(); a 'failed' result stops
+   *    here with the decoded reason, before any biometric prompt
+   * 3. Trigger biometric authentication via wallet.signAndSendTransaction()
+   * 4. Paymaster automatically sponsors gas fees (handled by SDK)
+   * 5. Record the submission and track its confirmation (blockhash expiry aware)
+   * 6. Update UI based on progress (confirmed, finalized, failed or expired)
+   *
+   * The attempt is journaled from the start; failures are recorded with their code.
+   * A scheduled run records 'submitted' after submission, then 'sent' or 'failed'
+   * from the final status of ConfirmationService.track() ('failed' also if nothing
+   * was sent). If tracking times out, ScheduleService settles it from the journal.
+   *
+   * Once signAndSendTransaction() returns a signature the transfer counts as
+   * submitted: later errors keep the pending state and never offer a retry, since
+   * sending again could pay twice.
    *
    * Error Handling:
-   * - User cancelled biometric: Show "Transaction signing was cancelled"
-   * - Recipient account not initialized: Show descriptive error about account setup
-   * - Insufficient balance: Show "Insufficient USDC balance"
-   * - Network errors: Show "Network error, please try again"
-   * - Other errors: Show generic error message
+   * Every error is converted with normalizeWalletError() and stored as `failure`;
+   * the failed state renders its message and explanation from failure.code
+   * (see getFailureMessage() and getFailureExplanation()).
    */
   const handleConfirmAndSign = async () => {
+    if (!signingAllowed) return;
+    if (
+      reauthRequired &&
+      !(await SecurityService.confirmHighValueTransfer(
+        reauthToken,
+        BigInt(transactionRequest.amountLamports)
+      ))
+    ) {
+      return;
+    }
+
     setIsSubmitting(true);
+    setIsChecking(true);
+    setPreflightFailed(false);
     setTransactionStatus('pending');
 
+    const journalEntry = await TransactionJournalService.recordAttempt(transactionRequest);
+    let submitted = false;
+
     try {
-      // Build USDC transfer transaction using SolanaService
-      // This creates the SPL Token transfer instruction with sender/recipient token accounts
-      const transaction = await SolanaService.buildUSDCTransfer(
+      // Build transfer transaction using SolanaService
+      // SOL: System Program transfer; SPL: token transfer between sender/recipient token accounts
+      const transaction = await SolanaService.buildTransfer(
         transactionRequest,
         wallet.smartWalletPubkey!
       );
 
+      // Simulate before the biometric prompt: a transfer that would fail is never signed
+      // 'inconclusive' (RPC or smart wallet signer not simulatable) lets signing continue
+      const simulation = await SolanaService.simulateTransfer(transaction, transactionRequest);
+      setIsChecking(false);
+      if (simulation.status === 'failed') {
+        setPreflightFailed(true);
+        throw createWalletError(simulation.code ?? 'PROGRAM_ERROR', simulation.reason);
+      }
+
       // Sign and send transaction via Lazorkit SDK
       // This triggers biometric prompt (Face ID/Touch ID) for user authentication
       // After signing, SDK automatically sends transaction to paymaster for gas sponsorship
@@ -97,58 +279,85 @@ export default function ConfirmScreen() {
         {
           instructions: transaction.instructions,
           transactionOptions: {
-            clusterSimulation: 'devnet',
+            clusterSimulation: NetworkService.getActiveProfile().clusterSimulation,
           },
         },
         {
           redirectUrl: 'passkey-integ://confirm',
         }
       );
+      submitted = true;
       setSignature(txSignature);
-
-      // Poll for transaction confirmation on blockchain
-      // Uses 'confirmed' commitment level (32 confirmations, ~15-20 seconds)
-      const status = await SolanaService.confirmTransaction(txSignature);
-
-      if (status.status === 'confirmed') {
-        setTransactionStatus('confirmed');
-      } else {
-        setTransactionStatus('failed');
-        setError(status.error || 'Transaction failed');
+      await TransactionJournalService.recordSubmission(journalEntry.id, txSignature);
+      if (scheduledRun) {
+        await ScheduleService.recordRun(scheduledRun.scheduleId, scheduledRun.dueAt, {
+          status: 'submitted',
+          journalEntryId: journalEntry.id,
+          signature: txSignature,
+        });
       }
-    } catch (error: any) {
-      setTransactionStatus('failed');
 
-      // Parse error and provide user-friendly error messages
-      let errorMessage = 'Transaction failed. Please try again.';
-
-      if (
-        error.message?.includes('User rejected') ||
-        error.message?.includes('cancelled')
-      ) {
-        errorMessage = 'Transaction signing was cancelled';
-      } else if (error.message?.includes('not initialized')) {
-        errorMessage =
-          'Recipient has not yet initialized their USDC account. They must receive USDC at least once before you can send to them.';
-      } else if (error.message?.includes('Insufficient')) {
-        errorMessage = "You don't have enough USDC to complete this transfer";
-      } else if (
-        error.message?.includes('Network') ||
-        error.message?.includes('timeout')
-      ) {
-        errorMessage = 'Network error. Please check your connection and try again.';
-      } else if (
-        error.message?.includes('rejected') ||
-        error.message?.includes('Paymaster')
-      ) {
-        errorMessage =
-          'Transaction could not be sponsored. Please try again later.';
+      // Persist the signature with its blockhash expiry, then track it
+      // processed → confirmed (~1-2 seconds) → finalized (~13 seconds)
+      const pending = await ConfirmationService.recordSubmission(
+        txSignature,
+        transactionRequest
+      );
+      const tracking = ConfirmationService.track(pending);
+      unsubscribeRef.current = ConfirmationService.subscribe(txSignature, handleConfirmationUpdate);
+
+      const finalStatus = await tracking;
+      if (finalStatus.status === 'pending' || finalStatus.status === 'processed') {
+        // Tracking timed out; the transaction stays persisted and Home resumes it
+        setTrackingTimedOut(true);
+      } else if (scheduledRun) {
+        // A run that failed or expired on-chain stays due
+        const failed = finalStatus.status === 'failed' || finalStatus.status === 'expired';
+        await ScheduleService.recordRun(scheduledRun.scheduleId, scheduledRun.dueAt, {
+          status: failed ? 'failed' : 'sent',
+          journalEntryId: journalEntry.id,
+          signature: txSignature,
+          ...(failed && finalStatus.errorCode && { errorCode: finalStatus.errorCode }),
+        });
+      }
+    } catch (error) {
+      const walletError = normalizeWalletError(error, { symbol, createsRecipientAccount });
+      await TransactionJournalService.recordFailure(journalEntry.id, walletError);
+      if (submitted) {
+        // Already broadcast: stay in the pending state, the status is checked from Home
+        console.error('Error after submission:', error);
+        setTrackingTimedOut(true);
+        return;
       }
 
-      setError(errorMessage);
+      setTransactionStatus('failed');
+      setFailure(walletError);
+      if (scheduledRun) {
+        // The run stays due so it can be retried or skipped
+        await ScheduleService.recordRun(scheduledRun.scheduleId, scheduledRun.dueAt, {
+          status: 'failed',
+          journalEntryId: journalEntry.id,
+          errorCode: walletError.code,
+        });
+      }
       console.error('Transaction error:', error);
     } finally {
       setIsSubmitting(false);
+      setIsChecking(false);
+    }
+  };
+
+  /**
+   * Apply a confirmation progress update from ConfirmationService.
+   * 'confirmed' shows success (finality keeps updating); 'failed' and 'expired' show the failure.
+   */
+  const handleConfirmationUpdate = (status: TransactionStatus) => {
+    setConfirmation(status);
+    if (status.status === 'confirmed' || status.status === 'finalized') {
+      setTransactionStatus('confirmed');
+    } else if (status.status === 'failed' || status.status === 'expired') {
+      setTransactionStatus('failed');
+      setFailure(createWalletError(status.errorCode ?? 'PROGRAM_ERROR', status.error));
     }
   };
 
@@ -162,23 +371,72 @@ export default function ConfirmScreen() {
 
   /**
    * Open transaction in Solana Explorer.
-   * Constructs Devnet Explorer URL with transaction signature and opens in browser.
+   * Constructs Explorer URL for the active network with transaction signature and opens in browser.
    */
   const handleViewOnExplorer = () => {
     if (signature) {
-      const explorerUrl = `https://explorer.solana.com/tx/${signature}?cluster=devnet`;
-      Linking.openURL(explorerUrl);
+      Linking.openURL(SolanaService.getExplorerUrl(signature));
     }
   };
 
   /**
    * Reset transaction to preview state for retry.
-   * Used when transaction fails and user wants to try again.
+   * Only offered when the transaction failed before it was sent (no signature).
    */
   const handleTryAgain = () => {
     setTransactionStatus('preview');
     setSignature(null);
-    setError(null);
+    setFailure(null);
+    setPreflightFailed(false);
+    setConfirmation(null);
+    setTrackingTimedOut(false);
+  };
+
+  /**
+   * Headline for the failed state.
+   * A paymaster rejection while creating the recipient account is about rent.
+   */
+  const getFailureMessage = (walletError: WalletError): string => {
+    if (walletError.code === 'PAYMASTER_REJECTED' && createsRecipientAccount) {
+      return `The paymaster would not sponsor the rent to create the recipient's ${symbol} account (${formatSOL(
+        BigInt(recipientAccount!.rentLamports)
+      )}).`;
+    }
+    if (walletError.code === 'RECIPIENT_ATA_MISSING' && transactionRequest.asset === 'spl-token') {
+      return `Recipient has not yet initialized their ${symbol} account. Enable "Create recipient ${symbol} account" on the transfer form to create it for them.`;
+    }
+    return walletError.message;
+  };
+
+  /**
+   * "What happened?" explanation for the failed state, chosen by error code.
+   */
+  const getFailureExplanation = (walletError: WalletError): string => {
+    if (preflightFailed) {
+      return 'This transfer was checked before signing and would fail on-chain. Nothing was signed or sent.';
+    }
+    switch (walletError.code) {
+      case 'USER_CANCELLED':
+        return 'You cancelled the transaction by rejecting the biometric prompt.';
+      case 'PAYMASTER_REJECTED':
+        return createsRecipientAccount
+          ? `Creating a ${symbol} account requires a SOL rent deposit. Add SOL to your wallet, or ask the recipient to receive ${symbol} once before you send.`
+          : 'The paymaster declined to pay the network fee for this transaction.';
+      case 'RENT_EXEMPT_MINIMUM':
+        return 'The recipient address has no SOL yet. New Solana accounts must start with a minimum SOL balance.';
+      case 'RECIPIENT_ATA_MISSING':
+        return `The recipient needs to set up their ${symbol} account first.`;
+      case 'INSUFFICIENT_FUNDS':
+        return `Your wallet does not have enough ${symbol} for this transfer.`;
+      case 'RPC_TIMEOUT':
+        return 'Unable to connect to the blockchain. Check your internet connection.';
+      case 'BLOCKHASH_EXPIRED':
+        return 'The network did not process the transaction in time, so nothing was transferred.';
+      case 'PROGRAM_ERROR':
+        return 'A Solana program rejected the transaction. No funds were moved.';
+      default:
+        return 'An unexpected error occurred. Please try again.';
+    }
   };
 
   return (
@@ -195,29 +453,134 @@ export default function ConfirmScreen() {
             <View style={styles.detailRow}>
               <Text style={styles.label}>Recipient</Text>
               <Text style={styles.value}>
-                {truncateAddress(transactionRequest.recipientAddress)}
+                {formatLabeledAddress(transactionRequest.recipientAddress, recipientLabel)}
               </Text>
             </View>
 
             <View style={styles.detailRow}>
               <Text style={styles.label}>Amount</Text>
               <Text style={styles.value}>
-                {formatUSDC(transactionRequest.amount)}
+                {formatTokenBaseUnits(transactionRequest.amountLamports, asset)}
               </Text>
             </View>
 
+            {transactionRequest.memo && (
+              <View style={styles.detailRow}>
+                <Text style={styles.label}>Memo</Text>
+                <Text style={styles.value}>{transactionRequest.memo}</Text>
+              </View>
+            )}
+
+            {scheduledRun && (
+              <View style={styles.detailRow}>
+                <Text style={styles.label}>Scheduled for</Text>
+                <Text style={styles.value}>{formatDateTime(scheduledRun.dueAt)}</Text>
+              </View>
+            )}
+
+            {/* Solana Pay request details (display only) */}
+            {transactionRequest.label && (
+              <View style={styles.detailRow}>
+                <Text style={styles.label}>Requested by</Text>
+                <Text style={styles.value}>{transactionRequest.label}</Text>
+              </View>
+            )}
+
+            {transactionRequest.message && (
+              <View style={styles.detailRow}>
+                <Text style={styles.label}>For</Text>
+                <Text style={styles.value}>{transactionRequest.message}</Text>
+              </View>
+            )}
+
+            {createsRecipientAccount && (
+              <Text style={styles.noticeText}>
+                This will create their {symbol} account (rent:{' '}
+                {formatSOL(BigInt(recipientAccount!.rentLamports))})
+              </Text>
+            )}
+
             <View style={styles.gaslessBadge}>
               <Text style={styles.gaslessBadgeText}>⚡ Gasless Transaction</Text>
             </View>
           </View>
 
+          {/* Spending policy could not be checked: fail closed */}
+          {policyError && (
+            <View
+              style={[styles.policyCard, styles.policyCardBlocked]}
+              accessible={true}
+              accessibilityLiveRegion="polite"
+            >
+              <Text style={[styles.policyTitle, styles.policyTitleBlocked]}>
+                Spending policy could not be checked
+              </Text>
+              <Text style={styles.policyText}>{policyError}</Text>
+            </View>
+          )}
+
+          {/* Spending policy violations: blocked, or confirmed explicitly */}
+          {policy && policy.violations.length > 0 && (
+            <View
+              style={[styles.policyCard, policy.blocked && styles.policyCardBlocked]}
+              accessible={true}
+              accessibilityLiveRegion="polite"
+            >
+              <Text style={[styles.policyTitle, policy.blocked && styles.policyTitleBlocked]}>
+                {policy.blocked ? 'Blocked by your spending policy' : 'Check before sending'}
+              </Text>
+              {policy.violations.map((violation) => (
+                <Text key={violation.rule} style={styles.policyText}>
+                  • {violation.message}
+                </Text>
+              ))}
+              {policy.requiresConfirmation && (
+                <View style={styles.policyAcknowledgeRow}>
+                  <Text style={styles.policyAcknowledgeText}>I understand, send anyway</Text>
+                  <Switch
+                    value={policyAcknowledged}
+                    onValueChange={setPolicyAcknowledged}
+                    trackColor={{ true: Colors.primary.purple, false: '#E5E5E5' }}
+                    accessible={true}
+                    accessibilityLabel="I understand the warnings and want to send anyway"
+                  />
+                </View>
+              )}
+            </View>
+          )}
+
+          {/* Watch mode: signing needs a reconnect from Home */}
+          {!wallet.isConnected && (
+            <Text style={styles.reconnectNotice}>
+              Your wallet is in watch mode. Reconnect from Home to sign this transfer.
+            </Text>
+          )}
+
+          {/* High-value transfer: local authentication before the passkey prompt */}
+          {reauthRequired &&
+            (reauthAvailable ? (
+              <Text style={styles.noticeText}>
+                This transfer is above your re-authentication threshold. You will be asked to
+                unlock with biometrics or your device passcode before signing.
+              </Text>
+            ) : (
+              <Text style={styles.errorText}>
+                This transfer is above your re-authentication threshold. Set up biometrics or a
+                device passcode to send it.
+              </Text>
+            ))}
+
           <TouchableOpacity
-            style={[styles.primaryButton, isSubmitting && { opacity: 0.5 }]}
+            style={[
+              styles.primaryButton,
+              (isSubmitting || !signingAllowed) && { opacity: 0.5 },
+            ]}
             onPress={handleConfirmAndSign}
-            disabled={isSubmitting}
+            disabled={isSubmitting || !signingAllowed}
             accessible={true}
             accessibilityRole="button"
             accessibilityLabel="Confirm and sign transaction with biometrics"
+            accessibilityState={{ disabled: isSubmitting || !signingAllowed }}
           >
             {isSubmitting ? (
               <ActivityIndicator color="#fff" />
@@ -243,10 +606,22 @@ export default function ConfirmScreen() {
         <View style={styles.statusContainer}>
           <Text style={styles.title}>Processing Transaction</Text>
           <ActivityIndicator size="large" color={Colors.primary.purple} />
-          <Text style={styles.loadingText}>
-            Waiting for blockchain confirmation...
-          </Text>
-          <Text style={styles.loadingText}>This may take 15-30 seconds</Text>
+          {isChecking ? (
+            <Text style={styles.loadingText}>Checking transaction before signing...</Text>
+          ) : (
+            <>
+              <Text style={styles.loadingText}>
+                {confirmation
+                  ? formatConfirmationStatus(confirmation)
+                  : 'Waiting for blockchain confirmation...'}
+              </Text>
+              <Text style={styles.loadingText}>
+                {trackingTimedOut
+                  ? 'This is taking longer than usual. You can leave this screen; the wallet keeps checking the status.'
+                  : 'This usually takes a few seconds'}
+              </Text>
+            </>
+          )}
           {signature && (
             <Text style={styles.loadingText}>
               Signature: {truncateAddress(signature, 8, 8)}
@@ -262,7 +637,7 @@ export default function ConfirmScreen() {
             <Text style={styles.statusIcon}>✓</Text>
             <Text style={styles.title}>Transaction Successful</Text>
             <Text style={styles.statusMessage}>
-              Your USDC transfer was successful
+              Your {symbol} transfer was successful
             </Text>
           </View>
 
@@ -270,17 +645,31 @@ export default function ConfirmScreen() {
             <View style={styles.detailRow}>
               <Text style={styles.label}>Amount Sent</Text>
               <Text style={styles.value}>
-                {formatUSDC(transactionRequest.amount)}
+                {formatTokenBaseUnits(transactionRequest.amountLamports, asset)}
               </Text>
             </View>
 
             <View style={styles.detailRow}>
               <Text style={styles.label}>Recipient</Text>
               <Text style={styles.value}>
-                {truncateAddress(transactionRequest.recipientAddress)}
+                {formatLabeledAddress(transactionRequest.recipientAddress, recipientLabel)}
               </Text>
             </View>
 
+            {transactionRequest.memo && (
+              <View style={styles.detailRow}>
+                <Text style={styles.label}>Memo</Text>
+                <Text style={styles.value}>{transactionRequest.memo}</Text>
+              </View>
+            )}
+
+            {confirmation && (
+              <View style={styles.detailRow}>
+                <Text style={styles.label}>Status</Text>
+                <Text style={styles.value}>{formatConfirmationStatus(confirmation)}</Text>
+              </View>
+            )}
+
             {signature && (
               <View style={styles.detailRow}>
                 <Text style={styles.label}>Signature</Text>
@@ -320,34 +709,44 @@ export default function ConfirmScreen() {
             <Text style={[styles.statusIcon, { color: Colors.error }]}>✗</Text>
             <Text style={styles.title}>Transaction Failed</Text>
             <Text style={[styles.statusMessage, styles.errorText]}>
-              {error || 'Transaction failed. Please try again.'}
+              {failure ? getFailureMessage(failure) : 'Transaction failed. Please try again.'}
             </Text>
           </View>
 
           <View style={styles.detailsCard}>
             <Text style={styles.label}>What happened?</Text>
             <Text style={styles.value}>
-              {error?.includes('cancelled')
-                ? 'You cancelled the transaction by rejecting the biometric prompt.'
-                : error?.includes('not initialized')
-                ? 'The recipient needs to set up their USDC account first.'
-                : error?.includes('Insufficient')
-                ? 'Your wallet does not have enough USDC for this transfer.'
-                : error?.includes('Network')
-                ? 'Unable to connect to the blockchain. Check your internet connection.'
+              {failure
+                ? getFailureExplanation(failure)
                 : 'An unexpected error occurred. Please try again.'}
             </Text>
           </View>
 
-          <TouchableOpacity
-            style={styles.primaryButton}
-            onPress={handleTryAgain}
-            accessible={true}
-            accessibilityRole="button"
-            accessibilityLabel="Try transaction again"
-          >
-            <Text style={styles.primaryButtonText}>Try Again</Text>
-          </TouchableOpacity>
+          {/* Never retry a transaction that was sent: it could pay twice */}
+          {!signature && (
+            <TouchableOpacity
+              style={styles.primaryButton}
+              onPress={handleTryAgain}
+              accessible={true}
+              accessibilityRole="button"
+              accessibilityLabel="Try transaction again"
+            >
+              <Text style={styles.primaryButtonText}>Try Again</Text>
+            </TouchableOpacity>
+          )}
+
+          {/* A signature exists when the failure happened after submission */}
+          {signature && (
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={handleViewOnExplorer}
+              accessible={true}
+              accessibilityRole="button"
+              accessibilityLabel="View transaction on Solana Explorer"
+            >
+              <Text style={styles.secondaryButtonText}>View on Explorer</Text>
+            </TouchableOpacity>
+          )}
 
           <TouchableOpacity
             style={styles.secondaryButton}
@@ -409,6 +808,54 @@ const styles = StyleSheet.create({
     flex: 1,
     marginLeft: Spacing.md,
   },
+  noticeText: {
+    fontSize: Typography.fontSize.caption,
+    color: Colors.warning,
+    marginBottom: Spacing.md,
+  },
+  policyCard: {
+    backgroundColor: '#fff',
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.warning,
+    padding: Spacing.lg,
+    marginBottom: Spacing.md,
+  },
+  policyCardBlocked: {
+    borderColor: Colors.error,
+  },
+  policyTitle: {
+    fontSize: Typography.fontSize.body,
+    fontWeight: Typography.fontWeight.semibold,
+    color: Colors.warning,
+    marginBottom: Spacing.sm,
+  },
+  policyTitleBlocked: {
+    color: Colors.error,
+  },
+  policyText: {
+    fontSize: Typography.fontSize.caption,
+    color: Colors.neutral[900],
+    marginBottom: Spacing.xs,
+  },
+  reconnectNotice: {
+    fontSize: Typography.fontSize.caption,
+    color: Colors.error,
+    textAlign: 'center',
+    marginBottom: Spacing.md,
+  },
+  policyAcknowledgeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: Spacing.sm,
+  },
+  policyAcknowledgeText: {
+    fontSize: Typography.fontSize.body,
+    color: Colors.neutral[900],
+    flex: 1,
+    marginRight: Spacing.md,
+  },
   gaslessBadge: {
     backgroundColor: Colors.primary.purple,
     paddingHorizontal: Spacing.md,
@@ -0,0 +1,247 @@
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { useState } from 'react';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { ContactService } from '../services/ContactService';
+import { Colors, Typography, Spacing, BorderRadius } from '../services/constants';
+import {
+  isValidContactLabel,
+  isValidSolanaAddress,
+  MAX_CONTACT_LABEL_LENGTH,
+} from '../utils/ValidationUtils';
+import type { Contact } from '../types';
+
+/**
+ * Contact Edit Screen
+ *
+ * Adds a new contact or edits/deletes an existing one.
+ * An existing contact is passed via navigation params as a JSON string
+ * (same pattern as History Detail); without it the form starts empty.
+ * An optional `address` param pre-fills the address of a new contact.
+ *
+ * Inputs are validated on save; ContactService also rejects duplicate addresses.
+ */
+export default function ContactEditScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams();
+
+  // Parse existing Contact from route params (absent when adding)
+  const existing: Contact | null = params.contact
+    ? JSON.parse(params.contact as string)
+    : null;
+
+  const [label, setLabel] = useState(existing?.label ?? '');
+  const [address, setAddress] = useState(
+    existing?.address ?? ((params.address as string | undefined) || '')
+  );
+  const [labelError, setLabelError] = useState<string | null>(null);
+  const [addressError, setAddressError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  /**
+   * Validate inputs and save the contact, then return to the previous screen.
+   */
+  const handleSave = async () => {
+    const labelValidation = isValidContactLabel(label);
+    const addressValidation = isValidSolanaAddress(address.trim());
+    setLabelError(labelValidation.error || null);
+    setAddressError(addressValidation.error || null);
+    setSaveError(null);
+    if (!labelValidation.valid || !addressValidation.valid) return;
+
+    setSaving(true);
+    try {
+      if (existing) {
+        await ContactService.updateContact(existing.id, label, address);
+      } else {
+        await ContactService.addContact(label, address);
+      }
+      router.back();
+    } catch (error: any) {
+      setSaveError(error.message || 'Unable to save contact. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /**
+   * Delete the contact after user confirmation.
+   */
+  const handleDelete = () => {
+    if (!existing) return;
+
+    Alert.alert(`Delete ${existing.label}?`, 'This only removes the saved name and address.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await ContactService.deleteContact(existing.id);
+            router.back();
+          } catch (error: any) {
+            Alert.alert('Unable to delete contact', error.message || 'Please try again.');
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={{ flex: 1 }}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+    >
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.contentContainer}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Text style={styles.title}>{existing ? 'Edit Contact' : 'New Contact'}</Text>
+
+        {/* Label Input */}
+        <View style={styles.inputContainer}>
+          <Text style={styles.label}>Name</Text>
+          <TextInput
+            style={[styles.input, labelError && styles.inputError]}
+            placeholder="e.g. Alice"
+            placeholderTextColor={Colors.neutral[500]}
+            value={label}
+            onChangeText={setLabel}
+            maxLength={MAX_CONTACT_LABEL_LENGTH}
+            accessible={true}
+            accessibilityLabel="Contact name"
+          />
+          {labelError && <Text style={styles.errorText}>{labelError}</Text>}
+        </View>
+
+        {/* Address Input */}
+        <View style={styles.inputContainer}>
+          <Text style={styles.label}>Solana Address</Text>
+          <TextInput
+            style={[styles.input, addressError && styles.inputError]}
+            placeholder="Enter Solana address"
+            placeholderTextColor={Colors.neutral[500]}
+            value={address}
+            onChangeText={setAddress}
+            autoCapitalize="none"
+            autoCorrect={false}
+            accessible={true}
+            accessibilityLabel="Contact Solana address"
+          />
+          {addressError && <Text style={styles.errorText}>{addressError}</Text>}
+        </View>
+
+        {saveError && <Text style={styles.errorText}>{saveError}</Text>}
+
+        <TouchableOpacity
+          style={[styles.primaryButton, saving && styles.buttonDisabled]}
+          onPress={handleSave}
+          disabled={saving}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel="Save contact"
+          accessibilityState={{ disabled: saving }}
+        >
+          <Text style={styles.primaryButtonText}>Save</Text>
+        </TouchableOpacity>
+
+        {existing && (
+          <TouchableOpacity
+            style={styles.deleteButton}
+            onPress={handleDelete}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={`Delete contact ${existing.label}`}
+          >
+            <Text style={styles.deleteButtonText}>Delete Contact</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.neutral[50], // Light background
+  },
+  contentContainer: {
+    padding: Spacing.xl, // 24pt padding
+  },
+  title: {
+    fontSize: Typography.fontSize.h2, // 24pt
+    fontWeight: Typography.fontWeight.bold, // 700
+    color: Colors.neutral[900], // Dark text
+    marginBottom: Spacing.xxl, // 32pt
+  },
+  inputContainer: {
+    marginBottom: Spacing.xl, // 24pt spacing between inputs
+  },
+  label: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.neutral[900],
+    marginBottom: Spacing.sm, // 8pt
+  },
+  input: {
+    height: 44, // WCAG AA minimum touch target
+    borderWidth: 1,
+    borderColor: '#E5E5E5', // Light gray border
+    borderRadius: BorderRadius.sm, // 8pt
+    paddingHorizontal: Spacing.lg, // 16pt
+    fontSize: Typography.fontSize.body, // 15pt
+    backgroundColor: '#fff',
+    color: Colors.neutral[900],
+  },
+  inputError: {
+    borderColor: Colors.error, // Red border for errors
+  },
+  errorText: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    color: Colors.error, // Red text
+    marginTop: Spacing.xs, // 4pt
+  },
+  primaryButton: {
+    height: 44, // WCAG AA minimum touch target
+    backgroundColor: Colors.primary.purple,
+    borderRadius: BorderRadius.sm, // 8pt
+    marginTop: Spacing.xl, // 24pt
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5, // Visual feedback for disabled state
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+  },
+  deleteButton: {
+    height: 44, // WCAG AA minimum touch target
+    borderRadius: BorderRadius.sm, // 8pt
+    borderWidth: 1,
+    borderColor: Colors.error,
+    marginTop: Spacing.md, // 12pt
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  deleteButtonText: {
+    color: Colors.error,
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+  },
+});
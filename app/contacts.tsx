@@ -0,0 +1,127 @@
+import { Text, TouchableOpacity, StyleSheet, FlatList } from 'react-native';
+import { useCallback, useState } from 'react';
+import { useRouter, useFocusEffect } from 'expo-router';
+import { ContactService } from '../services/ContactService';
+import { Colors, Typography, Spacing, BorderRadius } from '../services/constants';
+import { truncateAddress } from '../utils/FormattingUtils';
+import type { Contact } from '../types';
+
+/**
+ * Contacts Screen
+ *
+ * Lists saved recipients (address book) sorted by label.
+ * Tapping a contact opens the Contact Edit screen; "Add Contact" opens it empty.
+ *
+ * The list reloads whenever the screen regains focus, so edits made on the
+ * Contact Edit screen show up on return.
+ */
+export default function ContactsScreen() {
+  const router = useRouter();
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      ContactService.getContacts().then((result) => {
+        setContacts(result);
+        setLoaded(true);
+      });
+    }, [])
+  );
+
+  /**
+   * Open the edit form for an existing contact (or an empty form when omitted).
+   */
+  const handleOpenContact = (contact?: Contact) => {
+    router.push({
+      pathname: '/contact-edit',
+      params: contact ? { contact: JSON.stringify(contact) } : {},
+    });
+  };
+
+  const renderContact = ({ item }: { item: Contact }) => (
+    <TouchableOpacity
+      style={styles.row}
+      onPress={() => handleOpenContact(item)}
+      accessible={true}
+      accessibilityRole="button"
+      accessibilityLabel={`${item.label}, ${truncateAddress(item.address)}`}
+      accessibilityHint="Opens contact for editing"
+    >
+      <Text style={styles.rowTitle}>{item.label}</Text>
+      <Text style={styles.rowSubtitle}>{truncateAddress(item.address, 8, 8)}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <FlatList
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+      data={contacts}
+      keyExtractor={(item) => item.id}
+      renderItem={renderContact}
+      ListHeaderComponent={
+        <TouchableOpacity
+          style={styles.primaryButton}
+          onPress={() => handleOpenContact()}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel="Add contact"
+          accessibilityHint="Opens form to save a new recipient"
+        >
+          <Text style={styles.primaryButtonText}>Add Contact</Text>
+        </TouchableOpacity>
+      }
+      ListEmptyComponent={
+        loaded ? <Text style={styles.emptyText}>No saved contacts yet</Text> : null
+      }
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.neutral[50], // Light background
+  },
+  contentContainer: {
+    padding: Spacing.lg, // 16pt padding
+  },
+  row: {
+    backgroundColor: '#fff',
+    padding: Spacing.lg, // 16pt
+    borderRadius: BorderRadius.sm, // 8pt
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    marginBottom: Spacing.sm, // 8pt
+  },
+  rowTitle: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.neutral[900],
+  },
+  rowSubtitle: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    color: Colors.neutral[500],
+    marginTop: Spacing.xs, // 4pt
+  },
+  emptyText: {
+    fontSize: Typography.fontSize.body, // 15pt
+    color: Colors.neutral[500],
+    textAlign: 'center',
+    marginTop: Spacing.xxxl, // 48pt
+  },
+  primaryButton: {
+    height: 44, // WCAG AA minimum touch target
+    backgroundColor: Colors.primary.purple,
+    borderRadius: BorderRadius.sm, // 8pt
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: Spacing.lg, // 16pt
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+  },
+});
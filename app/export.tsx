@@ -0,0 +1,342 @@
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from 'react-native';
+import { useState } from 'react';
+import { useWallet } from '@lazorkit/wallet-mobile-adapter';
+import { ExportService } from '../services/ExportService';
+import { NetworkService } from '../services/NetworkService';
+import { WalletService } from '../services/WalletService';
+import { Colors, Typography, Spacing, BorderRadius } from '../services/constants';
+import type { StatementFormat } from '../types';
+
+/**
+ * Quick date ranges offered above the date fields.
+ */
+const PRESETS: { label: string; range: (today: Date) => [Date, Date] }[] = [
+  {
+    label: 'This month',
+    range: (today) => [new Date(today.getFullYear(), today.getMonth(), 1), today],
+  },
+  {
+    label: 'Last month',
+    range: (today) => [
+      new Date(today.getFullYear(), today.getMonth() - 1, 1),
+      new Date(today.getFullYear(), today.getMonth(), 0),
+    ],
+  },
+  {
+    label: 'Last 30 days',
+    range: (today) => [
+      new Date(today.getFullYear(), today.getMonth(), today.getDate() - 29),
+      today,
+    ],
+  },
+  {
+    label: 'This year',
+    range: (today) => [new Date(today.getFullYear(), 0, 1), today],
+  },
+];
+
+/**
+ * Format a date as YYYY-MM-DD (local time) for the date fields.
+ */
+function toDateInput(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parse a YYYY-MM-DD date field as a local timestamp.
+ *
+ * @param value - Date as typed
+ * @param endOfDay - Return the last millisecond of the day instead of midnight
+ * @returns Unix timestamp (milliseconds), or null if the date is not valid
+ */
+function parseDateInput(value: string, endOfDay: boolean): number | null {
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+
+  const [year, month, day] = [Number(match[1]), Number(match[2]) - 1, Number(match[3])];
+  const date = endOfDay
+    ? new Date(year, month, day, 23, 59, 59, 999)
+    : new Date(year, month, day);
+  // Reject dates that roll over (e.g. 2026-02-30)
+  return date.getMonth() === month && date.getDate() === day ? date.getTime() : null;
+}
+
+/**
+ * Export Statement Screen
+ *
+ * Exports the transfers of this wallet on the active network over a date
+ * range, as CSV or JSON, via ExportService. The file is handed to the OS
+ * share sheet (mail, files, drive, ...).
+ *
+ * Sent transfers come from the local transaction journal (transfers that
+ * reached the chain); received USDC transfers come from on-chain history.
+ * Rows carry contact labels and full-precision amounts.
+ */
+export default function ExportScreen() {
+  const wallet = useWallet();
+  const address = WalletService.getWalletAddress(wallet.smartWalletPubkey);
+  const [initialFrom, initialTo] = PRESETS[0].range(new Date());
+  const [from, setFrom] = useState(toDateInput(initialFrom));
+  const [to, setTo] = useState(toDateInput(initialTo));
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  /**
+   * Fill both date fields from a preset.
+   */
+  const handleSelectPreset = (preset: (typeof PRESETS)[number]) => {
+    const [start, end] = preset.range(new Date());
+    setFrom(toDateInput(start));
+    setTo(toDateInput(end));
+    setError(null);
+    setResult(null);
+  };
+
+  /**
+   * Validate the date range, then write and share the statement.
+   */
+  const handleExport = async (format: StatementFormat) => {
+    const fromTimestamp = parseDateInput(from, false);
+    const toTimestamp = parseDateInput(to, true);
+    if (fromTimestamp === null || toTimestamp === null) {
+      setError('Enter dates as YYYY-MM-DD');
+      return;
+    }
+    if (fromTimestamp > toTimestamp) {
+      setError('The start date must be on or before the end date');
+      return;
+    }
+    if (!address) {
+      setError('Connect a wallet to export its statement');
+      return;
+    }
+
+    setError(null);
+    setResult(null);
+    setExporting(true);
+    try {
+      const count = await ExportService.exportStatement(
+        format,
+        { from: fromTimestamp, to: toTimestamp },
+        address
+      );
+      setResult(`Exported ${count} ${count === 1 ? 'transfer' : 'transfers'}`);
+    } catch (err: any) {
+      console.error('[ExportScreen] Export failed:', err);
+      setError(err.message || 'Unable to export statement. Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={{ flex: 1 }}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+    >
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.contentContainer}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Text style={styles.title}>Export Statement</Text>
+        <Text style={styles.helperText}>
+          Transfers sent from this device and USDC received on{' '}
+          {NetworkService.getActiveProfile().label}.
+        </Text>
+
+        <View style={styles.presetRow}>
+          {PRESETS.map((preset) => (
+            <TouchableOpacity
+              key={preset.label}
+              style={styles.presetOption}
+              onPress={() => handleSelectPreset(preset)}
+              accessible={true}
+              accessibilityRole="button"
+              accessibilityLabel={`Date range: ${preset.label}`}
+            >
+              <Text style={styles.presetText}>{preset.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.label}>From</Text>
+          <TextInput
+            style={[styles.input, error && styles.inputError]}
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor={Colors.neutral[500]}
+            value={from}
+            onChangeText={setFrom}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="numbers-and-punctuation"
+            accessible={true}
+            accessibilityLabel="Start date"
+          />
+        </View>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.label}>To</Text>
+          <TextInput
+            style={[styles.input, error && styles.inputError]}
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor={Colors.neutral[500]}
+            value={to}
+            onChangeText={setTo}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="numbers-and-punctuation"
+            accessible={true}
+            accessibilityLabel="End date"
+          />
+        </View>
+
+        {error && <Text style={styles.errorText}>{error}</Text>}
+        {result && <Text style={styles.resultText}>{result}</Text>}
+
+        <TouchableOpacity
+          style={[styles.primaryButton, exporting && styles.buttonDisabled]}
+          onPress={() => handleExport('csv')}
+          disabled={exporting}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel="Export as CSV"
+          accessibilityHint="Opens the share sheet with a CSV statement"
+          accessibilityState={{ disabled: exporting }}
+        >
+          <Text style={styles.primaryButtonText}>Export CSV</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.secondaryButton, exporting && styles.buttonDisabled]}
+          onPress={() => handleExport('json')}
+          disabled={exporting}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel="Export as JSON"
+          accessibilityHint="Opens the share sheet with a JSON statement"
+          accessibilityState={{ disabled: exporting }}
+        >
+          <Text style={styles.secondaryButtonText}>Export JSON</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.neutral[50], // Light background
+  },
+  contentContainer: {
+    padding: Spacing.xl, // 24pt padding
+  },
+  title: {
+    fontSize: Typography.fontSize.h2, // 24pt
+    fontWeight: Typography.fontWeight.bold, // 700
+    color: Colors.neutral[900], // Dark text
+    marginBottom: Spacing.sm, // 8pt
+  },
+  helperText: {
+    fontSize: Typography.fontSize.body, // 15pt
+    color: Colors.neutral[500],
+    marginBottom: Spacing.lg, // 16pt
+  },
+  presetRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm, // 8pt
+    marginBottom: Spacing.lg, // 16pt
+  },
+  presetOption: {
+    height: 36,
+    paddingHorizontal: Spacing.lg, // 16pt
+    borderRadius: BorderRadius.full, // Pill shape
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    backgroundColor: '#fff',
+    justifyContent: 'center',
+  },
+  presetText: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.neutral[900],
+  },
+  inputContainer: {
+    marginBottom: Spacing.lg, // 16pt
+  },
+  label: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.neutral[900],
+    marginBottom: Spacing.sm, // 8pt
+  },
+  input: {
+    height: 44, // WCAG AA minimum touch target
+    borderWidth: 1,
+    borderColor: '#E5E5E5', // Light gray border
+    borderRadius: BorderRadius.sm, // 8pt
+    paddingHorizontal: Spacing.lg, // 16pt
+    fontSize: Typography.fontSize.body, // 15pt
+    backgroundColor: '#fff',
+    color: Colors.neutral[900],
+  },
+  inputError: {
+    borderColor: Colors.error, // Red border for errors
+  },
+  errorText: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    color: Colors.error, // Red text
+    marginBottom: Spacing.sm, // 8pt
+  },
+  resultText: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    color: Colors.success,
+    marginBottom: Spacing.sm, // 8pt
+  },
+  primaryButton: {
+    height: 44, // WCAG AA minimum touch target
+    backgroundColor: Colors.primary.purple,
+    borderRadius: BorderRadius.sm, // 8pt
+    marginTop: Spacing.sm, // 8pt
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+  },
+  secondaryButton: {
+    height: 44, // WCAG AA minimum touch target
+    borderRadius: BorderRadius.sm, // 8pt
+    borderWidth: 1,
+    borderColor: Colors.primary.purple,
+    marginTop: Spacing.md, // 12pt
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: Colors.primary.purple,
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+  },
+  buttonDisabled: {
+    opacity: 0.5, // Visual feedback for disabled state
+  },
+});
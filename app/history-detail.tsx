@@ -0,0 +1,142 @@
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Linking } from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { Colors, Typography, Spacing, BorderRadius } from '../services/constants';
+import { truncateAddress, formatUSDC, formatDateTime } from '../utils/FormattingUtils';
+import type { TransferHistoryEntry } from '../types';
+
+/**
+ * History Detail Screen
+ *
+ * Shows a single USDC transfer from the History screen.
+ * The entry is passed via navigation params as a JSON string (same pattern as Confirm screen).
+ */
+export default function HistoryDetailScreen() {
+  const params = useLocalSearchParams();
+
+  // Parse TransferHistoryEntry from route params (passed as JSON string)
+  const entry: TransferHistoryEntry = JSON.parse(params.entry as string);
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+      <Text style={styles.title}>
+        {entry.direction === 'sent' ? 'Sent' : 'Received'} {formatUSDC(entry.amountLamports)}
+      </Text>
+
+      <View style={styles.detailsCard}>
+        <View style={styles.detailRow}>
+          <Text style={styles.label}>Status</Text>
+          <Text style={[styles.value, entry.status === 'failed' && styles.errorText]}>
+            {entry.status === 'confirmed' ? 'Confirmed' : 'Failed'}
+          </Text>
+        </View>
+
+        <View style={styles.detailRow}>
+          <Text style={styles.label}>{entry.direction === 'sent' ? 'To' : 'From'}</Text>
+          <Text style={styles.value} selectable={true}>
+            {truncateAddress(entry.counterparty, 8, 8)}
+          </Text>
+        </View>
+
+        {entry.memo && (
+          <View style={styles.detailRow}>
+            <Text style={styles.label}>Memo</Text>
+            <Text style={styles.value} selectable={true}>
+              {entry.memo}
+            </Text>
+          </View>
+        )}
+
+        <View style={styles.detailRow}>
+          <Text style={styles.label}>Date</Text>
+          <Text style={styles.value}>
+            {entry.timestamp ? formatDateTime(entry.timestamp) : 'Unknown'}
+          </Text>
+        </View>
+
+        <View style={styles.detailRow}>
+          <Text style={styles.label}>Slot</Text>
+          <Text style={styles.value}>{entry.slot}</Text>
+        </View>
+
+        <View style={styles.detailRow}>
+          <Text style={styles.label}>Signature</Text>
+          <Text style={styles.value} selectable={true}>
+            {truncateAddress(entry.signature, 6, 6)}
+          </Text>
+        </View>
+
+        {entry.error && <Text style={styles.errorText}>{entry.error}</Text>}
+      </View>
+
+      <TouchableOpacity
+        style={styles.primaryButton}
+        onPress={() => Linking.openURL(entry.explorerUrl)}
+        accessible={true}
+        accessibilityRole="button"
+        accessibilityLabel="View transaction on Solana Explorer"
+      >
+        <Text style={styles.primaryButtonText}>View on Explorer</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.neutral[50],
+  },
+  contentContainer: {
+    padding: Spacing.xl,
+  },
+  title: {
+    fontSize: Typography.fontSize.h2,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.neutral[900],
+    textAlign: 'center',
+    marginBottom: Spacing.xl,
+  },
+  detailsCard: {
+    backgroundColor: '#fff',
+    borderRadius: BorderRadius.md,
+    padding: Spacing.xl,
+    marginBottom: Spacing.xl,
+    shadowColor: '#000',
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    shadowOffset: { width: 0, height: 2 },
+    elevation: 3,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: Spacing.lg,
+  },
+  label: {
+    fontSize: Typography.fontSize.body,
+    color: Colors.neutral[900],
+    fontWeight: Typography.fontWeight.semibold,
+  },
+  value: {
+    fontSize: Typography.fontSize.body,
+    color: Colors.neutral[900],
+    textAlign: 'right',
+    flex: 1,
+    marginLeft: Spacing.md,
+  },
+  errorText: {
+    color: Colors.error,
+  },
+  primaryButton: {
+    height: 44,
+    backgroundColor: Colors.primary.purple,
+    borderRadius: BorderRadius.sm,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: Typography.fontSize.body,
+    fontWeight: Typography.fontWeight.semibold,
+  },
+});
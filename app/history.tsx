@@ -0,0 +1,261 @@
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  FlatList,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'expo-router';
+import { useWallet } from '@lazorkit/wallet-mobile-adapter';
+import { PublicKey } from '@solana/web3.js';
+import { SolanaService } from '../services/SolanaService';
+import { WalletService } from '../services/WalletService';
+import { Colors, Typography, Spacing, BorderRadius } from '../services/constants';
+import { truncateAddress, formatUSDC, formatDateTime } from '../utils/FormattingUtils';
+import type { TransferHistoryEntry } from '../types';
+
+/**
+ * Transaction History Screen
+ *
+ * Lists past USDC transfers for the connected smart wallet (or the stored
+ * address in watch mode), newest first.
+ * History is read on-chain via SolanaService.getTransferHistory().
+ *
+ * Paging:
+ * - First page loads on mount and on pull-to-refresh
+ * - Older pages load as the user scrolls to the end (infinite scroll)
+ * - Paging stops when the service reports hasMore=false
+ *
+ * Tapping an entry opens the History Detail screen. The header links to the
+ * Export Statement screen (CSV/JSON statements of sent and received transfers).
+ */
+export default function HistoryScreen() {
+  const router = useRouter();
+  const wallet = useWallet();
+  const address = WalletService.getWalletAddress(wallet.smartWalletPubkey);
+
+  const [entries, setEntries] = useState<TransferHistoryEntry[]>([]);
+  const [cursor, setCursor] = useState<string | undefined>(undefined);
+  const [hasMore, setHasMore] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load the first page, replacing any existing entries.
+   */
+  const loadFirstPage = useCallback(async () => {
+    if (!address) return;
+
+    try {
+      setError(null);
+      const page = await SolanaService.getTransferHistory(new PublicKey(address));
+      setEntries(page.entries);
+      setCursor(page.before);
+      setHasMore(page.hasMore);
+    } catch (err) {
+      console.error('[HistoryScreen] Failed to load history:', err);
+      setError('Unable to load transaction history. Pull down to retry.');
+    }
+  }, [address]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadFirstPage().finally(() => setLoading(false));
+  }, [loadFirstPage]);
+
+  /**
+   * Load the next (older) page when the list end is reached.
+   */
+  const handleEndReached = async () => {
+    if (loading || refreshing || !hasMore || !cursor || !address) return;
+
+    setLoading(true);
+    try {
+      const page = await SolanaService.getTransferHistory(new PublicKey(address), {
+        before: cursor,
+      });
+      setEntries((prev) => [...prev, ...page.entries]);
+      setCursor(page.before);
+      setHasMore(page.hasMore);
+    } catch (err) {
+      console.error('[HistoryScreen] Failed to load more history:', err);
+      setError('Unable to load older transactions.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Handle pull-to-refresh gesture.
+   */
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadFirstPage();
+    setRefreshing(false);
+  };
+
+  /**
+   * Open detail view for a history entry.
+   */
+  const handleSelectEntry = (entry: TransferHistoryEntry) => {
+    router.push({
+      pathname: '/history-detail',
+      params: { entry: JSON.stringify(entry) },
+    });
+  };
+
+  const renderEntry = ({ item }: { item: TransferHistoryEntry }) => (
+    <TouchableOpacity
+      style={styles.row}
+      onPress={() => handleSelectEntry(item)}
+      accessible={true}
+      accessibilityRole="button"
+      accessibilityLabel={`${item.direction === 'sent' ? 'Sent' : 'Received'} ${formatUSDC(item.amountLamports)}`}
+      accessibilityHint="Opens transaction details"
+    >
+      <View style={styles.rowMain}>
+        <Text style={styles.rowTitle}>
+          {item.direction === 'sent' ? 'Sent to ' : 'Received from '}
+          {truncateAddress(item.counterparty)}
+        </Text>
+        <Text style={styles.rowSubtitle}>
+          {item.timestamp ? formatDateTime(item.timestamp) : 'Pending block time'}
+          {item.status === 'failed' ? ' · Failed' : ''}
+        </Text>
+        {item.memo && (
+          <Text style={styles.rowSubtitle} numberOfLines={1}>
+            {item.memo}
+          </Text>
+        )}
+      </View>
+      <Text
+        style={[
+          styles.rowAmount,
+          item.direction === 'received' && styles.amountReceived,
+          item.status === 'failed' && styles.amountFailed,
+        ]}
+      >
+        {item.direction === 'sent' ? '−' : '+'}
+        {formatUSDC(item.amountLamports)}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <FlatList
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+      data={entries}
+      // A single signature can contain more than one matching transfer
+      keyExtractor={(item, index) => `${item.signature}-${index}`}
+      renderItem={renderEntry}
+      onEndReached={handleEndReached}
+      onEndReachedThreshold={0.5}
+      refreshControl={
+        <RefreshControl
+          refreshing={refreshing}
+          onRefresh={handleRefresh}
+          tintColor={Colors.primary.purple}
+          colors={[Colors.primary.purple]}
+        />
+      }
+      ListHeaderComponent={
+        <>
+          <TouchableOpacity
+            style={styles.linkButton}
+            onPress={() => router.push('/export')}
+            accessible={true}
+            accessibilityRole="link"
+            accessibilityLabel="Export statement"
+            accessibilityHint="Exports sent and received transfers as CSV or JSON"
+          >
+            <Text style={styles.linkText}>Export Statement</Text>
+          </TouchableOpacity>
+          {error && <Text style={styles.errorText}>{error}</Text>}
+        </>
+      }
+      ListEmptyComponent={
+        loading ? null : <Text style={styles.emptyText}>No USDC transfers yet</Text>
+      }
+      ListFooterComponent={
+        loading ? <ActivityIndicator style={styles.footer} color={Colors.primary.purple} /> : null
+      }
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.neutral[50], // Light background
+  },
+  contentContainer: {
+    padding: Spacing.lg, // 16pt padding
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    padding: Spacing.lg, // 16pt
+    borderRadius: BorderRadius.sm, // 8pt
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    marginBottom: Spacing.sm, // 8pt
+  },
+  rowMain: {
+    flex: 1,
+    marginRight: Spacing.md, // 12pt
+  },
+  rowTitle: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.neutral[900],
+  },
+  rowSubtitle: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    color: Colors.neutral[500],
+    marginTop: Spacing.xs, // 4pt
+  },
+  rowAmount: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.neutral[900],
+  },
+  amountReceived: {
+    color: Colors.success,
+  },
+  amountFailed: {
+    color: Colors.neutral[500],
+    textDecorationLine: 'line-through',
+  },
+  emptyText: {
+    fontSize: Typography.fontSize.body, // 15pt
+    color: Colors.neutral[500],
+    textAlign: 'center',
+    marginTop: Spacing.xxxl, // 48pt
+  },
+  errorText: {
+    fontSize: Typography.fontSize.body, // 15pt
+    color: Colors.error,
+    textAlign: 'center',
+    marginBottom: Spacing.lg, // 16pt
+  },
+  footer: {
+    marginVertical: Spacing.lg, // 16pt
+  },
+  linkButton: {
+    minHeight: 44, // WCAG AA minimum touch target
+    justifyContent: 'center',
+    alignItems: 'flex-end',
+    marginBottom: Spacing.sm, // 8pt
+  },
+  linkText: {
+    fontSize: Typography.fontSize.body, // 15pt
+    color: Colors.primary.purple,
+    fontWeight: Typography.fontWeight.semibold, // 600
+  },
+});
@@ -1,44 +1,259 @@
-import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
-import { useEffect, useState } from 'react';
-import { useRouter } from 'expo-router';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+  RefreshControl,
+  Alert,
+  AppState,
+} from 'react-native';
+import { useCallback, useEffect, useState } from 'react';
+import { useFocusEffect, useRouter } from 'expo-router';
 import { useWallet } from '@lazorkit/wallet-mobile-adapter';
+import { PublicKey } from '@solana/web3.js';
 import { WalletService } from '../services/WalletService';
+import { SolanaService } from '../services/SolanaService';
+import { NetworkService } from '../services/NetworkService';
+import { ConfirmationService } from '../services/ConfirmationService';
+import { ScheduleService } from '../services/ScheduleService';
+import { normalizeWalletError } from '../services/errors';
 import { AddressDisplay } from '../components/AddressDisplay';
 import { Colors, Typography, Spacing, BorderRadius } from '../services/constants';
+import { formatSOL, formatUSDC, truncateAddress } from '../utils/FormattingUtils';
+import type { WalletAccount, WalletBalances } from '../types';
 
 /**
  * Wallet Home Screen
- * Displays the user's wallet address after successful authentication.
+ * Displays the user's wallet address and live SOL/USDC balances after successful authentication.
  * Implements protected route pattern to ensure only authenticated users can access.
+ *
+ * Balances are fetched on mount and can be refreshed with pull-to-refresh.
+ * A wallet without a USDC token account shows a "no USDC account yet" state.
+ *
+ * Transactions left unconfirmed by an earlier session (app closed during
+ * confirmation) are resumed with ConfirmationService.resumePending(); a banner
+ * shows while they are tracked, and expired or failed ones are reported.
+ *
+ * Scheduled transfers that are due are counted with ScheduleService.getDueQueue()
+ * whenever the screen is focused or the app returns to the foreground; a banner
+ * opens the Scheduled Transfers screen to pay them.
+ *
+ * In watch mode (session restored without a connected SDK wallet, see
+ * WalletService.restoreSession()) balances and history are shown for the stored
+ * address; sending is disabled until the user reconnects with their passkey.
  */
 export default function HomeScreen() {
   const wallet = useWallet();
   const router = useRouter();
   const [disconnecting, setDisconnecting] = useState(false);
+  const [balances, setBalances] = useState<WalletBalances | null>(null);
+  const [balanceError, setBalanceError] = useState<string | null>(null);
+  const [loadingBalances, setLoadingBalances] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [dueCount, setDueCount] = useState(0);
+  const [sessionState, setSessionState] = useState(WalletService.getSessionState());
+  const [reconnecting, setReconnecting] = useState(false);
+  const [wallets, setWallets] = useState<WalletAccount[]>([]);
+
+  // Connected smart wallet, or the stored address in watch mode
+  const address = WalletService.getWalletAddress(wallet.smartWalletPubkey);
+  const watchOnly = !wallet.isConnected && sessionState.status === 'watch';
+
+  /**
+   * Load the registered wallets for the switcher on focus, so wallets added or
+   * renamed on the Wallets screen show up.
+   */
+  const loadWallets = useCallback(() => {
+    WalletService.getWallets().then(setWallets);
+  }, []);
+
+  useFocusEffect(loadWallets);
+
+  /**
+   * Follow session state changes (reconnect, switch, disconnect).
+   */
+  useEffect(
+    () =>
+      WalletService.subscribe((state) => {
+        setSessionState(state);
+        loadWallets();
+      }),
+    [loadWallets]
+  );
 
   /**
-   * Protected route: Redirect to welcome screen if wallet is not connected.
+   * Protected route: Redirect to welcome screen if there is no wallet to show
+   * (neither connected nor restored in watch mode).
    * This prevents unauthorized access to wallet information.
    */
   useEffect(() => {
-    if (!wallet.isConnected) {
+    if (!address) {
       router.replace('/');
     }
-  }, [wallet.isConnected, router]);
+  }, [address, router]);
+
+  /**
+   * Fetch SOL and USDC balances for the wallet address.
+   * Errors are shown inline so the rest of the screen remains usable.
+   */
+  const fetchBalances = useCallback(async () => {
+    if (!address) return;
+
+    try {
+      setBalanceError(null);
+      const result = await SolanaService.getBalances(new PublicKey(address));
+      setBalances(result);
+    } catch (error) {
+      console.error('[HomeScreen] Failed to fetch balances:', error);
+      setBalanceError('Unable to load balances. Pull down to retry.');
+    }
+  }, [address]);
+
+  /**
+   * Load balances once the wallet address is known.
+   */
+  useEffect(() => {
+    if (!address) return;
+
+    setLoadingBalances(true);
+    fetchBalances().finally(() => setLoadingBalances(false));
+  }, [address, fetchBalances]);
+
+  /**
+   * Resume confirmation tracking for transactions submitted in an earlier session.
+   * Balances are refreshed once they settle.
+   */
+  useEffect(() => {
+    if (!address) return;
+    let active = true;
+
+    ConfirmationService.getPendingTransactions(NetworkService.getActiveProfile().id).then(
+      (pendingList) => {
+        if (!active || pendingList.length === 0) return;
+        setPendingCount(pendingList.length);
+
+        ConfirmationService.resumePending().then((results) => {
+          if (!active) return;
+          setPendingCount(0);
+          fetchBalances();
+
+          const notCompleted = results.filter(
+            (status) => status.status === 'failed' || status.status === 'expired'
+          );
+          if (notCompleted.length > 0) {
+            Alert.alert(
+              'Transfer not completed',
+              notCompleted.map((status) => status.error).join('\n')
+            );
+          }
+        });
+      }
+    );
+
+    return () => {
+      active = false;
+    };
+  }, [address, fetchBalances]);
+
+  /**
+   * Count due scheduled transfers on focus and when the app returns to the foreground.
+   */
+  useFocusEffect(
+    useCallback(() => {
+      if (!address) return;
+
+      const checkDue = () =>
+        ScheduleService.getDueQueue().then((queue) => setDueCount(queue.length));
+      checkDue();
+
+      const subscription = AppState.addEventListener('change', (state) => {
+        if (state === 'active') checkDue();
+      });
+      return () => subscription.remove();
+    }, [address])
+  );
+
+  /**
+   * Handle pull-to-refresh gesture.
+   */
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await fetchBalances();
+    setRefreshing(false);
+  };
+
+  /**
+   * Reconnect from watch mode with the passkey, so transfers can be signed.
+   * A different wallet than the active one is added to the registry and made
+   * active (see WalletService.completeConnection()), and the user is told.
+   */
+  const handleReconnect = async () => {
+    const previous = sessionState.account;
+    setReconnecting(true);
+    try {
+      const walletInfo = await wallet.connect({
+        redirectUrl: 'lazorkitstarter://callback',
+      });
+      const identity = await WalletService.completeConnection(walletInfo, {
+        passkeyAuthenticated: true,
+      });
+
+      if (identity === 'mismatch' && previous) {
+        Alert.alert(
+          'Different wallet connected',
+          `${previous.nickname} (${truncateAddress(previous.session.publicKey)}) stays in your wallet list. ` +
+            `Continuing with the connected wallet ${truncateAddress(walletInfo.smartWallet)}.`
+        );
+      }
+    } catch (error) {
+      const walletError = normalizeWalletError(error);
+      if (walletError.code !== 'USER_CANCELLED') {
+        console.error('[HomeScreen] Failed to reconnect wallet:', error);
+        Alert.alert('Unable to reconnect', walletError.message);
+      }
+    } finally {
+      setReconnecting(false);
+    }
+  };
+
+  /**
+   * Switch the active wallet from the switcher.
+   */
+  const handleSwitchWallet = async (account: WalletAccount) => {
+    try {
+      await WalletService.switchWallet(account.id);
+    } catch (error: any) {
+      console.error('[HomeScreen] Failed to switch wallet:', error);
+      Alert.alert('Unable to switch wallet', error.message || 'Please try again.');
+    }
+  };
 
   /**
    * Handle wallet disconnect.
-   * Clears persisted session from SecureStore before disconnecting wallet.
+   * Removes the active wallet from the registry. If other wallets remain, the
+   * next one becomes active and Home stays open; otherwise the SDK wallet is
+   * disconnected and the user returns to the welcome screen.
    * Shows loading state during disconnect process.
    */
   const handleDisconnect = async () => {
     try {
       setDisconnecting(true);
 
-      // Clear persisted session before disconnecting wallet
-      await WalletService.clearSession();
+      const active = sessionState.account;
+      if (active) {
+        const state = await WalletService.removeWallet(active.id);
+        if (state.status !== 'none') {
+          if (__DEV__) {
+            console.log('[HomeScreen] Wallet removed, switched to', state.account?.nickname);
+          }
+          return;
+        }
+      }
       if (__DEV__) {
-        console.log('[HomeScreen] Session cleared, disconnecting wallet');
+        console.log('[HomeScreen] Last wallet removed, disconnecting wallet');
       }
 
       // Disconnect wallet and navigate to welcome screen
@@ -60,36 +275,240 @@ export default function HomeScreen() {
   };
 
   // Don't render anything while checking connection state
-  if (!wallet.isConnected) return null;
+  if (!address) return null;
 
   return (
-    <View style={styles.container}>
-      <Text style={styles.title}>Your Wallet</Text>
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+      refreshControl={
+        <RefreshControl
+          refreshing={refreshing}
+          onRefresh={handleRefresh}
+          tintColor={Colors.primary.purple}
+          colors={[Colors.primary.purple]}
+        />
+      }
+    >
+      <Text style={styles.title}>{sessionState.account?.nickname ?? 'Your Wallet'}</Text>
+
+      {/* Wallet switcher - registered wallets, plus a link to manage them */}
+      <View style={styles.walletPicker}>
+        {wallets.length > 1 &&
+          wallets.map((account) => {
+            const selected = account.id === sessionState.account?.id;
+            return (
+              <TouchableOpacity
+                key={account.id}
+                style={[styles.walletOption, selected && styles.walletOptionSelected]}
+                onPress={() => handleSwitchWallet(account)}
+                disabled={selected}
+                accessible={true}
+                accessibilityRole="radio"
+                accessibilityLabel={account.nickname}
+                accessibilityState={{ selected }}
+              >
+                <Text
+                  style={[styles.walletOptionText, selected && styles.walletOptionTextSelected]}
+                >
+                  {account.nickname}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        <TouchableOpacity
+          style={styles.walletOption}
+          onPress={() => router.push('/wallets')}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel="Manage wallets"
+          accessibilityHint="Opens the wallet list to add, rename or remove wallets"
+        >
+          <Text style={styles.walletOptionText}>Wallets ›</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Active network - opens Settings to switch cluster */}
+      <TouchableOpacity
+        style={styles.networkButton}
+        onPress={() => router.push('/settings')}
+        accessible={true}
+        accessibilityRole="button"
+        accessibilityLabel={`Network: ${NetworkService.getActiveProfile().label}`}
+        accessibilityHint="Opens settings to switch network"
+      >
+        <Text style={styles.networkButtonText}>
+          Network: {NetworkService.getActiveProfile().label} ›
+        </Text>
+      </TouchableOpacity>
 
       {/* Display wallet address with copy functionality */}
       <View style={styles.addressContainer}>
         <AddressDisplay
-          address={wallet.smartWalletPubkey?.toString() || ''}
+          address={address}
           truncate={true}
           showCopyButton={true}
         />
       </View>
 
-      {/* Placeholder for balance (Epic 2 feature) */}
-      <Text style={styles.balanceText}>Balance: Coming soon in Epic 2</Text>
+      {/* Watch mode - read-only until the passkey reconnects */}
+      {watchOnly && (
+        <View style={styles.watchBanner}>
+          <Text style={styles.watchBannerTitle}>Watch mode</Text>
+          <Text style={styles.watchBannerText}>
+            Your session has expired. Balances and history are read-only until you reconnect.
+          </Text>
+          <TouchableOpacity
+            style={[styles.reconnectButton, reconnecting && styles.disabledButton]}
+            onPress={handleReconnect}
+            disabled={reconnecting}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel="Reconnect wallet"
+            accessibilityHint="Opens the passkey prompt so you can send again"
+            accessibilityState={{ disabled: reconnecting }}
+          >
+            {reconnecting ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.reconnectButtonText}>Reconnect</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {/* Live SOL and USDC balances (pull down to refresh) */}
+      <View style={styles.balanceCard}>
+        {loadingBalances && !balances ? (
+          <ActivityIndicator color={Colors.primary.purple} />
+        ) : balanceError ? (
+          <Text style={styles.balanceErrorText}>{balanceError}</Text>
+        ) : balances ? (
+          <>
+            <View style={styles.balanceRow}>
+              <Text style={styles.balanceLabel}>USDC</Text>
+              <Text style={styles.balanceValue}>
+                {balances.usdcAccountExists ? formatUSDC(balances.usdcLamports) : '—'}
+              </Text>
+            </View>
+            {!balances.usdcAccountExists && (
+              <Text style={styles.balanceHint}>
+                No USDC account yet. It is created the first time this wallet receives USDC.
+              </Text>
+            )}
+            <View style={styles.balanceRow}>
+              <Text style={styles.balanceLabel}>SOL</Text>
+              <Text style={styles.balanceValue}>{formatSOL(balances.solLamports)}</Text>
+            </View>
+          </>
+        ) : null}
+      </View>
+
+      {/* Transactions from an earlier session still being confirmed */}
+      {pendingCount > 0 && (
+        <View style={styles.pendingBanner} accessible={true} accessibilityLiveRegion="polite">
+          <ActivityIndicator size="small" color={Colors.primary.purple} />
+          <Text style={styles.pendingBannerText}>
+            {pendingCount === 1
+              ? '1 transfer is still being confirmed'
+              : `${pendingCount} transfers are still being confirmed`}
+          </Text>
+        </View>
+      )}
+
+      {/* Scheduled transfers waiting to be paid */}
+      {dueCount > 0 && (
+        <TouchableOpacity
+          style={styles.dueBanner}
+          onPress={() => router.push('/scheduled')}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={`${dueCount} scheduled ${dueCount === 1 ? 'payment' : 'payments'} due`}
+          accessibilityHint="Opens scheduled transfers to pay or skip them"
+        >
+          <Text style={styles.dueBannerText}>
+            {dueCount === 1 ? '1 scheduled payment is due' : `${dueCount} scheduled payments are due`}{' '}
+            ›
+          </Text>
+        </TouchableOpacity>
+      )}
 
       {/* Navigate to transfer form for USDC transfers (Story 2.1) */}
       <TouchableOpacity
-        style={styles.sendButton}
+        style={[styles.sendButton, watchOnly && styles.disabledButton]}
         onPress={() => router.push('/transfer')}
+        disabled={watchOnly}
         accessible={true}
         accessibilityRole="button"
         accessibilityLabel="Send USDC"
         accessibilityHint="Opens transfer form to send USDC to another wallet"
+        accessibilityState={{ disabled: watchOnly }}
       >
         <Text style={styles.sendButtonText}>Send USDC</Text>
       </TouchableOpacity>
 
+      {/* Navigate to batch payout (many recipients, one confirmation) */}
+      <TouchableOpacity
+        style={[styles.secondaryButton, watchOnly && styles.disabledButton]}
+        onPress={() => router.push('/batch')}
+        disabled={watchOnly}
+        accessible={true}
+        accessibilityRole="button"
+        accessibilityLabel="Batch payout"
+        accessibilityHint="Opens the batch form to pay many recipients at once"
+        accessibilityState={{ disabled: watchOnly }}
+      >
+        <Text style={styles.secondaryButtonText}>Batch Payout</Text>
+      </TouchableOpacity>
+
+      {/* Navigate to scheduled and recurring transfers */}
+      <TouchableOpacity
+        style={styles.secondaryButton}
+        onPress={() => router.push('/scheduled')}
+        accessible={true}
+        accessibilityRole="button"
+        accessibilityLabel="Scheduled transfers"
+        accessibilityHint="Opens one-off and recurring transfers and payments that are due"
+      >
+        <Text style={styles.secondaryButtonText}>Scheduled Transfers</Text>
+      </TouchableOpacity>
+
+      {/* Navigate to receive screen (address QR code, Solana Pay requests) */}
+      <TouchableOpacity
+        style={styles.secondaryButton}
+        onPress={() => router.push('/receive')}
+        accessible={true}
+        accessibilityRole="button"
+        accessibilityLabel="Receive"
+        accessibilityHint="Shows your wallet address QR code and payment request builder"
+      >
+        <Text style={styles.secondaryButtonText}>Receive</Text>
+      </TouchableOpacity>
+
+      {/* Navigate to on-chain transfer history */}
+      <TouchableOpacity
+        style={styles.secondaryButton}
+        onPress={() => router.push('/history')}
+        accessible={true}
+        accessibilityRole="button"
+        accessibilityLabel="Transaction history"
+        accessibilityHint="Opens list of past USDC transfers"
+      >
+        <Text style={styles.secondaryButtonText}>Transaction History</Text>
+      </TouchableOpacity>
+
+      {/* Navigate to address book */}
+      <TouchableOpacity
+        style={styles.secondaryButton}
+        onPress={() => router.push('/contacts')}
+        accessible={true}
+        accessibilityRole="button"
+        accessibilityLabel="Contacts"
+        accessibilityHint="Opens saved recipients"
+      >
+        <Text style={styles.secondaryButtonText}>Contacts</Text>
+      </TouchableOpacity>
+
       {/* Disconnect button with loading state */}
       <TouchableOpacity
         style={[
@@ -101,7 +520,7 @@ export default function HomeScreen() {
         accessible={true}
         accessibilityRole="button"
         accessibilityLabel="Disconnect wallet"
-        accessibilityHint="Clears session and returns to welcome screen"
+        accessibilityHint="Removes this wallet from the device; returns to the welcome screen if it was the last one"
       >
         {disconnecting ? (
           <ActivityIndicator color={Colors.neutral[900]} />
@@ -109,7 +528,7 @@ export default function HomeScreen() {
           <Text style={styles.disconnectButtonText}>Disconnect Wallet</Text>
         )}
       </TouchableOpacity>
-    </View>
+    </ScrollView>
   );
 }
 
@@ -117,6 +536,8 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: Colors.neutral[50], // Light background
+  },
+  contentContainer: {
     padding: Spacing.xl, // 24pt padding
   },
   title: {
@@ -125,13 +546,137 @@ const styles = StyleSheet.create({
     color: Colors.neutral[900], // Dark text
     marginBottom: Spacing.xl, // 24pt
   },
+  walletPicker: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm, // 8pt
+    marginBottom: Spacing.lg, // 16pt
+  },
+  walletOption: {
+    height: 36,
+    paddingHorizontal: Spacing.lg, // 16pt
+    borderRadius: BorderRadius.full, // Pill shape
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    backgroundColor: '#fff',
+    justifyContent: 'center',
+  },
+  walletOptionSelected: {
+    borderColor: Colors.primary.purple,
+    backgroundColor: Colors.primary.purple,
+  },
+  walletOptionText: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.neutral[900],
+  },
+  walletOptionTextSelected: {
+    color: '#fff',
+  },
+  networkButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: Spacing.xs, // 4pt
+  },
+  networkButtonText: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.primary.purple,
+  },
   addressContainer: {
     marginVertical: Spacing.xxl, // 32pt vertical margin
   },
-  balanceText: {
+  balanceCard: {
+    backgroundColor: '#fff',
+    padding: Spacing.lg, // 16pt
+    borderRadius: BorderRadius.sm, // 8pt
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    marginVertical: Spacing.lg, // 16pt
+  },
+  balanceRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm, // 8pt
+  },
+  balanceLabel: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.neutral[500],
+  },
+  balanceValue: {
     fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
     color: Colors.neutral[900],
-    marginVertical: Spacing.lg, // 16pt
+  },
+  balanceHint: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    color: Colors.warning,
+    marginBottom: Spacing.sm, // 8pt
+  },
+  balanceErrorText: {
+    fontSize: Typography.fontSize.body, // 15pt
+    color: Colors.error,
+    textAlign: 'center',
+  },
+  pendingBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm, // 8pt
+    backgroundColor: '#fff',
+    borderRadius: BorderRadius.sm, // 8pt
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    padding: Spacing.md, // 12pt
+    marginBottom: Spacing.lg, // 16pt
+  },
+  pendingBannerText: {
+    fontSize: Typography.fontSize.body, // 15pt
+    color: Colors.neutral[900],
+  },
+  dueBanner: {
+    backgroundColor: '#fff',
+    borderRadius: BorderRadius.sm, // 8pt
+    borderWidth: 1,
+    borderColor: Colors.warning, // Needs attention
+    padding: Spacing.md, // 12pt
+    marginBottom: Spacing.lg, // 16pt
+  },
+  dueBannerText: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.neutral[900],
+  },
+  watchBanner: {
+    backgroundColor: '#fff',
+    borderRadius: BorderRadius.sm, // 8pt
+    borderWidth: 1,
+    borderColor: Colors.warning, // Needs attention
+    padding: Spacing.lg, // 16pt
+    marginBottom: Spacing.lg, // 16pt
+  },
+  watchBannerTitle: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.bold, // 700
+    color: Colors.neutral[900],
+  },
+  watchBannerText: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    color: Colors.neutral[500],
+    marginTop: Spacing.xs, // 4pt
+  },
+  reconnectButton: {
+    height: 44, // WCAG AA minimum touch target
+    backgroundColor: Colors.primary.purple,
+    borderRadius: BorderRadius.sm, // 8pt
+    marginTop: Spacing.md, // 12pt
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  reconnectButtonText: {
+    color: '#fff',
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
   },
   sendButton: {
     height: 44, // WCAG AA minimum touch target
@@ -148,6 +693,22 @@ const styles = StyleSheet.create({
     fontWeight: Typography.fontWeight.semibold, // 600
     textAlign: 'center',
   },
+  secondaryButton: {
+    height: 44, // WCAG AA minimum touch target
+    borderRadius: BorderRadius.sm, // 8pt
+    borderWidth: 1,
+    borderColor: Colors.primary.purple,
+    paddingHorizontal: Spacing.lg, // 16pt
+    marginTop: Spacing.md, // 12pt
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: Colors.primary.purple,
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    textAlign: 'center',
+  },
   disconnectButton: {
     height: 44, // WCAG AA minimum touch target
     paddingHorizontal: Spacing.lg, // 16pt
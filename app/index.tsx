@@ -1,9 +1,12 @@
-import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
-import { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator, Alert } from 'react-native';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useRouter } from 'expo-router';
-import { useWallet } from '@lazorkit/wallet-mobile-adapter';
+import { useWallet, useWalletStore } from '@lazorkit/wallet-mobile-adapter';
+import type { WalletInfo } from '@lazorkit/wallet-mobile-adapter';
 import { WalletService } from '../services/WalletService';
-import type { WalletSession } from '../types';
+import { NetworkService } from '../services/NetworkService';
+import { normalizeWalletError } from '../services/errors';
+import { truncateAddress } from '../utils/FormattingUtils';
 
 /**
  * Welcome/Onboarding Screen
@@ -19,12 +22,19 @@ import type { WalletSession } from '../types';
  * 7. Portal generates Solana wallet keypair bound to the passkey credential
  * 8. Portal redirects back to app via deep link: lazorkitstarter://callback?token=...
  * 9. SDK processes callback token and updates wallet context state (isConnected=true, smartWalletPubkey set)
- * 10. useEffect detects isConnected=true and navigates to /home screen
+ * 10. handleCreateWallet() saves a session with the credential ID, passkey public key
+ *     and smart wallet address returned by wallet.connect(), and navigates to /home screen
  * 11. Home screen displays the wallet address
  *
+ * On launch, the root layout has already restored the stored session (see
+ * WalletService.restoreSession()): a restored wallet or watch mode goes straight
+ * to Home without touching the stored session. If a connected wallet differs from
+ * the active one, it is added to the wallet registry (or made active if already
+ * registered) and the user is told which wallet is now in use.
+ *
  * The LazorKitProvider (configured in app/_layout.tsx) wraps the entire app and provides:
  * - Wallet context accessible via useWallet() hook
- * - Connection to Solana Devnet RPC
+ * - Connection to the active network's Solana RPC (Devnet by default)
  * - Integration with Lazorkit Portal for authentication
  * - Paymaster configuration for gasless transactions
  */
@@ -32,121 +42,108 @@ export default function WelcomeScreen() {
   const wallet = useWallet();
   const router = useRouter();
   const [error, setError] = useState<string | null>(null);
-  const [checkingSession, setCheckingSession] = useState(true);
+  // Full wallet identity (credential ID, passkey public key, smart wallet) from the SDK
+  const walletInfo = useWalletStore((state) => state.wallet);
+  // Set while handleCreateWallet() runs, so the routing effect leaves the new wallet to it
+  const connecting = useRef(false);
 
   /**
-   * Check SecureStore for existing session on app launch.
-   * If valid session found, auto-navigate to home screen to avoid re-authentication.
-   * If no session or invalid session, show welcome screen for wallet creation.
+   * Record a connected wallet with WalletService.completeConnection(), tell the
+   * user if it replaced a different active wallet, and go home.
+   *
+   * @param connected - WalletInfo of the connected wallet
+   * @param passkeyAuthenticated - true right after wallet.connect() (starts a new session)
    */
-  useEffect(() => {
-    async function checkExistingSession() {
-      try {
-        const session = await WalletService.loadSession();
-        const isValid = WalletService.isSessionValid(session);
-
-        if (isValid) {
-          if (__DEV__) {
-            console.log('[WelcomeScreen] Valid session found, auto-navigating to home');
-          }
-          // Auto-navigate to home if valid session found, avoiding re-authentication
-          router.replace('/home');
-        } else {
-          if (__DEV__) {
-            console.log('[WelcomeScreen] No valid session found, showing welcome screen');
-          }
-        }
-      } catch (error) {
-        console.error('[WelcomeScreen] Error checking session:', error);
-        // On error, show welcome screen and let user create new wallet
-      } finally {
-        setCheckingSession(false);
+  const completeConnectionAndNavigate = useCallback(
+    async (connected: WalletInfo, passkeyAuthenticated: boolean) => {
+      const previous = WalletService.getSessionState().account;
+      const identity = await WalletService.completeConnection(connected, { passkeyAuthenticated });
+
+      if (identity === 'mismatch' && previous) {
+        Alert.alert(
+          'Different wallet connected',
+          `${previous.nickname} (${truncateAddress(previous.session.publicKey)}) stays in your wallet list. ` +
+            `Continuing with the connected wallet ${truncateAddress(connected.smartWallet)}.`
+        );
       }
-    }
 
-    checkExistingSession();
-  }, [router]);
+      router.replace('/home');
+    },
+    [router]
+  );
 
   /**
-   * Automatically navigate to home screen when wallet connection completes successfully.
-   * This effect monitors the wallet connection state and redirects once authentication is complete.
-   * Also persists wallet session to SecureStore for automatic reconnection on app restart.
+   * Route once the SDK wallet is known:
+   * - Session restored on launch (SDK wallet is the active wallet): go home
+   *   without rewriting the session
+   * - Other connected wallet (restored by the SDK itself): record it with
+   *   WalletService.completeConnection(), then go home
+   * - Session restored in watch mode: go home (read-only, reconnect from there)
+   * - Otherwise show the welcome screen for wallet creation
    */
   useEffect(() => {
-    async function saveSessionAndNavigate() {
-      if (wallet.isConnected && wallet.smartWalletPubkey) {
-        if (__DEV__) {
-          const pubkey = wallet.smartWalletPubkey.toString();
-          console.log('Wallet connected. Public key:', pubkey.substring(0, 8) + '...' + pubkey.substring(pubkey.length - 4));
-        }
+    async function routeRestoredSession() {
+      if (connecting.current) return;
 
-        // Persist wallet session to SecureStore for automatic reconnection on app restart
-        try {
-          const session: WalletSession = {
-            publicKey: wallet.smartWalletPubkey.toString(),
-            credentialId: 'lazorkit', // MVP: Placeholder credential ID
-            createdAt: Date.now(),
-            lastAccessedAt: Date.now(),
-          };
-
-          await WalletService.saveSession(session);
-          if (__DEV__) {
-            console.log('Session saved successfully before navigation');
-          }
-        } catch (error) {
-          // Log error but still navigate to home - session save failure shouldn't block user
-          console.error('Failed to save session, but proceeding to home:', error);
+      if (walletInfo && wallet.isConnected && wallet.smartWalletPubkey) {
+        const { status, account } = WalletService.getSessionState();
+        if (
+          status === 'connected' &&
+          WalletService.checkSessionIdentity(account?.session ?? null, walletInfo) === 'match'
+        ) {
+          router.replace('/home');
+          return;
+        }
+        await completeConnectionAndNavigate(walletInfo, false);
+      } else if (WalletService.getSessionState().status === 'watch') {
+        if (__DEV__) {
+          console.log('[WelcomeScreen] Session restored in watch mode, navigating to home');
         }
-
         router.replace('/home');
       }
     }
 
-    saveSessionAndNavigate();
-  }, [wallet.isConnected, wallet.smartWalletPubkey, router]);
+    routeRestoredSession();
+  }, [walletInfo, wallet.isConnected, wallet.smartWalletPubkey, router, completeConnectionAndNavigate]);
 
   /**
    * Initiates wallet creation with biometric authentication.
    * wallet.connect() opens Lazorkit Portal in system browser and initiates
    * WebAuthn credential creation with biometric prompt (Face ID/Touch ID).
-   * After authentication, Portal redirects back to app via deep link.
+   * After authentication, Portal redirects back to app via deep link, and the
+   * wallet is recorded with a new session.
    *
-   * Error handling strategy:
-   * - User cancellation: Inform user they cancelled and can retry
-   * - Network errors: Suggest checking connection
-   * - Unknown errors: Generic failure message with retry option
+   * Error handling strategy (by normalizeWalletError() code):
+   * - USER_CANCELLED: Inform user they cancelled and can retry
+   * - RPC_TIMEOUT: Suggest checking connection
+   * - Other codes: Generic failure message with retry option
    */
   const handleCreateWallet = async () => {
     setError(null); // Clear any previous errors before attempting connection
+    connecting.current = true;
 
     try {
-      await wallet.connect({
+      const connected = await wallet.connect({
         redirectUrl: 'lazorkitstarter://callback',
       });
-    } catch (err: any) {
+      await completeConnectionAndNavigate(connected, true);
+    } catch (err) {
       console.error('Wallet connection error:', err);
 
-      // Set user-friendly error message based on error type
-      if (err.message?.toLowerCase().includes('cancel') || err.message?.toLowerCase().includes('abort')) {
+      // Set user-friendly error message based on the normalized error code
+      const walletError = normalizeWalletError(err);
+      if (walletError.code === 'USER_CANCELLED') {
         setError('Authentication cancelled. Please try again.');
-      } else if (err.message?.toLowerCase().includes('network') || err.message?.toLowerCase().includes('timeout')) {
+      } else if (walletError.code === 'RPC_TIMEOUT') {
         setError('Network error. Please check your connection and try again.');
       } else {
         setError('Failed to create wallet. Please try again.');
       }
+    } finally {
+      connecting.current = false;
     }
   };
 
-  // Show loading indicator while checking for existing session
-  if (checkingSession) {
-    return (
-      <View style={styles.container}>
-        <ActivityIndicator size="large" color="#9945FF" />
-        <Text style={styles.loadingText}>Loading...</Text>
-      </View>
-    );
-  }
-
   // Render welcome screen if no valid session found
   return (
     <View style={styles.container}>
@@ -180,6 +177,19 @@ export default function WelcomeScreen() {
         {error && (
           <Text style={styles.errorText}>{error}</Text>
         )}
+
+        {/* Active network - choose cluster before creating wallet (e.g. Localnet for QA) */}
+        <TouchableOpacity
+          style={styles.networkButton}
+          onPress={() => router.push('/settings')}
+          accessibilityRole="button"
+          accessibilityLabel={`Network: ${NetworkService.getActiveProfile().label}`}
+          accessibilityHint="Opens settings to switch network"
+        >
+          <Text style={styles.networkButtonText}>
+            Network: {NetworkService.getActiveProfile().label}
+          </Text>
+        </TouchableOpacity>
       </View>
     </View>
   );
@@ -240,9 +250,13 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginTop: 16,
   },
-  loadingText: {
-    fontSize: 15, // Body size
-    color: '#171717',
-    marginTop: 16,
+  networkButton: {
+    marginTop: 24,
+    paddingVertical: 8,
+  },
+  networkButtonText: {
+    color: '#9945FF',
+    fontSize: 14,
+    fontWeight: '600', // Semibold
   },
 });
@@ -0,0 +1,531 @@
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Switch,
+} from 'react-native';
+import { useEffect, useState } from 'react';
+import { useRouter } from 'expo-router';
+import { PolicyService } from '../services/PolicyService';
+import { NetworkService } from '../services/NetworkService';
+import {
+  Colors,
+  Typography,
+  Spacing,
+  BorderRadius,
+  NATIVE_SOL,
+  MAX_POLICY_ADDRESSES,
+} from '../services/constants';
+import { getPolicyAssetKey } from '../utils/PolicyUtils';
+import { formatDecimalAmount } from '../utils/DecimalUtils';
+import { truncateAddress } from '../utils/FormattingUtils';
+import {
+  formatTokenAmountToLamports,
+  isValidAmount,
+  isValidSolanaAddress,
+} from '../utils/ValidationUtils';
+import type { SpendingLimits, SpendingPolicy } from '../types';
+
+/**
+ * Limit fields shown for each asset, in display order.
+ */
+const LIMIT_FIELDS: { key: keyof SpendingLimits; label: string }[] = [
+  { key: 'perTransaction', label: 'Per transfer' },
+  { key: 'daily', label: 'Per 24 hours' },
+  { key: 'weekly', label: 'Per 7 days' },
+];
+
+/**
+ * Spending Policy Screen
+ *
+ * Edits the spending policy checked before every transfer (PolicyService):
+ * - Limits per asset of the active network: per transfer, rolling 24 hours and 7 days
+ *   (empty = no limit), and whether going over needs a confirmation or is blocked
+ * - New recipient warning
+ * - Allowed recipients (optionally the only ones that can be paid) and blocked recipients
+ *
+ * Limits are typed in the asset's units and stored in base units; limits set
+ * for other networks' tokens are kept unchanged.
+ */
+export default function PolicyScreen() {
+  const router = useRouter();
+
+  // Assets of the active network (tokens, then native SOL) with their limit keys
+  const assets = [
+    ...NetworkService.getTokens().map((token) => ({ key: getPolicyAssetKey(token), ...token })),
+    { key: getPolicyAssetKey(), ...NATIVE_SOL },
+  ];
+
+  const [policy, setPolicy] = useState<SpendingPolicy | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // Limit inputs as typed, by asset key then field
+  const [limitInputs, setLimitInputs] = useState<Record<string, Record<string, string>>>({});
+  const [allowInput, setAllowInput] = useState('');
+  const [denyInput, setDenyInput] = useState('');
+  const [listError, setListError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  /**
+   * Load the saved policy and fill the limit inputs. A policy that cannot be
+   * read is not shown, so it cannot be overwritten from the defaults.
+   */
+  useEffect(() => {
+    PolicyService.getPolicy()
+      .then((saved) => {
+        setPolicy(saved);
+        setLimitInputs(
+          Object.fromEntries(
+            assets.map((asset) => [
+              asset.key,
+              Object.fromEntries(
+                LIMIT_FIELDS.map(({ key }) => {
+                  const limit = saved.limits[asset.key]?.[key];
+                  return [key, limit ? formatDecimalAmount(limit, asset.decimals) : ''];
+                })
+              ),
+            ])
+          )
+        );
+      })
+      .catch((error) => {
+        console.error('[PolicyScreen] Failed to load spending policy:', error);
+        setLoadError('Could not load your spending policy. Please try again.');
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- load once; assets only change with the network
+  }, []);
+
+  if (!policy) {
+    return loadError ? (
+      <View style={[styles.container, styles.contentContainer]}>
+        <Text style={styles.errorText}>{loadError}</Text>
+      </View>
+    ) : null;
+  }
+
+  /**
+   * Update one limit input.
+   */
+  const handleLimitChange = (assetKey: string, field: keyof SpendingLimits, text: string) => {
+    setLimitInputs((prev) => ({ ...prev, [assetKey]: { ...prev[assetKey], [field]: text } }));
+    setSaveError(null);
+  };
+
+  /**
+   * Add an address to the allowed or blocked list.
+   */
+  const handleAddAddress = (list: 'allowlist' | 'denylist') => {
+    const address = (list === 'allowlist' ? allowInput : denyInput).trim();
+    const validation = isValidSolanaAddress(address);
+    if (!validation.valid) {
+      setListError(validation.error || null);
+      return;
+    }
+    if (policy[list].includes(address)) {
+      setListError('This address is already on the list');
+      return;
+    }
+    if (policy[list].length >= MAX_POLICY_ADDRESSES) {
+      setListError(`A list can have at most ${MAX_POLICY_ADDRESSES} addresses`);
+      return;
+    }
+
+    setPolicy({ ...policy, [list]: [...policy[list], address] });
+    if (list === 'allowlist') setAllowInput('');
+    else setDenyInput('');
+    setListError(null);
+  };
+
+  /**
+   * Remove an address from the allowed or blocked list.
+   */
+  const handleRemoveAddress = (list: 'allowlist' | 'denylist', address: string) => {
+    setPolicy({ ...policy, [list]: policy[list].filter((entry) => entry !== address) });
+  };
+
+  /**
+   * Validate the limit inputs, save the policy and return to Settings.
+   */
+  const handleSave = async () => {
+    const limits = { ...policy.limits };
+    for (const asset of assets) {
+      const assetLimits: SpendingLimits = {};
+      for (const { key, label } of LIMIT_FIELDS) {
+        const input = (limitInputs[asset.key]?.[key] ?? '').trim();
+        if (!input) continue;
+
+        const validation = isValidAmount(input, asset);
+        if (!validation.valid) {
+          setSaveError(`${asset.symbol} ${label.toLowerCase()}: ${validation.error}`);
+          return;
+        }
+        assetLimits[key] = formatTokenAmountToLamports(input, asset.decimals).toString();
+      }
+
+      if (Object.keys(assetLimits).length > 0) {
+        limits[asset.key] = assetLimits;
+      } else {
+        delete limits[asset.key];
+      }
+    }
+
+    setSaveError(null);
+    setSaving(true);
+    try {
+      await PolicyService.savePolicy({ ...policy, limits });
+      router.back();
+    } catch (error: any) {
+      setSaveError(error.message || 'Unable to save spending policy. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderAddressList = (
+    list: 'allowlist' | 'denylist',
+    input: string,
+    setInput: (text: string) => void
+  ) => {
+    const name = list === 'allowlist' ? 'allowed' : 'blocked';
+
+    return (
+      <>
+        {policy[list].map((address) => (
+          <View key={address} style={styles.addressRow}>
+            <Text style={styles.addressText}>{truncateAddress(address)}</Text>
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={() => handleRemoveAddress(list, address)}
+              accessible={true}
+              accessibilityRole="button"
+              accessibilityLabel={`Remove ${truncateAddress(address)} from ${name} recipients`}
+            >
+              <Text style={styles.removeButtonText}>Remove</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+        <View style={styles.addRow}>
+          <TextInput
+            style={[styles.input, styles.addInput]}
+            placeholder="Solana address"
+            placeholderTextColor={Colors.neutral[500]}
+            value={input}
+            onChangeText={(text) => {
+              setInput(text);
+              setListError(null);
+            }}
+            autoCapitalize="none"
+            autoCorrect={false}
+            accessible={true}
+            accessibilityLabel={`Address to add to ${name} recipients`}
+          />
+          <TouchableOpacity
+            style={[styles.addButton, !input.trim() && styles.buttonDisabled]}
+            onPress={() => handleAddAddress(list)}
+            disabled={!input.trim()}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={`Add to ${name} recipients`}
+            accessibilityState={{ disabled: !input.trim() }}
+          >
+            <Text style={styles.addButtonText}>Add</Text>
+          </TouchableOpacity>
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={{ flex: 1 }}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+    >
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.contentContainer}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Text style={styles.title}>Spending Policy</Text>
+
+        {/* Limits per asset */}
+        <Text style={styles.sectionTitle}>Limits</Text>
+        <Text style={styles.helperText}>
+          Totals include transfers sent from this device on{' '}
+          {NetworkService.getActiveProfile().label}. Leave empty for no limit.
+        </Text>
+        {assets.map((asset) => (
+          <View key={asset.key} style={styles.card}>
+            <Text style={styles.label}>{asset.symbol}</Text>
+            {LIMIT_FIELDS.map(({ key, label }) => (
+              <View key={key} style={styles.limitRow}>
+                <Text style={styles.limitLabel}>{label}</Text>
+                <TextInput
+                  style={[styles.input, styles.limitInput]}
+                  placeholder="No limit"
+                  placeholderTextColor={Colors.neutral[500]}
+                  value={limitInputs[asset.key]?.[key] ?? ''}
+                  onChangeText={(text) => handleLimitChange(asset.key, key, text)}
+                  keyboardType="decimal-pad"
+                  accessible={true}
+                  accessibilityLabel={`${asset.symbol} limit ${label.toLowerCase()}`}
+                />
+              </View>
+            ))}
+          </View>
+        ))}
+
+        <Text style={styles.label}>Over a limit</Text>
+        <View style={styles.optionRow}>
+          {(['confirm', 'block'] as const).map((action) => {
+            const selected = policy.overLimitAction === action;
+            const label = action === 'confirm' ? 'Ask to confirm' : 'Block';
+            return (
+              <TouchableOpacity
+                key={action}
+                style={[styles.option, selected && styles.optionSelected]}
+                onPress={() => setPolicy({ ...policy, overLimitAction: action })}
+                accessible={true}
+                accessibilityRole="radio"
+                accessibilityLabel={`Over a limit: ${label}`}
+                accessibilityState={{ selected }}
+              >
+                <Text style={[styles.optionText, selected && styles.optionTextSelected]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {/* Recipients */}
+        <Text style={styles.sectionTitle}>Recipients</Text>
+        <View style={styles.switchRow}>
+          <View style={styles.switchTextContainer}>
+            <Text style={styles.label}>Warn about new recipients</Text>
+            <Text style={styles.helperText}>
+              Ask for confirmation before paying an address you have not paid before and that is
+              not in your contacts.
+            </Text>
+          </View>
+          <Switch
+            value={policy.warnNewRecipients}
+            onValueChange={(value) => setPolicy({ ...policy, warnNewRecipients: value })}
+            trackColor={{ true: Colors.primary.purple, false: '#E5E5E5' }}
+            accessible={true}
+            accessibilityLabel="Warn about new recipients"
+          />
+        </View>
+
+        <View style={styles.switchRow}>
+          <View style={styles.switchTextContainer}>
+            <Text style={styles.label}>Only allowed recipients</Text>
+            <Text style={styles.helperText}>Block transfers to addresses not listed below.</Text>
+          </View>
+          <Switch
+            value={policy.allowlistOnly}
+            onValueChange={(value) => setPolicy({ ...policy, allowlistOnly: value })}
+            trackColor={{ true: Colors.primary.purple, false: '#E5E5E5' }}
+            accessible={true}
+            accessibilityLabel="Only allow transfers to allowed recipients"
+          />
+        </View>
+
+        <Text style={styles.label}>Allowed recipients</Text>
+        {renderAddressList('allowlist', allowInput, setAllowInput)}
+
+        <Text style={[styles.label, styles.listLabel]}>Blocked recipients</Text>
+        {renderAddressList('denylist', denyInput, setDenyInput)}
+        {listError && <Text style={styles.errorText}>{listError}</Text>}
+
+        {saveError && <Text style={styles.errorText}>{saveError}</Text>}
+
+        <TouchableOpacity
+          style={[styles.primaryButton, saving && styles.buttonDisabled]}
+          onPress={handleSave}
+          disabled={saving}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel="Save spending policy"
+          accessibilityState={{ disabled: saving }}
+        >
+          <Text style={styles.primaryButtonText}>Save</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.neutral[50], // Light background
+  },
+  contentContainer: {
+    padding: Spacing.xl, // 24pt padding
+  },
+  title: {
+    fontSize: Typography.fontSize.h2, // 24pt
+    fontWeight: Typography.fontWeight.bold, // 700
+    color: Colors.neutral[900], // Dark text
+    marginBottom: Spacing.lg, // 16pt
+  },
+  sectionTitle: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.bold, // 700
+    color: Colors.neutral[900],
+    marginTop: Spacing.lg, // 16pt
+  },
+  label: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.neutral[900],
+    marginBottom: Spacing.sm, // 8pt
+  },
+  listLabel: {
+    marginTop: Spacing.lg, // 16pt
+  },
+  helperText: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    color: Colors.neutral[500],
+    marginTop: Spacing.xs, // 4pt
+    marginBottom: Spacing.md, // 12pt
+  },
+  card: {
+    backgroundColor: '#fff',
+    padding: Spacing.lg, // 16pt
+    borderRadius: BorderRadius.sm, // 8pt
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    marginBottom: Spacing.md, // 12pt
+  },
+  limitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: Spacing.sm, // 8pt
+  },
+  limitLabel: {
+    fontSize: Typography.fontSize.body, // 15pt
+    color: Colors.neutral[900],
+  },
+  input: {
+    height: 44, // WCAG AA minimum touch target
+    borderWidth: 1,
+    borderColor: '#E5E5E5', // Light gray border
+    borderRadius: BorderRadius.sm, // 8pt
+    paddingHorizontal: Spacing.lg, // 16pt
+    fontSize: Typography.fontSize.body, // 15pt
+    backgroundColor: '#fff',
+    color: Colors.neutral[900],
+  },
+  limitInput: {
+    width: 140,
+    textAlign: 'right',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm, // 8pt
+    marginBottom: Spacing.lg, // 16pt
+  },
+  option: {
+    height: 36,
+    paddingHorizontal: Spacing.lg, // 16pt
+    borderRadius: BorderRadius.full, // Pill shape
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    backgroundColor: '#fff',
+    justifyContent: 'center',
+  },
+  optionSelected: {
+    borderColor: Colors.primary.purple,
+    backgroundColor: Colors.primary.purple,
+  },
+  optionText: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.neutral[900],
+  },
+  optionTextSelected: {
+    color: '#fff',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: Spacing.md, // 12pt
+  },
+  switchTextContainer: {
+    flex: 1,
+    marginRight: Spacing.md, // 12pt
+  },
+  addressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#fff',
+    paddingHorizontal: Spacing.lg, // 16pt
+    borderRadius: BorderRadius.sm, // 8pt
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    marginBottom: Spacing.sm, // 8pt
+  },
+  addressText: {
+    fontSize: Typography.fontSize.body, // 15pt
+    color: Colors.neutral[900],
+  },
+  removeButton: {
+    minHeight: 44, // WCAG AA minimum touch target
+    justifyContent: 'center',
+  },
+  removeButtonText: {
+    fontSize: Typography.fontSize.body, // 15pt
+    color: Colors.error,
+  },
+  addRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm, // 8pt
+  },
+  addInput: {
+    flex: 1,
+  },
+  addButton: {
+    height: 44, // WCAG AA minimum touch target
+    paddingHorizontal: Spacing.lg, // 16pt
+    borderRadius: BorderRadius.sm, // 8pt
+    borderWidth: 1,
+    borderColor: Colors.primary.purple,
+    justifyContent: 'center',
+  },
+  addButtonText: {
+    color: Colors.primary.purple,
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+  },
+  errorText: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    color: Colors.error, // Red text
+    marginTop: Spacing.sm, // 8pt
+  },
+  primaryButton: {
+    height: 44, // WCAG AA minimum touch target
+    backgroundColor: Colors.primary.purple,
+    borderRadius: BorderRadius.sm, // 8pt
+    marginTop: Spacing.xl, // 24pt
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5, // Visual feedback for disabled state
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+  },
+});
@@ -0,0 +1,391 @@
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Share,
+} from 'react-native';
+import { useState } from 'react';
+import { useRouter } from 'expo-router';
+import { useWallet } from '@lazorkit/wallet-mobile-adapter';
+import QRCode from 'react-native-qrcode-svg';
+import { AddressDisplay } from '../components/AddressDisplay';
+import { NetworkService } from '../services/NetworkService';
+import { PaymentRequestService } from '../services/PaymentRequestService';
+import { WalletService } from '../services/WalletService';
+import { Colors, Typography, Spacing, BorderRadius, NATIVE_SOL } from '../services/constants';
+import { isValidAmount, formatTokenAmountToLamports } from '../utils/ValidationUtils';
+import { TokenInfo, TransactionRequest } from '../types';
+
+/**
+ * Receive Screen
+ *
+ * Shows the smart wallet address as a QR code, and lets the user build a
+ * Solana Pay transfer request (optional amount, asset, label, message) with a
+ * freshly generated reference key. The QR code switches to the request URL,
+ * which can be shared through the system share sheet.
+ *
+ * Requests are saved by PaymentRequestService, which watches the reference key
+ * for the payment; their status is shown on the Payment Requests screen.
+ */
+export default function ReceiveScreen() {
+  const router = useRouter();
+  const wallet = useWallet();
+  // Connected smart wallet, or the stored address in watch mode
+  const address = WalletService.getWalletAddress(wallet.smartWalletPubkey) ?? '';
+
+  // Tokens available on the active network (USDC first)
+  const tokens = NetworkService.getTokens();
+
+  // Request form state
+  const [asset, setAsset] = useState<TransactionRequest['asset']>('spl-token');
+  const [selectedToken, setSelectedToken] = useState<TokenInfo>(tokens[0]);
+  const [amount, setAmount] = useState('');
+  const [label, setLabel] = useState('');
+  const [message, setMessage] = useState('');
+  const [amountError, setAmountError] = useState<string | null>(null);
+  const [createError, setCreateError] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+
+  // Generated Solana Pay URL (null = show plain address)
+  const [requestUrl, setRequestUrl] = useState<string | null>(null);
+
+  const selectedAsset = asset === 'sol' ? NATIVE_SOL : selectedToken;
+
+  /**
+   * Create and save a Solana Pay payment request with a new reference key.
+   * Amount is optional; when given it is converted exactly to base units.
+   */
+  const handleCreateRequest = async () => {
+    const trimmedAmount = amount.trim();
+    if (trimmedAmount) {
+      const validation = isValidAmount(trimmedAmount, selectedAsset);
+      if (!validation.valid) {
+        setAmountError(validation.error || null);
+        return;
+      }
+    }
+    setAmountError(null);
+    setCreateError(null);
+
+    setCreating(true);
+    try {
+      const request = await PaymentRequestService.createRequest({
+        recipient: address,
+        token: asset === 'spl-token' ? selectedToken : undefined,
+        amountLamports: trimmedAmount
+          ? formatTokenAmountToLamports(trimmedAmount, selectedAsset.decimals)
+          : undefined,
+        label: label.trim() || undefined,
+        message: message.trim() || undefined,
+      });
+      setRequestUrl(request.url);
+    } catch (error: any) {
+      setCreateError(error.message || 'Unable to save payment request. Please try again.');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  /**
+   * Open the system share sheet with the request URL (or the plain address).
+   */
+  const handleShare = async () => {
+    try {
+      await Share.share({ message: requestUrl ?? address });
+    } catch (error) {
+      console.error('[ReceiveScreen] Failed to share:', error);
+    }
+  };
+
+  if (!address) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.helperText}>Connect your wallet to receive payments.</Text>
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={{ flex: 1 }}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+    >
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.contentContainer}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* QR code: plain address, or the Solana Pay request once created */}
+        <View style={styles.qrCard}>
+          <QRCode value={requestUrl ?? address} size={220} />
+          <Text style={styles.qrCaption}>
+            {requestUrl ? 'Scan to pay with a Solana Pay wallet' : 'Scan to get my wallet address'}
+          </Text>
+        </View>
+
+        <AddressDisplay address={address} />
+
+        <TouchableOpacity
+          style={styles.primaryButton}
+          onPress={handleShare}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={requestUrl ? 'Share payment request' : 'Share wallet address'}
+        >
+          <Text style={styles.primaryButtonText}>
+            {requestUrl ? 'Share Payment Request' : 'Share Address'}
+          </Text>
+        </TouchableOpacity>
+
+        {/* Payment request form */}
+        <Text style={styles.sectionTitle}>Request a Payment</Text>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.label}>Asset</Text>
+          <View style={styles.tokenPicker}>
+            {[...tokens, null].map((token) => {
+              const selected = token
+                ? asset === 'spl-token' && token.mint === selectedToken.mint
+                : asset === 'sol';
+              const option = token ?? NATIVE_SOL;
+              return (
+                <TouchableOpacity
+                  key={token?.mint ?? 'sol'}
+                  style={[styles.tokenOption, selected && styles.tokenOptionSelected]}
+                  onPress={() => {
+                    setAsset(token ? 'spl-token' : 'sol');
+                    if (token) setSelectedToken(token);
+                    setRequestUrl(null);
+                  }}
+                  accessible={true}
+                  accessibilityRole="radio"
+                  accessibilityLabel={`${option.name} (${option.symbol})`}
+                  accessibilityState={{ selected }}
+                >
+                  <Text
+                    style={[styles.tokenOptionText, selected && styles.tokenOptionTextSelected]}
+                  >
+                    {option.symbol}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.label}>Amount ({selectedAsset.symbol}, optional)</Text>
+          <TextInput
+            style={[styles.input, amountError && styles.inputError]}
+            placeholder="Payer chooses"
+            placeholderTextColor={Colors.neutral[500]}
+            value={amount}
+            onChangeText={(text) => {
+              setAmount(text);
+              setRequestUrl(null);
+            }}
+            keyboardType="decimal-pad"
+            accessible={true}
+            accessibilityLabel={`Requested ${selectedAsset.symbol} amount`}
+          />
+          {amountError && <Text style={styles.errorText}>{amountError}</Text>}
+        </View>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.label}>Label (optional)</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Your name or shop"
+            placeholderTextColor={Colors.neutral[500]}
+            value={label}
+            onChangeText={(text) => {
+              setLabel(text);
+              setRequestUrl(null);
+            }}
+            maxLength={64}
+            accessible={true}
+            accessibilityLabel="Request label"
+          />
+        </View>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.label}>Message (optional)</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="What the payment is for"
+            placeholderTextColor={Colors.neutral[500]}
+            value={message}
+            onChangeText={(text) => {
+              setMessage(text);
+              setRequestUrl(null);
+            }}
+            maxLength={140}
+            accessible={true}
+            accessibilityLabel="Request message"
+          />
+        </View>
+
+        {createError && <Text style={styles.errorText}>{createError}</Text>}
+
+        <TouchableOpacity
+          style={[styles.secondaryButton, creating && styles.buttonDisabled]}
+          onPress={handleCreateRequest}
+          disabled={creating}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel="Create payment request"
+          accessibilityHint="Shows a Solana Pay QR code with a new reference key"
+          accessibilityState={{ disabled: creating }}
+        >
+          <Text style={styles.secondaryButtonText}>Create Payment Request</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.linkButton}
+          onPress={() => router.push('/requests')}
+          accessible={true}
+          accessibilityRole="link"
+          accessibilityLabel="View payment requests"
+          accessibilityHint="Shows which payment requests have been paid"
+        >
+          <Text style={styles.linkText}>View Payment Requests</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.neutral[50], // Light background
+  },
+  contentContainer: {
+    padding: Spacing.xl, // 24pt padding
+  },
+  qrCard: {
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    padding: Spacing.xl, // 24pt
+    borderRadius: BorderRadius.md, // 12pt
+    marginBottom: Spacing.lg, // 16pt
+  },
+  qrCaption: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    color: Colors.neutral[500],
+    marginTop: Spacing.md, // 12pt
+  },
+  sectionTitle: {
+    fontSize: Typography.fontSize.h2, // 24pt
+    fontWeight: Typography.fontWeight.bold, // 700
+    color: Colors.neutral[900],
+    marginTop: Spacing.xxl, // 32pt
+    marginBottom: Spacing.lg, // 16pt
+  },
+  inputContainer: {
+    marginBottom: Spacing.lg, // 16pt
+  },
+  label: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.neutral[900],
+    marginBottom: Spacing.sm, // 8pt
+  },
+  input: {
+    height: 44, // WCAG AA minimum touch target
+    borderWidth: 1,
+    borderColor: '#E5E5E5', // Light gray border
+    borderRadius: BorderRadius.sm, // 8pt
+    paddingHorizontal: Spacing.lg, // 16pt
+    fontSize: Typography.fontSize.body, // 15pt
+    backgroundColor: '#fff',
+    color: Colors.neutral[900],
+  },
+  inputError: {
+    borderColor: Colors.error, // Red border for errors
+  },
+  errorText: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    color: Colors.error, // Red text
+    marginTop: Spacing.xs, // 4pt
+  },
+  helperText: {
+    fontSize: Typography.fontSize.body, // 15pt
+    color: Colors.neutral[500],
+    textAlign: 'center',
+    marginTop: Spacing.xxxl, // 48pt
+  },
+  tokenPicker: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm, // 8pt
+  },
+  tokenOption: {
+    height: 36,
+    paddingHorizontal: Spacing.lg, // 16pt
+    borderRadius: BorderRadius.full, // Pill shape
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    backgroundColor: '#fff',
+    justifyContent: 'center',
+  },
+  tokenOptionSelected: {
+    borderColor: Colors.primary.purple,
+    backgroundColor: Colors.primary.purple,
+  },
+  tokenOptionText: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.neutral[900],
+  },
+  tokenOptionTextSelected: {
+    color: '#fff',
+  },
+  primaryButton: {
+    height: 44, // WCAG AA minimum touch target
+    backgroundColor: Colors.primary.purple,
+    borderRadius: BorderRadius.sm, // 8pt
+    marginTop: Spacing.lg, // 16pt
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+  },
+  secondaryButton: {
+    height: 44, // WCAG AA minimum touch target
+    borderRadius: BorderRadius.sm, // 8pt
+    borderWidth: 1,
+    borderColor: Colors.primary.purple,
+    marginTop: Spacing.md, // 12pt
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: Colors.primary.purple,
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+  },
+  buttonDisabled: {
+    opacity: 0.5, // Visual feedback for disabled state
+  },
+  linkButton: {
+    minHeight: 44, // WCAG AA minimum touch target
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: Spacing.sm, // 8pt
+  },
+  linkText: {
+    fontSize: Typography.fontSize.body, // 15pt
+    color: Colors.primary.purple,
+    fontWeight: Typography.fontWeight.semibold, // 600
+  },
+});
@@ -0,0 +1,221 @@
+import { View, Text, TouchableOpacity, StyleSheet, FlatList, Alert, Share, Linking } from 'react-native';
+import { useCallback, useRef, useState } from 'react';
+import { useFocusEffect } from 'expo-router';
+import { PaymentRequestService } from '../services/PaymentRequestService';
+import { SolanaService } from '../services/SolanaService';
+import {
+  Colors,
+  Typography,
+  Spacing,
+  BorderRadius,
+  NATIVE_SOL,
+  PAYMENT_REQUEST_POLL_INTERVAL_MS,
+} from '../services/constants';
+import { formatTokenBaseUnits, formatDateTime } from '../utils/FormattingUtils';
+import type { PaymentRequest } from '../types';
+
+/**
+ * Human-readable labels for payment request statuses.
+ */
+const STATUS_LABELS: Record<PaymentRequest['status'], string> = {
+  pending: 'Waiting for payment',
+  paid: 'Paid',
+  expired: 'Expired',
+};
+
+/**
+ * Payment Requests Screen
+ *
+ * Lists Solana Pay payment requests created on the Receive screen, newest first.
+ * While the screen is focused, pending requests are checked every
+ * PAYMENT_REQUEST_POLL_INTERVAL_MS via PaymentRequestService.checkPendingRequests(),
+ * which marks them paid (verified on-chain) or expired.
+ *
+ * Tapping a request offers Share, View on Explorer (paid only) and Delete.
+ */
+export default function RequestsScreen() {
+  const [requests, setRequests] = useState<PaymentRequest[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  // Skip a poll while the previous check is still running (slow RPC)
+  const checkingRef = useRef(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      let active = true;
+
+      const check = async () => {
+        if (checkingRef.current) return;
+        checkingRef.current = true;
+        try {
+          const result = await PaymentRequestService.checkPendingRequests();
+          if (active) setRequests(result);
+        } finally {
+          checkingRef.current = false;
+        }
+      };
+
+      // Show stored requests immediately, then poll the chain
+      PaymentRequestService.getRequests().then((result) => {
+        if (!active) return;
+        setRequests(result);
+        setLoaded(true);
+        check();
+      });
+      const interval = setInterval(check, PAYMENT_REQUEST_POLL_INTERVAL_MS);
+
+      return () => {
+        active = false;
+        clearInterval(interval);
+      };
+    }, [])
+  );
+
+  /**
+   * Delete a request after user confirmation.
+   */
+  const handleDelete = (request: PaymentRequest) => {
+    Alert.alert('Delete payment request?', 'A payment made later will no longer be tracked.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await PaymentRequestService.deleteRequest(request.reference);
+            setRequests(await PaymentRequestService.getRequests());
+          } catch (error: any) {
+            Alert.alert('Unable to delete request', error.message || 'Please try again.');
+          }
+        },
+      },
+    ]);
+  };
+
+  /**
+   * Show the actions available for a request.
+   */
+  const handleSelectRequest = (request: PaymentRequest) => {
+    Alert.alert(request.label || 'Payment request', STATUS_LABELS[request.status], [
+      ...(request.status === 'pending'
+        ? [{ text: 'Share', onPress: () => Share.share({ message: request.url }) }]
+        : []),
+      ...(request.signature
+        ? [
+            {
+              text: 'View on Explorer',
+              onPress: () => Linking.openURL(SolanaService.getExplorerUrl(request.signature!)),
+            },
+          ]
+        : []),
+      { text: 'Delete', style: 'destructive' as const, onPress: () => handleDelete(request) },
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  const renderRequest = ({ item }: { item: PaymentRequest }) => {
+    const asset = item.token ?? NATIVE_SOL;
+    const amountLamports = item.paidAmountLamports ?? item.amountLamports;
+    const amountText = amountLamports
+      ? formatTokenBaseUnits(amountLamports, asset)
+      : `Any amount of ${asset.symbol}`;
+
+    return (
+      <TouchableOpacity
+        style={styles.row}
+        onPress={() => handleSelectRequest(item)}
+        accessible={true}
+        accessibilityRole="button"
+        accessibilityLabel={`${amountText}, ${STATUS_LABELS[item.status]}`}
+        accessibilityHint="Shows request actions"
+      >
+        <View style={styles.rowMain}>
+          <Text style={styles.rowTitle}>{amountText}</Text>
+          {(item.label || item.message) && (
+            <Text style={styles.rowSubtitle} numberOfLines={1}>
+              {[item.label, item.message].filter(Boolean).join(' · ')}
+            </Text>
+          )}
+          <Text style={styles.rowSubtitle}>
+            {item.paidAt
+              ? `Paid ${formatDateTime(item.paidAt)}`
+              : `Created ${formatDateTime(item.createdAt)}`}
+          </Text>
+        </View>
+        <Text
+          style={[
+            styles.statusText,
+            item.status === 'paid' && styles.statusPaid,
+            item.status === 'expired' && styles.statusExpired,
+          ]}
+        >
+          {STATUS_LABELS[item.status]}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <FlatList
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+      data={requests}
+      keyExtractor={(item) => item.reference}
+      renderItem={renderRequest}
+      ListEmptyComponent={
+        loaded ? <Text style={styles.emptyText}>No payment requests yet</Text> : null
+      }
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.neutral[50], // Light background
+  },
+  contentContainer: {
+    padding: Spacing.lg, // 16pt padding
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    padding: Spacing.lg, // 16pt
+    borderRadius: BorderRadius.sm, // 8pt
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    marginBottom: Spacing.sm, // 8pt
+  },
+  rowMain: {
+    flex: 1,
+    marginRight: Spacing.md, // 12pt
+  },
+  rowTitle: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.neutral[900],
+  },
+  rowSubtitle: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    color: Colors.neutral[500],
+    marginTop: Spacing.xs, // 4pt
+  },
+  statusText: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.warning,
+  },
+  statusPaid: {
+    color: Colors.success,
+  },
+  statusExpired: {
+    color: Colors.neutral[500],
+  },
+  emptyText: {
+    fontSize: Typography.fontSize.body, // 15pt
+    color: Colors.neutral[500],
+    textAlign: 'center',
+    marginTop: Spacing.xxxl, // 48pt
+  },
+});
@@ -0,0 +1,117 @@
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { useState } from 'react';
+import { useRouter } from 'expo-router';
+import { CameraView, useCameraPermissions, BarcodeScanningResult } from 'expo-camera';
+import { Colors, Typography, Spacing, BorderRadius } from '../services/constants';
+
+/**
+ * Scan Screen
+ *
+ * Scans a QR code with the camera and hands the raw contents back to the
+ * Transfer screen as the `paymentLink` param. The Transfer screen accepts
+ * Solana Pay transfer request URLs (solana:...) and plain wallet addresses.
+ *
+ * Only the first code is used; scanning stops once a code is read.
+ */
+export default function ScanScreen() {
+  const router = useRouter();
+  const [permission, requestPermission] = useCameraPermissions();
+  const [scanned, setScanned] = useState(false);
+
+  /**
+   * Return the scanned contents to the Transfer screen.
+   * dismissTo() pops back to the existing Transfer screen and updates its params.
+   */
+  const handleBarcodeScanned = ({ data }: BarcodeScanningResult) => {
+    if (scanned) return;
+    setScanned(true);
+    router.dismissTo({ pathname: '/transfer', params: { paymentLink: data } });
+  };
+
+  // Permission state still loading
+  if (!permission) {
+    return (
+      <View style={styles.messageContainer}>
+        <ActivityIndicator color={Colors.primary.purple} />
+      </View>
+    );
+  }
+
+  if (!permission.granted) {
+    return (
+      <View style={styles.messageContainer}>
+        <Text style={styles.messageText}>
+          Camera access is needed to scan payment QR codes.
+        </Text>
+        {permission.canAskAgain && (
+          <TouchableOpacity
+            style={styles.primaryButton}
+            onPress={requestPermission}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel="Allow camera access"
+          >
+            <Text style={styles.primaryButtonText}>Allow Camera</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <CameraView
+        style={styles.camera}
+        facing="back"
+        barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+        onBarcodeScanned={scanned ? undefined : handleBarcodeScanned}
+      />
+      <Text style={styles.hintText}>Point the camera at a Solana Pay or address QR code</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  camera: {
+    flex: 1,
+  },
+  hintText: {
+    position: 'absolute',
+    bottom: Spacing.xxxl, // 48pt from bottom
+    left: Spacing.xl, // 24pt
+    right: Spacing.xl, // 24pt
+    textAlign: 'center',
+    color: '#fff',
+    fontSize: Typography.fontSize.body, // 15pt
+  },
+  messageContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: Spacing.xl, // 24pt
+    backgroundColor: Colors.neutral[50], // Light background
+  },
+  messageText: {
+    fontSize: Typography.fontSize.body, // 15pt
+    color: Colors.neutral[900],
+    textAlign: 'center',
+    marginBottom: Spacing.xl, // 24pt
+  },
+  primaryButton: {
+    height: 44, // WCAG AA minimum touch target
+    paddingHorizontal: Spacing.xl, // 24pt
+    backgroundColor: Colors.primary.purple,
+    borderRadius: BorderRadius.sm, // 8pt
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+  },
+});
@@ -0,0 +1,447 @@
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from 'react-native';
+import { useEffect, useState } from 'react';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { ScheduleService } from '../services/ScheduleService';
+import { ContactService } from '../services/ContactService';
+import { Colors, Typography, Spacing, BorderRadius, NATIVE_SOL } from '../services/constants';
+import {
+  describeScheduleRule,
+  getNextRunAt,
+  isValidCronExpression,
+} from '../utils/ScheduleUtils';
+import {
+  formatDateTime,
+  formatLabeledAddress,
+  formatTokenBaseUnits,
+} from '../utils/FormattingUtils';
+import type { ScheduleRule, TransactionRequest } from '../types';
+
+/**
+ * How often the transfer repeats. Daily, weekly and monthly take their day and
+ * time from the first payment; 'custom' takes a cron-like rule.
+ */
+type Repeat = 'once' | 'daily' | 'weekly' | 'monthly' | 'custom';
+
+/**
+ * Options of the Repeat picker, in display order.
+ */
+const REPEAT_OPTIONS: { value: Repeat; label: string }[] = [
+  { value: 'once', label: 'Once' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'custom', label: 'Custom' },
+];
+
+/**
+ * Format a date as YYYY-MM-DD (local time) for the date field.
+ */
+function toDateInput(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parse the YYYY-MM-DD date and HH:MM time fields as a local date.
+ *
+ * @returns The date, or null if either field is not valid
+ */
+function parseDateTimeInput(date: string, time: string): Date | null {
+  const dateMatch = date.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const timeMatch = time.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!dateMatch || !timeMatch) return null;
+
+  const [year, month, day] = [
+    Number(dateMatch[1]),
+    Number(dateMatch[2]) - 1,
+    Number(dateMatch[3]),
+  ];
+  const [hour, minute] = [Number(timeMatch[1]), Number(timeMatch[2])];
+  if (hour > 23 || minute > 59) return null;
+
+  const result = new Date(year, month, day, hour, minute);
+  // Reject dates that roll over (e.g. 2026-02-30)
+  return result.getMonth() === month && result.getDate() === day ? result : null;
+}
+
+/**
+ * Build the schedule rule from the form fields.
+ *
+ * @returns The rule, or a user-facing error message
+ */
+function buildScheduleRule(
+  repeat: Repeat,
+  date: string,
+  time: string,
+  cron: string
+): ScheduleRule | string {
+  const start = parseDateTimeInput(date, time);
+  if (!start) {
+    return 'Enter the date as YYYY-MM-DD and the time as HH:MM';
+  }
+
+  const startAt = start.getTime();
+  const [minute, hour] = [start.getMinutes(), start.getHours()];
+  switch (repeat) {
+    case 'once':
+      return { kind: 'once', at: startAt };
+    case 'daily':
+      return { kind: 'recurring', cron: `${minute} ${hour} * * *`, startAt };
+    case 'weekly':
+      return { kind: 'recurring', cron: `${minute} ${hour} * * ${start.getDay()}`, startAt };
+    case 'monthly':
+      if (start.getDate() > 28) {
+        return 'Monthly payments must start on day 1-28 so they run every month';
+      }
+      return { kind: 'recurring', cron: `${minute} ${hour} ${start.getDate()} * *`, startAt };
+    case 'custom': {
+      const cronValidation = isValidCronExpression(cron);
+      return cronValidation.valid
+        ? { kind: 'recurring', cron: cron.trim(), startAt }
+        : cronValidation.error!;
+    }
+  }
+}
+
+/**
+ * Schedule Edit Screen
+ *
+ * Schedules the transfer filled in on the Transfer screen (passed as the
+ * `transactionRequest` JSON param) to be paid once at a date, or repeatedly
+ * (daily, weekly, monthly, or a custom cron-like rule).
+ *
+ * The rule and its first payment are previewed as the fields change. Saving
+ * creates the schedule with ScheduleService and opens the Scheduled Transfers
+ * screen, where due runs are paid.
+ */
+export default function ScheduleEditScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams();
+
+  // Parse TransactionRequest from route params (passed as JSON string)
+  const transactionRequest: TransactionRequest = JSON.parse(
+    params.transactionRequest as string
+  );
+  const asset = transactionRequest.asset === 'sol' ? NATIVE_SOL : transactionRequest.token;
+
+  // Default first payment: tomorrow at 09:00
+  const [repeat, setRepeat] = useState<Repeat>('monthly');
+  const [date, setDate] = useState(() => {
+    const tomorrow = new Date();
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    return toDateInput(tomorrow);
+  });
+  const [time, setTime] = useState('09:00');
+  const [cron, setCron] = useState('');
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [recipientLabel, setRecipientLabel] = useState<string | undefined>(undefined);
+
+  /**
+   * Look up the recipient in the address book to show its label.
+   */
+  useEffect(() => {
+    ContactService.findByAddress(transactionRequest.recipientAddress).then((contact) =>
+      setRecipientLabel(contact?.label)
+    );
+  }, [transactionRequest.recipientAddress]);
+
+  const rule = buildScheduleRule(repeat, date, time, cron);
+  const firstRunAt =
+    typeof rule === 'string'
+      ? null
+      : getNextRunAt(rule, (rule.kind === 'once' ? rule.at : rule.startAt) - 1);
+
+  /**
+   * Save the schedule and open the Scheduled Transfers screen.
+   */
+  const handleSave = async () => {
+    if (typeof rule === 'string') {
+      setSaveError(rule);
+      return;
+    }
+
+    setSaveError(null);
+    setSaving(true);
+    try {
+      await ScheduleService.createSchedule(transactionRequest, rule);
+      router.dismissTo('/scheduled');
+    } catch (error: any) {
+      setSaveError(error.message || 'Unable to save schedule. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={{ flex: 1 }}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+    >
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.contentContainer}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Text style={styles.title}>Schedule Transfer</Text>
+
+        <View style={styles.summaryCard}>
+          <Text style={styles.summaryAmount}>
+            {formatTokenBaseUnits(transactionRequest.amountLamports, asset)}
+          </Text>
+          <Text style={styles.summaryText}>
+            to {formatLabeledAddress(transactionRequest.recipientAddress, recipientLabel)}
+          </Text>
+          {transactionRequest.memo && (
+            <Text style={styles.summaryText}>Memo: {transactionRequest.memo}</Text>
+          )}
+        </View>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.label}>Repeat</Text>
+          <View style={styles.repeatPicker}>
+            {REPEAT_OPTIONS.map((option) => {
+              const selected = option.value === repeat;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.repeatOption, selected && styles.repeatOptionSelected]}
+                  onPress={() => {
+                    setRepeat(option.value);
+                    setSaveError(null);
+                  }}
+                  accessible={true}
+                  accessibilityRole="radio"
+                  accessibilityLabel={`Repeat: ${option.label}`}
+                  accessibilityState={{ selected }}
+                >
+                  <Text
+                    style={[styles.repeatOptionText, selected && styles.repeatOptionTextSelected]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.label}>{repeat === 'once' ? 'Date' : 'First payment'}</Text>
+          <View style={styles.dateTimeRow}>
+            <TextInput
+              style={[styles.input, styles.dateInput]}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor={Colors.neutral[500]}
+              value={date}
+              onChangeText={setDate}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="numbers-and-punctuation"
+              accessible={true}
+              accessibilityLabel="Payment date"
+            />
+            <TextInput
+              style={[styles.input, styles.timeInput]}
+              placeholder="HH:MM"
+              placeholderTextColor={Colors.neutral[500]}
+              value={time}
+              onChangeText={setTime}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="numbers-and-punctuation"
+              accessible={true}
+              accessibilityLabel="Payment time"
+            />
+          </View>
+        </View>
+
+        {repeat === 'custom' && (
+          <View style={styles.inputContainer}>
+            <Text style={styles.label}>Rule</Text>
+            <TextInput
+              style={[styles.input, styles.cronInput]}
+              placeholder="minute hour day month weekday"
+              placeholderTextColor={Colors.neutral[500]}
+              value={cron}
+              onChangeText={setCron}
+              autoCapitalize="none"
+              autoCorrect={false}
+              accessible={true}
+              accessibilityLabel="Custom schedule rule"
+              accessibilityHint="Five fields: minute, hour, day of month, month, day of week"
+            />
+            <Text style={styles.helperText}>
+              e.g. &quot;0 9 * * 1-5&quot; pays at 09:00 every weekday
+            </Text>
+          </View>
+        )}
+
+        {/* Rule preview */}
+        {typeof rule !== 'string' && (
+          <Text style={styles.previewText}>
+            {describeScheduleRule(rule)}
+            {firstRunAt !== null && rule.kind === 'recurring'
+              ? `\nFirst payment ${formatDateTime(firstRunAt)}`
+              : ''}
+          </Text>
+        )}
+
+        <Text style={styles.helperText}>
+          When a payment is due, it waits in Scheduled Transfers until you confirm it with your
+          passkey. Runs that pass while the app is closed are recorded as missed; only the latest
+          one is offered.
+        </Text>
+
+        {saveError && <Text style={styles.errorText}>{saveError}</Text>}
+
+        <TouchableOpacity
+          style={[styles.primaryButton, saving && styles.buttonDisabled]}
+          onPress={handleSave}
+          disabled={saving}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel="Save schedule"
+          accessibilityState={{ disabled: saving }}
+        >
+          <Text style={styles.primaryButtonText}>Save Schedule</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.neutral[50], // Light background
+  },
+  contentContainer: {
+    padding: Spacing.xl, // 24pt padding
+  },
+  title: {
+    fontSize: Typography.fontSize.h2, // 24pt
+    fontWeight: Typography.fontWeight.bold, // 700
+    color: Colors.neutral[900], // Dark text
+    marginBottom: Spacing.lg, // 16pt
+  },
+  summaryCard: {
+    backgroundColor: '#fff',
+    padding: Spacing.lg, // 16pt
+    borderRadius: BorderRadius.sm, // 8pt
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    marginBottom: Spacing.xl, // 24pt
+  },
+  summaryAmount: {
+    fontSize: Typography.fontSize.h2, // 24pt
+    fontWeight: Typography.fontWeight.bold, // 700
+    color: Colors.neutral[900],
+  },
+  summaryText: {
+    fontSize: Typography.fontSize.body, // 15pt
+    color: Colors.neutral[500],
+    marginTop: Spacing.xs, // 4pt
+  },
+  inputContainer: {
+    marginBottom: Spacing.lg, // 16pt
+  },
+  label: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.neutral[900],
+    marginBottom: Spacing.sm, // 8pt
+  },
+  repeatPicker: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm, // 8pt
+  },
+  repeatOption: {
+    height: 36,
+    paddingHorizontal: Spacing.lg, // 16pt
+    borderRadius: BorderRadius.full, // Pill shape
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    backgroundColor: '#fff',
+    justifyContent: 'center',
+  },
+  repeatOptionSelected: {
+    borderColor: Colors.primary.purple,
+    backgroundColor: Colors.primary.purple,
+  },
+  repeatOptionText: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.neutral[900],
+  },
+  repeatOptionTextSelected: {
+    color: '#fff',
+  },
+  dateTimeRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm, // 8pt
+  },
+  input: {
+    height: 44, // WCAG AA minimum touch target
+    borderWidth: 1,
+    borderColor: '#E5E5E5', // Light gray border
+    borderRadius: BorderRadius.sm, // 8pt
+    paddingHorizontal: Spacing.lg, // 16pt
+    fontSize: Typography.fontSize.body, // 15pt
+    backgroundColor: '#fff',
+    color: Colors.neutral[900],
+  },
+  dateInput: {
+    flex: 2,
+  },
+  timeInput: {
+    flex: 1,
+  },
+  cronInput: {
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace', // Align rule fields
+  },
+  previewText: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.primary.purple,
+    marginBottom: Spacing.md, // 12pt
+  },
+  helperText: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    color: Colors.neutral[500],
+    marginTop: Spacing.xs, // 4pt
+  },
+  errorText: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    color: Colors.error, // Red text
+    marginTop: Spacing.sm, // 8pt
+  },
+  primaryButton: {
+    height: 44, // WCAG AA minimum touch target
+    backgroundColor: Colors.primary.purple,
+    borderRadius: BorderRadius.sm, // 8pt
+    marginTop: Spacing.xl, // 24pt
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5, // Visual feedback for disabled state
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+  },
+});
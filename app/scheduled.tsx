@@ -0,0 +1,358 @@
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Alert } from 'react-native';
+import { useCallback, useState } from 'react';
+import { useFocusEffect, useRouter } from 'expo-router';
+import { ScheduleService } from '../services/ScheduleService';
+import { ContactService } from '../services/ContactService';
+import { Colors, Typography, Spacing, BorderRadius, NATIVE_SOL } from '../services/constants';
+import { describeScheduleRule } from '../utils/ScheduleUtils';
+import {
+  formatDateTime,
+  formatLabeledAddress,
+  formatTokenBaseUnits,
+} from '../utils/FormattingUtils';
+import type {
+  DueScheduledTransfer,
+  ScheduledRunStatus,
+  ScheduledTransfer,
+  TransactionRequest,
+} from '../types';
+
+/**
+ * Human-readable labels for run outcomes.
+ */
+const RUN_STATUS_LABELS: Record<ScheduledRunStatus, string> = {
+  submitted: 'Confirming',
+  sent: 'Sent',
+  failed: 'Not sent',
+  skipped: 'Skipped',
+  missed: 'Missed',
+};
+
+/**
+ * Format a scheduled transfer's amount with its asset symbol.
+ */
+function formatRequestAmount(request: TransactionRequest): string {
+  return formatTokenBaseUnits(
+    request.amountLamports,
+    request.asset === 'sol' ? NATIVE_SOL : request.token
+  );
+}
+
+/**
+ * Scheduled Transfers Screen
+ *
+ * Shows the runs that are due ("Due now") above all scheduled transfers of the
+ * active network. The due queue comes from ScheduleService.getDueQueue() each
+ * time the screen is focused, which also records runs missed while the app was closed.
+ *
+ * - Pay Now opens the Confirm screen with the schedule's transfer; the outcome
+ *   is recorded on the schedule from there
+ * - Skip records the run as skipped and moves the schedule to its next run
+ * - Tapping a schedule shows its recent runs and offers Delete
+ *
+ * New schedules are created from the Send screen ("Schedule Transfer").
+ */
+export default function ScheduledScreen() {
+  const router = useRouter();
+  const [queue, setQueue] = useState<DueScheduledTransfer[]>([]);
+  const [schedules, setSchedules] = useState<ScheduledTransfer[]>([]);
+  const [labels, setLabels] = useState<Record<string, string>>({});
+  const [loaded, setLoaded] = useState(false);
+
+  /**
+   * Reload the due queue, schedules and contact labels.
+   */
+  const load = useCallback(async () => {
+    const [dueQueue, scheduleList, contacts] = await Promise.all([
+      ScheduleService.getDueQueue(),
+      ScheduleService.getSchedules(),
+      ContactService.getContacts(),
+    ]);
+    setQueue(dueQueue);
+    setSchedules(scheduleList);
+    setLabels(Object.fromEntries(contacts.map((contact) => [contact.address, contact.label])));
+    setLoaded(true);
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [load])
+  );
+
+  /**
+   * Open the Confirm screen for a due run.
+   */
+  const handlePayNow = ({ schedule, dueAt }: DueScheduledTransfer) => {
+    const transactionRequest: TransactionRequest = { ...schedule.request, timestamp: Date.now() };
+    router.push({
+      pathname: '/confirm',
+      params: {
+        transactionRequest: JSON.stringify(transactionRequest),
+        scheduledRun: JSON.stringify({ scheduleId: schedule.id, dueAt }),
+      },
+    });
+  };
+
+  /**
+   * Skip a due run after user confirmation.
+   */
+  const handleSkip = ({ schedule, dueAt }: DueScheduledTransfer) => {
+    Alert.alert(
+      'Skip this payment?',
+      `${formatRequestAmount(schedule.request)} due ${formatDateTime(dueAt)} will not be sent.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Skip',
+          style: 'destructive',
+          onPress: async () => {
+            await ScheduleService.recordRun(schedule.id, dueAt, { status: 'skipped' });
+            load();
+          },
+        },
+      ]
+    );
+  };
+
+  /**
+   * Delete a schedule after user confirmation.
+   */
+  const handleDelete = (schedule: ScheduledTransfer) => {
+    Alert.alert('Delete scheduled transfer?', 'Payments already sent are not affected.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await ScheduleService.deleteSchedule(schedule.id);
+            load();
+          } catch (error: any) {
+            Alert.alert('Unable to delete schedule', error.message || 'Please try again.');
+          }
+        },
+      },
+    ]);
+  };
+
+  /**
+   * Show a schedule's recent runs and its actions.
+   */
+  const handleSelectSchedule = (schedule: ScheduledTransfer) => {
+    const runs = [...schedule.runs]
+      .reverse()
+      .map((run) => `${formatDateTime(run.dueAt)}: ${RUN_STATUS_LABELS[run.status]}`);
+
+    Alert.alert(
+      describeScheduleRule(schedule.rule),
+      runs.length > 0 ? runs.join('\n') : 'No runs yet',
+      [
+        { text: 'Delete', style: 'destructive', onPress: () => handleDelete(schedule) },
+        { text: 'Close', style: 'cancel' },
+      ]
+    );
+  };
+
+  const renderDue = (due: DueScheduledTransfer) => {
+    const { schedule, dueAt } = due;
+    const amountText = formatRequestAmount(schedule.request);
+    const recipient = formatLabeledAddress(
+      schedule.request.recipientAddress,
+      labels[schedule.request.recipientAddress]
+    );
+
+    return (
+      <View key={schedule.id} style={styles.dueCard}>
+        <Text style={styles.rowTitle}>{amountText}</Text>
+        <Text style={styles.rowSubtitle}>to {recipient}</Text>
+        <Text style={styles.dueText}>Due {formatDateTime(dueAt)}</Text>
+        <View style={styles.dueActions}>
+          <TouchableOpacity
+            style={styles.payButton}
+            onPress={() => handlePayNow(due)}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={`Pay ${amountText} to ${recipient} now`}
+            accessibilityHint="Opens transaction confirmation"
+          >
+            <Text style={styles.payButtonText}>Pay Now</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.skipButton}
+            onPress={() => handleSkip(due)}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={`Skip payment of ${amountText} to ${recipient}`}
+          >
+            <Text style={styles.skipButtonText}>Skip</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderSchedule = (schedule: ScheduledTransfer) => {
+    const amountText = formatRequestAmount(schedule.request);
+    const lastRun = schedule.runs[schedule.runs.length - 1];
+
+    return (
+      <TouchableOpacity
+        key={schedule.id}
+        style={styles.row}
+        onPress={() => handleSelectSchedule(schedule)}
+        accessible={true}
+        accessibilityRole="button"
+        accessibilityLabel={`${amountText}, ${describeScheduleRule(schedule.rule)}`}
+        accessibilityHint="Shows recent runs and schedule actions"
+      >
+        <Text style={styles.rowTitle}>{amountText}</Text>
+        <Text style={styles.rowSubtitle} numberOfLines={1}>
+          to{' '}
+          {formatLabeledAddress(
+            schedule.request.recipientAddress,
+            labels[schedule.request.recipientAddress]
+          )}
+        </Text>
+        <Text style={styles.rowSubtitle}>{describeScheduleRule(schedule.rule)}</Text>
+        <Text style={styles.rowSubtitle}>
+          {schedule.nextRunAt !== null
+            ? `Next: ${formatDateTime(schedule.nextRunAt)}`
+            : 'Completed'}
+          {lastRun ? ` · Last: ${RUN_STATUS_LABELS[lastRun.status]}` : ''}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+      {queue.length > 0 && (
+        <>
+          <Text style={styles.sectionTitle}>Due now</Text>
+          {queue.map(renderDue)}
+        </>
+      )}
+
+      <Text style={styles.sectionTitle}>Scheduled</Text>
+      {schedules.map(renderSchedule)}
+      {loaded && schedules.length === 0 && (
+        <Text style={styles.emptyText}>
+          No scheduled transfers yet. Fill in a transfer and choose Schedule Transfer.
+        </Text>
+      )}
+
+      <TouchableOpacity
+        style={styles.newButton}
+        onPress={() => router.push('/transfer')}
+        accessible={true}
+        accessibilityRole="button"
+        accessibilityLabel="New scheduled transfer"
+        accessibilityHint="Opens the transfer form; choose Schedule Transfer to save it"
+      >
+        <Text style={styles.newButtonText}>New Scheduled Transfer</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.neutral[50], // Light background
+  },
+  contentContainer: {
+    padding: Spacing.lg, // 16pt padding
+  },
+  sectionTitle: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.bold, // 700
+    color: Colors.neutral[900],
+    marginTop: Spacing.sm, // 8pt
+    marginBottom: Spacing.sm, // 8pt
+  },
+  dueCard: {
+    backgroundColor: '#fff',
+    padding: Spacing.lg, // 16pt
+    borderRadius: BorderRadius.sm, // 8pt
+    borderWidth: 1,
+    borderColor: Colors.warning, // Needs attention
+    marginBottom: Spacing.sm, // 8pt
+  },
+  dueText: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.warning,
+    marginTop: Spacing.xs, // 4pt
+  },
+  dueActions: {
+    flexDirection: 'row',
+    gap: Spacing.sm, // 8pt
+    marginTop: Spacing.md, // 12pt
+  },
+  payButton: {
+    flex: 1,
+    height: 44, // WCAG AA minimum touch target
+    backgroundColor: Colors.primary.purple,
+    borderRadius: BorderRadius.sm, // 8pt
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  payButtonText: {
+    color: '#fff',
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+  },
+  skipButton: {
+    flex: 1,
+    height: 44, // WCAG AA minimum touch target
+    borderRadius: BorderRadius.sm, // 8pt
+    borderWidth: 1,
+    borderColor: '#ccc',
+    backgroundColor: '#fff',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  skipButtonText: {
+    color: Colors.neutral[900],
+    fontSize: Typography.fontSize.body, // 15pt
+  },
+  row: {
+    backgroundColor: '#fff',
+    padding: Spacing.lg, // 16pt
+    borderRadius: BorderRadius.sm, // 8pt
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    marginBottom: Spacing.sm, // 8pt
+  },
+  rowTitle: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.neutral[900],
+  },
+  rowSubtitle: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    color: Colors.neutral[500],
+    marginTop: Spacing.xs, // 4pt
+  },
+  emptyText: {
+    fontSize: Typography.fontSize.body, // 15pt
+    color: Colors.neutral[500],
+    textAlign: 'center',
+    marginVertical: Spacing.xl, // 24pt
+  },
+  newButton: {
+    height: 44, // WCAG AA minimum touch target
+    borderRadius: BorderRadius.sm, // 8pt
+    borderWidth: 1,
+    borderColor: Colors.primary.purple,
+    marginTop: Spacing.lg, // 16pt
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  newButtonText: {
+    color: Colors.primary.purple,
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+  },
+});
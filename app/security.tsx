@@ -0,0 +1,382 @@
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+  Switch,
+} from 'react-native';
+import { useState } from 'react';
+import { SecurityService } from '../services/SecurityService';
+import { NetworkService } from '../services/NetworkService';
+import {
+  Colors,
+  Typography,
+  Spacing,
+  BorderRadius,
+  NATIVE_SOL,
+  AUTO_LOCK_OPTIONS,
+  SESSION_IDLE_TIMEOUT_OPTIONS,
+  SESSION_MAX_AGE_OPTIONS,
+} from '../services/constants';
+import { getPolicyAssetKey } from '../utils/PolicyUtils';
+import { formatDecimalAmount } from '../utils/DecimalUtils';
+import { formatTokenAmountToLamports, isValidAmount } from '../utils/ValidationUtils';
+import type { SecuritySettings, SessionExpiryPolicy } from '../types';
+
+/**
+ * Security Screen (App Lock & Sessions)
+ *
+ * Edits the device-wide SecuritySettings (SecurityService), saved on each change:
+ * - App lock: require biometrics or the device passcode on cold start and
+ *   after the chosen time in the background. Turning it on asks for
+ *   authentication first, so the user knows it works on this device.
+ * - Session expiry policy: inactivity (idle timeout) and age since the passkey
+ *   last connected (absolute limit) after which a wallet session expires and
+ *   the wallet opens in watch mode until the passkey reconnects.
+ * - Re-authentication thresholds per asset of the active network: transfers of
+ *   at least this amount ask for biometrics or the passcode before signing.
+ *   Typed in the asset's units, stored in base units; saved with their own button.
+ */
+export default function SecurityScreen() {
+  const [settings, setSettings] = useState(SecurityService.getSettings());
+  const [saving, setSaving] = useState(false);
+
+  // Assets of the active network (tokens, then native SOL) with their threshold keys
+  const assets = [
+    ...NetworkService.getTokens().map((token) => ({ key: getPolicyAssetKey(token), ...token })),
+    { key: getPolicyAssetKey(), ...NATIVE_SOL },
+  ];
+
+  // Threshold inputs as typed, by asset key
+  const [thresholdInputs, setThresholdInputs] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      assets.map((asset) => {
+        const threshold = settings.sessionPolicy.reauthThresholds[asset.key];
+        return [asset.key, threshold ? formatDecimalAmount(threshold, asset.decimals) : ''];
+      })
+    )
+  );
+  const [thresholdError, setThresholdError] = useState<string | null>(null);
+
+  /**
+   * Save updated settings; the screen keeps the previous values on failure.
+   */
+  const handleUpdate = async (next: SecuritySettings) => {
+    setSaving(true);
+    try {
+      await SecurityService.saveSettings(next);
+      setSettings(next);
+    } catch (error: any) {
+      console.error('[SecurityScreen] Failed to save security settings:', error);
+      Alert.alert('Unable to save', error.message || 'Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /**
+   * Turn app lock on (after a successful authentication) or off.
+   */
+  const handleToggleAppLock = async (enabled: boolean) => {
+    if (enabled && !(await SecurityService.authenticate('Turn on app lock'))) {
+      return;
+    }
+    await handleUpdate({ ...settings, appLockEnabled: enabled });
+  };
+
+  /**
+   * Update the session expiry policy.
+   */
+  const handlePolicyUpdate = (update: Partial<SessionExpiryPolicy>) =>
+    handleUpdate({ ...settings, sessionPolicy: { ...settings.sessionPolicy, ...update } });
+
+  /**
+   * Validate the threshold inputs and save them. Thresholds set for other
+   * networks' tokens are kept unchanged.
+   */
+  const handleSaveThresholds = async () => {
+    const reauthThresholds = { ...settings.sessionPolicy.reauthThresholds };
+    for (const asset of assets) {
+      const input = (thresholdInputs[asset.key] ?? '').trim();
+      if (!input) {
+        delete reauthThresholds[asset.key];
+        continue;
+      }
+
+      const validation = isValidAmount(input, asset);
+      if (!validation.valid) {
+        setThresholdError(`${asset.symbol}: ${validation.error}`);
+        return;
+      }
+      reauthThresholds[asset.key] = formatTokenAmountToLamports(input, asset.decimals).toString();
+    }
+
+    setThresholdError(null);
+    await handlePolicyUpdate({ reauthThresholds });
+  };
+
+  const renderOptions = <T extends number | null>(
+    options: { label: string; ms: T }[],
+    selectedMs: T,
+    onSelect: (ms: T) => void,
+    accessibilitySuffix: string
+  ) =>
+    options.map((option) => {
+      const selected = option.ms === selectedMs;
+      return (
+        <TouchableOpacity
+          key={option.label}
+          style={[styles.option, selected && styles.optionSelected]}
+          onPress={() => onSelect(option.ms)}
+          disabled={saving || selected}
+          accessible={true}
+          accessibilityRole="radio"
+          accessibilityLabel={`${option.label} ${accessibilitySuffix}`}
+          accessibilityState={{ selected, disabled: saving }}
+        >
+          <View style={styles.optionHeader}>
+            <Text style={styles.optionLabel}>{option.label}</Text>
+            {selected && <Text style={styles.selectedBadge}>Selected</Text>}
+          </View>
+        </TouchableOpacity>
+      );
+    });
+
+  return (
+    <KeyboardAvoidingView
+      style={{ flex: 1 }}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+    >
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.contentContainer}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Text style={styles.title}>App Lock</Text>
+
+        <View style={styles.switchRow}>
+          <View style={styles.switchTextContainer}>
+            <Text style={styles.optionLabel}>Require unlock</Text>
+            <Text style={styles.optionDetail}>
+              Ask for biometrics or your device passcode when the app opens.
+            </Text>
+          </View>
+          <Switch
+            value={settings.appLockEnabled}
+            onValueChange={handleToggleAppLock}
+            disabled={saving}
+            trackColor={{ true: Colors.primary.purple, false: '#E5E5E5' }}
+            accessible={true}
+            accessibilityLabel="Require unlock when the app opens"
+          />
+        </View>
+
+        {settings.appLockEnabled && (
+          <>
+            <Text style={styles.label}>Lock after time in background</Text>
+            {renderOptions(
+              AUTO_LOCK_OPTIONS,
+              settings.autoLockAfterMs,
+              (ms) => handleUpdate({ ...settings, autoLockAfterMs: ms }),
+              'in background before locking'
+            )}
+          </>
+        )}
+
+        <Text style={[styles.title, styles.sectionTitle]}>Sessions</Text>
+        <Text style={styles.helperText}>
+          An expired wallet opens read-only until you reconnect with your passkey.
+          Reconnecting starts a new session.
+        </Text>
+        <Text style={styles.label}>Expire after inactivity</Text>
+        {renderOptions(
+          SESSION_IDLE_TIMEOUT_OPTIONS,
+          settings.sessionPolicy.idleTimeoutMs,
+          (ms) => handlePolicyUpdate({ idleTimeoutMs: ms }),
+          'of inactivity before a session expires'
+        )}
+        <Text style={styles.label}>Expire after connecting, even if in use</Text>
+        {renderOptions(
+          SESSION_MAX_AGE_OPTIONS,
+          settings.sessionPolicy.absoluteMaxAgeMs,
+          (ms) => handlePolicyUpdate({ absoluteMaxAgeMs: ms }),
+          'after connecting before a session expires'
+        )}
+
+        <Text style={[styles.title, styles.sectionTitle]}>High-Value Transfers</Text>
+        <Text style={styles.helperText}>
+          Ask for biometrics or your device passcode before signing transfers of at least
+          this amount. Leave empty to never ask.
+        </Text>
+        <View style={styles.card}>
+          {assets.map((asset) => (
+            <View key={asset.key} style={styles.thresholdRow}>
+              <Text style={styles.thresholdLabel}>{asset.symbol}</Text>
+              <TextInput
+                style={[styles.input, styles.thresholdInput]}
+                placeholder="Never"
+                placeholderTextColor={Colors.neutral[500]}
+                value={thresholdInputs[asset.key] ?? ''}
+                onChangeText={(text) => {
+                  setThresholdInputs((prev) => ({ ...prev, [asset.key]: text }));
+                  setThresholdError(null);
+                }}
+                keyboardType="decimal-pad"
+                accessible={true}
+                accessibilityLabel={`${asset.symbol} re-authentication threshold`}
+              />
+            </View>
+          ))}
+        </View>
+        {thresholdError && <Text style={styles.errorText}>{thresholdError}</Text>}
+        <TouchableOpacity
+          style={[styles.primaryButton, saving && styles.buttonDisabled]}
+          onPress={handleSaveThresholds}
+          disabled={saving}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel="Save re-authentication thresholds"
+          accessibilityState={{ disabled: saving }}
+        >
+          <Text style={styles.primaryButtonText}>Save Thresholds</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.neutral[50], // Light background
+  },
+  contentContainer: {
+    padding: Spacing.xl, // 24pt padding
+  },
+  title: {
+    fontSize: Typography.fontSize.h2, // 24pt
+    fontWeight: Typography.fontWeight.bold, // 700
+    color: Colors.neutral[900], // Dark text
+    marginBottom: Spacing.xl, // 24pt
+  },
+  sectionTitle: {
+    marginTop: Spacing.lg, // 16pt
+  },
+  label: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.neutral[900],
+    marginBottom: Spacing.sm, // 8pt
+  },
+  helperText: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    color: Colors.neutral[500],
+    marginBottom: Spacing.md, // 12pt
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    padding: Spacing.lg, // 16pt
+    borderRadius: BorderRadius.sm, // 8pt
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    marginBottom: Spacing.xl, // 24pt
+  },
+  switchTextContainer: {
+    flex: 1,
+    marginRight: Spacing.md, // 12pt
+  },
+  option: {
+    backgroundColor: '#fff',
+    padding: Spacing.lg, // 16pt
+    borderRadius: BorderRadius.sm, // 8pt
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    marginBottom: Spacing.md, // 12pt
+  },
+  optionSelected: {
+    borderColor: Colors.primary.purple,
+    borderWidth: 2,
+  },
+  optionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  optionLabel: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.neutral[900],
+  },
+  selectedBadge: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.primary.purple,
+  },
+  optionDetail: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    color: Colors.neutral[500],
+    marginTop: Spacing.xs, // 4pt
+  },
+  card: {
+    backgroundColor: '#fff',
+    padding: Spacing.lg, // 16pt
+    paddingTop: Spacing.sm, // 8pt, rows add their own top margin
+    borderRadius: BorderRadius.sm, // 8pt
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+  },
+  thresholdRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: Spacing.sm, // 8pt
+  },
+  thresholdLabel: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.neutral[900],
+  },
+  input: {
+    height: 44, // WCAG AA minimum touch target
+    borderWidth: 1,
+    borderColor: '#E5E5E5', // Light gray border
+    borderRadius: BorderRadius.sm, // 8pt
+    paddingHorizontal: Spacing.lg, // 16pt
+    fontSize: Typography.fontSize.body, // 15pt
+    backgroundColor: '#fff',
+    color: Colors.neutral[900],
+  },
+  thresholdInput: {
+    width: 140,
+    textAlign: 'right',
+  },
+  errorText: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    color: Colors.error, // Red text
+    marginTop: Spacing.sm, // 8pt
+  },
+  primaryButton: {
+    height: 44, // WCAG AA minimum touch target
+    backgroundColor: Colors.primary.purple,
+    borderRadius: BorderRadius.sm, // 8pt
+    marginTop: Spacing.xl, // 24pt
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5, // Visual feedback for disabled state
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+  },
+});
@@ -0,0 +1,167 @@
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Alert } from 'react-native';
+import { useState } from 'react';
+import { useRouter } from 'expo-router';
+import { NetworkService } from '../services/NetworkService';
+import { Colors, Typography, Spacing, BorderRadius } from '../services/constants';
+import type { NetworkProfile } from '../types';
+
+/**
+ * Settings Screen
+ *
+ * Lets the user choose the active Solana network profile (Devnet, Testnet,
+ * Mainnet Beta, Localnet). The selection is persisted per wallet in SecureStore
+ * by NetworkService and applied app-wide by the root layout.
+ *
+ * Profiles missing an RPC URL, USDC mint or paymaster in this build are shown
+ * as "Not configured" and cannot be selected.
+ *
+ * Also links to the Spending Policy screen (limits and recipient lists) and the
+ * App Lock & Sessions screen (biometric app lock, session expiry).
+ */
+export default function SettingsScreen() {
+  const router = useRouter();
+  const [activeId, setActiveId] = useState(NetworkService.getActiveProfile().id);
+
+  /**
+   * Switch to the selected network after user confirmation.
+   * Returns to the Welcome screen so every screen reloads against the new cluster.
+   */
+  const handleSelectNetwork = (profile: NetworkProfile) => {
+    if (profile.id === activeId) return;
+
+    Alert.alert(
+      `Switch to ${profile.label}?`,
+      'Balances and transfers will use this network. Your wallet must exist on it.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Switch',
+          onPress: async () => {
+            try {
+              await NetworkService.setActiveNetwork(profile.id);
+              setActiveId(profile.id);
+              router.replace('/');
+            } catch (error: any) {
+              console.error('[SettingsScreen] Failed to switch network:', error);
+              Alert.alert('Unable to switch network', error.message || 'Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+      <Text style={styles.title}>Network</Text>
+
+      {NetworkService.getProfiles().map((profile) => {
+        const configured = NetworkService.isProfileConfigured(profile);
+        const selected = profile.id === activeId;
+
+        return (
+          <TouchableOpacity
+            key={profile.id}
+            style={[
+              styles.option,
+              selected && styles.optionSelected,
+              !configured && styles.optionDisabled,
+            ]}
+            onPress={() => handleSelectNetwork(profile)}
+            disabled={!configured}
+            accessible={true}
+            accessibilityRole="radio"
+            accessibilityLabel={`${profile.label} network`}
+            accessibilityState={{ selected, disabled: !configured }}
+          >
+            <View style={styles.optionHeader}>
+              <Text style={styles.optionLabel}>{profile.label}</Text>
+              {selected && <Text style={styles.selectedBadge}>Active</Text>}
+            </View>
+            <Text style={styles.optionDetail}>
+              {configured ? profile.rpcUrl : 'Not configured'}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+
+      <Text style={[styles.title, styles.sectionTitle]}>Security</Text>
+      <TouchableOpacity
+        style={styles.option}
+        onPress={() => router.push('/policy')}
+        accessible={true}
+        accessibilityRole="button"
+        accessibilityLabel="Spending policy"
+        accessibilityHint="Set spending limits and allowed or blocked recipients"
+      >
+        <Text style={styles.optionLabel}>Spending Policy</Text>
+        <Text style={styles.optionDetail}>Limits, allowed and blocked recipients</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.option}
+        onPress={() => router.push('/security')}
+        accessible={true}
+        accessibilityRole="button"
+        accessibilityLabel="App lock and sessions"
+        accessibilityHint="Set biometric app lock, auto-lock time and session expiry"
+      >
+        <Text style={styles.optionLabel}>App Lock & Sessions</Text>
+        <Text style={styles.optionDetail}>Biometric unlock, auto-lock, session expiry</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.neutral[50], // Light background
+  },
+  contentContainer: {
+    padding: Spacing.xl, // 24pt padding
+  },
+  title: {
+    fontSize: Typography.fontSize.h2, // 24pt
+    fontWeight: Typography.fontWeight.bold, // 700
+    color: Colors.neutral[900], // Dark text
+    marginBottom: Spacing.xl, // 24pt
+  },
+  sectionTitle: {
+    marginTop: Spacing.lg, // 16pt
+  },
+  option: {
+    backgroundColor: '#fff',
+    padding: Spacing.lg, // 16pt
+    borderRadius: BorderRadius.sm, // 8pt
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    marginBottom: Spacing.md, // 12pt
+  },
+  optionSelected: {
+    borderColor: Colors.primary.purple,
+    borderWidth: 2,
+  },
+  optionDisabled: {
+    opacity: 0.5,
+  },
+  optionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: Spacing.xs, // 4pt
+  },
+  optionLabel: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.neutral[900],
+  },
+  selectedBadge: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.primary.purple,
+  },
+  optionDetail: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    color: Colors.neutral[500],
+  },
+});
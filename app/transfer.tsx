@@ -7,21 +7,31 @@ import {
   KeyboardAvoidingView,
   Platform,
   ScrollView,
+  Switch,
 } from 'react-native';
-import { useState } from 'react';
-import { useRouter } from 'expo-router';
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter, useFocusEffect, useLocalSearchParams } from 'expo-router';
 import {
   isValidSolanaAddress,
   isValidAmount,
-  formatUSDCAmountToLamports,
+  isValidMemo,
+  formatTokenAmountToLamports,
+  MAX_MEMO_BYTES,
 } from '../utils/ValidationUtils';
-import { Colors, Typography, Spacing, BorderRadius } from '../services/constants';
-import { TransactionRequest } from '../types';
+import { formatDecimalAmount } from '../utils/DecimalUtils';
+import { parseSolanaPayUrl, solanaPayToTransactionRequest } from '../utils/SolanaPayUtils';
+import { Colors, Typography, Spacing, BorderRadius, NATIVE_SOL } from '../services/constants';
+import { NetworkService } from '../services/NetworkService';
+import { ContactService } from '../services/ContactService';
+import { PolicyService } from '../services/PolicyService';
+import { Contact, SolanaPayTransferRequest, TokenInfo, TransactionRequest } from '../types';
 
 /**
  * Transfer Form Screen
  *
- * Captures recipient Solana address and USDC amount for token transfer.
+ * Captures asset (USDC by default), recipient Solana address, amount and optional memo for a transfer.
+ * The asset picker lists the active network's tokens from the token registry, plus native SOL.
+ * Saved contacts are shown below the recipient field; tapping one fills the recipient.
  * Implements real-time validation with "touched" pattern for optimal UX.
  *
  * Form State Management:
@@ -34,20 +44,61 @@ import { TransactionRequest } from '../types';
  * - onChange: If field is touched, validate immediately for real-time feedback
  * - onSubmit: Final validation before navigation to confirmation screen
  *
+ * Solana Pay:
+ * - "Scan QR" opens /scan, which returns the code contents as the `paymentLink` param
+ * - Deep links use the same param: lazorkitstarter://transfer?paymentLink=<url-encoded solana: URL>
+ * - A request with an amount goes straight to /confirm; without one it pre-fills the form
+ *   and its references/label/message are carried into the TransactionRequest
+ * - A plain wallet address fills the recipient
+ *
  * Navigation Flow:
  * - User fills form → Taps "Review Transaction" → Navigate to /confirm with TransactionRequest
+ * - Transfers blocked by the spending policy (PolicyService) stay on the form with the reason
+ * - "Schedule Transfer" opens /schedule-edit with the same TransactionRequest instead
  * - Note: /confirm route implemented in Story 2.2 (not yet available)
  */
 export default function TransferScreen() {
   const router = useRouter();
+  const params = useLocalSearchParams<{ paymentLink?: string }>();
+
+  // Tokens available on the active network (USDC first)
+  const tokens = NetworkService.getTokens();
 
   // Form input state (controlled components)
+  const [asset, setAsset] = useState<TransactionRequest['asset']>('spl-token');
+  const [selectedToken, setSelectedToken] = useState<TokenInfo>(tokens[0]);
   const [recipientAddress, setRecipientAddress] = useState('');
   const [amount, setAmount] = useState('');
+  const [memo, setMemo] = useState('');
+  // Opt-in: create recipient's token account if they have never held the token
+  const [createRecipientAccount, setCreateRecipientAccount] = useState(false);
+
+  // Scanned/deep-linked Solana Pay request without an amount (pre-fills the form)
+  const [paymentRequest, setPaymentRequest] = useState<SolanaPayTransferRequest | null>(null);
+  const [paymentLinkError, setPaymentLinkError] = useState<string | null>(null);
+
+  // Saved contacts (reloaded on focus so edits made on the Contacts screen show up)
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  useFocusEffect(
+    useCallback(() => {
+      ContactService.getContacts().then(setContacts);
+    }, [])
+  );
+
+  // Contact matching the entered recipient, if any
+  const recipientContact = contacts.find(
+    (contact) => contact.address === recipientAddress.trim()
+  );
+
+  // Symbol and decimals of the selected asset (used for labels and amount validation)
+  const selectedAsset = asset === 'sol' ? NATIVE_SOL : selectedToken;
 
   // Validation error state
   const [recipientError, setRecipientError] = useState<string | null>(null);
   const [amountError, setAmountError] = useState<string | null>(null);
+  const [memoError, setMemoError] = useState<string | null>(null);
+  // Spending policy violations that block the transfer (shown above Review)
+  const [policyErrors, setPolicyErrors] = useState<string[]>([]);
 
   // Touched state - tracks which fields user has interacted with
   // Errors only shown after field is touched (better UX than showing errors immediately)
@@ -62,6 +113,12 @@ export default function TransferScreen() {
    */
   const handleRecipientChange = (text: string) => {
     setRecipientAddress(text);
+    setPolicyErrors([]);
+
+    // References belong to the requested recipient only
+    if (paymentRequest && text.trim() !== paymentRequest.recipient) {
+      setPaymentRequest(null);
+    }
 
     // Only validate in real-time if field has been touched
     if (touched.recipient) {
@@ -70,20 +127,120 @@ export default function TransferScreen() {
     }
   };
 
+  /**
+   * Fill the recipient from a contact, scanned code or payment link, and validate it.
+   */
+  const fillRecipient = (address: string) => {
+    setRecipientAddress(address);
+    setPolicyErrors([]);
+    if (paymentRequest && address !== paymentRequest.recipient) {
+      setPaymentRequest(null);
+    }
+    setTouched((prev) => ({ ...prev, recipient: true }));
+    const validation = isValidSolanaAddress(address);
+    setRecipientError(validation.valid ? null : validation.error || null);
+  };
+
+  /**
+   * Handle contact selection: fill the recipient with the saved address.
+   */
+  const handleSelectContact = (contact: Contact) => {
+    fillRecipient(contact.address);
+  };
+
+  /**
+   * Handle a scanned QR code or deep-linked payment link.
+   *
+   * - Solana Pay request with amount: convert to TransactionRequest and go to /confirm
+   * - Solana Pay request without amount: pre-fill recipient, asset and memo
+   * - Plain wallet address: fill the recipient
+   */
+  const handlePaymentLink = (link: string) => {
+    setPaymentLinkError(null);
+
+    if (isValidSolanaAddress(link.trim()).valid) {
+      fillRecipient(link.trim());
+      return;
+    }
+
+    try {
+      const payRequest = parseSolanaPayUrl(link);
+
+      if (payRequest.amount !== undefined) {
+        const transactionRequest = solanaPayToTransactionRequest(payRequest, tokens);
+        router.push({
+          pathname: '/confirm',
+          params: { transactionRequest: JSON.stringify(transactionRequest) },
+        });
+        return;
+      }
+
+      const token = payRequest.splToken
+        ? tokens.find((entry) => entry.mint === payRequest.splToken)
+        : undefined;
+      if (payRequest.splToken && !token) {
+        throw new Error('This payment request uses a token that is not supported on this network');
+      }
+
+      handleAssetChange(token ? 'spl-token' : 'sol', token ?? selectedToken);
+      fillRecipient(payRequest.recipient);
+      handleMemoChange(payRequest.memo ?? '');
+      setPaymentRequest(payRequest);
+    } catch (error: any) {
+      setPaymentLinkError(error.message || 'This QR code is not a valid payment request');
+    }
+  };
+
+  useEffect(() => {
+    if (params.paymentLink) {
+      handlePaymentLink(params.paymentLink);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- run once per received link
+  }, [params.paymentLink]);
+
   /**
    * Handle amount input changes.
    * If field is already touched, validate in real-time for immediate feedback.
    */
   const handleAmountChange = (text: string) => {
     setAmount(text);
+    setPolicyErrors([]);
 
     // Only validate in real-time if field has been touched
     if (touched.amount) {
-      const validation = isValidAmount(text);
+      const validation = isValidAmount(text, selectedAsset);
       setAmountError(validation.valid ? null : validation.error || null);
     }
   };
 
+  /**
+   * Handle asset picker selection (an SPL token or native SOL).
+   * Re-validates amount against the new asset's decimals if the field is touched.
+   */
+  const handleAssetChange = (
+    nextAsset: TransactionRequest['asset'],
+    token: TokenInfo = selectedToken
+  ) => {
+    setAsset(nextAsset);
+    setSelectedToken(token);
+    setPolicyErrors([]);
+
+    if (touched.amount) {
+      const validation = isValidAmount(amount, nextAsset === 'sol' ? NATIVE_SOL : token);
+      setAmountError(validation.valid ? null : validation.error || null);
+    }
+  };
+
+  /**
+   * Handle memo input changes.
+   * Memo is optional, so it is validated on every keystroke (only length can fail).
+   */
+  const handleMemoChange = (text: string) => {
+    setMemo(text);
+    const validation = isValidMemo(text);
+    setMemoError(validation.valid ? null : validation.error || null);
+  };
+
   /**
    * Handle recipient field blur (user leaves field).
    * Mark field as touched and trigger validation.
@@ -101,7 +258,7 @@ export default function TransferScreen() {
    */
   const handleAmountBlur = () => {
     setTouched((prev) => ({ ...prev, amount: true }));
-    const validation = isValidAmount(amount);
+    const validation = isValidAmount(amount, selectedAsset);
     setAmountError(validation.valid ? null : validation.error || null);
   };
 
@@ -115,38 +272,81 @@ export default function TransferScreen() {
       amount.trim().length > 0 &&
       !recipientError &&
       !amountError &&
+      !memoError &&
       isValidSolanaAddress(recipientAddress).valid &&
-      isValidAmount(amount).valid
+      isValidAmount(amount, selectedAsset).valid &&
+      isValidMemo(memo).valid
     );
   };
 
   /**
-   * Handle "Review Transaction" button press.
-   * Validates inputs one final time and navigates to confirmation screen.
+   * Validate inputs one final time and build the TransactionRequest.
    *
-   * Note: /confirm route will be implemented in Story 2.2.
-   * For now, this prepares the data structure but navigation target doesn't exist yet.
+   * @returns The request, or null (with field errors shown) if validation fails
    */
-  const handleReviewTransaction = () => {
+  const buildTransactionRequest = (): TransactionRequest | null => {
     // Final validation check
     const addressValidation = isValidSolanaAddress(recipientAddress);
-    const amountValidation = isValidAmount(amount);
+    const amountValidation = isValidAmount(amount, selectedAsset);
+    const memoValidation = isValidMemo(memo);
 
-    if (!addressValidation.valid || !amountValidation.valid) {
+    if (!addressValidation.valid || !amountValidation.valid || !memoValidation.valid) {
       // Set errors if validation fails
       setRecipientError(addressValidation.error || null);
       setAmountError(amountValidation.error || null);
+      setMemoError(memoValidation.error || null);
       setTouched({ recipient: true, amount: true });
-      return;
+      return null;
     }
 
     // Prepare TransactionRequest object for confirmation screen
-    const transactionRequest: TransactionRequest = {
+    // Amount stays exact: input string -> bigint base units -> decimal strings (JSON-safe)
+    const amountLamports = formatTokenAmountToLamports(amount, selectedAsset.decimals);
+    const details = {
       recipientAddress,
-      amount: parseFloat(amount),
-      amountLamports: formatUSDCAmountToLamports(parseFloat(amount)),
+      amount: formatDecimalAmount(amountLamports, selectedAsset.decimals),
+      amountLamports: amountLamports.toString(),
+      memo: memo.trim() || undefined,
+      references:
+        paymentRequest && paymentRequest.references.length > 0
+          ? paymentRequest.references
+          : undefined,
+      label: paymentRequest?.label,
+      message: paymentRequest?.message,
       timestamp: Date.now(),
     };
+    return asset === 'sol'
+      ? { ...details, asset: 'sol' }
+      : { ...details, asset: 'spl-token', token: selectedToken, createRecipientAccount };
+  };
+
+  /**
+   * Handle "Review Transaction" button press.
+   * Validates inputs one final time, stops transfers the spending policy blocks
+   * (PolicyService), and navigates to confirmation screen. Violations that only
+   * need confirmation are shown and confirmed on the Confirm screen. A policy
+   * that cannot be checked stops the transfer too.
+   */
+  const handleReviewTransaction = async () => {
+    const transactionRequest = buildTransactionRequest();
+    if (!transactionRequest) return;
+
+    let evaluation;
+    try {
+      evaluation = await PolicyService.evaluateTransfer(transactionRequest);
+    } catch (error) {
+      console.error('[TransferScreen] Failed to check spending policy:', error);
+      setPolicyErrors(['Could not check your spending policy. Please try again.']);
+      return;
+    }
+    if (evaluation.blocked) {
+      setPolicyErrors(
+        evaluation.violations
+          .filter((violation) => violation.severity === 'block')
+          .map((violation) => violation.message)
+      );
+      return;
+    }
 
     // Navigate to confirmation screen (Story 2.2)
     router.push({
@@ -155,6 +355,20 @@ export default function TransferScreen() {
     });
   };
 
+  /**
+   * Handle "Schedule Transfer" button press.
+   * Validates inputs and opens the schedule form to pay this transfer later or repeatedly.
+   */
+  const handleScheduleTransfer = () => {
+    const transactionRequest = buildTransactionRequest();
+    if (!transactionRequest) return;
+
+    router.push({
+      pathname: '/schedule-edit',
+      params: { transactionRequest: JSON.stringify(transactionRequest) },
+    });
+  };
+
   return (
     <KeyboardAvoidingView
       style={{ flex: 1 }}
@@ -166,11 +380,78 @@ export default function TransferScreen() {
         contentContainerStyle={styles.contentContainer}
         keyboardShouldPersistTaps="handled"
       >
-        <Text style={styles.title}>Send USDC</Text>
+        <Text style={styles.title}>Send {selectedAsset.symbol}</Text>
+
+        {/* Solana Pay request banner / scan error */}
+        {paymentRequest && (
+          <View style={styles.paymentBanner}>
+            <Text style={styles.paymentBannerTitle}>
+              Payment request{paymentRequest.label ? ` from ${paymentRequest.label}` : ''}
+            </Text>
+            {paymentRequest.message && (
+              <Text style={styles.helperText}>{paymentRequest.message}</Text>
+            )}
+          </View>
+        )}
+        {paymentLinkError && (
+          <Text style={[styles.errorText, styles.paymentLinkError]}>{paymentLinkError}</Text>
+        )}
+
+        {/* Asset Picker (registry tokens, then native SOL) */}
+        <View style={styles.inputContainer}>
+          <Text style={styles.label}>Asset</Text>
+          <View style={styles.tokenPicker}>
+            {tokens.map((token) => {
+              const selected = asset === 'spl-token' && token.mint === selectedToken.mint;
+              return (
+                <TouchableOpacity
+                  key={token.mint}
+                  style={[styles.tokenOption, selected && styles.tokenOptionSelected]}
+                  onPress={() => handleAssetChange('spl-token', token)}
+                  accessible={true}
+                  accessibilityRole="radio"
+                  accessibilityLabel={`${token.name} (${token.symbol})`}
+                  accessibilityState={{ selected }}
+                >
+                  <Text
+                    style={[styles.tokenOptionText, selected && styles.tokenOptionTextSelected]}
+                  >
+                    {token.symbol}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+            <TouchableOpacity
+              style={[styles.tokenOption, asset === 'sol' && styles.tokenOptionSelected]}
+              onPress={() => handleAssetChange('sol')}
+              accessible={true}
+              accessibilityRole="radio"
+              accessibilityLabel={`${NATIVE_SOL.name} (${NATIVE_SOL.symbol})`}
+              accessibilityState={{ selected: asset === 'sol' }}
+            >
+              <Text
+                style={[styles.tokenOptionText, asset === 'sol' && styles.tokenOptionTextSelected]}
+              >
+                {NATIVE_SOL.symbol}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
 
         {/* Recipient Address Input */}
         <View style={styles.inputContainer}>
-          <Text style={styles.label}>Recipient Address</Text>
+          <View style={styles.labelRow}>
+            <Text style={styles.label}>Recipient Address</Text>
+            <TouchableOpacity
+              onPress={() => router.push('/scan')}
+              accessible={true}
+              accessibilityRole="button"
+              accessibilityLabel="Scan QR code"
+              accessibilityHint="Opens the camera to scan a Solana Pay or address QR code"
+            >
+              <Text style={styles.manageContactsText}>Scan QR</Text>
+            </TouchableOpacity>
+          </View>
           <TextInput
             style={[
               styles.input,
@@ -187,14 +468,56 @@ export default function TransferScreen() {
             accessibilityLabel="Recipient Solana address"
             accessibilityHint="Enter the destination wallet address"
           />
-          {touched.recipient && recipientError && (
+          {touched.recipient && recipientError ? (
             <Text style={styles.errorText}>{recipientError}</Text>
+          ) : (
+            recipientContact && (
+              <Text style={styles.helperText}>Saved as {recipientContact.label}</Text>
+            )
           )}
+
+          {/* Saved contacts (tap to fill recipient) */}
+          <View style={styles.contactRow}>
+            {contacts.map((contact) => (
+              <TouchableOpacity
+                key={contact.id}
+                style={[
+                  styles.tokenOption,
+                  contact.id === recipientContact?.id && styles.tokenOptionSelected,
+                ]}
+                onPress={() => handleSelectContact(contact)}
+                accessible={true}
+                accessibilityRole="button"
+                accessibilityLabel={`Send to ${contact.label}`}
+                accessibilityState={{ selected: contact.id === recipientContact?.id }}
+              >
+                <Text
+                  style={[
+                    styles.tokenOptionText,
+                    contact.id === recipientContact?.id && styles.tokenOptionTextSelected,
+                  ]}
+                >
+                  {contact.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity
+              style={styles.manageContactsButton}
+              onPress={() => router.push('/contacts')}
+              accessible={true}
+              accessibilityRole="button"
+              accessibilityLabel="Manage contacts"
+            >
+              <Text style={styles.manageContactsText}>
+                {contacts.length > 0 ? 'Manage contacts' : 'Add contacts'}
+              </Text>
+            </TouchableOpacity>
+          </View>
         </View>
 
         {/* Amount Input */}
         <View style={styles.inputContainer}>
-          <Text style={styles.label}>Amount (USDC)</Text>
+          <Text style={styles.label}>Amount ({selectedAsset.symbol})</Text>
           <TextInput
             style={[
               styles.input,
@@ -207,7 +530,7 @@ export default function TransferScreen() {
             onBlur={handleAmountBlur}
             keyboardType="decimal-pad"
             accessible={true}
-            accessibilityLabel="USDC amount"
+            accessibilityLabel={`${selectedAsset.symbol} amount`}
             accessibilityHint="Enter the amount to send"
           />
           {touched.amount && amountError && (
@@ -215,6 +538,55 @@ export default function TransferScreen() {
           )}
         </View>
 
+        {/* Memo Input (optional, recorded on-chain) */}
+        <View style={styles.inputContainer}>
+          <Text style={styles.label}>Memo (optional)</Text>
+          <TextInput
+            style={[styles.input, memoError && styles.inputError]}
+            placeholder="Payment reference, e.g. Invoice #1042"
+            placeholderTextColor={Colors.neutral[500]}
+            value={memo}
+            onChangeText={handleMemoChange}
+            autoCorrect={false}
+            accessible={true}
+            accessibilityLabel="Memo"
+            accessibilityHint={`Optional note recorded on-chain, up to ${MAX_MEMO_BYTES} bytes`}
+          />
+          {memoError ? (
+            <Text style={styles.errorText}>{memoError}</Text>
+          ) : (
+            <Text style={styles.helperText}>Visible publicly on-chain</Text>
+          )}
+        </View>
+
+        {/* Create Recipient Account Toggle (opt-in, SPL tokens only) */}
+        {asset === 'spl-token' && (
+          <View style={styles.switchContainer}>
+            <View style={styles.switchTextContainer}>
+              <Text style={styles.label}>Create recipient {selectedToken.symbol} account</Text>
+              <Text style={styles.helperText}>
+                Needed if the recipient has never held {selectedToken.symbol}. Your wallet pays a
+                small SOL rent.
+              </Text>
+            </View>
+            <Switch
+              value={createRecipientAccount}
+              onValueChange={setCreateRecipientAccount}
+              trackColor={{ true: Colors.primary.purple, false: '#E5E5E5' }}
+              accessible={true}
+              accessibilityLabel={`Create recipient ${selectedToken.symbol} account if needed`}
+              accessibilityHint="Adds account creation to the transfer when the recipient has no token account"
+            />
+          </View>
+        )}
+
+        {/* Spending policy violations that block this transfer */}
+        {policyErrors.map((error) => (
+          <Text key={error} style={[styles.errorText, styles.policyError]}>
+            {error}
+          </Text>
+        ))}
+
         {/* Review Transaction Button */}
         <TouchableOpacity
           style={[styles.button, !isFormValid() && styles.buttonDisabled]}
@@ -228,6 +600,20 @@ export default function TransferScreen() {
         >
           <Text style={styles.buttonText}>Review Transaction</Text>
         </TouchableOpacity>
+
+        {/* Schedule Button - pay later or on a recurring schedule */}
+        <TouchableOpacity
+          style={[styles.scheduleButton, !isFormValid() && styles.buttonDisabled]}
+          onPress={handleScheduleTransfer}
+          disabled={!isFormValid()}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel="Schedule Transfer"
+          accessibilityHint="Validates inputs and opens the schedule form to send later or repeatedly"
+          accessibilityState={{ disabled: !isFormValid() }}
+        >
+          <Text style={styles.scheduleButtonText}>Schedule Transfer</Text>
+        </TouchableOpacity>
       </ScrollView>
     </KeyboardAvoidingView>
   );
@@ -274,6 +660,88 @@ const styles = StyleSheet.create({
     color: Colors.error, // Red text
     marginTop: Spacing.xs, // 4pt
   },
+  tokenPicker: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm, // 8pt
+  },
+  tokenOption: {
+    height: 36,
+    paddingHorizontal: Spacing.lg, // 16pt
+    borderRadius: BorderRadius.full, // Pill shape
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    backgroundColor: '#fff',
+    justifyContent: 'center',
+  },
+  tokenOptionSelected: {
+    borderColor: Colors.primary.purple,
+    backgroundColor: Colors.primary.purple,
+  },
+  tokenOptionText: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.neutral[900],
+  },
+  tokenOptionTextSelected: {
+    color: '#fff',
+  },
+  labelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  paymentBanner: {
+    backgroundColor: '#fff',
+    padding: Spacing.lg, // 16pt
+    borderRadius: BorderRadius.sm, // 8pt
+    borderWidth: 1,
+    borderColor: Colors.primary.purple,
+    marginBottom: Spacing.xl, // 24pt
+  },
+  paymentBannerTitle: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.neutral[900],
+  },
+  policyError: {
+    textAlign: 'center',
+  },
+  paymentLinkError: {
+    marginTop: 0,
+    marginBottom: Spacing.xl, // 24pt
+  },
+  contactRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: Spacing.sm, // 8pt
+    marginTop: Spacing.sm, // 8pt
+  },
+  manageContactsButton: {
+    height: 36,
+    justifyContent: 'center',
+  },
+  manageContactsText: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.primary.purple,
+  },
+  switchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: Spacing.xl, // 24pt
+  },
+  switchTextContainer: {
+    flex: 1,
+    marginRight: Spacing.md, // 12pt
+  },
+  helperText: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    color: Colors.neutral[500],
+    marginTop: Spacing.xs, // 4pt
+  },
   button: {
     height: 44, // WCAG AA minimum touch target
     backgroundColor: Colors.primary.purple, // Solana purple
@@ -292,4 +760,18 @@ const styles = StyleSheet.create({
     fontWeight: Typography.fontWeight.semibold, // 600
     textAlign: 'center',
   },
+  scheduleButton: {
+    height: 44, // WCAG AA minimum touch target
+    borderRadius: BorderRadius.sm, // 8pt
+    borderWidth: 1,
+    borderColor: Colors.primary.purple,
+    marginTop: Spacing.md, // 12pt
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scheduleButtonText: {
+    color: Colors.primary.purple,
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+  },
 });
@@ -0,0 +1,333 @@
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, FlatList, Alert } from 'react-native';
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter, useFocusEffect } from 'expo-router';
+import { useWallet } from '@lazorkit/wallet-mobile-adapter';
+import { WalletService } from '../services/WalletService';
+import { normalizeWalletError } from '../services/errors';
+import { Colors, Typography, Spacing, BorderRadius } from '../services/constants';
+import { truncateAddress } from '../utils/FormattingUtils';
+import type { WalletAccount } from '../types';
+
+/**
+ * Wallets Screen
+ *
+ * Lists the wallets registered on this device (WalletService registry) with
+ * their nicknames. Each wallet can be made active, renamed or removed;
+ * "Add Wallet" connects another passkey wallet, which becomes active.
+ *
+ * Contacts, transaction journal and settings belong to the active wallet.
+ * Removing the last wallet disconnects and returns to the Welcome screen.
+ */
+export default function WalletsScreen() {
+  const router = useRouter();
+  const wallet = useWallet();
+  const [wallets, setWallets] = useState<WalletAccount[]>([]);
+  const [activeId, setActiveId] = useState(WalletService.getSessionState().account?.id);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [nickname, setNickname] = useState('');
+  const [renameError, setRenameError] = useState<string | null>(null);
+
+  const loadWallets = useCallback(() => {
+    WalletService.getWallets().then(setWallets);
+  }, []);
+
+  useFocusEffect(loadWallets);
+
+  /**
+   * Follow active wallet changes (switch, add, remove).
+   */
+  useEffect(
+    () =>
+      WalletService.subscribe((state) => {
+        setActiveId(state.account?.id);
+        loadWallets();
+      }),
+    [loadWallets]
+  );
+
+  /**
+   * Make a wallet active.
+   */
+  const handleSwitch = async (account: WalletAccount) => {
+    try {
+      await WalletService.switchWallet(account.id);
+    } catch (error: any) {
+      console.error('[WalletsScreen] Failed to switch wallet:', error);
+      Alert.alert('Unable to switch wallet', error.message || 'Please try again.');
+    }
+  };
+
+  /**
+   * Start editing a wallet's nickname.
+   */
+  const handleStartRename = (account: WalletAccount) => {
+    setEditingId(account.id);
+    setNickname(account.nickname);
+    setRenameError(null);
+  };
+
+  /**
+   * Save the edited nickname.
+   */
+  const handleSaveRename = async () => {
+    if (!editingId) return;
+
+    try {
+      await WalletService.renameWallet(editingId, nickname);
+      setEditingId(null);
+      loadWallets();
+    } catch (error: any) {
+      setRenameError(error.message || 'Unable to rename wallet. Please try again.');
+    }
+  };
+
+  /**
+   * Remove a wallet after confirmation. Removing the last one disconnects.
+   */
+  const handleRemove = (account: WalletAccount) => {
+    Alert.alert(
+      `Remove ${account.nickname}?`,
+      'The wallet stays on-chain and can be added again with its passkey. ' +
+        'Its contacts and history on this device are kept.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const state = await WalletService.removeWallet(account.id);
+              if (state.status === 'none') {
+                await wallet.disconnect();
+                router.replace('/');
+              }
+            } catch (error: any) {
+              console.error('[WalletsScreen] Failed to remove wallet:', error);
+              Alert.alert('Unable to remove wallet', error.message || 'Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  /**
+   * Connect another passkey wallet; it is registered and becomes active.
+   */
+  const handleAddWallet = async () => {
+    try {
+      const walletInfo = await wallet.connect({
+        redirectUrl: 'lazorkitstarter://callback',
+      });
+      const identity = await WalletService.completeConnection(walletInfo, {
+        passkeyAuthenticated: true,
+      });
+      if (identity === 'match') {
+        Alert.alert('Already active', 'This passkey belongs to the active wallet.');
+      }
+    } catch (error) {
+      const walletError = normalizeWalletError(error);
+      if (walletError.code !== 'USER_CANCELLED') {
+        console.error('[WalletsScreen] Failed to add wallet:', error);
+        Alert.alert('Unable to add wallet', walletError.message);
+      }
+    }
+  };
+
+  const renderWallet = ({ item }: { item: WalletAccount }) => {
+    const active = item.id === activeId;
+
+    return (
+      <View style={[styles.row, active && styles.rowActive]}>
+        {editingId === item.id ? (
+          <>
+            <TextInput
+              style={styles.input}
+              value={nickname}
+              onChangeText={(text) => {
+                setNickname(text);
+                setRenameError(null);
+              }}
+              autoFocus={true}
+              accessible={true}
+              accessibilityLabel="Wallet nickname"
+            />
+            {renameError && <Text style={styles.errorText}>{renameError}</Text>}
+            <View style={styles.actions}>
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={handleSaveRename}
+                accessible={true}
+                accessibilityRole="button"
+                accessibilityLabel="Save nickname"
+              >
+                <Text style={styles.actionText}>Save</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => setEditingId(null)}
+                accessible={true}
+                accessibilityRole="button"
+                accessibilityLabel="Cancel renaming"
+              >
+                <Text style={styles.actionText}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        ) : (
+          <>
+            <View style={styles.rowHeader}>
+              <Text style={styles.rowTitle}>{item.nickname}</Text>
+              {active && <Text style={styles.activeBadge}>Active</Text>}
+            </View>
+            <Text style={styles.rowSubtitle}>{truncateAddress(item.session.publicKey, 8, 8)}</Text>
+            <View style={styles.actions}>
+              {!active && (
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => handleSwitch(item)}
+                  accessible={true}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Use ${item.nickname}`}
+                >
+                  <Text style={styles.actionText}>Use</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => handleStartRename(item)}
+                accessible={true}
+                accessibilityRole="button"
+                accessibilityLabel={`Rename ${item.nickname}`}
+              >
+                <Text style={styles.actionText}>Rename</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => handleRemove(item)}
+                accessible={true}
+                accessibilityRole="button"
+                accessibilityLabel={`Remove ${item.nickname}`}
+              >
+                <Text style={[styles.actionText, styles.removeText]}>Remove</Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <FlatList
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+      data={wallets}
+      keyExtractor={(item) => item.id}
+      renderItem={renderWallet}
+      keyboardShouldPersistTaps="handled"
+      ListHeaderComponent={
+        <TouchableOpacity
+          style={styles.primaryButton}
+          onPress={handleAddWallet}
+          disabled={wallet.isConnecting}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel="Add wallet"
+          accessibilityHint="Opens the passkey prompt to connect another wallet"
+          accessibilityState={{ disabled: wallet.isConnecting }}
+        >
+          <Text style={styles.primaryButtonText}>
+            {wallet.isConnecting ? 'Connecting...' : 'Add Wallet'}
+          </Text>
+        </TouchableOpacity>
+      }
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.neutral[50], // Light background
+  },
+  contentContainer: {
+    padding: Spacing.lg, // 16pt padding
+  },
+  row: {
+    backgroundColor: '#fff',
+    padding: Spacing.lg, // 16pt
+    borderRadius: BorderRadius.sm, // 8pt
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    marginBottom: Spacing.sm, // 8pt
+  },
+  rowActive: {
+    borderColor: Colors.primary.purple,
+    borderWidth: 2,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  rowTitle: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.neutral[900],
+  },
+  activeBadge: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.primary.purple,
+  },
+  rowSubtitle: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    color: Colors.neutral[500],
+    marginTop: Spacing.xs, // 4pt
+  },
+  input: {
+    height: 44, // WCAG AA minimum touch target
+    borderWidth: 1,
+    borderColor: '#E5E5E5', // Light gray border
+    borderRadius: BorderRadius.sm, // 8pt
+    paddingHorizontal: Spacing.lg, // 16pt
+    fontSize: Typography.fontSize.body, // 15pt
+    color: Colors.neutral[900],
+  },
+  errorText: {
+    fontSize: Typography.fontSize.caption, // 11pt
+    color: Colors.error, // Red text
+    marginTop: Spacing.xs, // 4pt
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: Spacing.lg, // 16pt
+    marginTop: Spacing.sm, // 8pt
+  },
+  actionButton: {
+    minHeight: 44, // WCAG AA minimum touch target
+    justifyContent: 'center',
+  },
+  actionText: {
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+    color: Colors.primary.purple,
+  },
+  removeText: {
+    color: Colors.error,
+  },
+  primaryButton: {
+    height: 44, // WCAG AA minimum touch target
+    backgroundColor: Colors.primary.purple,
+    borderRadius: BorderRadius.sm, // 8pt
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: Spacing.lg, // 16pt
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: Typography.fontSize.body, // 15pt
+    fontWeight: Typography.fontWeight.semibold, // 600
+  },
+});
@@ -1,7 +1,9 @@
 import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import * as Clipboard from 'expo-clipboard';
 import { Colors, Typography, Spacing, BorderRadius } from '../services/constants';
+import { ContactService } from '../services/ContactService';
+import { truncateAddress } from '../utils/FormattingUtils';
 
 /**
  * Props interface for AddressDisplay component
@@ -20,6 +22,7 @@ interface AddressDisplayProps {
  *
  * Displays a Solana wallet address with optional truncation and copy-to-clipboard functionality.
  * Provides visual feedback when address is successfully copied.
+ * If the address is saved in the address book, its contact label is shown next to it.
  *
  * @param address - The full Solana wallet address to display
  * @param truncate - Whether to show truncated version (first 8 + last 4 chars)
@@ -32,6 +35,12 @@ export function AddressDisplay({
 }: AddressDisplayProps) {
   // Track copy state for visual feedback
   const [copied, setCopied] = useState<boolean>(false);
+  // Contact label for this address (if saved in the address book)
+  const [contactLabel, setContactLabel] = useState<string | undefined>(undefined);
+
+  useEffect(() => {
+    ContactService.findByAddress(address).then((contact) => setContactLabel(contact?.label));
+  }, [address]);
 
   /**
    * Handle copy to clipboard
@@ -61,9 +70,7 @@ export function AddressDisplay({
    * Truncate address to first 8 and last 4 characters
    * Example: "3jeq5nuZjJZXjRKKmEfGvJz8qxLQC5rQFrDu7RqZ7rdu" → "3jeq5nuZ...7rdu"
    */
-  const displayAddress = truncate
-    ? `${address.slice(0, 8)}...${address.slice(-4)}`
-    : address;
+  const displayAddress = truncate ? truncateAddress(address, 8, 4) : address;
 
   return (
     <View style={styles.container}>
@@ -71,7 +78,10 @@ export function AddressDisplay({
       <Text style={styles.label}>Wallet Address</Text>
 
       {/* Address text (truncated or full) */}
-      <Text style={styles.address}>{displayAddress}</Text>
+      <Text style={styles.address}>
+        {contactLabel && <Text style={styles.contactLabel}>{contactLabel} </Text>}
+        {displayAddress}
+      </Text>
 
       {/* Copy button with visual feedback */}
       {showCopyButton && (
@@ -114,6 +124,9 @@ const styles = StyleSheet.create({
     marginBottom: Spacing.lg,
     lineHeight: 20,
   },
+  contactLabel: {
+    fontWeight: Typography.fontWeight.semibold,
+  },
   copyButton: {
     backgroundColor: Colors.primary.purple,
     paddingVertical: Spacing.md,
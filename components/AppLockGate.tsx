@@ -0,0 +1,197 @@
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  AppState,
+  Platform,
+} from 'react-native';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { ReactNode } from 'react';
+import type { AppStateStatus } from 'react-native';
+import * as ScreenCapture from 'expo-screen-capture';
+import { SecurityService } from '../services/SecurityService';
+import { Colors, Typography, Spacing, BorderRadius } from '../services/constants';
+
+/**
+ * Props interface for AppLockGate component
+ */
+interface AppLockGateProps {
+  /** App content, hidden while locked or in the app switcher */
+  children: ReactNode;
+}
+
+/**
+ * App states in which the content is covered (app switcher, system prompts).
+ */
+const isObscured = (state: AppStateStatus) => state === 'inactive' || state === 'background';
+
+/**
+ * AppLockGate Component
+ *
+ * Covers the app with a lock screen while SecurityService reports it locked
+ * (cold start, or back from the background after the auto-lock timeout) and
+ * asks for biometric or device passcode unlock once per lock. The content
+ * stays mounted underneath, so navigation state survives a lock.
+ *
+ * While the app is inactive or in the background it is covered as well. That
+ * cover renders too late for the app switcher snapshot, so the snapshot is
+ * hidden natively (expo-screen-capture): FLAG_SECURE on Android, which also
+ * blocks screenshots, and the app switcher blur on iOS.
+ *
+ * @param children - App content to protect
+ */
+export function AppLockGate({ children }: AppLockGateProps) {
+  const [locked, setLocked] = useState(SecurityService.isLocked());
+  const [obscured, setObscured] = useState(isObscured(AppState.currentState));
+  const [authenticating, setAuthenticating] = useState(false);
+  // Prompt automatically only once per lock; later attempts use the Unlock button
+  const autoPrompted = useRef(false);
+
+  useEffect(() => SecurityService.subscribe(setLocked), []);
+
+  /**
+   * Hide the app switcher snapshot natively for as long as the app runs.
+   */
+  useEffect(() => {
+    if (Platform.OS === 'android') {
+      ScreenCapture.preventScreenCaptureAsync().catch((error) =>
+        console.error('[AppLockGate] Failed to set FLAG_SECURE:', error)
+      );
+      return () => {
+        ScreenCapture.allowScreenCaptureAsync().catch((error) =>
+          console.error('[AppLockGate] Failed to clear FLAG_SECURE:', error)
+        );
+      };
+    }
+    if (Platform.OS === 'ios') {
+      ScreenCapture.enableAppSwitcherProtectionAsync().catch((error) =>
+        console.error('[AppLockGate] Failed to enable app switcher protection:', error)
+      );
+      return () => {
+        ScreenCapture.disableAppSwitcherProtectionAsync().catch((error) =>
+          console.error('[AppLockGate] Failed to disable app switcher protection:', error)
+        );
+      };
+    }
+  }, []);
+
+  /**
+   * Follow foreground/background changes for the auto-lock timeout and the
+   * app switcher cover.
+   */
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      SecurityService.handleAppStateChange(state);
+      setObscured(isObscured(state));
+    });
+    return () => subscription.remove();
+  }, []);
+
+  /**
+   * Show the system biometric/passcode prompt.
+   */
+  const handleUnlock = useCallback(async () => {
+    setAuthenticating(true);
+    await SecurityService.authenticate();
+    setAuthenticating(false);
+  }, []);
+
+  /**
+   * Prompt as soon as the app is locked and in the foreground.
+   */
+  useEffect(() => {
+    if (!locked) {
+      autoPrompted.current = false;
+      return;
+    }
+    if (!obscured && !autoPrompted.current) {
+      autoPrompted.current = true;
+      handleUnlock();
+    }
+  }, [locked, obscured, handleUnlock]);
+
+  return (
+    <View style={styles.container}>
+      <View
+        style={styles.container}
+        importantForAccessibility={locked ? 'no-hide-descendants' : 'auto'}
+        accessibilityElementsHidden={locked}
+      >
+        {children}
+      </View>
+
+      {locked ? (
+        <View style={styles.cover} accessibilityViewIsModal={true}>
+          <Text style={styles.title}>Wallet Locked</Text>
+          <Text style={styles.description}>Unlock with biometrics or your device passcode.</Text>
+          <TouchableOpacity
+            style={[styles.unlockButton, authenticating && styles.disabledButton]}
+            onPress={handleUnlock}
+            disabled={authenticating}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel="Unlock wallet"
+            accessibilityHint="Opens the biometric or passcode prompt"
+            accessibilityState={{ disabled: authenticating }}
+          >
+            {authenticating ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text style={styles.unlockButtonText}>Unlock</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      ) : (
+        obscured && (
+          <View style={styles.cover}>
+            <Text style={styles.title}>Lazorkit Wallet</Text>
+          </View>
+        )
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  cover: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: Colors.neutral[50],
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: Spacing.xl,
+  },
+  title: {
+    fontSize: Typography.fontSize.h2,
+    fontWeight: Typography.fontWeight.bold,
+    color: Colors.neutral[900],
+    marginBottom: Spacing.sm,
+  },
+  description: {
+    fontSize: Typography.fontSize.body,
+    color: Colors.neutral[500],
+    textAlign: 'center',
+    marginBottom: Spacing.xl,
+  },
+  unlockButton: {
+    backgroundColor: Colors.primary.purple,
+    paddingHorizontal: Spacing.xl,
+    borderRadius: BorderRadius.sm,
+    minHeight: 44, // Meets WCAG AA touch target minimum
+    minWidth: 160,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  unlockButtonText: {
+    color: '#FFFFFF',
+    fontSize: Typography.fontSize.body,
+    fontWeight: Typography.fontWeight.semibold,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+});
@@ -0,0 +1,22 @@
+const { transform } = require('jest-expo/jest-preset');
+
+/**
+ * Jest configuration (jest-expo preset).
+ *
+ * @solana packages ship ES modules (.mjs for React Native), so they are
+ * transformed with the same Babel setup as the app's own files, as is the
+ * Lazorkit SDK (it bundles its own ES module expo-web-browser). rpc-websockets
+ * only exports "browser" and "node" builds; the browser one is what Metro bundles.
+ */
+module.exports = {
+  preset: 'jest-expo',
+  transform: {
+    '\\.mjs$': transform['\\.[jt]sx?$'],
+  },
+  moduleNameMapper: {
+    '^rpc-websockets$': '<rootDir>/node_modules/rpc-websockets/dist/index.browser.cjs',
+  },
+  transformIgnorePatterns: [
+    'node_modules/(?!((jest-)?react-native|@react-native(-community)?)|expo(nent)?|@expo(nent)?/.*|react-native-svg|@solana/.*|@lazorkit/.*|uuid)',
+  ],
+};
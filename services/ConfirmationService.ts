@@ -0,0 +1,355 @@
+import * as SecureStore from 'expo-secure-store';
+import type {
+  NetworkId,
+  PendingTransaction,
+  TransactionRequest,
+  TransactionStatus,
+} from '../types';
+import {
+  CONFIRMATION_POLL_INTERVAL_MS,
+  CONFIRMATION_TRACKING_TIMEOUT_MS,
+} from './constants';
+import { NetworkService } from './NetworkService';
+import { SolanaService } from './SolanaService';
+import { TransactionJournalService } from './TransactionJournalService';
+import { WalletService } from './WalletService';
+
+/**
+ * SecureStore key for the list of pending transaction signatures, scoped to
+ * the wallet that sent them (see WalletService.getStorageKey()).
+ */
+const PENDING_IDS_KEY = 'PENDING_TRANSACTION_IDS';
+
+/**
+ * SecureStore key prefix for individual pending transactions (PENDING_TRANSACTION_<signature>).
+ */
+const PENDING_KEY_PREFIX = 'PENDING_TRANSACTION_';
+
+/**
+ * Statuses after which a transaction is no longer tracked.
+ */
+const TERMINAL_STATUSES: TransactionStatus['status'][] = ['finalized', 'failed', 'expired'];
+
+/**
+ * Listener for status updates of one signature.
+ */
+type StatusListener = (status: TransactionStatus) => void;
+
+/**
+ * Tracking run per signature, shared by every caller that tracks it.
+ */
+interface Tracker {
+  listeners: Set<StatusListener>;
+  latest?: TransactionStatus;
+  promise?: Promise<TransactionStatus>;
+}
+
+const trackers = new Map<string, Tracker>();
+
+/**
+ * Tail of the queue of pending id list updates. Each update reads, changes and
+ * writes the list, so they run one at a time to not lose each other's changes.
+ */
+let pendingIdsQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Wait for the given number of milliseconds.
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * ConfirmationService tracks submitted transactions until they are finalized,
+ * fail on-chain, or expire without landing.
+ *
+ * Flow:
+ * 1. recordSubmission() right after signAndSendTransaction() returns: captures
+ *    the submission time and a blockhash expiry height, and persists the entry.
+ *    It never throws, so a broadcast transaction is always tracked
+ * 2. track() polls SolanaService.getConfirmationStatus() and notifies
+ *    subscribe() listeners on every change (pending → processed → confirmed → finalized)
+ * 3. The entry is removed once the transaction reaches a terminal status
+ *
+ * Every status transition is also written to the TransactionJournalService audit trail.
+ * Each transaction stays with the network and wallet it was sent from: its
+ * status is read from that network's RPC and journaled in that wallet, even
+ * if the user switches either while it confirms.
+ *
+ * Entries left behind (screen closed, app restarted) are picked up again by
+ * resumePending(). Only one polling loop runs per signature.
+ *
+ * All methods are static - no instantiation required.
+ */
+export class ConfirmationService {
+  /**
+   * Persist a just-submitted transaction so its confirmation can be tracked and resumed.
+   *
+   * The Lazorkit SDK builds and signs its own transaction, so the blockhash it used
+   * is not known here. A blockhash fetched right after submission is at least as
+   * recent, so its lastValidBlockHeight never declares the transaction expired early.
+   *
+   * Never throws: the transaction is already broadcast. If the blockhash cannot be
+   * fetched it is persisted without an expiry height (track() fetches one later);
+   * if SecureStore fails it is tracked for this app run only.
+   *
+   * @param signature - Signature returned by signAndSendTransaction()
+   * @param request - The transfer that was sent (kept for display after resume)
+   * @param submittedAt - When the signature was returned (default: now)
+   * @returns The PendingTransaction, ready for track()
+   *
+   * @example
+   * const txSignature = await wallet.signAndSendTransaction(payload, options);
+   * const pending = await ConfirmationService.recordSubmission(txSignature, request);
+   * const final = await ConfirmationService.track(pending);
+   */
+  static async recordSubmission(
+    signature: string,
+    request?: TransactionRequest,
+    submittedAt: number = Date.now()
+  ): Promise<PendingTransaction> {
+    const { id: networkId } = NetworkService.getActiveProfile();
+    const pending: PendingTransaction = {
+      signature,
+      networkId,
+      walletId: WalletService.getSessionState().account?.id,
+      submittedAt,
+      ...(await this.fetchExpiry(networkId)),
+      request,
+    };
+
+    try {
+      await SecureStore.setItemAsync(PENDING_KEY_PREFIX + signature, JSON.stringify(pending));
+      await this.updatePendingIds(pending.walletId, (ids) => [
+        ...ids.filter((id) => id !== signature),
+        signature,
+      ]);
+    } catch (error) {
+      console.error('[ConfirmationService] Failed to persist pending transaction:', error);
+    }
+
+    return pending;
+  }
+
+  /**
+   * Get persisted pending transactions, oldest first.
+   *
+   * @param networkId - Only return transactions sent on this network (default: all networks)
+   * @returns Array of pending transactions (empty if none or storage cannot be read)
+   */
+  static async getPendingTransactions(networkId?: NetworkId): Promise<PendingTransaction[]> {
+    try {
+      const idsJson = await SecureStore.getItemAsync(WalletService.getStorageKey(PENDING_IDS_KEY));
+      const ids: string[] = idsJson ? JSON.parse(idsJson) : [];
+
+      const pendingList: PendingTransaction[] = [];
+      for (const id of ids) {
+        const json = await SecureStore.getItemAsync(PENDING_KEY_PREFIX + id);
+        if (json) {
+          pendingList.push(JSON.parse(json) as PendingTransaction);
+        }
+      }
+      return networkId
+        ? pendingList.filter((entry) => entry.networkId === networkId)
+        : pendingList;
+    } catch (error) {
+      console.error('[ConfirmationService] Failed to load pending transactions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Track a pending transaction until it is finalized, fails or expires.
+   *
+   * Calling track() again for a signature that is already tracked returns the
+   * same promise instead of starting a second polling loop. RPC errors are
+   * retried on the next poll. After CONFIRMATION_TRACKING_TIMEOUT_MS the last
+   * known status is returned and the entry stays persisted for resumePending().
+   *
+   * @param pending - Transaction from recordSubmission() or getPendingTransactions()
+   * @returns Promise<TransactionStatus> - Terminal status, or the last known status on timeout
+   */
+  static track(pending: PendingTransaction): Promise<TransactionStatus> {
+    const existing = trackers.get(pending.signature);
+    if (existing?.promise) {
+      return existing.promise;
+    }
+
+    const tracker: Tracker = { listeners: new Set() };
+    trackers.set(pending.signature, tracker);
+    const promise = this.pollUntilDone(pending, tracker).finally(() => {
+      trackers.delete(pending.signature);
+    });
+    tracker.promise = promise;
+    return promise;
+  }
+
+  /**
+   * Listen for status updates of a tracked signature.
+   * The latest known status (if any) is delivered immediately.
+   *
+   * @param signature - Transaction signature
+   * @param listener - Called on every status change
+   * @returns Unsubscribe function
+   */
+  static subscribe(signature: string, listener: StatusListener): () => void {
+    const tracker = trackers.get(signature);
+    if (!tracker) {
+      return () => {};
+    }
+
+    tracker.listeners.add(listener);
+    if (tracker.latest) {
+      listener(tracker.latest);
+    }
+    return () => {
+      tracker.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Resume tracking every persisted transaction on the active network.
+   *
+   * @returns Promise resolving to the final status of each resumed transaction
+   *
+   * @example
+   * const results = await ConfirmationService.resumePending();
+   * const expired = results.filter((status) => status.status === 'expired');
+   */
+  static async resumePending(): Promise<TransactionStatus[]> {
+    const pendingList = await this.getPendingTransactions(NetworkService.getActiveProfile().id);
+
+    if (__DEV__ && pendingList.length > 0) {
+      console.log('[ConfirmationService] Resuming pending transactions:', pendingList.length);
+    }
+    return Promise.all(pendingList.map((entry) => this.track(entry)));
+  }
+
+  /**
+   * Poll the signature status until it is terminal or tracking times out.
+   */
+  private static async pollUntilDone(
+    submitted: PendingTransaction,
+    tracker: Tracker
+  ): Promise<TransactionStatus> {
+    let pending = submitted;
+    const startedAt = Date.now();
+    let latest: TransactionStatus = {
+      signature: pending.signature,
+      status: 'pending',
+      confirmations: 0,
+      explorerUrl: SolanaService.getExplorerUrl(pending.signature, pending.networkId),
+      submittedAt: pending.submittedAt,
+    };
+
+    while (Date.now() - startedAt < CONFIRMATION_TRACKING_TIMEOUT_MS) {
+      if (pending.lastValidBlockHeight === undefined) {
+        pending = await this.addExpiry(pending);
+      }
+
+      try {
+        const next = await SolanaService.getConfirmationStatus(pending);
+        // Keep the first time each stage was seen
+        next.confirmedAt = latest.confirmedAt ?? next.confirmedAt;
+        next.finalizedAt = latest.finalizedAt ?? next.finalizedAt;
+
+        if (next.status !== latest.status || next.confirmations !== latest.confirmations) {
+          // The journal keeps stage transitions only, not every confirmation count
+          const transitioned = next.status !== latest.status;
+          latest = next;
+          tracker.latest = next;
+          tracker.listeners.forEach((listener) => listener(next));
+          if (transitioned) {
+            await TransactionJournalService.recordStatus(pending, next);
+          }
+        }
+
+        if (TERMINAL_STATUSES.includes(next.status)) {
+          await this.removePending(pending);
+          return next;
+        }
+      } catch (error) {
+        if (__DEV__) {
+          console.warn('[ConfirmationService] Status poll failed, retrying:', error);
+        }
+      }
+
+      await delay(CONFIRMATION_POLL_INTERVAL_MS);
+    }
+
+    return latest;
+  }
+
+  /**
+   * Fetch a blockhash expiry height for a transaction submitted to a network.
+   * Returns nothing if the RPC request fails.
+   */
+  private static async fetchExpiry(
+    networkId: NetworkId
+  ): Promise<Pick<PendingTransaction, 'blockhash' | 'lastValidBlockHeight'>> {
+    try {
+      const { blockhash, lastValidBlockHeight } = await SolanaService.getConnection(networkId)
+        .getLatestBlockhash('confirmed');
+      return { blockhash, lastValidBlockHeight };
+    } catch (error) {
+      console.warn('[ConfirmationService] Failed to fetch blockhash, tracking without expiry:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Add a blockhash expiry height to a transaction persisted without one.
+   * A blockhash fetched later is still at least as recent as the signed one.
+   */
+  private static async addExpiry(pending: PendingTransaction): Promise<PendingTransaction> {
+    const expiry = await this.fetchExpiry(pending.networkId);
+    if (expiry.lastValidBlockHeight === undefined) {
+      return pending;
+    }
+
+    const updated = { ...pending, ...expiry };
+    try {
+      if (await SecureStore.getItemAsync(PENDING_KEY_PREFIX + pending.signature)) {
+        await SecureStore.setItemAsync(PENDING_KEY_PREFIX + pending.signature, JSON.stringify(updated));
+      }
+    } catch (error) {
+      console.error('[ConfirmationService] Failed to save blockhash expiry:', error);
+    }
+    return updated;
+  }
+
+  /**
+   * Remove a transaction from the persisted pending list of its wallet.
+   */
+  private static async removePending(pending: PendingTransaction): Promise<void> {
+    const { signature } = pending;
+    try {
+      await this.updatePendingIds(pending.walletId, (ids) => ids.filter((id) => id !== signature));
+      await SecureStore.deleteItemAsync(PENDING_KEY_PREFIX + signature);
+    } catch (error) {
+      console.error('[ConfirmationService] Failed to remove pending transaction:', error);
+    }
+  }
+
+  /**
+   * Read, change and write a wallet's persisted pending id list, after any
+   * update already queued (see pendingIdsQueue).
+   *
+   * @param walletId - Wallet that sent the transactions (PendingTransaction.walletId)
+   * @param update - Returns the new list from the current one
+   * @throws Error if SecureStore fails (later updates still run)
+   */
+  private static updatePendingIds(
+    walletId: string | undefined,
+    update: (ids: string[]) => string[]
+  ): Promise<void> {
+    const key = WalletService.getStorageKey(PENDING_IDS_KEY, walletId);
+    const run = pendingIdsQueue.then(async () => {
+      const idsJson = await SecureStore.getItemAsync(key);
+      const ids: string[] = idsJson ? JSON.parse(idsJson) : [];
+      await SecureStore.setItemAsync(key, JSON.stringify(update(ids)));
+    });
+    pendingIdsQueue = run.catch(() => undefined);
+    return run;
+  }
+}
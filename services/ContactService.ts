@@ -0,0 +1,232 @@
+import * as SecureStore from 'expo-secure-store';
+import type { Contact } from '../types';
+import { isValidContactLabel, isValidSolanaAddress } from '../utils/ValidationUtils';
+import { WalletService } from './WalletService';
+
+/**
+ * SecureStore key for the list of contact identifiers, scoped to the active
+ * wallet (see WalletService.getStorageKey()).
+ */
+const CONTACT_IDS_KEY = 'CONTACT_IDS';
+
+/**
+ * SecureStore key prefix for individual contacts (CONTACT_<id>).
+ * Each contact is stored under its own key because SecureStore values are
+ * limited in size (~2 KB on some iOS versions), which a single list would outgrow.
+ */
+const CONTACT_KEY_PREFIX = 'CONTACT_';
+
+/**
+ * In-memory copy of the address book, loaded on first access.
+ */
+let contactsCache: Contact[] | null = null;
+
+/**
+ * Contacts belong to the active wallet; reload them after a switch.
+ */
+WalletService.onActiveWalletChange(() => {
+  contactsCache = null;
+});
+
+/**
+ * ContactService manages the address book (saved recipients with labels).
+ *
+ * Contacts are persisted in Expo SecureStore and cached in memory after the
+ * first read. Addresses are unique: a second contact for the same address is
+ * rejected so every address resolves to exactly one label.
+ *
+ * All methods are static - no instantiation required.
+ */
+export class ContactService {
+  /**
+   * Get all contacts sorted by label.
+   *
+   * @returns Array of contacts (empty if none saved or storage cannot be read)
+   */
+  static async getContacts(): Promise<Contact[]> {
+    if (contactsCache) {
+      return contactsCache;
+    }
+
+    try {
+      const idsJson = await SecureStore.getItemAsync(WalletService.getStorageKey(CONTACT_IDS_KEY));
+      const ids: string[] = idsJson ? JSON.parse(idsJson) : [];
+
+      const contacts: Contact[] = [];
+      for (const id of ids) {
+        const contactJson = await SecureStore.getItemAsync(CONTACT_KEY_PREFIX + id);
+        // Skip ids whose entry is missing (e.g. interrupted delete)
+        if (contactJson) {
+          contacts.push(JSON.parse(contactJson) as Contact);
+        }
+      }
+
+      contactsCache = this.sortContacts(contacts);
+    } catch (error) {
+      console.error('[ContactService] Failed to load contacts:', error);
+      return [];
+    }
+
+    return contactsCache;
+  }
+
+  /**
+   * Find the contact saved for an address.
+   *
+   * @param address - Solana address (base58)
+   * @returns Matching contact, or null if the address is not in the address book
+   *
+   * @example
+   * const contact = await ContactService.findByAddress(request.recipientAddress);
+   * // contact?.label === 'Alice'
+   */
+  static async findByAddress(address: string): Promise<Contact | null> {
+    const contacts = await this.getContacts();
+    return contacts.find((contact) => contact.address === address) ?? null;
+  }
+
+  /**
+   * Add a new contact.
+   *
+   * @param label - Display name (validated with isValidContactLabel())
+   * @param address - Solana address (validated with isValidSolanaAddress())
+   * @returns The saved contact
+   * @throws Error if label or address is invalid, or the address is already saved
+   * @throws Error if SecureStore.setItemAsync fails
+   */
+  static async addContact(label: string, address: string): Promise<Contact> {
+    const contacts = await this.getContacts();
+    this.validateContact(contacts, label, address);
+
+    const now = Date.now();
+    const contact: Contact = {
+      id: `${now.toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+      label: label.trim(),
+      address: address.trim(),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const updated = [...contacts, contact];
+    try {
+      await SecureStore.setItemAsync(CONTACT_KEY_PREFIX + contact.id, JSON.stringify(contact));
+      await this.saveIds(updated);
+    } catch (error) {
+      console.error('[ContactService] Failed to save contact:', error);
+      throw error;
+    }
+
+    contactsCache = this.sortContacts(updated);
+    if (__DEV__) {
+      console.log('[ContactService] Contact added:', contact.label);
+    }
+    return contact;
+  }
+
+  /**
+   * Update the label and/or address of an existing contact.
+   *
+   * @param id - Identifier of the contact to update
+   * @param label - New display name
+   * @param address - New Solana address
+   * @returns The updated contact
+   * @throws Error if the contact does not exist, input is invalid, or the address belongs to another contact
+   * @throws Error if SecureStore.setItemAsync fails
+   */
+  static async updateContact(id: string, label: string, address: string): Promise<Contact> {
+    const contacts = await this.getContacts();
+    const existing = contacts.find((contact) => contact.id === id);
+    if (!existing) {
+      throw new Error('Contact not found');
+    }
+
+    this.validateContact(
+      contacts.filter((contact) => contact.id !== id),
+      label,
+      address
+    );
+
+    const contact: Contact = {
+      ...existing,
+      label: label.trim(),
+      address: address.trim(),
+      updatedAt: Date.now(),
+    };
+
+    try {
+      await SecureStore.setItemAsync(CONTACT_KEY_PREFIX + id, JSON.stringify(contact));
+    } catch (error) {
+      console.error('[ContactService] Failed to update contact:', error);
+      throw error;
+    }
+
+    contactsCache = this.sortContacts(
+      contacts.map((entry) => (entry.id === id ? contact : entry))
+    );
+    return contact;
+  }
+
+  /**
+   * Delete a contact.
+   *
+   * @param id - Identifier of the contact to delete
+   * @throws Error if SecureStore operations fail
+   */
+  static async deleteContact(id: string): Promise<void> {
+    const contacts = await this.getContacts();
+    const updated = contacts.filter((contact) => contact.id !== id);
+
+    try {
+      // Remove from the id list first so a failed item delete leaves no visible contact
+      await this.saveIds(updated);
+      await SecureStore.deleteItemAsync(CONTACT_KEY_PREFIX + id);
+    } catch (error) {
+      console.error('[ContactService] Failed to delete contact:', error);
+      throw error;
+    }
+
+    contactsCache = updated;
+  }
+
+  /**
+   * Validate label and address, and reject duplicate addresses.
+   *
+   * @param others - Contacts the address must not collide with
+   * @throws Error with a user-facing message if validation fails
+   */
+  private static validateContact(others: Contact[], label: string, address: string): void {
+    const labelValidation = isValidContactLabel(label);
+    if (!labelValidation.valid) {
+      throw new Error(labelValidation.error);
+    }
+
+    const addressValidation = isValidSolanaAddress(address.trim());
+    if (!addressValidation.valid) {
+      throw new Error(addressValidation.error);
+    }
+
+    const duplicate = others.find((contact) => contact.address === address.trim());
+    if (duplicate) {
+      throw new Error(`This address is already saved as "${duplicate.label}"`);
+    }
+  }
+
+  /**
+   * Persist the ordered list of contact identifiers.
+   */
+  private static async saveIds(contacts: Contact[]): Promise<void> {
+    await SecureStore.setItemAsync(
+      WalletService.getStorageKey(CONTACT_IDS_KEY),
+      JSON.stringify(contacts.map((contact) => contact.id))
+    );
+  }
+
+  /**
+   * Sort contacts alphabetically by label (case-insensitive).
+   */
+  private static sortContacts(contacts: Contact[]): Contact[] {
+    return [...contacts].sort((a, b) =>
+      a.label.localeCompare(b.label, undefined, { sensitivity: 'base' })
+    );
+  }
+}
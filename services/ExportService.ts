@@ -0,0 +1,167 @@
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { PublicKey } from '@solana/web3.js';
+import type { JournalStatus, StatementFormat, TransferHistoryEntry } from '../types';
+import {
+  buildStatementRows,
+  serializeStatementCsv,
+  serializeStatementJson,
+} from '../utils/StatementUtils';
+import { ContactService } from './ContactService';
+import { NetworkService } from './NetworkService';
+import { SolanaService } from './SolanaService';
+import { TransactionJournalService } from './TransactionJournalService';
+
+/**
+ * Journal stages included in statements: transfers that reached the chain.
+ * Attempts that were never sent ('signing', 'rejected') stay in the journal only.
+ */
+const STATEMENT_STATUSES: JournalStatus[] = [
+  'pending',
+  'processed',
+  'confirmed',
+  'finalized',
+  'failed',
+  'expired',
+];
+
+/**
+ * MIME type and iOS Uniform Type Identifier for each format.
+ */
+const FORMAT_TYPES: Record<StatementFormat, { mimeType: string; UTI: string }> = {
+  csv: { mimeType: 'text/csv', UTI: 'public.comma-separated-values-text' },
+  json: { mimeType: 'application/json', UTI: 'public.json' },
+};
+
+/**
+ * Format a timestamp as a local YYYY-MM-DD date for file names.
+ */
+function fileDate(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * ExportService writes transaction statements and hands them to the OS share sheet.
+ *
+ * Statements are built from the local TransactionJournalService records of the
+ * active network (sent transfers) and the wallet's on-chain USDC history
+ * (received transfers), labelled with the address book, and serialized by
+ * StatementUtils (CSV or JSON). The file is written to the cache directory.
+ *
+ * All methods are static - no instantiation required.
+ */
+export class ExportService {
+  /**
+   * Export the transfers in a date range and open the share sheet.
+   *
+   * @param format - 'csv' or 'json'
+   * @param range - Statement period as Unix timestamps (milliseconds, inclusive)
+   * @param address - Wallet address (base58) whose received transfers are included
+   * @returns Number of transfers in the statement
+   * @throws Error if sharing is not available, history cannot be read or the
+   *   file cannot be written
+   *
+   * @example
+   * const count = await ExportService.exportStatement(
+   *   'csv',
+   *   { from: monthStart, to: Date.now() },
+   *   address
+   * );
+   */
+  static async exportStatement(
+    format: StatementFormat,
+    range: { from: number; to: number },
+    address: string
+  ): Promise<number> {
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+
+    const { id: networkId } = NetworkService.getActiveProfile();
+    const entries = await TransactionJournalService.getEntries({
+      status: STATEMENT_STATUSES,
+      from: range.from,
+      to: range.to,
+      networkId,
+    });
+    const received = await this.getReceivedTransfers(address, range);
+    const rows = buildStatementRows(entries, await ContactService.getContacts(), {
+      transfers: received,
+      token: NetworkService.getTokens()[0], // USDC, the token history covers
+    });
+    const content =
+      format === 'csv' ? serializeStatementCsv(rows) : serializeStatementJson(rows, range);
+
+    const file = new File(
+      Paths.cache,
+      `statement-${networkId}-${fileDate(range.from)}-to-${fileDate(range.to)}.${format}`
+    );
+    try {
+      file.create({ overwrite: true });
+      file.write(content);
+    } catch (error) {
+      console.error('[ExportService] Failed to write statement:', error);
+      throw error;
+    }
+
+    await Sharing.shareAsync(file.uri, {
+      ...FORMAT_TYPES[format],
+      dialogTitle: 'Export statement',
+    });
+
+    if (__DEV__) {
+      console.log('[ExportService] Statement exported:', file.uri, rows.length);
+    }
+    return rows.length;
+  }
+
+  /**
+   * Read the on-chain USDC transfers received in a date range.
+   *
+   * History pages run newest to oldest, so paging stops at the first page that
+   * reaches back past the start of the range.
+   *
+   * @param address - Wallet address (base58)
+   * @param range - Statement period as Unix timestamps (milliseconds, inclusive)
+   * @returns Received transfers in the range, newest first
+   * @throws Error if the RPC request fails
+   */
+  private static async getReceivedTransfers(
+    address: string,
+    range: { from: number; to: number }
+  ): Promise<TransferHistoryEntry[]> {
+    const owner = new PublicKey(address);
+    const received: TransferHistoryEntry[] = [];
+    let before: string | undefined;
+    let hasMore = true;
+
+    try {
+      while (hasMore) {
+        const page = await SolanaService.getTransferHistory(owner, { before });
+        received.push(
+          ...page.entries.filter(
+            (entry) =>
+              entry.direction === 'received' &&
+              entry.timestamp !== undefined &&
+              entry.timestamp >= range.from &&
+              entry.timestamp <= range.to
+          )
+        );
+
+        const reachedStart = page.entries.some(
+          (entry) => entry.timestamp !== undefined && entry.timestamp < range.from
+        );
+        hasMore = page.hasMore && !reachedStart;
+        before = page.before;
+      }
+    } catch (error) {
+      console.error('[ExportService] Failed to read received transfers:', error);
+      throw error;
+    }
+
+    return received;
+  }
+}
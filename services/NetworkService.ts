@@ -0,0 +1,159 @@
+import * as SecureStore from 'expo-secure-store';
+import type { NetworkId, NetworkProfile, TokenInfo } from '../types';
+import { DEFAULT_NETWORK_ID, NETWORK_PROFILES, TOKEN_REGISTRY, isNetworkId } from './constants';
+import { WalletService } from './WalletService';
+
+/**
+ * SecureStore key for the selected network profile identifier, scoped to the
+ * active wallet (see WalletService.getStorageKey()).
+ */
+const NETWORK_KEY = 'NETWORK_PROFILE';
+
+/**
+ * Currently active network profile identifier (in-memory).
+ * Initialized from DEFAULT_NETWORK_ID and replaced by the persisted value on app launch.
+ */
+let activeNetworkId: NetworkId = DEFAULT_NETWORK_ID;
+
+/**
+ * Listeners notified when the active network changes.
+ */
+const listeners = new Set<(profile: NetworkProfile) => void>();
+
+/**
+ * Each wallet remembers its network: load it after a switch and notify
+ * subscribers if it differs. A wallet without a saved selection keeps the current one.
+ */
+WalletService.onActiveWalletChange(() => {
+  const previousId = activeNetworkId;
+  NetworkService.loadActiveNetwork().then((profile) => {
+    if (profile.id !== previousId) {
+      listeners.forEach((listener) => listener(profile));
+    }
+  });
+});
+
+/**
+ * NetworkService manages the active Solana cluster (network profile).
+ *
+ * The active profile is held in memory so that synchronous callers
+ * (SolanaService.getConnection(), explorer links) can read it directly.
+ * The selection is persisted in SecureStore per wallet and restored by the root layout
+ * on launch (after the wallet session) and on wallet switches.
+ *
+ * All methods are static - no instantiation required.
+ */
+export class NetworkService {
+  /**
+   * Get all registered network profiles in display order.
+   *
+   * @returns Array of network profiles from NETWORK_PROFILES
+   */
+  static getProfiles(): NetworkProfile[] {
+    return Object.values(NETWORK_PROFILES);
+  }
+
+  /**
+   * Get the currently active network profile.
+   *
+   * @returns Active NetworkProfile
+   *
+   * @example
+   * const { rpcUrl } = NetworkService.getActiveProfile();
+   */
+  static getActiveProfile(): NetworkProfile {
+    return NETWORK_PROFILES[activeNetworkId];
+  }
+
+  /**
+   * Get transferable tokens for the active network.
+   * Registry entries without a configured mint are omitted. USDC is always first.
+   *
+   * @returns Array of TokenInfo from TOKEN_REGISTRY for the active network
+   */
+  static getTokens(): TokenInfo[] {
+    return TOKEN_REGISTRY[activeNetworkId].filter((token) => token.mint.length > 0);
+  }
+
+  /**
+   * Check whether a profile has every value needed to transact.
+   * Profiles without an RPC URL, USDC mint or paymaster cannot be selected.
+   *
+   * @param profile - Network profile to check
+   * @returns true if profile is fully configured
+   */
+  static isProfileConfigured(profile: NetworkProfile): boolean {
+    return (
+      profile.rpcUrl.length > 0 &&
+      profile.usdcMint.length > 0 &&
+      profile.paymasterUrl.length > 0
+    );
+  }
+
+  /**
+   * Load persisted network selection from SecureStore.
+   * Called by the root layout before rendering the LazorKitProvider, and after
+   * each wallet switch.
+   *
+   * Keeps the current selection (DEFAULT_NETWORK_ID on launch) if nothing is stored
+   * for the active wallet, the stored value is unknown, or the stored profile is no
+   * longer configured in this build.
+   *
+   * @returns Active NetworkProfile after loading
+   */
+  static async loadActiveNetwork(): Promise<NetworkProfile> {
+    try {
+      const storedId = await SecureStore.getItemAsync(WalletService.getStorageKey(NETWORK_KEY));
+      if (isNetworkId(storedId) && this.isProfileConfigured(NETWORK_PROFILES[storedId])) {
+        activeNetworkId = storedId;
+      }
+    } catch (error) {
+      console.error('[NetworkService] Failed to load network selection:', error);
+    }
+
+    if (__DEV__) {
+      console.log('[NetworkService] Active network:', activeNetworkId);
+    }
+    return this.getActiveProfile();
+  }
+
+  /**
+   * Switch the active network profile and persist the selection.
+   * Notifies subscribers so the root layout can re-create the LazorKitProvider.
+   *
+   * @param networkId - Identifier of the profile to activate
+   * @returns Newly active NetworkProfile
+   * @throws Error if the profile is not configured in this build
+   * @throws Error if SecureStore.setItemAsync fails
+   */
+  static async setActiveNetwork(networkId: NetworkId): Promise<NetworkProfile> {
+    const profile = NETWORK_PROFILES[networkId];
+    if (!this.isProfileConfigured(profile)) {
+      throw new Error(`Network ${profile.label} is not configured in this build`);
+    }
+
+    try {
+      await SecureStore.setItemAsync(WalletService.getStorageKey(NETWORK_KEY), networkId);
+    } catch (error) {
+      console.error('[NetworkService] Failed to save network selection:', error);
+      throw error;
+    }
+
+    activeNetworkId = networkId;
+    listeners.forEach((listener) => listener(profile));
+    return profile;
+  }
+
+  /**
+   * Subscribe to active network changes.
+   *
+   * @param listener - Called with the new profile after each switch
+   * @returns Unsubscribe function
+   */
+  static subscribe(listener: (profile: NetworkProfile) => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+}
@@ -0,0 +1,259 @@
+import * as SecureStore from 'expo-secure-store';
+import { Keypair } from '@solana/web3.js';
+import type { PaymentRequest, TokenInfo } from '../types';
+import { encodeSolanaPayUrl } from '../utils/SolanaPayUtils';
+import { formatDecimalAmount } from '../utils/DecimalUtils';
+import { MAX_PAYMENT_REQUESTS, NATIVE_SOL, PAYMENT_REQUEST_TTL_MS } from './constants';
+import { NetworkService } from './NetworkService';
+import { SolanaService } from './SolanaService';
+import { WalletService } from './WalletService';
+
+/**
+ * SecureStore key for the list of payment request references (newest first),
+ * scoped to the active wallet since requests pay into it.
+ */
+const REQUEST_IDS_KEY = 'PAYMENT_REQUEST_IDS';
+
+/**
+ * SecureStore key prefix for individual payment requests (PAYMENT_REQUEST_<reference>).
+ * One key per request keeps each value well under the SecureStore size limit.
+ */
+const REQUEST_KEY_PREFIX = 'PAYMENT_REQUEST_';
+
+/**
+ * In-memory copy of all payment requests, loaded on first access.
+ */
+let requestsCache: PaymentRequest[] | null = null;
+
+/**
+ * Requests belong to the wallet they pay into; reload them after a switch.
+ */
+WalletService.onActiveWalletChange(() => {
+  requestsCache = null;
+});
+
+/**
+ * Input for PaymentRequestService.createRequest().
+ */
+interface CreatePaymentRequestInput {
+  /** Our wallet address (base58) */
+  recipient: string;
+  /** Requested token, or undefined for native SOL */
+  token?: TokenInfo;
+  /** Requested amount in base units, or undefined to let the payer choose */
+  amountLamports?: bigint;
+  /** Solana Pay label */
+  label?: string;
+  /** Solana Pay message */
+  message?: string;
+}
+
+/**
+ * PaymentRequestService issues Solana Pay payment requests and tracks whether they were paid.
+ *
+ * Each request gets a fresh reference public key. The payer's wallet adds the
+ * reference to the transfer instruction, so checkPendingRequests() can find the
+ * payment with getSignaturesForAddress(reference) and verify it through
+ * SolanaService.findReferencePayment() (right mint, our token account, exact amount).
+ *
+ * Lifecycle: pending → paid, or pending → expired after PAYMENT_REQUEST_TTL_MS.
+ * Requests are persisted in SecureStore and only checked on the network they were issued on.
+ * Only the newest MAX_PAYMENT_REQUESTS requests are kept.
+ *
+ * All methods are static - no instantiation required.
+ */
+export class PaymentRequestService {
+  /**
+   * Get all payment requests, newest first.
+   *
+   * @returns Array of payment requests (empty if none or storage cannot be read)
+   */
+  static async getRequests(): Promise<PaymentRequest[]> {
+    if (requestsCache) {
+      return requestsCache;
+    }
+
+    try {
+      const idsJson = await SecureStore.getItemAsync(WalletService.getStorageKey(REQUEST_IDS_KEY));
+      const ids: string[] = idsJson ? JSON.parse(idsJson) : [];
+
+      const requests: PaymentRequest[] = [];
+      for (const id of ids) {
+        const requestJson = await SecureStore.getItemAsync(REQUEST_KEY_PREFIX + id);
+        if (requestJson) {
+          requests.push(JSON.parse(requestJson) as PaymentRequest);
+        }
+      }
+      requestsCache = requests;
+    } catch (error) {
+      console.error('[PaymentRequestService] Failed to load payment requests:', error);
+      return [];
+    }
+
+    return requestsCache;
+  }
+
+  /**
+   * Create and persist a new payment request with a unique reference key.
+   * The oldest requests beyond MAX_PAYMENT_REQUESTS are deleted.
+   *
+   * @param input - Recipient, asset, optional amount, label and message
+   * @returns The pending PaymentRequest, including its Solana Pay URL
+   * @throws Error if SecureStore.setItemAsync fails
+   *
+   * @example
+   * const request = await PaymentRequestService.createRequest({
+   *   recipient: wallet.smartWalletPubkey.toBase58(),
+   *   token: NetworkService.getTokens()[0],
+   *   amountLamports: 10500000n,
+   *   label: 'Coffee Shop',
+   * });
+   * // Show request.url as a QR code
+   */
+  static async createRequest(input: CreatePaymentRequestInput): Promise<PaymentRequest> {
+    const reference = Keypair.generate().publicKey.toBase58();
+    const decimals = (input.token ?? NATIVE_SOL).decimals;
+    const createdAt = Date.now();
+
+    const request: PaymentRequest = {
+      reference,
+      url: encodeSolanaPayUrl({
+        recipient: input.recipient,
+        amount:
+          input.amountLamports !== undefined
+            ? formatDecimalAmount(input.amountLamports, decimals)
+            : undefined,
+        splToken: input.token?.mint,
+        references: [reference],
+        label: input.label,
+        message: input.message,
+      }),
+      networkId: NetworkService.getActiveProfile().id,
+      recipient: input.recipient,
+      asset: input.token ? 'spl-token' : 'sol',
+      token: input.token,
+      amountLamports: input.amountLamports?.toString(),
+      label: input.label,
+      message: input.message,
+      status: 'pending',
+      createdAt,
+      expiresAt: createdAt + PAYMENT_REQUEST_TTL_MS,
+    };
+
+    const requests = await this.getRequests();
+    const updated = [request, ...requests];
+    const dropped = updated.splice(MAX_PAYMENT_REQUESTS);
+    try {
+      await this.saveRequest(request);
+      await this.saveIds(updated);
+      for (const old of dropped) {
+        await SecureStore.deleteItemAsync(REQUEST_KEY_PREFIX + old.reference);
+      }
+    } catch (error) {
+      console.error('[PaymentRequestService] Failed to save payment request:', error);
+      throw error;
+    }
+
+    requestsCache = updated;
+    if (__DEV__) {
+      console.log('[PaymentRequestService] Payment request created:', reference);
+    }
+    return request;
+  }
+
+  /**
+   * Check every pending request on the active network once.
+   *
+   * A request is marked paid when SolanaService.findReferencePayment() returns a
+   * verified payment, and expired when it is past expiresAt and still unpaid.
+   * RPC errors leave the request pending so the next poll retries it.
+   *
+   * @returns All payment requests after the check, newest first
+   */
+  static async checkPendingRequests(): Promise<PaymentRequest[]> {
+    const requests = await this.getRequests();
+    const networkId = NetworkService.getActiveProfile().id;
+    const now = Date.now();
+
+    const updated: PaymentRequest[] = [];
+    for (const request of requests) {
+      if (request.status !== 'pending' || request.networkId !== networkId) {
+        updated.push(request);
+        continue;
+      }
+
+      let next = request;
+      try {
+        const payment = await SolanaService.findReferencePayment(request);
+        if (payment) {
+          next = {
+            ...request,
+            status: 'paid',
+            signature: payment.signature,
+            paidAmountLamports: payment.amountLamports,
+            paidAt: now,
+          };
+        } else if (now > request.expiresAt) {
+          next = { ...request, status: 'expired' };
+        }
+      } catch (error) {
+        if (__DEV__) {
+          console.warn('[PaymentRequestService] Failed to check request:', request.reference, error);
+        }
+      }
+
+      if (next !== request) {
+        try {
+          await this.saveRequest(next);
+        } catch (error) {
+          console.error('[PaymentRequestService] Failed to save request status:', error);
+        }
+      }
+      updated.push(next);
+    }
+
+    requestsCache = updated;
+    return updated;
+  }
+
+  /**
+   * Delete a payment request. Payments that arrive later are no longer tracked.
+   *
+   * @param reference - Reference key of the request to delete
+   * @throws Error if SecureStore operations fail
+   */
+  static async deleteRequest(reference: string): Promise<void> {
+    const requests = await this.getRequests();
+    const updated = requests.filter((request) => request.reference !== reference);
+
+    try {
+      await this.saveIds(updated);
+      await SecureStore.deleteItemAsync(REQUEST_KEY_PREFIX + reference);
+    } catch (error) {
+      console.error('[PaymentRequestService] Failed to delete payment request:', error);
+      throw error;
+    }
+
+    requestsCache = updated;
+  }
+
+  /**
+   * Persist a single payment request under its own key.
+   */
+  private static async saveRequest(request: PaymentRequest): Promise<void> {
+    await SecureStore.setItemAsync(
+      REQUEST_KEY_PREFIX + request.reference,
+      JSON.stringify(request)
+    );
+  }
+
+  /**
+   * Persist the ordered list of request references.
+   */
+  private static async saveIds(requests: PaymentRequest[]): Promise<void> {
+    await SecureStore.setItemAsync(
+      WalletService.getStorageKey(REQUEST_IDS_KEY),
+      JSON.stringify(requests.map((request) => request.reference))
+    );
+  }
+}
@@ -0,0 +1,209 @@
+import * as SecureStore from 'expo-secure-store';
+import type { PolicyEvaluation, SpendingPolicy, TransactionRequest } from '../types';
+import { evaluateBatchPolicy, evaluateTransferPolicy } from '../utils/PolicyUtils';
+import { isValidSolanaAddress } from '../utils/ValidationUtils';
+import { MAX_POLICY_ADDRESSES } from './constants';
+import { ContactService } from './ContactService';
+import { NetworkService } from './NetworkService';
+import { TransactionJournalService } from './TransactionJournalService';
+import { WalletService } from './WalletService';
+
+/**
+ * SecureStore key for the policy settings (limits and switches). Policy keys
+ * are scoped to the active wallet (see WalletService.getStorageKey()).
+ */
+const POLICY_KEY = 'SPENDING_POLICY';
+
+/**
+ * SecureStore keys for the recipient lists, stored apart from the settings so
+ * each value stays within the SecureStore size limit.
+ */
+const POLICY_ALLOWLIST_KEY = 'POLICY_ALLOWLIST';
+const POLICY_DENYLIST_KEY = 'POLICY_DENYLIST';
+
+/**
+ * Policy used until the user saves one: no limits, new recipients need confirmation.
+ */
+const DEFAULT_POLICY: SpendingPolicy = {
+  limits: {},
+  overLimitAction: 'confirm',
+  warnNewRecipients: true,
+  allowlistOnly: false,
+  allowlist: [],
+  denylist: [],
+};
+
+/**
+ * In-memory copy of the policy, loaded on first access.
+ */
+let policyCache: SpendingPolicy | null = null;
+
+/**
+ * Each wallet has its own policy; reload it after a switch.
+ */
+WalletService.onActiveWalletChange(() => {
+  policyCache = null;
+});
+
+/**
+ * PolicyService stores the user's spending policy and checks transfers against it.
+ *
+ * The policy holds per-asset limits (per transaction, rolling 24 hours and
+ * 7 days), a recipient allowlist and denylist, and the new-recipient warning.
+ * evaluateTransfer() combines it with the local transaction journal (spending
+ * history) and the address book; the rules themselves live in PolicyUtils.
+ *
+ * The Transfer screen stops blocked transfers before review; the Confirm screen
+ * evaluates again before signing (covering Solana Pay links and scheduled runs)
+ * and asks for an explicit confirmation of any remaining violations. The Batch
+ * Confirm screen blocks a batch payout on any violation (evaluateBatch()).
+ *
+ * All methods are static - no instantiation required.
+ */
+export class PolicyService {
+  /**
+   * Get the spending policy.
+   *
+   * A policy that cannot be read is an error, never the default policy: the
+   * evaluations below then reject and transfers stay blocked.
+   *
+   * @returns Saved policy, or the default policy if none is saved
+   * @throws Error if SecureStore operations fail
+   */
+  static async getPolicy(): Promise<SpendingPolicy> {
+    if (policyCache) {
+      return policyCache;
+    }
+
+    try {
+      const load = (key: string) => SecureStore.getItemAsync(WalletService.getStorageKey(key));
+      const [policyJson, allowlistJson, denylistJson] = await Promise.all([
+        load(POLICY_KEY),
+        load(POLICY_ALLOWLIST_KEY),
+        load(POLICY_DENYLIST_KEY),
+      ]);
+
+      const policy: SpendingPolicy = {
+        ...DEFAULT_POLICY,
+        ...(policyJson ? JSON.parse(policyJson) : {}),
+        allowlist: allowlistJson ? JSON.parse(allowlistJson) : [],
+        denylist: denylistJson ? JSON.parse(denylistJson) : [],
+      };
+      policyCache = policy;
+      return policy;
+    } catch (error) {
+      console.error('[PolicyService] Failed to load spending policy:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Validate and save the spending policy.
+   *
+   * @param policy - Policy to save (limits in base units, see SpendingLimits)
+   * @throws Error if an address or limit is invalid, a list is too long,
+   *         an address is on both lists, or allowlistOnly is on with an empty allowlist
+   * @throws Error if SecureStore.setItemAsync fails
+   */
+  static async savePolicy(policy: SpendingPolicy): Promise<void> {
+    this.validatePolicy(policy);
+
+    const { allowlist, denylist, ...settings } = policy;
+    try {
+      const save = (key: string, value: unknown) =>
+        SecureStore.setItemAsync(WalletService.getStorageKey(key), JSON.stringify(value));
+      await save(POLICY_KEY, settings);
+      await save(POLICY_ALLOWLIST_KEY, allowlist);
+      await save(POLICY_DENYLIST_KEY, denylist);
+    } catch (error) {
+      console.error('[PolicyService] Failed to save spending policy:', error);
+      throw error;
+    }
+
+    policyCache = policy;
+    if (__DEV__) {
+      console.log('[PolicyService] Spending policy saved');
+    }
+  }
+
+  /**
+   * Check a transfer against the spending policy, using the journal of the
+   * active network as spending history.
+   *
+   * @param request - Transfer to check
+   * @returns Violations, and whether the transfer is blocked or needs confirmation
+   * @throws Error if the policy or the journal cannot be read (do not sign)
+   *
+   * @example
+   * const evaluation = await PolicyService.evaluateTransfer(transactionRequest);
+   * if (evaluation.blocked) {
+   *   setError(evaluation.violations[0].message);
+   * }
+   */
+  static async evaluateTransfer(request: TransactionRequest): Promise<PolicyEvaluation> {
+    const [policy, entries, contacts] = await Promise.all([
+      this.getPolicy(),
+      TransactionJournalService.getEntries({ networkId: NetworkService.getActiveProfile().id }),
+      ContactService.getContacts(),
+    ]);
+
+    return evaluateTransferPolicy(request, policy, { entries, contacts, now: Date.now() });
+  }
+
+  /**
+   * Check every transfer of a batch payout against the spending policy, counting
+   * the running batch total towards the daily and weekly limits.
+   *
+   * @param requests - Transfers of the batch, in sending order
+   * @returns Violations of all transfers; the batch is blocked if there are any
+   * @throws Error if the policy or the journal cannot be read (do not sign)
+   */
+  static async evaluateBatch(requests: TransactionRequest[]): Promise<PolicyEvaluation> {
+    const [policy, entries, contacts] = await Promise.all([
+      this.getPolicy(),
+      TransactionJournalService.getEntries({ networkId: NetworkService.getActiveProfile().id }),
+      ContactService.getContacts(),
+    ]);
+
+    return evaluateBatchPolicy(requests, policy, { entries, contacts, now: Date.now() });
+  }
+
+  /**
+   * Validate limits and recipient lists.
+   *
+   * @throws Error with a user-facing message if validation fails
+   */
+  private static validatePolicy(policy: SpendingPolicy): void {
+    for (const limits of Object.values(policy.limits)) {
+      for (const limit of [limits.perTransaction, limits.daily, limits.weekly]) {
+        if (limit !== undefined && (!/^\d+$/.test(limit) || BigInt(limit) <= 0n)) {
+          throw new Error('Limits must be greater than zero');
+        }
+      }
+    }
+
+    const lists = [
+      { name: 'allowed', addresses: policy.allowlist },
+      { name: 'blocked', addresses: policy.denylist },
+    ];
+    for (const { name, addresses } of lists) {
+      if (addresses.length > MAX_POLICY_ADDRESSES) {
+        throw new Error(`The ${name} list can have at most ${MAX_POLICY_ADDRESSES} addresses`);
+      }
+      for (const address of addresses) {
+        const validation = isValidSolanaAddress(address);
+        if (!validation.valid) {
+          throw new Error(`${validation.error} in the ${name} list`);
+        }
+      }
+    }
+
+    const both = policy.allowlist.find((address) => policy.denylist.includes(address));
+    if (both) {
+      throw new Error('An address cannot be on both the allowed and blocked lists');
+    }
+    if (policy.allowlistOnly && policy.allowlist.length === 0) {
+      throw new Error('Add at least one allowed recipient, or turn off "Only allowed recipients"');
+    }
+  }
+}
@@ -0,0 +1,399 @@
+import * as SecureStore from 'expo-secure-store';
+import type {
+  DueScheduledTransfer,
+  ScheduleRule,
+  ScheduledRun,
+  ScheduledTransfer,
+  TransactionJournalEntry,
+  TransactionRequest,
+  TransactionStatus,
+} from '../types';
+import { getNextRunAt, isValidCronExpression } from '../utils/ScheduleUtils';
+import { MAX_SCHEDULE_RUNS } from './constants';
+import { NetworkService } from './NetworkService';
+import { SolanaService } from './SolanaService';
+import { TransactionJournalService } from './TransactionJournalService';
+import { WalletService } from './WalletService';
+
+/**
+ * SecureStore key for the list of scheduled transfer identifiers, scoped to the
+ * active wallet so schedules only run from the wallet that created them.
+ */
+const SCHEDULE_IDS_KEY = 'SCHEDULE_IDS';
+
+/**
+ * SecureStore key prefix for individual scheduled transfers (SCHEDULE_<id>).
+ */
+const SCHEDULE_KEY_PREFIX = 'SCHEDULE_';
+
+/**
+ * Upper bound on overdue runs walked for one schedule in getDueQueue().
+ * Only matters for rules that fire every few minutes while the app was closed.
+ */
+const MAX_CATCH_UP_RUNS = 500;
+
+/**
+ * In-memory copy of all scheduled transfers (creation order), loaded on first access.
+ */
+let schedulesCache: ScheduledTransfer[] | null = null;
+
+/**
+ * Schedules belong to the active wallet; reload them after a switch.
+ */
+WalletService.onActiveWalletChange(() => {
+  schedulesCache = null;
+});
+
+/**
+ * ScheduleService manages scheduled and recurring transfers ("send 50 USDC to X every month").
+ *
+ * Signing needs the passkey prompt, so runs are never sent unattended: when the
+ * app opens or returns to the foreground, getDueQueue() lists the runs that are
+ * due and the user pays each one through the Confirm screen, or skips it.
+ *
+ * Run outcomes are recorded on the schedule:
+ * - 'submitted' holds the run while the transaction confirms; it is not offered again
+ * - 'sent' (confirmed on-chain) and 'skipped' advance the schedule to its next run
+ * - 'failed' (cancelled, pre-flight failure, failed or expired on-chain) leaves the run due
+ * - 'missed': when several runs passed while the app was closed, only the most
+ *   recent is offered; the earlier ones are recorded as missed and never paid,
+ *   so a long absence does not turn into a burst of payments
+ *
+ * Schedules are persisted in Expo SecureStore, cached in memory after the first
+ * read, and only run on the network they were created on.
+ *
+ * All methods are static - no instantiation required.
+ */
+export class ScheduleService {
+  /**
+   * Get the scheduled transfers of the active network, next run first.
+   * Completed schedules (no next run) come last.
+   *
+   * @returns Array of schedules (empty if none or storage cannot be read)
+   */
+  static async getSchedules(): Promise<ScheduledTransfer[]> {
+    const schedules = await this.loadSchedules();
+    const { id: networkId } = NetworkService.getActiveProfile();
+
+    return schedules
+      .filter((schedule) => schedule.networkId === networkId)
+      .sort((a, b) => (a.nextRunAt ?? Infinity) - (b.nextRunAt ?? Infinity));
+  }
+
+  /**
+   * Create a scheduled transfer on the active network.
+   *
+   * @param request - Transfer to send on each run (validated by the Transfer screen)
+   * @param rule - One-off date or recurring rule; its first run must be in the future
+   * @returns The saved schedule
+   * @throws Error if the rule is invalid, starts in the past or never runs
+   * @throws Error if SecureStore.setItemAsync fails
+   *
+   * @example
+   * await ScheduleService.createSchedule(request, {
+   *   kind: 'recurring',
+   *   cron: '0 9 1 * *', // 09:00 on the 1st of every month
+   *   startAt: new Date(2026, 10, 1, 9, 0).getTime(),
+   * });
+   */
+  static async createSchedule(
+    request: TransactionRequest,
+    rule: ScheduleRule
+  ): Promise<ScheduledTransfer> {
+    if (rule.kind === 'recurring') {
+      const cronValidation = isValidCronExpression(rule.cron);
+      if (!cronValidation.valid) {
+        throw new Error(cronValidation.error);
+      }
+    }
+
+    const now = Date.now();
+    const firstRunAt = rule.kind === 'once' ? rule.at : rule.startAt;
+    if (firstRunAt <= now) {
+      throw new Error('The first payment must be in the future');
+    }
+    const nextRunAt = getNextRunAt(rule, firstRunAt - 1);
+    if (nextRunAt === null) {
+      throw new Error('This schedule never runs. Check the day and month fields.');
+    }
+
+    const schedule: ScheduledTransfer = {
+      id: `${now.toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+      networkId: NetworkService.getActiveProfile().id,
+      request,
+      rule,
+      nextRunAt,
+      runs: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const schedules = await this.loadSchedules();
+    const updated = [...schedules, schedule];
+    try {
+      await this.saveSchedule(schedule);
+      await this.saveIds(updated);
+    } catch (error) {
+      console.error('[ScheduleService] Failed to save schedule:', error);
+      throw error;
+    }
+
+    schedulesCache = updated;
+    if (__DEV__) {
+      console.log('[ScheduleService] Schedule created:', schedule.id, nextRunAt);
+    }
+    return schedule;
+  }
+
+  /**
+   * Delete a scheduled transfer. Runs already sent are not affected.
+   *
+   * @param id - Identifier of the schedule to delete
+   * @throws Error if SecureStore operations fail
+   */
+  static async deleteSchedule(id: string): Promise<void> {
+    const schedules = await this.loadSchedules();
+    const updated = schedules.filter((schedule) => schedule.id !== id);
+
+    try {
+      await this.saveIds(updated);
+      await SecureStore.deleteItemAsync(SCHEDULE_KEY_PREFIX + id);
+    } catch (error) {
+      console.error('[ScheduleService] Failed to delete schedule:', error);
+      throw error;
+    }
+
+    schedulesCache = updated;
+  }
+
+  /**
+   * Get the runs that are due on the active network, oldest first.
+   *
+   * A run left 'submitted' (app closed before its confirmation) is settled from
+   * the transaction journal first: 'sent' once confirmed, 'failed' if it failed
+   * or expired. Without a journal entry the run's signature is looked up
+   * on-chain instead. A run still confirming, or whose result is unknown, is
+   * held and not returned, so a submitted transfer is never paid twice.
+   *
+   * Then schedules are caught up: when more than one run passed since the
+   * schedule's next run, all but the most recent are recorded as 'missed' and
+   * the schedule moves to the most recent one, which is returned as due.
+   *
+   * @param now - Current time (Unix timestamp, milliseconds)
+   * @returns One due run per schedule (empty if nothing is due)
+   *
+   * @example
+   * const queue = await ScheduleService.getDueQueue();
+   * // queue[0].schedule.request, queue[0].dueAt
+   */
+  static async getDueQueue(now: number = Date.now()): Promise<DueScheduledTransfer[]> {
+    const schedules = await this.getSchedules();
+    const queue: DueScheduledTransfer[] = [];
+    let entries: TransactionJournalEntry[] | null = null;
+
+    for (const submitted of schedules) {
+      let schedule = submitted;
+      if (this.getSubmittedRun(schedule)) {
+        try {
+          entries ??= await TransactionJournalService.getEntries();
+        } catch {
+          // Unreadable journal: the result is unknown, keep the run held
+          continue;
+        }
+        schedule = await this.settleSubmittedRun(schedule, entries);
+        if (this.getSubmittedRun(schedule)) continue;
+      }
+      if (schedule.nextRunAt === null || schedule.nextRunAt > now) continue;
+
+      // Walk forward to the most recent run that is already due
+      let dueAt = schedule.nextRunAt;
+      const missed: ScheduledRun[] = [];
+      for (let i = 0; i < MAX_CATCH_UP_RUNS; i++) {
+        const next = getNextRunAt(schedule.rule, dueAt);
+        if (next === null || next > now) break;
+        missed.push({ dueAt, status: 'missed', at: now });
+        dueAt = next;
+      }
+
+      let current = schedule;
+      if (missed.length > 0) {
+        current = {
+          ...schedule,
+          nextRunAt: dueAt,
+          runs: [...schedule.runs, ...missed].slice(-MAX_SCHEDULE_RUNS),
+          updatedAt: now,
+        };
+        await this.updateSchedule(current);
+        if (__DEV__) {
+          console.log('[ScheduleService] Missed runs recorded:', schedule.id, missed.length);
+        }
+      }
+      queue.push({ schedule: current, dueAt });
+    }
+
+    return queue.sort((a, b) => a.dueAt - b.dueAt);
+  }
+
+  /**
+   * Record the outcome of a scheduled run.
+   *
+   * 'sent' and 'skipped' move the schedule to its next run (or complete a
+   * one-off schedule); 'failed' keeps the run due so it can be retried or skipped.
+   * 'submitted' holds the run until its on-chain result is recorded ('sent' or 'failed').
+   * Outcomes for a run that is no longer the next one (already handled) are
+   * recorded without moving the schedule.
+   *
+   * Storage errors are logged and never thrown: recording an outcome must not
+   * interrupt the transfer flow.
+   *
+   * @param id - Identifier of the schedule
+   * @param dueAt - Scheduled time of the run (from getDueQueue())
+   * @param outcome - Run status, with the journal entry, signature and error code of an attempt
+   *
+   * @example
+   * await ScheduleService.recordRun(scheduleId, dueAt, {
+   *   status: 'submitted',
+   *   journalEntryId: journalEntry.id,
+   *   signature: txSignature,
+   * });
+   */
+  static async recordRun(
+    id: string,
+    dueAt: number,
+    outcome: Omit<ScheduledRun, 'dueAt' | 'at'>
+  ): Promise<void> {
+    const schedules = await this.loadSchedules();
+    const schedule = schedules.find((entry) => entry.id === id);
+    if (!schedule) {
+      // Deleted while the run was being signed
+      console.warn('[ScheduleService] Run recorded for unknown schedule:', id);
+      return;
+    }
+
+    const now = Date.now();
+    const advances =
+      (outcome.status === 'sent' || outcome.status === 'skipped') && schedule.nextRunAt === dueAt;
+
+    await this.updateSchedule({
+      ...schedule,
+      nextRunAt: advances ? getNextRunAt(schedule.rule, dueAt) : schedule.nextRunAt,
+      runs: [...schedule.runs, { ...outcome, dueAt, at: now }].slice(-MAX_SCHEDULE_RUNS),
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Get the run waiting for its on-chain result, if the schedule's next run was submitted.
+   */
+  private static getSubmittedRun(schedule: ScheduledTransfer): ScheduledRun | undefined {
+    const latest = schedule.runs.findLast((run) => run.dueAt === schedule.nextRunAt);
+    return latest?.status === 'submitted' ? latest : undefined;
+  }
+
+  /**
+   * Record the outcome of a submitted run from its journal entry, or from the
+   * signature status if the entry is missing or was never marked submitted. Returns the schedule unchanged
+   * while the transaction is still confirming or its result is unknown.
+   */
+  private static async settleSubmittedRun(
+    schedule: ScheduledTransfer,
+    entries: TransactionJournalEntry[]
+  ): Promise<ScheduledTransfer> {
+    const run = this.getSubmittedRun(schedule)!;
+    const entry = entries.find((item) => item.id === run.journalEntryId);
+    const result = entry?.signature ? entry : await this.getSignatureResult(run);
+    const sent = result?.status === 'confirmed' || result?.status === 'finalized';
+    if (!result || (!sent && result.status !== 'failed' && result.status !== 'expired')) {
+      return schedule;
+    }
+
+    await this.recordRun(schedule.id, run.dueAt, {
+      status: sent ? 'sent' : 'failed',
+      journalEntryId: run.journalEntryId,
+      signature: run.signature,
+      ...(!sent && result.errorCode && { errorCode: result.errorCode }),
+    });
+    return (await this.loadSchedules()).find((item) => item.id === schedule.id) ?? schedule;
+  }
+
+  /**
+   * Look up the on-chain status of a submitted run's signature.
+   * Returns undefined if the run has no signature or the lookup fails.
+   */
+  private static async getSignatureResult(
+    run: ScheduledRun
+  ): Promise<TransactionStatus | undefined> {
+    if (!run.signature) return undefined;
+
+    try {
+      return await SolanaService.getConfirmationStatus({
+        signature: run.signature,
+        networkId: NetworkService.getActiveProfile().id,
+        submittedAt: run.at,
+      });
+    } catch (error) {
+      console.error('[ScheduleService] Failed to check submitted run:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Load all schedules from SecureStore into the cache.
+   */
+  private static async loadSchedules(): Promise<ScheduledTransfer[]> {
+    if (schedulesCache) {
+      return schedulesCache;
+    }
+
+    try {
+      const idsJson = await SecureStore.getItemAsync(WalletService.getStorageKey(SCHEDULE_IDS_KEY));
+      const ids: string[] = idsJson ? JSON.parse(idsJson) : [];
+
+      const schedules: ScheduledTransfer[] = [];
+      for (const id of ids) {
+        const scheduleJson = await SecureStore.getItemAsync(SCHEDULE_KEY_PREFIX + id);
+        // Skip ids whose entry is missing (e.g. interrupted delete)
+        if (scheduleJson) {
+          schedules.push(JSON.parse(scheduleJson) as ScheduledTransfer);
+        }
+      }
+      schedulesCache = schedules;
+    } catch (error) {
+      console.error('[ScheduleService] Failed to load schedules:', error);
+      return [];
+    }
+
+    return schedulesCache;
+  }
+
+  /**
+   * Replace a schedule in the cache and persist it (errors are logged).
+   */
+  private static async updateSchedule(schedule: ScheduledTransfer): Promise<void> {
+    const schedules = await this.loadSchedules();
+    schedulesCache = schedules.map((entry) => (entry.id === schedule.id ? schedule : entry));
+
+    try {
+      await this.saveSchedule(schedule);
+    } catch (error) {
+      console.error('[ScheduleService] Failed to update schedule:', error);
+    }
+  }
+
+  /**
+   * Persist a single schedule under its own key.
+   */
+  private static async saveSchedule(schedule: ScheduledTransfer): Promise<void> {
+    await SecureStore.setItemAsync(SCHEDULE_KEY_PREFIX + schedule.id, JSON.stringify(schedule));
+  }
+
+  /**
+   * Persist the ordered list of schedule identifiers.
+   */
+  private static async saveIds(schedules: ScheduledTransfer[]): Promise<void> {
+    await SecureStore.setItemAsync(
+      WalletService.getStorageKey(SCHEDULE_IDS_KEY),
+      JSON.stringify(schedules.map((schedule) => schedule.id))
+    );
+  }
+}
@@ -0,0 +1,327 @@
+import * as SecureStore from 'expo-secure-store';
+import * as LocalAuthentication from 'expo-local-authentication';
+import type { AppStateStatus } from 'react-native';
+import type { SecuritySettings, TokenInfo } from '../types';
+import { requiresReauthentication } from '../utils/SessionUtils';
+import {
+  AUTO_LOCK_OPTIONS,
+  SESSION_IDLE_TIMEOUT_OPTIONS,
+  SESSION_MAX_AGE_OPTIONS,
+} from './constants';
+
+/**
+ * SecureStore key for the security settings (device-wide, not per wallet).
+ */
+const SECURITY_SETTINGS_KEY = 'SECURITY_SETTINGS';
+
+/**
+ * Settings used until the user saves some: app lock on after 1 minute in the
+ * background; sessions expire after 30 days of inactivity or 90 days in any
+ * case; no re-authentication thresholds.
+ */
+const DEFAULT_SETTINGS: SecuritySettings = {
+  appLockEnabled: true,
+  autoLockAfterMs: AUTO_LOCK_OPTIONS[1].ms,
+  sessionPolicy: {
+    idleTimeoutMs: SESSION_IDLE_TIMEOUT_OPTIONS[2].ms,
+    absoluteMaxAgeMs: SESSION_MAX_AGE_OPTIONS[2].ms,
+    reauthThresholds: {},
+  },
+};
+
+/**
+ * In-memory copy of the settings, loaded by the root layout on launch.
+ */
+let settingsCache: SecuritySettings = DEFAULT_SETTINGS;
+
+/**
+ * Whether the app is locked (in-memory; every cold start begins locked when
+ * app lock is on).
+ */
+let locked = false;
+
+/**
+ * When the app last went to the background (Unix timestamp, milliseconds), or
+ * null while it is in the foreground.
+ */
+let backgroundedAt: number | null = null;
+
+/**
+ * Listeners notified when the app locks or unlocks.
+ */
+const listeners = new Set<(locked: boolean) => void>();
+
+/**
+ * SecurityService holds the device-wide security settings and the app lock.
+ *
+ * The app lock asks for local biometric or device passcode authentication
+ * (expo-local-authentication) on cold start and when the app returns from the
+ * background after autoLockAfterMs. The lock is local only: wallet signing
+ * still goes through the passkey. Devices without any enrolled biometrics or
+ * passcode cannot be locked, and cannot send transfers above a
+ * re-authentication threshold.
+ *
+ * The settings also hold the session expiry policy: WalletService.isSessionValid()
+ * applies its idle and absolute limits, and signing screens call
+ * confirmHighValueTransfer() for its re-authentication thresholds.
+ * The AppLockGate component renders the lock screen and the app switcher cover.
+ *
+ * All methods are static - no instantiation required.
+ */
+export class SecurityService {
+  /**
+   * Load the settings from SecureStore and lock the app if app lock is on.
+   * Called once by the root layout before the wallet session is restored.
+   *
+   * @returns Loaded settings (defaults if none are saved or storage cannot be read)
+   */
+  static async loadSettings(): Promise<SecuritySettings> {
+    try {
+      const settingsJson = await SecureStore.getItemAsync(SECURITY_SETTINGS_KEY);
+      if (settingsJson) {
+        const stored = JSON.parse(settingsJson);
+        // Settings saved before session policies had a single inactivity limit
+        const settings =
+          stored && !stored.sessionPolicy && typeof stored.sessionMaxAgeMs === 'number'
+            ? {
+                appLockEnabled: stored.appLockEnabled,
+                autoLockAfterMs: stored.autoLockAfterMs,
+                sessionPolicy: {
+                  ...DEFAULT_SETTINGS.sessionPolicy,
+                  idleTimeoutMs: stored.sessionMaxAgeMs,
+                },
+              }
+            : stored;
+        settingsCache = this.isValidSettings(settings) ? settings : DEFAULT_SETTINGS;
+      }
+    } catch (error) {
+      console.error('[SecurityService] Failed to load security settings:', error);
+    }
+
+    if (settingsCache.appLockEnabled && (await this.canUseAppLock())) {
+      this.setLocked(true);
+    }
+    return settingsCache;
+  }
+
+  /**
+   * Get the security settings loaded on launch.
+   *
+   * @returns Current SecuritySettings
+   */
+  static getSettings(): SecuritySettings {
+    return settingsCache;
+  }
+
+  /**
+   * Validate and save the security settings.
+   *
+   * @param settings - Settings to save
+   * @throws Error if a timeout or re-authentication threshold is invalid, or app
+   *         lock is turned on without enrolled biometrics or device passcode
+   * @throws Error if SecureStore.setItemAsync fails
+   */
+  static async saveSettings(settings: SecuritySettings): Promise<void> {
+    if (!this.isValidSettings(settings)) {
+      throw new Error('Invalid security settings');
+    }
+    if (settings.appLockEnabled && !(await this.canUseAppLock())) {
+      throw new Error('Set up a device passcode or biometrics to use app lock');
+    }
+
+    try {
+      await SecureStore.setItemAsync(SECURITY_SETTINGS_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.error('[SecurityService] Failed to save security settings:', error);
+      throw error;
+    }
+
+    settingsCache = settings;
+    if (__DEV__) {
+      console.log('[SecurityService] Security settings saved');
+    }
+  }
+
+  /**
+   * Check whether the device has biometrics or a passcode to unlock with.
+   *
+   * @returns true if local authentication is available
+   */
+  static async canUseAppLock(): Promise<boolean> {
+    try {
+      const level = await LocalAuthentication.getEnrolledLevelAsync();
+      return level !== LocalAuthentication.SecurityLevel.NONE;
+    } catch (error) {
+      console.error('[SecurityService] Failed to check local authentication:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Ask for biometric or device passcode authentication and unlock the app on success.
+   * If the device no longer has any enrolled authentication, the app unlocks
+   * without a prompt (it could otherwise never be opened). Transfers must use
+   * confirmHighValueTransfer() instead, which never passes without a prompt.
+   *
+   * @param promptMessage - Reason shown in the system prompt
+   * @returns true if the user authenticated (the app is unlocked), false otherwise
+   */
+  static async authenticate(promptMessage = 'Unlock your wallet'): Promise<boolean> {
+    if (!(await this.canUseAppLock())) {
+      console.warn('[SecurityService] No local authentication enrolled, unlocking');
+      this.setLocked(false);
+      return true;
+    }
+
+    if (!(await this.promptLocalAuthentication(promptMessage))) {
+      return false;
+    }
+    this.setLocked(false);
+    return true;
+  }
+
+  /**
+   * Check whether a transfer needs re-authentication before signing
+   * (SessionExpiryPolicy.reauthThresholds).
+   *
+   * @param token - SPL token, or undefined for native SOL
+   * @param amount - Amount in base units (a batch passes its total)
+   * @returns true if the amount reaches the asset's threshold
+   */
+  static requiresReauthentication(
+    token: Pick<TokenInfo, 'mint'> | undefined,
+    amount: bigint
+  ): boolean {
+    return requiresReauthentication(token, amount, settingsCache.sessionPolicy);
+  }
+
+  /**
+   * Ask for biometric or device passcode authentication before signing a
+   * transfer at or above its re-authentication threshold. Transfers below it
+   * pass without a prompt.
+   *
+   * A device without enrolled biometrics or passcode cannot confirm a
+   * high-value transfer: the transfer is blocked rather than let through.
+   * Signing screens check canUseAppLock() up front to explain why.
+   *
+   * @param token - SPL token, or undefined for native SOL
+   * @param amount - Amount in base units (a batch passes its total)
+   * @returns true if signing may continue
+   *
+   * @example
+   * if (!(await SecurityService.confirmHighValueTransfer(token, amount))) return;
+   */
+  static async confirmHighValueTransfer(
+    token: Pick<TokenInfo, 'mint'> | undefined,
+    amount: bigint
+  ): Promise<boolean> {
+    if (!this.requiresReauthentication(token, amount)) {
+      return true;
+    }
+    if (!(await this.canUseAppLock())) {
+      console.warn('[SecurityService] No local authentication enrolled, blocking transfer');
+      return false;
+    }
+    return this.promptLocalAuthentication('Confirm this transfer');
+  }
+
+  /**
+   * Check whether the app is locked.
+   *
+   * @returns true while the lock screen must be shown
+   */
+  static isLocked(): boolean {
+    return locked;
+  }
+
+  /**
+   * Track foreground/background changes for the auto-lock timeout.
+   * Called by AppLockGate on every AppState change.
+   *
+   * @param state - New AppState status
+   */
+  static handleAppStateChange(state: AppStateStatus): void {
+    if (state === 'background') {
+      backgroundedAt ??= Date.now();
+      return;
+    }
+    if (state !== 'active' || backgroundedAt === null) return;
+
+    const elapsed = Date.now() - backgroundedAt;
+    backgroundedAt = null;
+    if (settingsCache.appLockEnabled && elapsed >= settingsCache.autoLockAfterMs) {
+      if (__DEV__) {
+        console.log('[SecurityService] Locking after', Math.floor(elapsed / 1000), 's in background');
+      }
+      this.setLocked(true);
+    }
+  }
+
+  /**
+   * Subscribe to lock state changes.
+   *
+   * @param listener - Called with the new lock state after each change
+   * @returns Unsubscribe function
+   */
+  static subscribe(listener: (locked: boolean) => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Show the system biometric prompt, with the device passcode as fallback.
+   *
+   * @param promptMessage - Reason shown in the system prompt
+   * @returns true if the user authenticated
+   */
+  private static async promptLocalAuthentication(promptMessage: string): Promise<boolean> {
+    try {
+      const result = await LocalAuthentication.authenticateAsync({
+        promptMessage,
+        cancelLabel: 'Cancel',
+        disableDeviceFallback: false,
+      });
+      if (!result.success && __DEV__) {
+        console.log('[SecurityService] Authentication failed:', result.error);
+      }
+      return result.success;
+    } catch (error) {
+      console.error('[SecurityService] Authentication error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Update the lock state and notify subscribers if it changed.
+   */
+  private static setLocked(value: boolean): void {
+    if (locked === value) return;
+    locked = value;
+    listeners.forEach((listener) => listener(value));
+  }
+
+  /**
+   * Validate the shape of stored or submitted settings.
+   */
+  private static isValidSettings(value: unknown): value is SecuritySettings {
+    const settings = value as SecuritySettings | null;
+    const policy = settings?.sessionPolicy;
+    return (
+      typeof settings?.appLockEnabled === 'boolean' &&
+      typeof settings.autoLockAfterMs === 'number' &&
+      settings.autoLockAfterMs > 0 &&
+      typeof policy?.idleTimeoutMs === 'number' &&
+      policy.idleTimeoutMs > 0 &&
+      (policy.absoluteMaxAgeMs === null ||
+        (typeof policy.absoluteMaxAgeMs === 'number' && policy.absoluteMaxAgeMs > 0)) &&
+      typeof policy.reauthThresholds === 'object' &&
+      policy.reauthThresholds !== null &&
+      Object.values(policy.reauthThresholds).every(
+        (threshold) =>
+          typeof threshold === 'string' && /^\d+$/.test(threshold) && BigInt(threshold) > 0n
+      )
+    );
+  }
+}
@@ -1,24 +1,90 @@
 import {
+  ConfirmedSignatureInfo,
   Connection,
+  PACKET_DATA_SIZE,
   PublicKey,
+  SystemProgram,
   Transaction,
-  TransactionSignature,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
 } from '@solana/web3.js';
 import {
+  getAccount,
+  getAccountLenForMint,
   getAssociatedTokenAddress,
-  createTransferInstruction,
+  getMint,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  TokenAccountNotFoundError,
   TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
 } from '@solana/spl-token';
-import { TransactionRequest, TransactionStatus } from '../types';
-import { USDC_MINT_DEVNET, SOLANA_RPC_URL, SOLANA_EXPLORER_URL } from './constants';
+import {
+  NetworkId,
+  PaymentRequest,
+  PendingTransaction,
+  RecipientAccountStatus,
+  SimulationResult,
+  SOLTransferRequest,
+  SPLTransferRequest,
+  TokenInfo,
+  TransactionRequest,
+  TransactionStatus,
+  TransferHistoryEntry,
+  TransferHistoryPage,
+  WalletBalances,
+} from '../types';
+import {
+  extractMemo,
+  extractSolTransfers,
+  extractTokenTransfers,
+} from '../utils/TransactionParsingUtils';
+import { formatDecimalAmount } from '../utils/DecimalUtils';
+import { decodeSimulationError } from '../utils/SimulationUtils';
+import { Buffer } from 'buffer';
+import {
+  MEMO_PROGRAM_ID,
+  NATIVE_SOL,
+  NETWORK_PROFILES,
+  SOLANA_EXPLORER_URL,
+} from './constants';
+import { NetworkService } from './NetworkService';
+import { RecipientAccountMissingError, RentExemptMinimumError, WalletError } from './errors';
+
+/**
+ * One transaction of a packed batch payout.
+ */
+export interface BatchTransaction {
+  /** Unsigned transaction carrying the transfers */
+  transaction: Transaction;
+  /** Positions (in the batch) of the transfers in this transaction */
+  transferIndexes: number[];
+}
+
+/**
+ * Result of SolanaService.buildBatchTransfer().
+ */
+export interface BatchTransferPlan {
+  /** Transactions to sign, in batch order */
+  transactions: BatchTransaction[];
+  /** Transfers that cannot be sent (e.g. recipient account missing), by position */
+  skipped: { index: number; error: WalletError }[];
+}
 
 /**
  * SolanaService - Blockchain Interaction Service
  *
  * Encapsulates all Solana blockchain interactions including:
- * - RPC connection management
- * - USDC SPL Token transfer transaction building
- * - Transaction confirmation polling
+ * - RPC connection management (active network profile)
+ * - Wallet balance queries (SOL and USDC)
+ * - USDC transfer history (paged on-chain signatures)
+ * - Payment request verification (Solana Pay reference lookup)
+ * - SPL Token transfer transaction building (USDC, other SPL and Token-2022 tokens)
+ * - Native SOL transfer transaction building (System Program)
+ * - Batch payout packing (many transfers per transaction, within size limits)
+ * - Pre-flight transfer simulation (decoded program errors)
+ * - Transaction confirmation status (blockhash expiry aware)
  * - Account validation
  *
  * All methods are static since no instance state is required.
@@ -27,214 +93,991 @@ export class SolanaService {
   /**
    * Get configured Solana RPC connection.
    *
-   * Creates a Connection instance pointing to Solana Devnet RPC.
+   * Creates a Connection instance pointing to the active network profile's RPC,
+   * or to a given network's (e.g. the network a pending transaction was sent to).
    * Connection is used for all blockchain queries and transaction submissions.
    *
-   * @returns Connection instance configured with Devnet RPC URL
+   * @param networkId - Network to connect to (default: the active network)
+   * @returns Connection instance configured with the profile's RPC URL
    *
    * @example
    * const connection = SolanaService.getConnection();
    * const balance = await connection.getBalance(publicKey);
    */
-  static getConnection(): Connection {
-    return new Connection(SOLANA_RPC_URL, 'confirmed');
+  static getConnection(networkId?: NetworkId): Connection {
+    const profile = networkId ? NETWORK_PROFILES[networkId] : NetworkService.getActiveProfile();
+    return new Connection(profile.rpcUrl, 'confirmed');
   }
 
   /**
-   * Get USDC mint address for Solana Devnet.
+   * Get USDC mint address for the active network.
    *
-   * Returns the PublicKey of the Devnet USDC SPL Token mint.
+   * Returns the PublicKey of the USDC SPL Token mint from the active network profile.
    * This address is used to derive Associated Token Accounts for USDC.
    *
-   * @returns PublicKey of USDC mint on Devnet
+   * @returns PublicKey of USDC mint on the active network
    *
    * @example
    * const usdcMint = SolanaService.getUSDCMintAddress();
    * const tokenAccount = await getAssociatedTokenAddress(usdcMint, wallet);
    */
   static getUSDCMintAddress(): PublicKey {
-    return USDC_MINT_DEVNET;
+    return new PublicKey(NetworkService.getActiveProfile().usdcMint);
+  }
+
+  /**
+   * Get the token program ID that owns a token's mint.
+   *
+   * @param token - Token from the token registry
+   * @returns TOKEN_2022_PROGRAM_ID for Token-2022 mints, TOKEN_PROGRAM_ID otherwise
+   */
+  static getTokenProgramId(token: TokenInfo): PublicKey {
+    return token.tokenProgram === 'token-2022' ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+  }
+
+  /**
+   * Fetch SOL and USDC balances for a wallet.
+   *
+   * Reads native SOL lamports directly from the owner account and derives the
+   * owner's USDC Associated Token Account to read the token balance.
+   *
+   * SMART WALLET COMPATIBILITY: Uses allowOwnerOffCurve=true (same as buildTokenTransfer)
+   * because Lazorkit smart wallets are Program Derived Addresses.
+   *
+   * MISSING TOKEN ACCOUNT: A wallet that has never received USDC has no token account.
+   * This is not an error - the result has usdcAccountExists=false and zero USDC.
+   *
+   * @param owner - Wallet public key (supports both regular keypairs and PDAs)
+   * @returns Promise<WalletBalances> - SOL and USDC balances with token account details
+   * @throws Error if RPC request fails or network issues
+   *
+   * @example
+   * const balances = await SolanaService.getBalances(wallet.smartWalletPubkey);
+   * if (!balances.usdcAccountExists) {
+   *   console.log('No USDC account yet');
+   * }
+   */
+  static async getBalances(owner: PublicKey): Promise<WalletBalances> {
+    const connection = this.getConnection();
+    const usdcMint = this.getUSDCMintAddress();
+
+    // Derive USDC Associated Token Account (allowOwnerOffCurve for smart wallet PDAs)
+    const usdcTokenAccount = await getAssociatedTokenAddress(
+      usdcMint,
+      owner,
+      true // allowOwnerOffCurve - required for smart wallet PDAs
+    );
+
+    const solLamports = BigInt(await connection.getBalance(owner));
+
+    // Read USDC token account - missing account means the wallet never received USDC
+    let usdcLamports = 0n;
+    let usdcAccountExists = true;
+    try {
+      const tokenAccount = await getAccount(connection, usdcTokenAccount);
+      usdcLamports = tokenAccount.amount;
+    } catch (error) {
+      if (!(error instanceof TokenAccountNotFoundError)) {
+        throw error;
+      }
+      usdcAccountExists = false;
+    }
+
+    return {
+      solLamports: solLamports.toString(),
+      sol: formatDecimalAmount(solLamports, NATIVE_SOL.decimals),
+      usdcTokenAccount: usdcTokenAccount.toBase58(),
+      usdcAccountExists,
+      usdc: formatDecimalAmount(usdcLamports, 6), // USDC has 6 decimals
+      usdcLamports: usdcLamports.toString(),
+      fetchedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Fetch one page of USDC transfer history for a wallet.
+   *
+   * Pages getSignaturesForAddress on the wallet's USDC Associated Token Account
+   * (newest first), fetches the parsed transactions and decodes SPL Token
+   * transfer instructions into history entries.
+   *
+   * Signatures that touched the token account without a transfer (e.g. account
+   * creation) produce no entry, so a page may contain fewer entries than `limit`.
+   * Always continue paging with the returned `before` cursor.
+   *
+   * @param owner - Wallet public key (supports both regular keypairs and PDAs)
+   * @param options.before - Signature cursor from the previous page (omit for newest)
+   * @param options.limit - Maximum signatures to scan in this page (default: 20)
+   * @returns Promise<TransferHistoryPage> - Entries plus cursor for the next page
+   * @throws Error if RPC request fails or network issues
+   *
+   * @example
+   * const firstPage = await SolanaService.getTransferHistory(wallet.smartWalletPubkey);
+   * const nextPage = await SolanaService.getTransferHistory(wallet.smartWalletPubkey, {
+   *   before: firstPage.before,
+   * });
+   */
+  static async getTransferHistory(
+    owner: PublicKey,
+    options: { before?: string; limit?: number } = {}
+  ): Promise<TransferHistoryPage> {
+    const connection = this.getConnection();
+    const usdcMint = this.getUSDCMintAddress();
+    const limit = options.limit ?? 20;
+
+    // Derive USDC Associated Token Account (allowOwnerOffCurve for smart wallet PDAs)
+    const usdcTokenAccount = await getAssociatedTokenAddress(usdcMint, owner, true);
+
+    // Page signatures newest → oldest (empty if the token account was never created)
+    const signatures = await connection.getSignaturesForAddress(usdcTokenAccount, {
+      before: options.before,
+      limit,
+    });
+    if (signatures.length === 0) {
+      return { entries: [], hasMore: false };
+    }
+
+    // Smart wallet transactions are versioned (v0), so request them explicitly
+    const transactions = await connection.getParsedTransactions(
+      signatures.map((info) => info.signature),
+      { maxSupportedTransactionVersion: 0, commitment: 'confirmed' }
+    );
+
+    const entries: TransferHistoryEntry[] = [];
+    transactions.forEach((transaction, index) => {
+      if (!transaction) return;
+
+      const signatureInfo = signatures[index];
+      const transfers = extractTokenTransfers(
+        transaction,
+        usdcTokenAccount.toBase58(),
+        usdcMint.toBase58()
+      );
+
+      for (const transfer of transfers) {
+        entries.push({
+          signature: signatureInfo.signature,
+          status: transaction.meta?.err ? 'failed' : 'confirmed',
+          direction: transfer.direction,
+          counterparty: transfer.counterparty,
+          memo: extractMemo(transaction),
+          amount: formatDecimalAmount(transfer.amountLamports, 6), // USDC has 6 decimals
+          amountLamports: transfer.amountLamports,
+          timestamp: transaction.blockTime ? transaction.blockTime * 1000 : undefined,
+          slot: transaction.slot,
+          error: transaction.meta?.err
+            ? `Transaction failed: ${JSON.stringify(transaction.meta.err)}`
+            : undefined,
+          explorerUrl: this.getExplorerUrl(signatureInfo.signature),
+        });
+      }
+    });
+
+    return {
+      entries,
+      before: signatures[signatures.length - 1].signature,
+      hasMore: signatures.length === limit,
+    };
+  }
+
+  /**
+   * Build a Solana Explorer URL for a transaction on the active network, or on
+   * a given network.
+   *
+   * Appends the profile's explorer cluster parameter (omitted for mainnet-beta,
+   * which is the Explorer default).
+   *
+   * @param signature - Transaction signature
+   * @param networkId - Network the transaction was sent to (default: the active network)
+   * @returns Explorer URL for the transaction
+   *
+   * @example
+   * SolanaService.getExplorerUrl(signature)
+   * // Returns: "https://explorer.solana.com/tx/5VERv8...?cluster=devnet"
+   */
+  static getExplorerUrl(signature: string, networkId?: NetworkId): string {
+    const { explorerCluster } = networkId
+      ? NETWORK_PROFILES[networkId]
+      : NetworkService.getActiveProfile();
+    const query = explorerCluster ? `?cluster=${explorerCluster}` : '';
+    return `${SOLANA_EXPLORER_URL}/tx/${signature}${query}`;
   }
 
   /**
-   * Build a USDC SPL Token transfer transaction.
+   * Find a verified payment for a Solana Pay payment request.
+   *
+   * Looks up transactions that include the request's reference key
+   * (getSignaturesForAddress(reference), paged back to the request's createdAt,
+   * oldest first) and accepts the first successful one that actually paid the request:
+   * - SPL token: transfer into our Associated Token Account for the requested mint
+   *   (the ATA only holds that mint, and transferChecked mints must match)
+   * - SOL: System Program transfer into our wallet address
+   * - If the request has an amount, the transferred amount must match exactly
    *
-   * Constructs a Solana transaction with a transfer instruction to move USDC
-   * from the sender's token account to the recipient's token account.
+   * A transaction that merely references the key without paying is ignored.
    *
-   * CRITICAL: This method validates that the recipient's USDC token account exists.
+   * @param request - Pending payment request
+   * @returns Signature and received amount (base units, decimal string), or null if not paid yet
+   * @throws Error if RPC request fails or network issues
+   */
+  static async findReferencePayment(
+    request: PaymentRequest
+  ): Promise<{ signature: string; amountLamports: string } | null> {
+    const connection = this.getConnection();
+    const recipient = new PublicKey(request.recipient);
+    const reference = new PublicKey(request.reference);
+    const limit = 20;
+
+    // Page newest → oldest until the request was created (nothing older can pay it)
+    const signatures: ConfirmedSignatureInfo[] = [];
+    let before: string | undefined;
+    let hasMore = true;
+    while (hasMore) {
+      const page = await connection.getSignaturesForAddress(
+        reference,
+        { before, limit },
+        'confirmed'
+      );
+      signatures.push(...page);
+
+      const oldest = page[page.length - 1];
+      hasMore =
+        page.length === limit &&
+        (!oldest.blockTime || oldest.blockTime * 1000 >= request.createdAt);
+      before = oldest?.signature;
+    }
+    // Failed transactions never paid; check the earliest payment first
+    const candidates = signatures.filter((info) => info.err === null).reverse();
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const transactions = await connection.getParsedTransactions(
+      candidates.map((info) => info.signature),
+      { maxSupportedTransactionVersion: 0, commitment: 'confirmed' }
+    );
+
+    const tokenAccount =
+      request.asset === 'spl-token' && request.token
+        ? await getAssociatedTokenAddress(
+            new PublicKey(request.token.mint),
+            recipient,
+            true, // allowOwnerOffCurve - our wallet is a smart wallet PDA
+            this.getTokenProgramId(request.token)
+          )
+        : null;
+
+    for (let index = 0; index < transactions.length; index++) {
+      const transaction = transactions[index];
+      if (!transaction || transaction.meta?.err) continue;
+
+      const received = tokenAccount
+        ? extractTokenTransfers(transaction, tokenAccount.toBase58(), request.token!.mint)
+            .filter((transfer) => transfer.direction === 'received')
+            .map((transfer) => transfer.amountLamports)
+        : extractSolTransfers(transaction, request.recipient)
+            .filter((transfer) => transfer.direction === 'received')
+            .map((transfer) => transfer.lamports);
+
+      const match = received.find((amount) =>
+        request.amountLamports !== undefined
+          ? BigInt(amount) === BigInt(request.amountLamports)
+          : BigInt(amount) > 0n
+      );
+      if (match !== undefined) {
+        return { signature: candidates[index].signature, amountLamports: match };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Check whether a recipient's token account exists and what creating it costs.
+   *
+   * Used by the Confirm screen to show "this will create their USDC account (rent: X SOL)"
+   * when TransactionRequest.createRecipientAccount is enabled.
+   *
+   * Token-2022 accounts can be larger than classic token accounts (mint extensions
+   * add account extensions), so rent is computed from the mint's account length.
+   *
+   * @param recipientAddress - Recipient wallet address (base58, supports PDAs)
+   * @param token - Token being transferred
+   * @returns Promise<RecipientAccountStatus> - Token account address, existence and rent
+   * @throws Error if RPC request fails or network issues
+   *
+   * @example
+   * const status = await SolanaService.getRecipientAccountStatus(request.recipientAddress, request.token);
+   * if (!status.exists) {
+   *   console.log('Rent:', formatSOL(BigInt(status.rentLamports)));
+   * }
+   */
+  static async getRecipientAccountStatus(
+    recipientAddress: string,
+    token: TokenInfo
+  ): Promise<RecipientAccountStatus> {
+    const connection = this.getConnection();
+    const mint = new PublicKey(token.mint);
+    const programId = this.getTokenProgramId(token);
+    const tokenAccount = await getAssociatedTokenAddress(
+      mint,
+      new PublicKey(recipientAddress),
+      true, // allowOwnerOffCurve - recipient may also use smart wallet
+      programId
+    );
+
+    const [accountInfo, mintInfo] = await Promise.all([
+      connection.getAccountInfo(tokenAccount),
+      getMint(connection, mint, undefined, programId),
+    ]);
+    const rentLamports = await connection.getMinimumBalanceForRentExemption(
+      getAccountLenForMint(mintInfo)
+    );
+
+    return {
+      tokenAccount: tokenAccount.toBase58(),
+      exists: accountInfo !== null,
+      rentLamports,
+    };
+  }
+
+  /**
+   * Create an SPL Memo instruction.
+   *
+   * The memo text is stored as UTF-8 instruction data. No signer accounts are
+   * attached because the smart wallet PDA only signs through CPI.
+   *
+   * @param memo - Memo text (validate length with isValidMemo() first)
+   * @returns TransactionInstruction for the SPL Memo program
+   */
+  static createMemoInstruction(memo: string): TransactionInstruction {
+    return new TransactionInstruction({
+      programId: MEMO_PROGRAM_ID,
+      keys: [],
+      data: Buffer.from(memo, 'utf8'),
+    });
+  }
+
+  /**
+   * Append Solana Pay reference keys to an instruction as read-only, non-signer accounts.
+   *
+   * @param instruction - Transfer instruction to extend (mutated)
+   * @param references - Reference keys (base58), if any
+   */
+  private static addReferenceKeys(
+    instruction: TransactionInstruction,
+    references: string[] | undefined
+  ): void {
+    for (const reference of references ?? []) {
+      instruction.keys.push({
+        pubkey: new PublicKey(reference),
+        isSigner: false,
+        isWritable: false,
+      });
+    }
+  }
+
+  /**
+   * Build an SPL Token transfer transaction for the token in the request.
+   *
+   * Constructs a Solana transaction with a transferChecked instruction to move
+   * request.token (USDC by default) from the sender's token account to the
+   * recipient's token account. transferChecked validates mint and decimals
+   * on-chain and is required by Token-2022 mints.
+   *
+   * CRITICAL: This method validates that the recipient's token account exists.
    * If the account is not initialized, it throws an error. The paymaster will NOT
    * initialize token accounts, so this validation prevents failed transactions.
    *
+   * OPT-IN ACCOUNT CREATION: When request.createRecipientAccount is true, a missing
+   * recipient token account is created in the same transaction with an idempotent
+   * Associated Token Account instruction. The smart wallet is the rent payer, so the
+   * paymaster must agree to sponsor the rent (or the wallet must hold enough SOL).
+   *
+   * MEMO: When request.memo is set, an SPL Memo instruction carrying the UTF-8 text
+   * is placed immediately before the transfer (Solana Pay convention), so payment
+   * references are recorded on-chain and shown in parsed history.
+   *
+   * REFERENCES: Solana Pay reference keys (request.references) are appended to the
+   * transfer instruction as read-only, non-signer accounts. Token programs ignore
+   * extra accounts, and the merchant finds the payment with
+   * getSignaturesForAddress(reference).
+   *
    * SMART WALLET COMPATIBILITY: Uses allowOwnerOffCurve=true for getAssociatedTokenAddress
    * to support Lazorkit smart wallets which use Program Derived Addresses (PDAs).
    * PDAs are intentionally off-curve and will throw TokenOwnerOffCurveError without this flag.
    *
    * Transaction Flow:
-   * 1. Parse recipient address as PublicKey
-   * 2. Derive sender's Associated Token Account for USDC (with PDA support)
-   * 3. Derive recipient's Associated Token Account for USDC (with PDA support)
-   * 4. Validate recipient token account exists on-chain
-   * 5. Create transfer instruction (sender → recipient, specified amount)
-   * 6. Build transaction with instruction
-   * 7. Set fee payer (will be overridden by paymaster)
-   * 8. Fetch and set recent blockhash (required for transaction validity)
-   *
-   * @param request - Transaction request with recipient address and amount
+   * 1. Parse recipient address and token mint as PublicKeys
+   * 2. Derive sender's Associated Token Account for the token (with PDA support)
+   * 3. Derive recipient's Associated Token Account for the token (with PDA support)
+   * 4. Validate recipient token account exists on-chain (or add create instruction if opted in)
+   * 5. Add memo instruction if request.memo is set
+   * 6. Create transferChecked instruction (sender → recipient, specified amount)
+   * 7. Build transaction with instructions
+   * 8. Set fee payer (will be overridden by paymaster)
+   * 9. Fetch and set recent blockhash (required for transaction validity)
+   *
+   * @param request - Transaction request with token, recipient address and amount
    * @param senderPublicKey - Sender's wallet public key (supports both regular keypairs and PDAs)
    * @returns Promise<Transaction> - Unsigned transaction ready for signing
-   * @throws Error if recipient token account is not initialized
+   * @throws RecipientAccountMissingError if recipient token account is not initialized and createRecipientAccount is not set
    * @throws Error if RPC request fails or network issues
    *
    * @example
-   * const request: TransactionRequest = {
+   * const request: SPLTransferRequest = {
+   *   asset: 'spl-token',
    *   recipientAddress: '3jeq5nuZ3a89zpmDCvvMfxs3YJYG1jFtonrgkjyHrdu',
-   *   amount: 10.5,
-   *   amountLamports: 10500000,
+   *   token: NetworkService.getTokens()[0], // USDC
+   *   amount: '10.5',
+   *   amountLamports: '10500000',
    *   timestamp: Date.now(),
    * };
-   * const transaction = await SolanaService.buildUSDCTransfer(
+   * const transaction = await SolanaService.buildTokenTransfer(
    *   request,
    *   wallet.smartWalletPubkey
    * );
    */
-  static async buildUSDCTransfer(
-    request: TransactionRequest,
+  static async buildTokenTransfer(
+    request: SPLTransferRequest,
     senderPublicKey: PublicKey
   ): Promise<Transaction> {
+    const instructions = await this.createTokenTransferInstructions(request, senderPublicKey);
+    return this.createTransaction(instructions, senderPublicKey);
+  }
+
+  /**
+   * Instructions of an SPL token transfer: optional account creation, memo, transferChecked.
+   * See buildTokenTransfer() for the checks performed.
+   */
+  private static async createTokenTransferInstructions(
+    request: SPLTransferRequest,
+    senderPublicKey: PublicKey
+  ): Promise<TransactionInstruction[]> {
     const connection = this.getConnection();
-    const usdcMint = this.getUSDCMintAddress();
+    const { token } = request;
+    const mint = new PublicKey(token.mint);
+    const programId = this.getTokenProgramId(token);
 
     // Parse recipient address string to PublicKey
     const recipientPublicKey = new PublicKey(request.recipientAddress);
 
-    // Derive Associated Token Accounts for USDC
-    // These are deterministic addresses based on wallet + mint
+    // Derive Associated Token Accounts for the token
+    // These are deterministic addresses based on wallet + mint + token program
     // CRITICAL: Set allowOwnerOffCurve=true for smart wallet (PDA) compatibility
     // Lazorkit smart wallets use Program Derived Addresses which are intentionally off-curve
     const senderTokenAccount = await getAssociatedTokenAddress(
-      usdcMint,
+      mint,
       senderPublicKey,
-      true // allowOwnerOffCurve - required for smart wallet PDAs
+      true, // allowOwnerOffCurve - required for smart wallet PDAs
+      programId
     );
 
     const recipientTokenAccount = await getAssociatedTokenAddress(
-      usdcMint,
+      mint,
       recipientPublicKey,
-      true // allowOwnerOffCurve - recipient may also use smart wallet
+      true, // allowOwnerOffCurve - recipient may also use smart wallet
+      programId
     );
 
-    // Verify recipient has initialized USDC token account (paymaster won't initialize)
+    // Verify recipient has initialized token account (paymaster won't initialize)
     const recipientAccountInfo = await connection.getAccountInfo(
       recipientTokenAccount
     );
 
-    if (recipientAccountInfo === null) {
-      throw new Error(
-        'Recipient USDC token account not initialized. They must receive USDC at least once before you can send to them.'
+    const instructions: TransactionInstruction[] = [];
+
+    if (recipientAccountInfo === null && request.createRecipientAccount) {
+      // Create recipient token account first (idempotent: no-op if created meanwhile)
+      // Smart wallet is the rent payer - paymaster must agree to sponsor it
+      instructions.push(
+        createAssociatedTokenAccountIdempotentInstruction(
+          senderPublicKey, // Rent payer
+          recipientTokenAccount, // Associated token account to create
+          recipientPublicKey, // Owner of the new token account
+          mint, // Token mint
+          programId // Token program (classic or Token-2022)
+        )
+      );
+    } else if (recipientAccountInfo === null) {
+      throw new RecipientAccountMissingError(
+        `Recipient ${token.symbol} token account not initialized. They must receive ${token.symbol} at least once before you can send to them.`
       );
     }
 
-    // Create SPL Token transfer instruction
-    // This moves USDC from sender's token account to recipient's token account
-    const transferInstruction = createTransferInstruction(
+    // Attach memo right before the transfer so it is recorded on-chain with the payment
+    if (request.memo) {
+      instructions.push(this.createMemoInstruction(request.memo));
+    }
+
+    // Create SPL Token transferChecked instruction
+    // This moves tokens from sender's token account to recipient's token account
+    const transferInstruction = createTransferCheckedInstruction(
       senderTokenAccount, // Source token account
+      mint, // Token mint (checked on-chain)
       recipientTokenAccount, // Destination token account
       senderPublicKey, // Owner of source account
-      request.amountLamports, // Amount in lamports (USDC has 6 decimals)
+      BigInt(request.amountLamports), // Amount in smallest units (exact, no float)
+      token.decimals, // Token decimals (checked on-chain)
       [], // No multi-signers
-      TOKEN_PROGRAM_ID // SPL Token program
+      programId // SPL Token or Token-2022 program
     );
 
-    // Build transaction with transfer instruction
-    const transaction = new Transaction().add(transferInstruction);
+    // Solana Pay references ride on the transfer instruction as read-only keys
+    this.addReferenceKeys(transferInstruction, request.references);
+
+    // Add transfer instruction (after optional account creation and memo)
+    instructions.push(transferInstruction);
+
+    return instructions;
+  }
+
+  /**
+   * Build a native SOL transfer transaction.
+   *
+   * Constructs a Solana transaction with a System Program transfer instruction
+   * moving request.amountLamports lamports from the smart wallet PDA to the
+   * recipient. The Lazorkit program signs for the PDA through CPI, the same way
+   * it signs for the token account owner in buildTokenTransfer().
+   *
+   * RENT: A System Program transfer cannot create an account holding less than the
+   * rent-exempt minimum (0-byte account, ~0.00089 SOL). If the recipient account does
+   * not exist yet and the amount is below that minimum, this method throws instead of
+   * building a transaction that would fail on-chain.
+   *
+   * MEMO: When request.memo is set, an SPL Memo instruction is placed immediately
+   * before the transfer (same as buildTokenTransfer()).
+   *
+   * REFERENCES: Solana Pay reference keys are appended to the transfer instruction
+   * (same as buildTokenTransfer()).
+   *
+   * @param request - SOL transaction request with recipient address and amount in lamports
+   * @param senderPublicKey - Sender's smart wallet public key (PDA)
+   * @returns Promise<Transaction> - Unsigned transaction ready for signing
+   * @throws RentExemptMinimumError if the amount is below the rent-exempt minimum for a new recipient account
+   * @throws Error if RPC request fails or network issues
+   *
+   * @example
+   * const transaction = await SolanaService.buildSOLTransfer(
+   *   {
+   *     asset: 'sol',
+   *     recipientAddress: '3jeq5nuZ3a89zpmDCvvMfxs3YJYG1jFtonrgkjyHrdu',
+   *     amount: '0.25',
+   *     amountLamports: '250000000',
+   *     timestamp: Date.now(),
+   *   },
+   *   wallet.smartWalletPubkey
+   * );
+   */
+  static async buildSOLTransfer(
+    request: SOLTransferRequest,
+    senderPublicKey: PublicKey
+  ): Promise<Transaction> {
+    const instructions = await this.createSOLTransferInstructions(request, senderPublicKey);
+    return this.createTransaction(instructions, senderPublicKey);
+  }
+
+  /**
+   * Instructions of a native SOL transfer: memo, System Program transfer.
+   * See buildSOLTransfer() for the rent check performed.
+   */
+  private static async createSOLTransferInstructions(
+    request: SOLTransferRequest,
+    senderPublicKey: PublicKey
+  ): Promise<TransactionInstruction[]> {
+    const connection = this.getConnection();
+    const recipientPublicKey = new PublicKey(request.recipientAddress);
+
+    // A new (empty) system account must receive at least the rent-exempt minimum
+    const recipientAccountInfo = await connection.getAccountInfo(recipientPublicKey);
+    if (recipientAccountInfo === null) {
+      const minimumLamports = await connection.getMinimumBalanceForRentExemption(0);
+      if (BigInt(request.amountLamports) < BigInt(minimumLamports)) {
+        throw new RentExemptMinimumError(
+          `Amount below rent-exempt minimum. Send at least ${formatDecimalAmount(
+            BigInt(minimumLamports),
+            NATIVE_SOL.decimals
+          )} SOL to a new account.`
+        );
+      }
+    }
+
+    const instructions: TransactionInstruction[] = [];
+
+    // Attach memo right before the transfer so it is recorded on-chain with the payment
+    if (request.memo) {
+      instructions.push(this.createMemoInstruction(request.memo));
+    }
+
+    // System Program transfer from the smart wallet PDA to the recipient
+    const transferInstruction = SystemProgram.transfer({
+      fromPubkey: senderPublicKey, // Smart wallet PDA (signs via CPI)
+      toPubkey: recipientPublicKey,
+      lamports: BigInt(request.amountLamports),
+    });
+
+    // Solana Pay references ride on the transfer instruction as read-only keys
+    this.addReferenceKeys(transferInstruction, request.references);
+    instructions.push(transferInstruction);
+
+    return instructions;
+  }
+
+  /**
+   * Wrap instructions in a transaction with the sender as fee payer and a recent blockhash.
+   */
+  private static async createTransaction(
+    instructions: TransactionInstruction[],
+    senderPublicKey: PublicKey,
+    blockhash?: string
+  ): Promise<Transaction> {
+    const transaction = new Transaction().add(...instructions);
 
     // Set fee payer (required, but will be overridden by paymaster)
     transaction.feePayer = senderPublicKey;
 
-    // Fetch recent blockhash (required for transaction validity)
+    // Recent blockhash (required for transaction validity)
     // Blockhash acts as a timestamp and prevents transaction replay
-    const { blockhash } = await connection.getLatestBlockhash();
-    transaction.recentBlockhash = blockhash;
+    transaction.recentBlockhash =
+      blockhash ?? (await this.getConnection().getLatestBlockhash()).blockhash;
 
     return transaction;
   }
 
   /**
-   * Confirm a submitted transaction and poll for finality.
+   * Serialized size (bytes) of the transaction the Lazorkit SDK sends the
+   * instructions in.
+   *
+   * signAndSendTransaction() first sends the passkey signature with a hash of
+   * the instructions (a fixed size), then an execute_chunk transaction paid by
+   * the paymaster that carries the instructions themselves. Its one instruction
+   * takes the payer, smart wallet, wallet state, chunk, rent refund and System
+   * Program accounts followed by each instruction's program and accounts, and
+   * as data the instruction data list plus the account split indexes.
+   *
+   * The accounts the SDK reads from chain are replaced by placeholders; the
+   * size only depends on how many distinct accounts there are.
+   */
+  private static executeChunkTransactionSize(
+    instructions: TransactionInstruction[],
+    senderPublicKey: PublicKey,
+    blockhash: string
+  ): number {
+    const [payer, walletState, chunk, rentRefund, lazorkitProgram] = Array.from(
+      { length: 5 },
+      () => PublicKey.unique()
+    );
+    const dataLength =
+      8 + // discriminator
+      4 + // instruction data list length
+      instructions.reduce((sum, instruction) => sum + 4 + instruction.data.length, 0) +
+      4 + // split indexes length
+      (instructions.length - 1);
+
+    const executeChunk = new TransactionInstruction({
+      programId: lazorkitProgram,
+      keys: [
+        { pubkey: payer, isSigner: true, isWritable: true },
+        { pubkey: senderPublicKey, isSigner: false, isWritable: true },
+        { pubkey: walletState, isSigner: false, isWritable: true },
+        { pubkey: chunk, isSigner: false, isWritable: true },
+        { pubkey: rentRefund, isSigner: false, isWritable: true },
+        { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+        ...instructions.flatMap((instruction) => [
+          { pubkey: instruction.programId, isSigner: false, isWritable: false },
+          ...instruction.keys.map((key) => ({ ...key, isSigner: false })),
+        ]),
+      ],
+      data: Buffer.alloc(dataLength),
+    });
+
+    const message = new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash: blockhash,
+      instructions: [executeChunk],
+    }).compileToLegacyMessage();
+    // Signature count (one byte below 128) and the paymaster's signature
+    return 1 + 64 * message.header.numRequiredSignatures + message.serialize().length;
+  }
+
+  /**
+   * Build the transfer transaction for any TransactionRequest.
+   * Dispatches on request.asset to buildSOLTransfer() or buildTokenTransfer().
+   *
+   * @param request - SOL or SPL token transaction request
+   * @param senderPublicKey - Sender's smart wallet public key (PDA)
+   * @returns Promise<Transaction> - Unsigned transaction ready for signing
+   * @throws Error from the asset-specific builder
+   */
+  static async buildTransfer(
+    request: TransactionRequest,
+    senderPublicKey: PublicKey
+  ): Promise<Transaction> {
+    return request.asset === 'sol'
+      ? this.buildSOLTransfer(request, senderPublicKey)
+      : this.buildTokenTransfer(request, senderPublicKey);
+  }
+
+  /**
+   * Build a batch payout: pack many transfers into as few transactions as fit.
    *
-   * After a transaction is submitted to the blockchain, this method polls
-   * the RPC node to wait for confirmation. Uses 'confirmed' commitment level
-   * which requires 32 confirmations (~15-20 seconds on Solana).
+   * The instructions of each transfer (account creation, memo, transfer) are
+   * built as in buildTransfer() and kept together. Transfers are added to the
+   * current transaction in order while the transaction the Lazorkit SDK sends
+   * them in still fits the packet size limit (see executeChunkTransactionSize()),
+   * then a new transaction is started. A transfer too large on its own still
+   * gets a transaction of its own.
    *
-   * Returns a TransactionStatus object with signature, status, timestamps,
-   * and Solana Explorer URL for viewing transaction details.
+   * A batch pays out a single asset, so its total and re-authentication
+   * threshold are those of that asset.
    *
-   * Commitment Levels:
-   * - 'processed': Transaction included in block (instant, not final)
-   * - 'confirmed': 32 confirmations (~15-20 seconds) ← We use this
-   * - 'finalized': Maximum confirmations (~30+ seconds, highest finality)
+   * Transfers that fail their pre-checks (RecipientAccountMissingError,
+   * RentExemptMinimumError) are returned in `skipped` instead of failing the batch.
    *
-   * @param signature - Transaction signature returned from signAndSendTransaction()
-   * @returns Promise<TransactionStatus> - Status object with confirmation details
-   * @throws Error if confirmation times out or RPC fails
+   * @param requests - Transfers of the batch, all of SOL or all of the same token
+   * @param senderPublicKey - Sender's smart wallet public key (PDA)
+   * @returns Promise<BatchTransferPlan> - Packed transactions and skipped transfers
+   * @throws Error if the transfers are of different assets
+   * @throws Error if RPC requests fail
    *
    * @example
-   * const signature = await wallet.signAndSendTransaction(transaction);
-   * const status = await SolanaService.confirmTransaction(signature);
-   * if (status.status === 'confirmed') {
-   *   console.log('Transaction confirmed!', status.explorerUrl);
+   * const plan = await SolanaService.buildBatchTransfer(requests, wallet.smartWalletPubkey);
+   * // plan.transactions.length === number of passkey prompts needed
+   */
+  static async buildBatchTransfer(
+    requests: TransactionRequest[],
+    senderPublicKey: PublicKey
+  ): Promise<BatchTransferPlan> {
+    const assetKey = (request: TransactionRequest) =>
+      request.asset === 'sol' ? 'sol' : request.token.mint;
+    if (new Set(requests.map(assetKey)).size > 1) {
+      throw new Error('A batch pays out a single asset. Send each asset in its own batch.');
+    }
+
+    const { blockhash } = await this.getConnection().getLatestBlockhash();
+
+    const skipped: BatchTransferPlan['skipped'] = [];
+    const groups: { instructions: TransactionInstruction[]; transferIndexes: number[] }[] = [];
+    let current: (typeof groups)[number] | null = null;
+
+    for (const [index, request] of requests.entries()) {
+      let instructions: TransactionInstruction[];
+      try {
+        instructions =
+          request.asset === 'sol'
+            ? await this.createSOLTransferInstructions(request, senderPublicKey)
+            : await this.createTokenTransferInstructions(request, senderPublicKey);
+      } catch (error) {
+        if (error instanceof WalletError) {
+          skipped.push({ index, error });
+          continue;
+        }
+        throw error;
+      }
+
+      if (
+        current &&
+        this.executeChunkTransactionSize(
+          [...current.instructions, ...instructions],
+          senderPublicKey,
+          blockhash
+        ) <= PACKET_DATA_SIZE
+      ) {
+        current.instructions.push(...instructions);
+        current.transferIndexes.push(index);
+      } else {
+        current = { instructions, transferIndexes: [index] };
+        groups.push(current);
+      }
+    }
+
+    const transactions: BatchTransaction[] = [];
+    for (const group of groups) {
+      transactions.push({
+        transaction: await this.createTransaction(group.instructions, senderPublicKey, blockhash),
+        transferIndexes: group.transferIndexes,
+      });
+    }
+
+    if (__DEV__) {
+      console.log(
+        '[SolanaService] Batch packed:',
+        requests.length,
+        'transfers into',
+        transactions.length,
+        'transactions'
+      );
+    }
+    return { transactions, skipped };
+  }
+
+  /**
+   * Simulate a built transfer before asking the user to sign it.
+   *
+   * Runs simulateTransaction() on the transaction's instructions with signature
+   * verification off and the latest blockhash, then decodes any SPL Token,
+   * System Program or Associated Token Account error (see decodeSimulationError()).
+   *
+   * The instructions are simulated as built, without the Lazorkit smart wallet
+   * program and paymaster that wrap them when sent. Errors that only come from
+   * that difference (fee payer, PDA signer checks) are reported as 'inconclusive',
+   * as are RPC failures, so they do not block signing.
+   *
+   * @param transaction - Transaction from buildTransfer()
+   * @param request - The transfer request (used for the asset symbol in reasons)
+   * @returns Promise<SimulationResult> - 'ok', 'failed' with a reason, or 'inconclusive'
+   *
+   * @example
+   * const transaction = await SolanaService.buildTransfer(request, wallet.smartWalletPubkey);
+   * const simulation = await SolanaService.simulateTransfer(transaction, request);
+   * if (simulation.status === 'failed') {
+   *   setError(simulation.reason); // e.g. "Insufficient USDC balance for this transfer"
    * }
    */
-  static async confirmTransaction(
-    signature: TransactionSignature
-  ): Promise<TransactionStatus> {
+  static async simulateTransfer(
+    transaction: Transaction,
+    request: TransactionRequest
+  ): Promise<SimulationResult> {
     const connection = this.getConnection();
-    const submittedAt = Date.now();
+    const symbol = request.asset === 'sol' ? 'SOL' : request.token.symbol;
 
+    const message = new TransactionMessage({
+      payerKey: transaction.feePayer!,
+      recentBlockhash: transaction.recentBlockhash!,
+      instructions: transaction.instructions,
+    }).compileToLegacyMessage();
+
+    let value;
     try {
-      // Poll for transaction confirmation with 'confirmed' commitment level
-      // This method waits until the transaction reaches 32 confirmations
-      const confirmation = await connection.confirmTransaction(
-        signature,
-        'confirmed'
-      );
+      ({ value } = await connection.simulateTransaction(new VersionedTransaction(message), {
+        sigVerify: false, // Smart wallet signs later, after this check
+        replaceRecentBlockhash: true,
+        commitment: 'confirmed',
+      }));
+    } catch (error: any) {
+      if (__DEV__) {
+        console.warn('[SolanaService] Transfer simulation unavailable:', error);
+      }
+      return {
+        status: 'inconclusive',
+        reason: 'Transfer could not be checked before signing',
+        logs: [],
+      };
+    }
+
+    const logs = value.logs ?? [];
+    if (value.err === null) {
+      return { status: 'ok', logs, unitsConsumed: value.unitsConsumed };
+    }
+
+    const decoded = decodeSimulationError(
+      value.err,
+      transaction.instructions.map((instruction) => instruction.programId.toBase58()),
+      logs,
+      symbol
+    );
+    if (__DEV__) {
+      console.log('[SolanaService] Transfer simulation error:', value.err, decoded.reason);
+    }
+
+    return {
+      status: decoded.blocking ? 'failed' : 'inconclusive',
+      reason: decoded.reason,
+      instructionIndex: decoded.instructionIndex,
+      program: decoded.program,
+      errorCode: decoded.errorCode,
+      code: decoded.blocking ? decoded.code : undefined,
+      logs,
+      unitsConsumed: value.unitsConsumed,
+    };
+  }
+
+  /**
+   * Check the confirmation status of a submitted transaction once.
+   *
+   * Uses the blockhash expiry strategy: the block height is read first, then
+   * the signature status. If the signature is still unknown and the block height
+   * had already passed pending.lastValidBlockHeight, the transaction can never
+   * land and is reported as 'expired' (distinct from 'failed', which means it
+   * landed and an instruction failed). Reading the block height first means a
+   * transaction that landed just before expiry is always seen. Without a known
+   * expiry height the transaction stays 'pending' until it lands.
+   *
+   * Commitment Levels (reported in status):
+   * - 'processed': Included in a block, may be rolled back
+   * - 'confirmed': Supermajority vote (~1-2 seconds after processed)
+   * - 'finalized': Rooted, 31+ blocks on top (~13 seconds)
+   *
+   * ConfirmationService calls this in a loop to report progress. The status is
+   * read from the network the transaction was sent to, whichever is active.
+   *
+   * @param pending - Submitted transaction with its network and blockhash expiry height
+   * @returns Promise<TransactionStatus> - Current status with the RPC's confirmation count
+   * @throws Error if RPC requests fail (callers retry on the next poll)
+   *
+   * @example
+   * const status = await SolanaService.getConfirmationStatus(pending);
+   * if (status.status === 'expired') {
+   *   // Never landed - safe to build and send the transfer again
+   * }
+   */
+  static async getConfirmationStatus(
+    pending: PendingTransaction
+  ): Promise<TransactionStatus> {
+    const { signature, networkId, submittedAt } = pending;
+    const connection = this.getConnection(networkId);
+    const explorerUrl = this.getExplorerUrl(signature, networkId);
 
-      const confirmedAt = Date.now();
+    const { lastValidBlockHeight } = pending;
+    const pastExpiry =
+      lastValidBlockHeight !== undefined &&
+      (await connection.getBlockHeight('confirmed')) > lastValidBlockHeight;
+    const {
+      value: [signatureStatus],
+    } = await connection.getSignatureStatuses([signature], {
+      searchTransactionHistory: true,
+    });
 
-      // Check if transaction succeeded or failed on-chain
-      if (confirmation.value.err) {
-        // Transaction was confirmed but failed execution
+    if (!signatureStatus) {
+      if (pastExpiry) {
         return {
           signature,
-          status: 'failed',
-          confirmations: 32,
-          error: `Transaction failed: ${JSON.stringify(confirmation.value.err)}`,
-          explorerUrl: `${SOLANA_EXPLORER_URL}/tx/${signature}?cluster=devnet`,
+          status: 'expired',
+          confirmations: 0,
+          error: 'The transaction expired before it was processed. No funds were moved.',
+          errorCode: 'BLOCKHASH_EXPIRED',
+          explorerUrl,
           submittedAt,
-          confirmedAt,
         };
       }
+      return { signature, status: 'pending', confirmations: 0, explorerUrl, submittedAt };
+    }
 
-      // Transaction succeeded
-      return {
-        signature,
-        status: 'confirmed',
-        confirmations: 32,
-        explorerUrl: `${SOLANA_EXPLORER_URL}/tx/${signature}?cluster=devnet`,
-        submittedAt,
-        confirmedAt,
-      };
-    } catch (error: any) {
-      // Confirmation timeout or RPC error
+    if (signatureStatus.err) {
+      // Landed, but an instruction failed on-chain
       return {
         signature,
         status: 'failed',
-        confirmations: 0,
-        error: error.message || 'Transaction confirmation failed',
-        explorerUrl: `${SOLANA_EXPLORER_URL}/tx/${signature}?cluster=devnet`,
+        confirmations: signatureStatus.confirmations,
+        slot: signatureStatus.slot,
+        error: `Transaction failed: ${JSON.stringify(signatureStatus.err)}`,
+        errorCode: 'PROGRAM_ERROR',
+        explorerUrl,
         submittedAt,
       };
     }
+
+    const status = signatureStatus.confirmationStatus ?? 'processed';
+    const now = Date.now();
+    return {
+      signature,
+      status,
+      confirmations: signatureStatus.confirmations,
+      slot: signatureStatus.slot,
+      explorerUrl,
+      submittedAt,
+      confirmedAt: status === 'processed' ? undefined : now,
+      finalizedAt: status === 'finalized' ? now : undefined,
+    };
   }
 }
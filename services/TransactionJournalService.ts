@@ -0,0 +1,420 @@
+import * as SecureStore from 'expo-secure-store';
+import type {
+  PendingTransaction,
+  TransactionJournalEntry,
+  TransactionJournalQuery,
+  TransactionRequest,
+  TransactionStatus,
+} from '../types';
+import { getJournalEntryTime } from '../utils/StatementUtils';
+import { JOURNAL_IDS_CHUNK_SIZE, MAX_UNSUBMITTED_JOURNAL_ENTRIES } from './constants';
+import type { WalletError } from './errors';
+import { NetworkService } from './NetworkService';
+import { SolanaService } from './SolanaService';
+import { WalletService } from './WalletService';
+
+/**
+ * SecureStore key for the list of journal entry identifiers (oldest first),
+ * scoped to the active wallet (see WalletService.getStorageKey()).
+ *
+ * The list is stored in chunks of JOURNAL_IDS_CHUNK_SIZE ids: the first under
+ * JOURNAL_IDS, the next under JOURNAL_IDS_1, JOURNAL_IDS_2, ...
+ */
+const JOURNAL_IDS_KEY = 'JOURNAL_IDS';
+
+/**
+ * SecureStore key prefix for individual journal entries (JOURNAL_<id>).
+ */
+const JOURNAL_KEY_PREFIX = 'JOURNAL_';
+
+/**
+ * In-memory copy of the journal (oldest first), loaded on first access.
+ */
+let entriesCache: TransactionJournalEntry[] | null = null;
+
+/**
+ * Whether an entry was submitted, so it stands for a transfer on chain.
+ * Only entries that never reached the chain (signing, rejected) may be dropped.
+ */
+function reachedChain(entry: TransactionJournalEntry): boolean {
+  return entry.signature !== undefined || !['signing', 'rejected'].includes(entry.status);
+}
+
+/**
+ * SecureStore key of one chunk of a wallet's journal id list (see JOURNAL_IDS_KEY).
+ */
+function idsChunkKey(index: number, walletId?: string): string {
+  return WalletService.getStorageKey(
+    index === 0 ? JOURNAL_IDS_KEY : `${JOURNAL_IDS_KEY}_${index}`,
+    walletId
+  );
+}
+
+/**
+ * Whether a wallet is the active one, whose journal is cached.
+ */
+function isActiveWallet(walletId?: string): boolean {
+  return (
+    WalletService.getStorageKey(JOURNAL_IDS_KEY, walletId) ===
+    WalletService.getStorageKey(JOURNAL_IDS_KEY)
+  );
+}
+
+/**
+ * Split the journal id list into its stored chunks.
+ */
+function chunkIds(ids: string[]): string[][] {
+  const chunks: string[][] = [];
+  for (let start = 0; start === 0 || start < ids.length; start += JOURNAL_IDS_CHUNK_SIZE) {
+    chunks.push(ids.slice(start, start + JOURNAL_IDS_CHUNK_SIZE));
+  }
+  return chunks;
+}
+
+/**
+ * The journal belongs to the active wallet; reload it after a switch.
+ */
+WalletService.onActiveWalletChange(() => {
+  entriesCache = null;
+});
+
+/**
+ * TransactionJournalService keeps a local audit trail of every transfer attempt.
+ *
+ * One entry is created when Confirm & Sign is pressed and follows the attempt
+ * through its lifecycle:
+ * signing → rejected (never reached the chain), or
+ * signing → pending → processed → confirmed → finalized / failed / expired
+ *
+ * Each entry keeps the TransactionRequest, a timestamped event per stage, the
+ * explorer URL and the last error code. Status updates after submission come
+ * from ConfirmationService, so transfers resumed after a restart are journaled too.
+ *
+ * Entries are persisted in Expo SecureStore and cached in memory after the
+ * first read. Submitted entries are kept for good, as they back statements and
+ * spending limits; of the entries that never reached the chain only the newest
+ * MAX_UNSUBMITTED_JOURNAL_ENTRIES are kept.
+ *
+ * All methods are static - no instantiation required.
+ */
+export class TransactionJournalService {
+  /**
+   * Get journal entries matching a filter, newest first.
+   *
+   * @param query - Optional status, date range and network filter
+   * @returns Matching entries (empty if none)
+   * @throws Error if SecureStore operations fail
+   *
+   * @example
+   * const failedThisWeek = await TransactionJournalService.getEntries({
+   *   status: ['rejected', 'failed', 'expired'],
+   *   from: Date.now() - 7 * 24 * 60 * 60 * 1000,
+   * });
+   */
+  static async getEntries(query: TransactionJournalQuery = {}): Promise<TransactionJournalEntry[]> {
+    const entries = await this.loadEntries();
+    const statuses =
+      query.status === undefined
+        ? undefined
+        : Array.isArray(query.status)
+        ? query.status
+        : [query.status];
+
+    return entries
+      .filter(
+        (entry) =>
+          (!statuses || statuses.includes(entry.status)) &&
+          (query.from === undefined || getJournalEntryTime(entry) >= query.from) &&
+          (query.to === undefined || getJournalEntryTime(entry) <= query.to) &&
+          (!query.networkId || entry.networkId === query.networkId)
+      )
+      .reverse();
+  }
+
+  /**
+   * Find the entries for a submitted transaction.
+   * A batch payout transaction has one entry per recipient.
+   *
+   * @param signature - Transaction signature (base58)
+   * @returns Matching entries (empty if the signature was not journaled)
+   * @throws Error if SecureStore operations fail
+   */
+  static async findBySignature(signature: string): Promise<TransactionJournalEntry[]> {
+    const entries = await this.loadEntries();
+    return entries.filter((entry) => entry.signature === signature);
+  }
+
+  /**
+   * Start an entry for a transfer attempt (status 'signing').
+   * Call when Confirm & Sign is pressed, before simulation and signing.
+   *
+   * Journaling never blocks a transfer: storage errors are logged and the
+   * entry is still returned so later updates can reference it.
+   *
+   * @param request - The transfer being attempted
+   * @returns The new entry
+   *
+   * @example
+   * const entry = await TransactionJournalService.recordAttempt(transactionRequest);
+   * // ...sign and send...
+   * await TransactionJournalService.recordSubmission(entry.id, txSignature);
+   */
+  static async recordAttempt(request: TransactionRequest): Promise<TransactionJournalEntry> {
+    const now = Date.now();
+    const entry: TransactionJournalEntry = {
+      id: this.createId(now),
+      networkId: NetworkService.getActiveProfile().id,
+      request,
+      status: 'signing',
+      events: [{ status: 'signing', at: now }],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.addEntry(entry);
+    return entry;
+  }
+
+  /**
+   * Record that the transaction was signed and sent (status 'pending').
+   *
+   * @param id - Entry identifier from recordAttempt()
+   * @param signature - Signature returned by signAndSendTransaction()
+   * @param submittedAt - When the signature was returned (default: now)
+   */
+  static async recordSubmission(
+    id: string,
+    signature: string,
+    submittedAt: number = Date.now()
+  ): Promise<void> {
+    await this.updateEntry(id, (entry) => ({
+      ...entry,
+      status: 'pending',
+      events: [...entry.events, { status: 'pending', at: submittedAt }],
+      signature,
+      explorerUrl: SolanaService.getExplorerUrl(signature),
+      submittedAt,
+      updatedAt: submittedAt,
+    }));
+  }
+
+  /**
+   * Record a failure of the attempt.
+   *
+   * Before submission the entry becomes 'rejected' (nothing reached the chain).
+   * After submission only the error is recorded; the status keeps following
+   * the on-chain confirmation.
+   *
+   * @param id - Entry identifier from recordAttempt()
+   * @param error - Normalized error (see normalizeWalletError())
+   */
+  static async recordFailure(id: string, error: WalletError): Promise<void> {
+    const now = Date.now();
+    await this.updateEntry(id, (entry) => ({
+      ...entry,
+      ...(entry.signature
+        ? {}
+        : {
+            status: 'rejected' as const,
+            events: [
+              ...entry.events,
+              { status: 'rejected' as const, at: now, errorCode: error.code },
+            ],
+          }),
+      errorCode: error.code,
+      error: error.message,
+      updatedAt: now,
+    }));
+  }
+
+  /**
+   * Record a confirmation status update from ConfirmationService.
+   *
+   * Every entry with the signature is updated (a batch payout sends several
+   * transfers in one transaction). Submissions without an entry (sent before
+   * the journal existed) get one created from the pending transaction's request.
+   * Updates that do not change the status (e.g. more confirmations) are ignored.
+   *
+   * Updates go to the journal of the wallet that sent the transaction
+   * (pending.walletId), which is not necessarily the active one.
+   *
+   * @param pending - Tracked transaction
+   * @param status - New confirmation status
+   */
+  static async recordStatus(pending: PendingTransaction, status: TransactionStatus): Promise<void> {
+    const { walletId } = pending;
+    let entries: TransactionJournalEntry[];
+    try {
+      entries = (await this.loadEntries(walletId)).filter(
+        (entry) => entry.signature === pending.signature
+      );
+    } catch {
+      // Unreadable journal: creating an entry here could duplicate one
+      return;
+    }
+    if (entries.length === 0) {
+      if (!pending.request) return;
+      const entry: TransactionJournalEntry = {
+        id: this.createId(pending.submittedAt),
+        networkId: pending.networkId,
+        request: pending.request,
+        status: 'pending',
+        events: [{ status: 'pending', at: pending.submittedAt }],
+        signature: pending.signature,
+        explorerUrl: SolanaService.getExplorerUrl(pending.signature, pending.networkId),
+        createdAt: pending.submittedAt,
+        updatedAt: pending.submittedAt,
+        submittedAt: pending.submittedAt,
+      };
+      await this.addEntry(entry, walletId);
+      entries = [entry];
+    }
+
+    const now = Date.now();
+    for (const entry of entries) {
+      if (entry.status === status.status) continue;
+
+      await this.updateEntry(
+        entry.id,
+        (current) => ({
+          ...current,
+          status: status.status,
+          events: [
+            ...current.events,
+            {
+              status: status.status,
+              at: now,
+              ...(status.errorCode && { errorCode: status.errorCode }),
+            },
+          ],
+          ...(status.errorCode && { errorCode: status.errorCode, error: status.error }),
+          confirmedAt: current.confirmedAt ?? status.confirmedAt,
+          finalizedAt: current.finalizedAt ?? status.finalizedAt,
+          updatedAt: now,
+        }),
+        walletId
+      );
+    }
+  }
+
+  /**
+   * Short unique entry id (keeps the id list small).
+   */
+  private static createId(timestamp: number): string {
+    return `${timestamp.toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  /**
+   * Load a wallet's journal from SecureStore (the active wallet's is cached
+   * after the first read). Read errors are thrown, so an unreadable journal is
+   * never taken as empty.
+   *
+   * @param walletId - Wallet whose journal to load (default: the active wallet)
+   */
+  private static async loadEntries(walletId?: string): Promise<TransactionJournalEntry[]> {
+    if (entriesCache && isActiveWallet(walletId)) {
+      return entriesCache;
+    }
+
+    try {
+      const ids: string[] = [];
+      for (let index = 0; ; index++) {
+        const idsJson = await SecureStore.getItemAsync(idsChunkKey(index, walletId));
+        if (!idsJson) break;
+        ids.push(...(JSON.parse(idsJson) as string[]));
+      }
+
+      const entries: TransactionJournalEntry[] = [];
+      for (const id of ids) {
+        const entryJson = await SecureStore.getItemAsync(JOURNAL_KEY_PREFIX + id);
+        if (entryJson) {
+          entries.push(JSON.parse(entryJson) as TransactionJournalEntry);
+        }
+      }
+
+      if (isActiveWallet(walletId)) {
+        entriesCache = entries;
+      }
+      return entries;
+    } catch (error) {
+      console.error('[TransactionJournalService] Failed to load journal:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Append an entry, dropping the oldest entries that never reached the chain
+   * beyond MAX_UNSUBMITTED_JOURNAL_ENTRIES.
+   */
+  private static async addEntry(entry: TransactionJournalEntry, walletId?: string): Promise<void> {
+    try {
+      const previous = await this.loadEntries(walletId);
+      const unsubmitted = [...previous, entry].filter((item) => !reachedChain(item));
+      const dropped = unsubmitted.slice(0, -MAX_UNSUBMITTED_JOURNAL_ENTRIES);
+      const entries = [...previous, entry].filter((item) => !dropped.includes(item));
+      if (isActiveWallet(walletId)) {
+        entriesCache = entries;
+      }
+
+      await SecureStore.setItemAsync(JOURNAL_KEY_PREFIX + entry.id, JSON.stringify(entry));
+      await this.saveIds(
+        entries.map((item) => item.id),
+        previous.map((item) => item.id),
+        walletId
+      );
+      for (const old of dropped) {
+        await SecureStore.deleteItemAsync(JOURNAL_KEY_PREFIX + old.id);
+      }
+    } catch (error) {
+      console.error('[TransactionJournalService] Failed to save journal entry:', error);
+    }
+  }
+
+  /**
+   * Persist a wallet's id list, writing only the chunks that changed and deleting
+   * chunks beyond the new end.
+   */
+  private static async saveIds(
+    ids: string[],
+    previousIds: string[],
+    walletId?: string
+  ): Promise<void> {
+    const chunks = chunkIds(ids);
+    const previousChunks = chunkIds(previousIds);
+
+    for (const [index, chunk] of chunks.entries()) {
+      const json = JSON.stringify(chunk);
+      if (json !== JSON.stringify(previousChunks[index])) {
+        await SecureStore.setItemAsync(idsChunkKey(index, walletId), json);
+      }
+    }
+    for (let index = chunks.length; index < previousChunks.length; index++) {
+      await SecureStore.deleteItemAsync(idsChunkKey(index, walletId));
+    }
+  }
+
+  /**
+   * Apply a change to one entry of a wallet's journal and persist it.
+   * Unknown ids (e.g. dropped before submission) are ignored.
+   */
+  private static async updateEntry(
+    id: string,
+    change: (entry: TransactionJournalEntry) => TransactionJournalEntry,
+    walletId?: string
+  ): Promise<void> {
+    try {
+      const entries = await this.loadEntries(walletId);
+      const index = entries.findIndex((entry) => entry.id === id);
+      if (index === -1) return;
+
+      const updated = change(entries[index]);
+      if (isActiveWallet(walletId)) {
+        entriesCache = entries.map((entry, i) => (i === index ? updated : entry));
+      }
+
+      await SecureStore.setItemAsync(JOURNAL_KEY_PREFIX + id, JSON.stringify(updated));
+    } catch (error) {
+      console.error('[TransactionJournalService] Failed to update journal entry:', error);
+    }
+  }
+}
@@ -1,137 +1,725 @@
 import * as SecureStore from 'expo-secure-store';
-import type { WalletSession } from '../types';
+import { Platform } from 'react-native';
+import { PASSKEY_PUBLIC_KEY_SIZE, useWalletStore } from '@lazorkit/wallet-mobile-adapter';
+import type { WalletInfo } from '@lazorkit/wallet-mobile-adapter';
+import type { PublicKey } from '@solana/web3.js';
+import type {
+  SessionIdentityCheck,
+  SessionState,
+  SessionStatus,
+  WalletAccount,
+  WalletSession,
+} from '../types';
+import { checkSessionExpiry } from '../utils/SessionUtils';
+import { isValidContactLabel, isValidSolanaAddress } from '../utils/ValidationUtils';
+import { SecurityService } from './SecurityService';
 
 /**
- * SecureStore key for wallet session data.
+ * SecureStore key for the list of registered wallet identifiers.
  * Data is encrypted using OS-level keychain (iOS) or EncryptedSharedPreferences (Android).
  */
-const SESSION_KEY = 'WALLET_SESSION';
+const WALLET_IDS_KEY = 'WALLET_IDS';
 
 /**
- * WalletService handles wallet session persistence using Expo SecureStore.
+ * SecureStore key prefix for individual wallets (WALLET_<id>), each holding a
+ * WalletAccount with its session.
+ */
+const WALLET_KEY_PREFIX = 'WALLET_';
+
+/**
+ * SecureStore key for the identifier of the active wallet.
+ */
+const ACTIVE_WALLET_KEY = 'ACTIVE_WALLET';
+
+/**
+ * SecureStore key of the single wallet session stored before the registry.
+ * Migrated into the registry (as DEFAULT_WALLET_ID) on first load, then deleted.
+ */
+const LEGACY_SESSION_KEY = 'WALLET_SESSION';
+
+/**
+ * Registry identifier of the first wallet on the device. Its contacts, journal
+ * and settings keep the unscoped SecureStore keys, so data saved before the
+ * registry existed stays with it.
+ */
+const DEFAULT_WALLET_ID = 'default';
+
+/**
+ * Current WalletSession schema version. Bump when the stored shape changes;
+ * wallets whose session has any other version are dropped on load.
+ */
+const SESSION_SCHEMA_VERSION = 2;
+
+/**
+ * In-memory copy of the wallet registry, loaded on first access.
+ */
+let accountsCache: WalletAccount[] | null = null;
+
+/**
+ * Session state restored on launch (in-memory), updated on connect, switch and removal.
+ */
+let sessionState: SessionState = { status: 'none', account: null };
+
+/**
+ * Listeners notified when the session state changes.
+ */
+const listeners = new Set<(state: SessionState) => void>();
+
+/**
+ * Listeners notified when a different wallet becomes active.
+ */
+const walletChangeListeners = new Set<(walletId: string | null) => void>();
+
+/**
+ * WalletService handles the wallet registry and session persistence using Expo SecureStore.
+ *
+ * Each registered wallet (WalletAccount) has a nickname and a session with the
+ * smart wallet address, passkey credential ID and public key (as returned by
+ * the LazorKit SDK), and timestamps. One wallet is active at a time; its
+ * session enables automatic reconnection after app restarts without re-authentication.
+ *
+ * Sessions are validated against the current schema on load, and
+ * checkSessionIdentity() tells whether the SDK wallet is the active one.
  *
- * Session data includes wallet public key, credential ID, and timestamps.
- * This enables automatic reconnection after app restarts without re-authentication.
+ * On launch the root layout calls restoreSession(), which rehydrates the SDK
+ * wallet from the active wallet's identity, or falls back to read-only watch
+ * mode for an expired session. switchWallet() does the same for another
+ * registered wallet. Screens read getSessionState() and getWalletAddress();
+ * signing screens require a connected SDK wallet (reconnect from watch mode).
+ *
+ * Contacts, the transaction journal, schedules, payment requests, pending
+ * confirmations and settings (network, spending policy) are stored per wallet:
+ * those services read their keys through getStorageKey() and reload after
+ * onActiveWalletChange().
  *
  * All methods are static - no instantiation required.
  */
 export class WalletService {
   /**
-   * Save wallet session to encrypted SecureStore.
-   * Called after successful wallet creation in Welcome screen.
+   * Restore the active wallet into the SDK. Called once by the root layout
+   * before any screen renders.
    *
-   * Session data is serialized to JSON and stored under key WALLET_SESSION.
-   * Storage is encrypted using OS-level encryption (iOS Keychain, Android EncryptedSharedPreferences).
+   * - Valid session: update lastAccessedAt and rehydrate the SDK wallet from
+   *   its identity, unless the SDK already holds it ('connected')
+   * - Expired session (see isSessionValid()), or rehydration fails: watch mode
+   *   for the stored address; lastAccessedAt is left unchanged
+   * - No wallet registered: 'none'
    *
-   * @param session - WalletSession object containing publicKey, credentialId, timestamps
-   * @throws Error if SecureStore.setItemAsync fails
+   * Never throws; failures leave the app in watch mode or without a wallet.
+   *
+   * @returns Restored session state
    */
-  static async saveSession(session: WalletSession): Promise<void> {
+  static async restoreSession(): Promise<SessionState> {
+    await this.waitForWalletStore();
+    const accounts = await this.loadAccounts();
+
+    let activeId: string | null = null;
     try {
-      const sessionJson = JSON.stringify(session);
-      await SecureStore.setItemAsync(SESSION_KEY, sessionJson);
+      activeId = await SecureStore.getItemAsync(ACTIVE_WALLET_KEY);
+    } catch (error) {
+      console.error('[WalletService] Failed to load active wallet:', error);
+    }
+
+    const account = accounts.find((entry) => entry.id === activeId) ?? accounts[0];
+    if (!account) {
       if (__DEV__) {
-        console.log('[WalletService] Session saved successfully:', {
-          publicKey: session.publicKey.substring(0, 8) + '...',
-          createdAt: new Date(session.createdAt).toISOString(),
-        });
+        console.log('[WalletService] No existing session found');
       }
-    } catch (error) {
-      console.error('[WalletService] Failed to save session:', error);
-      throw error;
+      return this.setSessionState({ status: 'none', account: null });
     }
+
+    return this.activateAccount(account);
   }
 
   /**
-   * Load wallet session from encrypted SecureStore.
-   * Called on app launch to check for existing authentication.
+   * Re-check the active session, e.g. when the app returns to the foreground:
+   * a session that expired while the app was open moves to watch mode, a valid
+   * one gets a new lastAccessedAt.
    *
-   * Retrieves session JSON from SecureStore and parses it.
-   * Updates lastAccessedAt timestamp to current time and re-saves.
-   * Returns null if no session exists or if session data is corrupted.
-   *
-   * @returns WalletSession object if session exists and is valid, null otherwise
+   * @returns New session state (unchanged unless connected)
    */
-  static async loadSession(): Promise<WalletSession | null> {
-    try {
-      const sessionJson = await SecureStore.getItemAsync(SESSION_KEY);
-      if (!sessionJson) {
-        console.log('[WalletService] No existing session found');
-        return null;
-      }
-
-      const session = JSON.parse(sessionJson) as WalletSession;
+  static async refreshSession(): Promise<SessionState> {
+    if (sessionState.status !== 'connected' || !sessionState.account) {
+      return sessionState;
+    }
+    return this.activateAccount(sessionState.account);
+  }
 
-      // Update lastAccessedAt to track when user last opened the app
-      session.lastAccessedAt = Date.now();
+  /**
+   * Record a wallet connected through the SDK (new connection, added wallet,
+   * or reconnect from watch mode). The wallet becomes active; it is added to
+   * the registry unless already registered.
+   *
+   * Only a passkey wallet.connect() starts a new session for a registered wallet
+   * (new createdAt and lastAccessedAt). A wallet the SDK restored on its own keeps
+   * its stored session, so the absolute session limit still applies; an expired
+   * one moves to watch mode as in restoreSession().
+   *
+   * Never throws: if the wallet cannot be saved it stays connected for this
+   * app run only.
+   *
+   * @param wallet - WalletInfo from wallet.connect() or the SDK wallet store
+   * @param options - passkeyAuthenticated: true right after wallet.connect()
+   * @returns Identity check of the previously active wallet against the connected one
+   *
+   * @example
+   * const walletInfo = await wallet.connect({ redirectUrl });
+   * await WalletService.completeConnection(walletInfo, { passkeyAuthenticated: true });
+   */
+  static async completeConnection(
+    wallet: WalletInfo,
+    options: { passkeyAuthenticated?: boolean } = {}
+  ): Promise<SessionIdentityCheck> {
+    const identity = this.checkSessionIdentity(sessionState.account?.session ?? null, wallet);
+    const accounts = await this.loadAccounts();
 
-      // Re-save session with updated timestamp
+    const registered = accounts.find(
+      (account) => this.checkSessionIdentity(account.session, wallet) === 'match'
+    );
+    if (registered && !options.passkeyAuthenticated) {
+      await this.activateAccount(registered);
+      return identity;
+    }
+    if (registered) {
+      let renewed = registered;
       try {
-        await SecureStore.setItemAsync(SESSION_KEY, JSON.stringify(session));
-      } catch (updateError) {
-        // Log but don't fail if update fails - still return the session
-        if (__DEV__) {
-          console.warn('[WalletService] Failed to update lastAccessedAt:', updateError);
-        }
+        renewed = { ...registered, session: this.createSession(wallet) };
+        await this.saveAccount(renewed);
+      } catch (error) {
+        console.error('[WalletService] Failed to renew session:', error);
       }
+      this.setActiveAccount(renewed, 'connected');
+      return identity;
+    }
 
+    let account: WalletAccount | null = null;
+    try {
+      account = {
+        id:
+          accounts.length === 0
+            ? DEFAULT_WALLET_ID
+            : `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+        nickname: `Wallet ${accounts.length + 1}`,
+        session: this.createSession(wallet),
+      };
+      await this.saveAccount(account);
+      await this.saveIds([...accounts, account]);
+      accountsCache = [...accounts, account];
       if (__DEV__) {
-        console.log('[WalletService] Session loaded successfully:', {
-          publicKey: session.publicKey.substring(0, 8) + '...',
-          lastAccessedAt: new Date(session.lastAccessedAt).toISOString(),
+        console.log('[WalletService] Wallet added:', {
+          nickname: account.nickname,
+          publicKey: account.session.publicKey.substring(0, 8) + '...',
         });
       }
-      return session;
     } catch (error) {
-      console.error('[WalletService] Failed to load session:', error);
-      // If session is corrupted, return null and let user create new wallet
-      return null;
+      console.error('[WalletService] Failed to save session for connected wallet:', error);
     }
+
+    this.setActiveAccount(account, 'connected');
+    return identity;
   }
 
   /**
-   * Clear wallet session from encrypted SecureStore.
-   * Called when user disconnects wallet.
+   * Get all registered wallets, in the order they were added.
    *
-   * Deletes session data from SecureStore to prevent automatic reconnection.
+   * @returns Array of wallets (empty if none registered or storage cannot be read)
+   */
+  static async getWallets(): Promise<WalletAccount[]> {
+    return [...(await this.loadAccounts())];
+  }
+
+  /**
+   * Make another registered wallet active. Its SDK wallet is restored like on
+   * launch: connected if its session is valid, watch mode otherwise.
    *
+   * @param id - Identifier of the wallet to activate
+   * @returns New session state
+   * @throws Error if no wallet with this id is registered
+   */
+  static async switchWallet(id: string): Promise<SessionState> {
+    const accounts = await this.loadAccounts();
+    const account = accounts.find((entry) => entry.id === id);
+    if (!account) {
+      throw new Error('Wallet not found');
+    }
+    if (account.id === sessionState.account?.id) {
+      return sessionState;
+    }
+
+    if (__DEV__) {
+      console.log('[WalletService] Switching to wallet:', account.nickname);
+    }
+    return this.activateAccount(account);
+  }
+
+  /**
+   * Rename a registered wallet.
+   *
+   * @param id - Identifier of the wallet to rename
+   * @param nickname - New nickname (same rules as contact labels, see isValidContactLabel())
+   * @returns The updated wallet
+   * @throws Error if the nickname is invalid or the wallet is not registered
+   * @throws Error if SecureStore.setItemAsync fails
+   */
+  static async renameWallet(id: string, nickname: string): Promise<WalletAccount> {
+    const validation = isValidContactLabel(nickname);
+    if (!validation.valid) {
+      throw new Error(validation.error);
+    }
+
+    const accounts = await this.loadAccounts();
+    const existing = accounts.find((account) => account.id === id);
+    if (!existing) {
+      throw new Error('Wallet not found');
+    }
+
+    const updated: WalletAccount = { ...existing, nickname: nickname.trim() };
+    try {
+      await this.saveAccount(updated);
+    } catch (error) {
+      console.error('[WalletService] Failed to rename wallet:', error);
+      throw error;
+    }
+
+    accountsCache = accounts.map((account) => (account.id === id ? updated : account));
+    if (sessionState.account?.id === id) {
+      this.setSessionState({ status: sessionState.status, account: updated });
+    }
+    return updated;
+  }
+
+  /**
+   * Remove a wallet from this device (its contacts, journal and settings are kept).
+   * Called when user disconnects a wallet.
+   *
+   * Removing the active wallet activates the next registered one; without one
+   * the session state becomes 'none' and the caller should disconnect the SDK.
+   *
+   * @param id - Identifier of the wallet to remove
+   * @returns New session state
    * @throws Error if SecureStore.deleteItemAsync fails
    */
-  static async clearSession(): Promise<void> {
+  static async removeWallet(id: string): Promise<SessionState> {
+    const accounts = await this.loadAccounts();
+    const remaining = accounts.filter((account) => account.id !== id);
+
     try {
-      await SecureStore.deleteItemAsync(SESSION_KEY);
-      if (__DEV__) {
-        console.log('[WalletService] Session cleared successfully');
-      }
+      await SecureStore.deleteItemAsync(WALLET_KEY_PREFIX + id);
+      await this.saveIds(remaining);
     } catch (error) {
-      console.error('[WalletService] Failed to clear session:', error);
+      console.error('[WalletService] Failed to remove wallet:', error);
       throw error;
     }
+    accountsCache = remaining;
+
+    if (__DEV__) {
+      console.log('[WalletService] Wallet removed:', id);
+    }
+    if (sessionState.account?.id !== id) {
+      return sessionState;
+    }
+
+    if (remaining.length > 0) {
+      return this.activateAccount(remaining[0]);
+    }
+    try {
+      await SecureStore.deleteItemAsync(ACTIVE_WALLET_KEY);
+    } catch (error) {
+      console.error('[WalletService] Failed to clear active wallet:', error);
+    }
+    return this.setActiveAccount(null, 'none');
+  }
+
+  /**
+   * Get the session state restored on launch.
+   *
+   * @returns Current SessionState
+   */
+  static getSessionState(): SessionState {
+    return sessionState;
+  }
+
+  /**
+   * Get the address to show balances and history for: the connected smart
+   * wallet, or the stored address in watch mode.
+   *
+   * @param connected - wallet.smartWalletPubkey from useWallet()
+   * @returns Base58 address, or null if there is no wallet
+   */
+  static getWalletAddress(connected: PublicKey | null): string | null {
+    if (connected) return connected.toBase58();
+    return sessionState.status === 'watch'
+      ? (sessionState.account?.session.publicKey ?? null)
+      : null;
+  }
+
+  /**
+   * Get the SecureStore key of per-wallet data for a wallet.
+   *
+   * The first wallet on the device (and the app without any wallet) uses the
+   * base key unchanged; other wallets append their registry id.
+   *
+   * @param baseKey - Unscoped key, e.g. 'CONTACT_IDS'
+   * @param walletId - Registry id of the wallet (default: the active wallet)
+   * @returns Key for the wallet
+   *
+   * @example
+   * await SecureStore.getItemAsync(WalletService.getStorageKey(CONTACT_IDS_KEY));
+   */
+  static getStorageKey(
+    baseKey: string,
+    walletId: string | undefined = sessionState.account?.id
+  ): string {
+    return !walletId || walletId === DEFAULT_WALLET_ID ? baseKey : `${baseKey}_${walletId}`;
+  }
+
+  /**
+   * Subscribe to session state changes.
+   *
+   * @param listener - Called with the new state after each change
+   * @returns Unsubscribe function
+   */
+  static subscribe(listener: (state: SessionState) => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to active wallet changes. Services holding per-wallet data drop
+   * their caches here.
+   *
+   * @param listener - Called with the new active wallet id (null if none), before
+   *                   session state subscribers are notified
+   * @returns Unsubscribe function
+   */
+  static onActiveWalletChange(listener: (walletId: string | null) => void): () => void {
+    walletChangeListeners.add(listener);
+    return () => {
+      walletChangeListeners.delete(listener);
+    };
   }
 
   /**
    * Validate if a session is still valid.
    *
-   * Checks if session exists and hasn't expired based on lastAccessedAt timestamp.
-   * Sessions expire after 30 days of inactivity for security purposes.
+   * Checks if session exists and hasn't expired under the session expiry policy
+   * set on the Security screen (SecuritySettings.sessionPolicy): idle timeout
+   * since lastAccessedAt, and absolute age since createdAt.
+   *
+   * Must be called before lastAccessedAt is updated, so reading an expired
+   * session never refreshes it.
    *
    * @param session - WalletSession object to validate, or null
+   * @param now - Current time (Unix timestamp, milliseconds); defaults to Date.now()
    * @returns true if session is valid and not expired, false otherwise
    */
-  static isSessionValid(session: WalletSession | null): boolean {
+  static isSessionValid(session: WalletSession | null, now = Date.now()): boolean {
     if (!session) return false;
 
-    // Check session age - expire after 30 days of inactivity
-    const sessionAge = Date.now() - session.lastAccessedAt;
-    const MAX_SESSION_AGE = 30 * 24 * 60 * 60 * 1000; // 30 days in milliseconds
-
-    if (sessionAge >= MAX_SESSION_AGE) {
+    const status = checkSessionExpiry(session, SecurityService.getSettings().sessionPolicy, now);
+    if (status !== 'valid') {
       if (__DEV__) {
-        console.log('[WalletService] Session expired (age:', Math.floor(sessionAge / (24 * 60 * 60 * 1000)), 'days)');
+        console.log('[WalletService] Session expired:', status);
       }
       return false;
     }
 
     return true;
   }
+
+  /**
+   * Compare a stored session with the wallet connected in the SDK.
+   *
+   * A 'mismatch' means the session was saved for another smart wallet or
+   * passkey, and must not be used to label the connected wallet.
+   *
+   * @param session - Session of a registered wallet, or null
+   * @param wallet - WalletInfo from the SDK wallet store, or null if not connected
+   * @returns Result of the comparison
+   *
+   * @example
+   * const active = WalletService.getSessionState().account;
+   * if (WalletService.checkSessionIdentity(active?.session ?? null, walletInfo) === 'mismatch') {
+   *   await WalletService.completeConnection(walletInfo);
+   * }
+   */
+  static checkSessionIdentity(
+    session: WalletSession | null,
+    wallet: WalletInfo | null
+  ): SessionIdentityCheck {
+    if (!session) return 'no-session';
+    if (!wallet) return 'disconnected';
+
+    const samePasskey =
+      session.passkeyPubkey.length === wallet.passkeyPubkey.length &&
+      session.passkeyPubkey.every((byte, index) => byte === wallet.passkeyPubkey[index]);
+    const match =
+      session.publicKey === wallet.smartWallet &&
+      session.credentialId === wallet.credentialId &&
+      samePasskey;
+
+    return match ? 'match' : 'mismatch';
+  }
+
+  /**
+   * Build a new session from the wallet the SDK connected.
+   *
+   * @param wallet - WalletInfo from wallet.connect() or the SDK wallet store
+   * @returns Session for the wallet, created now
+   * @throws Error if the SDK returned an incomplete wallet identity
+   */
+  private static createSession(wallet: WalletInfo): WalletSession {
+    const now = Date.now();
+    const session: WalletSession = {
+      version: SESSION_SCHEMA_VERSION,
+      publicKey: wallet.smartWallet,
+      credentialId: wallet.credentialId,
+      passkeyPubkey: [...wallet.passkeyPubkey],
+      createdAt: now,
+      lastAccessedAt: now,
+      deviceInfo: `${Platform.OS} ${Platform.Version}`,
+    };
+
+    if (!this.isValidSessionData(session)) {
+      throw new Error('Wallet identity from LazorKit is incomplete');
+    }
+    return session;
+  }
+
+  /**
+   * Make a registered wallet active and restore it into the SDK: connected if
+   * its session is valid, watch mode (SDK wallet cleared) otherwise.
+   *
+   * Validity is checked on the stored session first; only a valid session gets
+   * a new lastAccessedAt. The SDK wallet is left alone if it already holds this wallet.
+   */
+  private static async activateAccount(account: WalletAccount): Promise<SessionState> {
+    const now = Date.now();
+    if (!this.isSessionValid(account.session, now)) {
+      if (__DEV__) {
+        console.log('[WalletService] Session expired, restoring in watch mode');
+      }
+      useWalletStore.getState().setWallet(null);
+      return this.setActiveAccount(account, 'watch');
+    }
+
+    // Update lastAccessedAt to track when the wallet was last used
+    const touched: WalletAccount = {
+      ...account,
+      session: { ...account.session, lastAccessedAt: now },
+    };
+    try {
+      await this.saveAccount(touched);
+    } catch (updateError) {
+      // Log but don't fail if update fails - still restore the session
+      if (__DEV__) {
+        console.warn('[WalletService] Failed to update lastAccessedAt:', updateError);
+      }
+    }
+
+    const sdkWallet = useWalletStore.getState().wallet;
+    if (this.checkSessionIdentity(touched.session, sdkWallet) === 'match') {
+      return this.setActiveAccount(touched, 'connected');
+    }
+
+    try {
+      // Signing uses the smart wallet, credential ID and passkey public key;
+      // the remaining WalletInfo fields only describe the Portal redirect.
+      useWalletStore.getState().setWallet({
+        credentialId: touched.session.credentialId,
+        passkeyPubkey: [...touched.session.passkeyPubkey],
+        smartWallet: touched.session.publicKey,
+        expo: '',
+        platform: '',
+        walletDevice: '',
+      });
+      return this.setActiveAccount(touched, 'connected');
+    } catch (error) {
+      console.error('[WalletService] Failed to restore wallet, using watch mode:', error);
+      useWalletStore.getState().setWallet(null);
+      return this.setActiveAccount(touched, 'watch');
+    }
+  }
+
+  /**
+   * Set the active wallet: persist the pointer (errors are logged), notify
+   * active wallet listeners if it changed, then update the session state.
+   */
+  private static setActiveAccount(
+    account: WalletAccount | null,
+    status: SessionStatus
+  ): SessionState {
+    const changed = account?.id !== sessionState.account?.id;
+
+    if (account && changed) {
+      SecureStore.setItemAsync(ACTIVE_WALLET_KEY, account.id).catch((error) =>
+        console.error('[WalletService] Failed to save active wallet:', error)
+      );
+    }
+
+    return this.setSessionState({ status, account }, changed);
+  }
+
+  /**
+   * Replace the session state and notify subscribers (active wallet listeners first).
+   */
+  private static setSessionState(state: SessionState, walletChanged = false): SessionState {
+    sessionState = state;
+    if (walletChanged) {
+      walletChangeListeners.forEach((listener) => listener(state.account?.id ?? null));
+    }
+    listeners.forEach((listener) => listener(state));
+    return state;
+  }
+
+  /**
+   * Load the wallet registry from SecureStore (cached after the first read).
+   * The single pre-registry session is migrated on first load; wallets whose
+   * data fails validation (including older session schemas) are skipped.
+   */
+  private static async loadAccounts(): Promise<WalletAccount[]> {
+    if (accountsCache) {
+      return accountsCache;
+    }
+
+    try {
+      const idsJson = await SecureStore.getItemAsync(WALLET_IDS_KEY);
+      if (!idsJson) {
+        accountsCache = await this.migrateLegacySession();
+        return accountsCache;
+      }
+
+      const accounts: WalletAccount[] = [];
+      for (const id of JSON.parse(idsJson) as string[]) {
+        const accountJson = await SecureStore.getItemAsync(WALLET_KEY_PREFIX + id);
+        // Skip ids whose entry is missing (e.g. interrupted removal)
+        if (!accountJson) continue;
+
+        const account: unknown = JSON.parse(accountJson);
+        if (this.isValidAccountData(account)) {
+          accounts.push(account);
+        } else {
+          console.warn('[WalletService] Skipping stored wallet: invalid or outdated schema');
+        }
+      }
+
+      accountsCache = accounts;
+      return accountsCache;
+    } catch (error) {
+      console.error('[WalletService] Failed to load wallets:', error);
+      // If the registry is corrupted, return no wallets and let user connect again
+      return [];
+    }
+  }
+
+  /**
+   * Move the single pre-registry session (WALLET_SESSION) into the registry as
+   * the default wallet. Invalid legacy sessions are deleted.
+   *
+   * @returns Registry after migration (empty if there was no valid legacy session)
+   */
+  private static async migrateLegacySession(): Promise<WalletAccount[]> {
+    const sessionJson = await SecureStore.getItemAsync(LEGACY_SESSION_KEY);
+    if (!sessionJson) return [];
+
+    const session: unknown = JSON.parse(sessionJson);
+    if (!this.isValidSessionData(session)) {
+      console.warn('[WalletService] Discarding stored session: invalid or outdated schema');
+      await SecureStore.deleteItemAsync(LEGACY_SESSION_KEY);
+      return [];
+    }
+
+    const account: WalletAccount = { id: DEFAULT_WALLET_ID, nickname: 'Wallet 1', session };
+    await this.saveAccount(account);
+    await this.saveIds([account]);
+    await SecureStore.setItemAsync(ACTIVE_WALLET_KEY, account.id);
+    await SecureStore.deleteItemAsync(LEGACY_SESSION_KEY);
+
+    if (__DEV__) {
+      console.log('[WalletService] Migrated stored session into the wallet registry');
+    }
+    return [account];
+  }
+
+  /**
+   * Persist one wallet.
+   *
+   * @throws Error if SecureStore.setItemAsync fails
+   */
+  private static async saveAccount(account: WalletAccount): Promise<void> {
+    await SecureStore.setItemAsync(WALLET_KEY_PREFIX + account.id, JSON.stringify(account));
+    if (accountsCache) {
+      accountsCache = accountsCache.map((entry) => (entry.id === account.id ? account : entry));
+    }
+  }
+
+  /**
+   * Persist the ordered list of wallet identifiers.
+   *
+   * @throws Error if SecureStore.setItemAsync fails
+   */
+  private static async saveIds(accounts: WalletAccount[]): Promise<void> {
+    await SecureStore.setItemAsync(
+      WALLET_IDS_KEY,
+      JSON.stringify(accounts.map((account) => account.id))
+    );
+  }
+
+  /**
+   * Check that a value has the shape of a WalletAccount with a current-schema session.
+   */
+  private static isValidAccountData(value: unknown): value is WalletAccount {
+    if (typeof value !== 'object' || value === null) return false;
+
+    const account = value as Partial<WalletAccount>;
+    return (
+      typeof account.id === 'string' &&
+      account.id.length > 0 &&
+      typeof account.nickname === 'string' &&
+      this.isValidSessionData(account.session)
+    );
+  }
+
+  /**
+   * Check that a value has the shape of a current-schema WalletSession.
+   */
+  private static isValidSessionData(value: unknown): value is WalletSession {
+    if (typeof value !== 'object' || value === null) return false;
+
+    const session = value as Partial<WalletSession>;
+    return (
+      session.version === SESSION_SCHEMA_VERSION &&
+      typeof session.publicKey === 'string' &&
+      isValidSolanaAddress(session.publicKey).valid &&
+      typeof session.credentialId === 'string' &&
+      session.credentialId.length > 0 &&
+      Array.isArray(session.passkeyPubkey) &&
+      session.passkeyPubkey.length === PASSKEY_PUBLIC_KEY_SIZE &&
+      session.passkeyPubkey.every(
+        (byte) => Number.isInteger(byte) && byte >= 0 && byte <= 255
+      ) &&
+      typeof session.createdAt === 'number' &&
+      typeof session.lastAccessedAt === 'number' &&
+      (session.deviceInfo === undefined || typeof session.deviceInfo === 'string')
+    );
+  }
+
+  /**
+   * Wait until the SDK has restored its persisted wallet store, so the stored
+   * session can be compared with (or restored into) the wallet the SDK will sign with.
+   */
+  private static waitForWalletStore(): Promise<void> {
+    return new Promise((resolve) => {
+      if (useWalletStore.persist.hasHydrated()) {
+        resolve();
+        return;
+      }
+      const unsubscribe = useWalletStore.persist.onFinishHydration(() => {
+        unsubscribe();
+        resolve();
+      });
+    });
+  }
 }
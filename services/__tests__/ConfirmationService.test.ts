@@ -0,0 +1,156 @@
+import * as SecureStore from 'expo-secure-store';
+import type { Connection } from '@solana/web3.js';
+import type { PendingTransaction, TransactionStatus } from '../../types';
+import { ConfirmationService } from '../ConfirmationService';
+import { SolanaService } from '../SolanaService';
+import { TransactionJournalService } from '../TransactionJournalService';
+
+jest.mock('expo-secure-store', () => {
+  const store = new Map<string, string>();
+  // Yield between read and write like the native module, so interleaving shows
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+  return {
+    store,
+    getItemAsync: jest.fn(async (key: string) => {
+      await tick();
+      return store.get(key) ?? null;
+    }),
+    setItemAsync: jest.fn(async (key: string, value: string) => {
+      await tick();
+      store.set(key, value);
+    }),
+    deleteItemAsync: jest.fn(async (key: string) => {
+      await tick();
+      store.delete(key);
+    }),
+  };
+});
+
+// The wallet SDK (and its native browser bridge) is not used by these tests
+jest.mock('@lazorkit/wallet-mobile-adapter', () => ({}));
+
+const store: Map<string, string> = (SecureStore as unknown as { store: Map<string, string> })
+  .store;
+
+/**
+ * Status as returned by SolanaService.getConfirmationStatus().
+ */
+function status(
+  value: TransactionStatus['status'],
+  confirmations: number | null
+): TransactionStatus {
+  return { signature: 'sig', status: value, confirmations, submittedAt: 0 };
+}
+
+beforeEach(() => {
+  store.clear();
+  jest.restoreAllMocks();
+  jest
+    .spyOn(SolanaService, 'getConnection')
+    .mockReturnValue({
+      getLatestBlockhash: async () => ({ blockhash: 'hash', lastValidBlockHeight: 100 }),
+    } as unknown as Connection);
+});
+
+describe('ConfirmationService', () => {
+  it('keeps every id when submissions are recorded concurrently', async () => {
+    await Promise.all(
+      ['sigA', 'sigB', 'sigC'].map((signature) => ConfirmationService.recordSubmission(signature))
+    );
+
+    const pending = await ConfirmationService.getPendingTransactions();
+
+    expect(pending.map((entry) => entry.signature).sort()).toEqual(['sigA', 'sigB', 'sigC']);
+  });
+
+  it('keeps other ids when a tracked transaction finishes during a submission', async () => {
+    const submitted = await ConfirmationService.recordSubmission('sigDone');
+    jest
+      .spyOn(SolanaService, 'getConfirmationStatus')
+      .mockResolvedValue(status('finalized', null));
+    jest.spyOn(TransactionJournalService, 'recordStatus').mockResolvedValue();
+
+    await Promise.all([
+      ConfirmationService.track(submitted),
+      ConfirmationService.recordSubmission('sigNew'),
+    ]);
+
+    const pending = await ConfirmationService.getPendingTransactions();
+    expect(pending.map((entry) => entry.signature)).toEqual(['sigNew']);
+  });
+
+  it('checks and journals a transaction on the network and wallet it was sent from', async () => {
+    const getConnection = jest.spyOn(SolanaService, 'getConnection').mockReturnValue({
+      getBlockHeight: async () => 50,
+      getSignatureStatuses: async () => ({
+        value: [{ slot: 1, confirmations: null, err: null, confirmationStatus: 'finalized' }],
+      }),
+    } as unknown as Connection);
+    const pending: PendingTransaction = {
+      signature: 'sigMainnet',
+      networkId: 'mainnet-beta',
+      walletId: 'second',
+      submittedAt: 0,
+      blockhash: 'hash',
+      lastValidBlockHeight: 100,
+      request: {
+        asset: 'sol',
+        recipientAddress: '3jeqd3kYDmGHxrGnhB1Ba6mV3uwHz1sHNMGZ6GsXHmPb',
+        amount: '0.1',
+        amountLamports: '100000000',
+        timestamp: 0,
+      },
+    };
+
+    await ConfirmationService.track(pending);
+
+    expect(getConnection.mock.calls).toEqual([['mainnet-beta']]);
+    expect(store.has('JOURNAL_IDS')).toBe(false);
+    const [id] = JSON.parse(store.get('JOURNAL_IDS_second')!);
+    expect(JSON.parse(store.get(`JOURNAL_${id}`)!)).toMatchObject({
+      status: 'finalized',
+      explorerUrl: 'https://explorer.solana.com/tx/sigMainnet',
+    });
+  });
+
+  it('journals status transitions only, not confirmation counts', async () => {
+    jest.useFakeTimers();
+    try {
+      const updates = [
+        status('processed', 0),
+        status('confirmed', 1),
+        status('confirmed', 12),
+        status('confirmed', 25),
+        status('finalized', null),
+      ];
+      jest
+        .spyOn(SolanaService, 'getConfirmationStatus')
+        .mockImplementation(async () => updates.shift() ?? status('finalized', null));
+      const recordStatus = jest
+        .spyOn(TransactionJournalService, 'recordStatus')
+        .mockResolvedValue();
+      const pending: PendingTransaction = {
+        signature: 'sig',
+        networkId: 'devnet',
+        submittedAt: 0,
+        blockhash: 'hash',
+        lastValidBlockHeight: 100,
+      };
+
+      const seen: number[] = [];
+      const result = ConfirmationService.track(pending);
+      ConfirmationService.subscribe('sig', (update) => seen.push(update.confirmations ?? -1));
+      await jest.runAllTimersAsync();
+
+      expect((await result).status).toBe('finalized');
+      expect(seen).toEqual([0, 1, 12, 25, -1]);
+      expect(recordStatus.mock.calls.map(([, update]) => update.status)).toEqual([
+        'processed',
+        'confirmed',
+        'finalized',
+      ]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,64 @@
+import type { TransactionRequest } from '../../types';
+import type { PolicyService } from '../PolicyService';
+
+const mockGetItemAsync = jest.fn();
+
+jest.mock('expo-secure-store', () => ({
+  getItemAsync: (key: string) => mockGetItemAsync(key),
+  setItemAsync: jest.fn(async () => undefined),
+  deleteItemAsync: jest.fn(async () => undefined),
+}));
+
+// The wallet SDK (and its native browser bridge) is not used by these tests
+jest.mock('@lazorkit/wallet-mobile-adapter', () => ({}));
+
+const REQUEST: TransactionRequest = {
+  asset: 'sol',
+  recipientAddress: '3jeqd3kYDmGHxrGnhB1Ba6mV3uwHz1sHNMGZ6GsXHmPb',
+  amount: '0.1',
+  amountLamports: '100000000',
+  timestamp: 0,
+};
+
+/**
+ * PolicyService with empty policy, journal and contact caches.
+ */
+function loadPolicyService(): typeof PolicyService {
+  let service!: typeof PolicyService;
+  jest.isolateModules(() => {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports -- fresh caches
+    ({ PolicyService: service } = require('../PolicyService'));
+  });
+  return service;
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('PolicyService', () => {
+  it.each([
+    { name: 'the policy', key: 'SPENDING_POLICY' },
+    { name: 'the journal', key: 'JOURNAL_IDS' },
+  ])('rejects evaluations when $name cannot be read', async ({ key }) => {
+    mockGetItemAsync.mockImplementation(async (item: string) => {
+      if (item === key) throw new Error('Keystore unavailable');
+      return null;
+    });
+    const service = loadPolicyService();
+
+    await expect(service.evaluateTransfer(REQUEST)).rejects.toThrow('Keystore unavailable');
+    await expect(service.evaluateBatch([REQUEST])).rejects.toThrow('Keystore unavailable');
+  });
+
+  it('evaluates against the default policy when none is saved', async () => {
+    mockGetItemAsync.mockResolvedValue(null);
+    const service = loadPolicyService();
+
+    await expect(service.evaluateTransfer(REQUEST)).resolves.toMatchObject({ blocked: false });
+  });
+});
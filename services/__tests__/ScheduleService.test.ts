@@ -0,0 +1,137 @@
+import type { ScheduledTransfer, TransactionRequest, TransactionStatus } from '../../types';
+import { getNextRunAt } from '../../utils/ScheduleUtils';
+import { ScheduleService } from '../ScheduleService';
+import { SolanaService } from '../SolanaService';
+import { TransactionJournalService } from '../TransactionJournalService';
+
+jest.mock('expo-secure-store', () => {
+  const store = new Map<string, string>();
+  return {
+    getItemAsync: jest.fn(async (key: string) => store.get(key) ?? null),
+    setItemAsync: jest.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+    deleteItemAsync: jest.fn(async (key: string) => {
+      store.delete(key);
+    }),
+  };
+});
+
+// The wallet SDK (and its native browser bridge) is not used by these tests
+jest.mock('@lazorkit/wallet-mobile-adapter', () => ({}));
+
+const REQUEST: TransactionRequest = {
+  asset: 'sol',
+  recipientAddress: '3jeqd3kYDmGHxrGnhB1Ba6mV3uwHz1sHNMGZ6GsXHmPb',
+  amount: '0.1',
+  amountLamports: '100000000',
+  timestamp: 0,
+};
+
+/**
+ * Daily 09:00 schedule whose first run is tomorrow.
+ */
+async function createDailySchedule(): Promise<ScheduledTransfer> {
+  const today = new Date();
+  const startAt = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1, 9, 0);
+  return ScheduleService.createSchedule(REQUEST, {
+    kind: 'recurring',
+    cron: '0 9 * * *',
+    startAt: startAt.getTime(),
+  });
+}
+
+/**
+ * Schedule whose first run was submitted and has no journal entry.
+ */
+async function createSubmittedSchedule(): Promise<ScheduledTransfer> {
+  const schedule = await createDailySchedule();
+  await ScheduleService.recordRun(schedule.id, schedule.nextRunAt!, {
+    status: 'submitted',
+    journalEntryId: 'evicted',
+    signature: 'sigRun',
+  });
+  return schedule;
+}
+
+function status(value: TransactionStatus['status']): TransactionStatus {
+  return { signature: 'sigRun', status: value, confirmations: null, submittedAt: 0 };
+}
+
+async function getSchedule(id: string): Promise<ScheduledTransfer | undefined> {
+  return (await ScheduleService.getSchedules()).find((schedule) => schedule.id === id);
+}
+
+beforeEach(() => {
+  jest.restoreAllMocks();
+  jest.spyOn(TransactionJournalService, 'getEntries').mockResolvedValue([]);
+});
+
+afterEach(async () => {
+  for (const schedule of await ScheduleService.getSchedules()) {
+    await ScheduleService.deleteSchedule(schedule.id);
+  }
+});
+
+describe('ScheduleService.getDueQueue', () => {
+  it('offers only the most recent due run and records earlier ones as missed', async () => {
+    const schedule = await createDailySchedule();
+    const firstRunAt = schedule.nextRunAt!;
+    const secondRunAt = getNextRunAt(schedule.rule, firstRunAt)!;
+    const thirdRunAt = getNextRunAt(schedule.rule, secondRunAt)!;
+
+    const queue = await ScheduleService.getDueQueue(thirdRunAt + 60_000);
+
+    expect(queue.map((item) => item.dueAt)).toEqual([thirdRunAt]);
+    expect((await getSchedule(schedule.id))?.runs).toEqual([
+      expect.objectContaining({ dueAt: firstRunAt, status: 'missed' }),
+      expect.objectContaining({ dueAt: secondRunAt, status: 'missed' }),
+    ]);
+  });
+
+  it.each([
+    { name: 'it confirms', lookup: async () => status('pending') },
+    {
+      name: 'its result is unknown',
+      lookup: async (): Promise<TransactionStatus> => {
+        throw new Error('RPC unavailable');
+      },
+    },
+  ])('holds a submitted run without journal entry while $name', async ({ lookup }) => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(SolanaService, 'getConfirmationStatus').mockImplementation(lookup);
+    const schedule = await createSubmittedSchedule();
+
+    const queue = await ScheduleService.getDueQueue(schedule.nextRunAt! + 60_000);
+
+    expect(queue).toEqual([]);
+    expect((await getSchedule(schedule.id))?.runs.map((run) => run.status)).toEqual([
+      'submitted',
+    ]);
+  });
+
+  it('settles a submitted run without journal entry from its signature', async () => {
+    const lookup = jest
+      .spyOn(SolanaService, 'getConfirmationStatus')
+      .mockResolvedValue(status('finalized'));
+    const schedule = await createSubmittedSchedule();
+
+    const queue = await ScheduleService.getDueQueue(schedule.nextRunAt! + 60_000);
+
+    expect(lookup).toHaveBeenCalledWith(expect.objectContaining({ signature: 'sigRun' }));
+    expect(queue).toEqual([]);
+    expect(await getSchedule(schedule.id)).toMatchObject({
+      nextRunAt: getNextRunAt(schedule.rule, schedule.nextRunAt!),
+      runs: [{ status: 'submitted' }, { status: 'sent', signature: 'sigRun' }],
+    });
+  });
+
+  it('offers a submitted run again once it failed on-chain', async () => {
+    jest.spyOn(SolanaService, 'getConfirmationStatus').mockResolvedValue(status('failed'));
+    const schedule = await createSubmittedSchedule();
+
+    const queue = await ScheduleService.getDueQueue(schedule.nextRunAt! + 60_000);
+
+    expect(queue.map((item) => item.dueAt)).toEqual([schedule.nextRunAt]);
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  Connection,
+  Keypair,
+  PACKET_DATA_SIZE,
+  Transaction,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import { LazorkitClient, buildTransaction } from '@lazorkit/wallet-mobile-adapter';
+import type { TransactionRequest } from '../../types';
+import { TOKEN_REGISTRY } from '../constants';
+import { SolanaService } from '../SolanaService';
+
+const BLOCKHASH = 'EETubP5AKHgjPAhzPAFcb8BAY1hMH639CWCFTqi3hq1k';
+const SMART_WALLET = Keypair.generate().publicKey;
+const PAYMASTER = Keypair.generate().publicKey;
+const USDC = TOKEN_REGISTRY.devnet[0];
+
+const connection = {
+  getLatestBlockhash: async () => ({ blockhash: BLOCKHASH, lastValidBlockHeight: 100 }),
+  // New recipients: SOL amounts are above the rent minimum, token accounts get created
+  getAccountInfo: async () => null,
+  getMinimumBalanceForRentExemption: async () => 890_880,
+} as unknown as Connection;
+
+/**
+ * Serialized size of the execute_chunk transaction the Lazorkit SDK sends the
+ * instructions in, with the wallet state and chunk accounts it reads from chain.
+ */
+async function sdkTransactionSize(instructions: TransactionInstruction[]): Promise<number> {
+  const client = new LazorkitClient(connection);
+  const contexts = client as unknown as Record<string, () => Promise<unknown>>;
+  jest.spyOn(contexts, 'fetchWalletStateContext').mockResolvedValue({
+    walletState: Keypair.generate().publicKey,
+    data: { lastNonce: 0 },
+  });
+  jest.spyOn(contexts, 'fetchChunkContext').mockResolvedValue({
+    chunk: Keypair.generate().publicKey,
+    data: { rentRefundAddress: Keypair.generate().publicKey },
+  });
+
+  const instruction = await client.buildExecuteChunkIns(PAYMASTER, SMART_WALLET, instructions);
+  const { transaction } = await buildTransaction(connection, PAYMASTER, [instruction], {
+    recentBlockhash: BLOCKHASH,
+  });
+  // Legacy without lookup tables; signature count and paymaster signature precede the message
+  return 1 + 64 + (transaction as Transaction).compileMessage().serialize().length;
+}
+
+function transfers(count: number, asset: 'sol' | 'usdc'): TransactionRequest[] {
+  return Array.from({ length: count }, () => {
+    const transfer = {
+      recipientAddress: Keypair.generate().publicKey.toBase58(),
+      amount: '1',
+      amountLamports: '1000000',
+      timestamp: 0,
+    };
+    return asset === 'sol'
+      ? { ...transfer, asset: 'sol' }
+      : { ...transfer, asset: 'spl-token', token: USDC, createRecipientAccount: true };
+  });
+}
+
+beforeEach(() => {
+  jest.restoreAllMocks();
+  jest.spyOn(SolanaService, 'getConnection').mockReturnValue(connection);
+});
+
+describe('SolanaService.buildBatchTransfer', () => {
+  it.each([
+    { asset: 'sol' as const, instructionsPerTransfer: 1 },
+    { asset: 'usdc' as const, instructionsPerTransfer: 2 },
+  ])(
+    'packs $asset transfers as tightly as the SDK transaction allows',
+    async ({ asset, instructionsPerTransfer }) => {
+      const { transactions, skipped } = await SolanaService.buildBatchTransfer(
+        transfers(40, asset),
+        SMART_WALLET
+      );
+
+      expect(skipped).toEqual([]);
+      expect(transactions.length).toBeGreaterThan(1);
+      for (const [position, { transaction }] of transactions.entries()) {
+        expect(await sdkTransactionSize(transaction.instructions)).toBeLessThanOrEqual(
+          PACKET_DATA_SIZE
+        );
+
+        const next = transactions[position + 1];
+        if (next) {
+          const withNextTransfer = [
+            ...transaction.instructions,
+            ...next.transaction.instructions.slice(0, instructionsPerTransfer),
+          ];
+          expect(await sdkTransactionSize(withNextTransfer)).toBeGreaterThan(PACKET_DATA_SIZE);
+        }
+      }
+    }
+  );
+
+  it('rejects a batch of different assets', async () => {
+    const requests = [...transfers(1, 'sol'), ...transfers(1, 'usdc')];
+
+    await expect(SolanaService.buildBatchTransfer(requests, SMART_WALLET)).rejects.toThrow(
+      'A batch pays out a single asset'
+    );
+  });
+});
@@ -0,0 +1,73 @@
+import * as SecureStore from 'expo-secure-store';
+import type { TransactionRequest } from '../../types';
+import { normalizeWalletError } from '../errors';
+import { JOURNAL_IDS_CHUNK_SIZE, MAX_UNSUBMITTED_JOURNAL_ENTRIES } from '../constants';
+import { TransactionJournalService } from '../TransactionJournalService';
+
+jest.mock('expo-secure-store', () => {
+  const store = new Map<string, string>();
+  return {
+    store,
+    getItemAsync: jest.fn(async (key: string) => store.get(key) ?? null),
+    setItemAsync: jest.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+    deleteItemAsync: jest.fn(async (key: string) => {
+      store.delete(key);
+    }),
+  };
+});
+
+// The wallet SDK (and its native browser bridge) is not used by these tests
+jest.mock('@lazorkit/wallet-mobile-adapter', () => ({}));
+
+const store: Map<string, string> = (SecureStore as unknown as { store: Map<string, string> })
+  .store;
+
+const REQUEST: TransactionRequest = {
+  asset: 'sol',
+  recipientAddress: '3jeqd3kYDmGHxrGnhB1Ba6mV3uwHz1sHNMGZ6GsXHmPb',
+  amount: '0.1',
+  amountLamports: '100000000',
+  timestamp: 0,
+};
+
+/**
+ * Stored chunks of the journal id list, in order.
+ */
+function storedIdChunks(): string[][] {
+  const chunks: string[][] = [];
+  for (let index = 0; ; index++) {
+    const json = store.get(index === 0 ? 'JOURNAL_IDS' : `JOURNAL_IDS_${index}`);
+    if (!json) return chunks;
+    chunks.push(JSON.parse(json));
+  }
+}
+
+describe('TransactionJournalService', () => {
+  it('keeps submitted entries and drops only the oldest never submitted', async () => {
+    const submitted: string[] = [];
+    for (let i = 0; i < 120; i++) {
+      const entry = await TransactionJournalService.recordAttempt(REQUEST);
+      await TransactionJournalService.recordSubmission(entry.id, `sig${i}`);
+      submitted.push(entry.id);
+    }
+    const rejected: string[] = [];
+    for (let i = 0; i < MAX_UNSUBMITTED_JOURNAL_ENTRIES + 30; i++) {
+      const entry = await TransactionJournalService.recordAttempt(REQUEST);
+      await TransactionJournalService.recordFailure(entry.id, normalizeWalletError('cancelled'));
+      rejected.push(entry.id);
+    }
+
+    const entries = await TransactionJournalService.getEntries();
+    const ids = entries.map((entry) => entry.id).reverse();
+
+    expect(ids).toEqual([...submitted, ...rejected.slice(30)]);
+    expect(rejected.slice(0, 30).some((id) => store.has(`JOURNAL_${id}`))).toBe(false);
+
+    const chunks = storedIdChunks();
+    expect(chunks.length).toBe(Math.ceil(ids.length / JOURNAL_IDS_CHUNK_SIZE));
+    expect(chunks.every((chunk) => chunk.length <= JOURNAL_IDS_CHUNK_SIZE)).toBe(true);
+    expect(chunks.flat()).toEqual([...submitted, ...rejected.slice(30)]);
+  });
+});
@@ -0,0 +1,193 @@
+import {
+  SystemProgram,
+  TransactionExpiredBlockheightExceededError,
+  TransactionExpiredTimeoutError,
+} from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import type { WalletErrorCode } from '../../types';
+import {
+  InsufficientFundsError,
+  NormalizeErrorContext,
+  ProgramError,
+  UserCancelledError,
+  WalletError,
+  normalizeWalletError,
+} from '../errors';
+
+const TOKEN_PROGRAM = TOKEN_PROGRAM_ID.toBase58();
+const SYSTEM_PROGRAM = SystemProgram.programId.toBase58();
+const OTHER_PROGRAM = 'LazorkitProgram1111111111111111111111111111';
+
+/**
+ * One row of the mapping table.
+ */
+interface Case {
+  name: string;
+  error: unknown;
+  code: WalletErrorCode;
+  context?: NormalizeErrorContext;
+}
+
+/**
+ * Error with a name or code, as thrown by fetch() and network stacks.
+ */
+function namedError(message: string, fields: { name?: string; code?: string }): Error {
+  return Object.assign(new Error(message), fields);
+}
+
+/**
+ * Error logged by a program that failed with a custom error code.
+ */
+function customProgramError(programId: string, hexCode: string): Error {
+  return new Error(`Program ${programId} failed: custom program error: ${hexCode}`);
+}
+
+describe('normalizeWalletError', () => {
+  const cases: Case[] = [
+    // Typed errors
+    {
+      name: 'web3.js block height expiry',
+      error: new TransactionExpiredBlockheightExceededError('sig'),
+      code: 'BLOCKHASH_EXPIRED',
+    },
+    {
+      name: 'web3.js confirmation timeout',
+      error: new TransactionExpiredTimeoutError('sig', 30),
+      code: 'RPC_TIMEOUT',
+    },
+
+    // Name and code are checked before message text
+    {
+      name: 'fetch AbortError',
+      error: namedError('The operation was aborted', { name: 'AbortError' }),
+      code: 'RPC_TIMEOUT',
+    },
+    {
+      name: 'AbortSignal.timeout()',
+      error: namedError('signal timed out', { name: 'TimeoutError' }),
+      code: 'RPC_TIMEOUT',
+    },
+    {
+      name: 'connection reset',
+      error: namedError('socket hang up', { code: 'ECONNRESET' }),
+      code: 'RPC_TIMEOUT',
+    },
+    { name: 'aborted without a name', error: new Error('Aborted'), code: 'RPC_TIMEOUT' },
+
+    // Cancellation
+    {
+      name: 'dismissed browser',
+      error: new Error('Failed to open browser: cancel'),
+      code: 'USER_CANCELLED',
+    },
+    {
+      name: 'rejected passkey prompt',
+      error: new Error('User rejected the request'),
+      code: 'USER_CANCELLED',
+    },
+
+    // Expiry
+    {
+      name: 'blockhash not found',
+      error: new Error('Transaction simulation failed: Blockhash not found'),
+      code: 'BLOCKHASH_EXPIRED',
+    },
+    {
+      name: 'block height exceeded',
+      error: new Error('block height exceeded'),
+      code: 'BLOCKHASH_EXPIRED',
+    },
+
+    // Balance and rent
+    {
+      name: 'insufficient funds',
+      error: new Error('insufficient funds for transfer'),
+      code: 'INSUFFICIENT_FUNDS',
+    },
+    {
+      name: 'rent while creating the recipient account',
+      error: new Error('Transfer: insufficient lamports 10, need 2039280'),
+      code: 'PAYMASTER_REJECTED',
+      context: { createsRecipientAccount: true },
+    },
+
+    // Custom program errors are decoded for the program that failed
+    {
+      name: 'SPL Token 0x1',
+      error: customProgramError(TOKEN_PROGRAM, '0x1'),
+      code: 'INSUFFICIENT_FUNDS',
+    },
+    {
+      name: 'System Program 0x1',
+      error: customProgramError(SYSTEM_PROGRAM, '0x1'),
+      code: 'INSUFFICIENT_FUNDS',
+    },
+    {
+      name: 'SPL Token 0x9',
+      error: customProgramError(TOKEN_PROGRAM, '0x9'),
+      code: 'RECIPIENT_ATA_MISSING',
+    },
+    {
+      name: '0x1 from another program',
+      error: customProgramError(OTHER_PROGRAM, '0x1'),
+      code: 'PROGRAM_ERROR',
+    },
+    {
+      name: '0x1 without a program',
+      error: new Error('Error processing Instruction 0: custom program error: 0x1'),
+      code: 'PROGRAM_ERROR',
+    },
+
+    // Paymaster and RPC
+    {
+      name: 'rate limited',
+      error: new Error('RPC request failed with status 429'),
+      code: 'RPC_TIMEOUT',
+    },
+    {
+      name: 'paymaster auth failure',
+      error: new Error('RPC request failed with status 401'),
+      code: 'PAYMASTER_REJECTED',
+    },
+    { name: 'network failure', error: new Error('Network request failed'), code: 'RPC_TIMEOUT' },
+    {
+      name: 'fee payer',
+      error: new Error('Fee payer could not sign'),
+      code: 'PAYMASTER_REJECTED',
+    },
+
+    // Fallbacks
+    { name: 'unrecognized message', error: new Error('Something odd happened'), code: 'UNKNOWN' },
+    { name: 'string value', error: 'boom', code: 'UNKNOWN' },
+    { name: 'undefined', error: undefined, code: 'UNKNOWN' },
+  ];
+
+  it.each(cases)('maps $name to $code', ({ error, code, context }) => {
+    const walletError = normalizeWalletError(error, context);
+
+    expect(walletError).toBeInstanceOf(WalletError);
+    expect(walletError.code).toBe(code);
+    expect(walletError.cause).toBe(error);
+  });
+
+  it('returns WalletErrors unchanged', () => {
+    const error = new UserCancelledError();
+
+    expect(normalizeWalletError(error)).toBe(error);
+  });
+
+  it('names the asset in insufficient funds messages', () => {
+    const walletError = normalizeWalletError(customProgramError(TOKEN_PROGRAM, '0x1'), {
+      symbol: 'USDC',
+    });
+
+    expect(walletError).toBeInstanceOf(InsufficientFundsError);
+    expect(walletError.message).toBe("You don't have enough USDC to complete this transfer");
+  });
+
+  it('keeps undecoded program errors as ProgramError', () => {
+    const walletError = normalizeWalletError(customProgramError(OTHER_PROGRAM, '0x1'));
+
+    expect(walletError).toBeInstanceOf(ProgramError);
+  });
+});
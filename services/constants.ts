@@ -1,4 +1,5 @@
 import { PublicKey } from '@solana/web3.js';
+import type { NetworkId, NetworkProfile, TokenInfo } from '../types';
 
 /**
  * Design Tokens for Passkey Integration App
@@ -117,27 +118,163 @@ export const BorderRadius = {
 };
 
 /**
- * USDC SPL Token mint address on Solana Devnet.
+ * Network Profile Registry
  *
- * This is the official Devnet USDC token mint address used for all token operations.
- * On mainnet, this would be replaced with the mainnet USDC mint address.
+ * One entry per supported Solana cluster. Each profile holds everything that
+ * differs between clusters: RPC endpoint, USDC mint, Lazorkit Paymaster/Portal
+ * URLs and the Solana Explorer cluster parameter.
  *
- * Address: Gh9ZwEmdLJ8DscKNTkTqPbNwLNNBjuSzaG9Vp2KGtKJr
+ * Values without a public default (mainnet/testnet paymaster, testnet USDC mint)
+ * are read from EXPO_PUBLIC_* environment variables. Profiles missing any of
+ * them are shown as "not configured" and cannot be selected.
+ *
+ * Rate Limit: Public RPC endpoints allow ~40 requests per 10 seconds per IP.
+ * For production use, consider using a paid RPC provider (QuickNode, Alchemy, Helius)
  */
-export const USDC_MINT_DEVNET = new PublicKey(
-  'Gh9ZwEmdLJ8DscKNTkTqPbNwLNNBjuSzaG9Vp2KGtKJr'
-);
+export const NETWORK_PROFILES: Record<NetworkId, NetworkProfile> = {
+  devnet: {
+    id: 'devnet',
+    label: 'Devnet',
+    rpcUrl: process.env.EXPO_PUBLIC_DEVNET_RPC_URL ?? 'https://api.devnet.solana.com',
+    usdcMint: 'Gh9ZwEmdLJ8DscKNTkTqPbNwLNNBjuSzaG9Vp2KGtKJr',
+    paymasterUrl: 'https://kora.devnet.lazorkit.com',
+    portalUrl: 'https://portal.lazor.sh',
+    explorerCluster: 'devnet',
+    clusterSimulation: 'devnet',
+  },
+  testnet: {
+    id: 'testnet',
+    label: 'Testnet',
+    rpcUrl: process.env.EXPO_PUBLIC_TESTNET_RPC_URL ?? 'https://api.testnet.solana.com',
+    usdcMint: process.env.EXPO_PUBLIC_TESTNET_USDC_MINT ?? '',
+    paymasterUrl: process.env.EXPO_PUBLIC_TESTNET_PAYMASTER_URL ?? '',
+    portalUrl: 'https://portal.lazor.sh',
+    explorerCluster: 'testnet',
+    clusterSimulation: 'devnet',
+  },
+  'mainnet-beta': {
+    id: 'mainnet-beta',
+    label: 'Mainnet Beta',
+    rpcUrl: process.env.EXPO_PUBLIC_MAINNET_RPC_URL ?? 'https://api.mainnet-beta.solana.com',
+    usdcMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+    paymasterUrl: process.env.EXPO_PUBLIC_MAINNET_PAYMASTER_URL ?? '',
+    portalUrl: 'https://portal.lazor.sh',
+    explorerCluster: null, // Explorer defaults to mainnet-beta
+    clusterSimulation: 'mainnet',
+  },
+  localnet: {
+    id: 'localnet',
+    label: 'Localnet',
+    // Android emulator reaches the host machine at 10.0.2.2 instead of 127.0.0.1
+    rpcUrl: process.env.EXPO_PUBLIC_LOCALNET_RPC_URL ?? 'http://127.0.0.1:8899',
+    // Defaults to the Devnet USDC mint, cloned with: solana-test-validator --url devnet --clone <mint>
+    usdcMint:
+      process.env.EXPO_PUBLIC_LOCALNET_USDC_MINT ?? 'Gh9ZwEmdLJ8DscKNTkTqPbNwLNNBjuSzaG9Vp2KGtKJr',
+    paymasterUrl: process.env.EXPO_PUBLIC_LOCALNET_PAYMASTER_URL ?? 'http://127.0.0.1:8080',
+    portalUrl: 'https://portal.lazor.sh',
+    explorerCluster: `custom&customUrl=${encodeURIComponent(
+      process.env.EXPO_PUBLIC_LOCALNET_RPC_URL ?? 'http://127.0.0.1:8899'
+    )}`,
+    clusterSimulation: 'devnet',
+  },
+};
+
+/**
+ * Build the USDC token entry for a network profile.
+ * USDC uses the classic SPL Token program and 6 decimals on every cluster.
+ */
+function usdcToken(profile: NetworkProfile): TokenInfo {
+  return {
+    symbol: 'USDC',
+    name: 'USD Coin',
+    mint: profile.usdcMint,
+    decimals: 6,
+    tokenProgram: 'token',
+  };
+}
 
 /**
- * Solana Devnet RPC endpoint URL.
+ * Token Registry
  *
- * Public RPC endpoint for connecting to Solana Devnet blockchain.
- * Used for querying account data, sending transactions, and confirming transaction status.
+ * Transferable SPL tokens per network. USDC is always listed first and is the
+ * default selection on the transfer form. Token-2022 mints (e.g. PYUSD) are
+ * marked with tokenProgram: 'token-2022' so transfers target the right program.
  *
- * Rate Limit: ~40 requests per 10 seconds per IP (public endpoint)
- * For production use, consider using a paid RPC provider (QuickNode, Alchemy, Helius)
+ * Entries with an empty mint (not configured for this build) are hidden by
+ * NetworkService.getTokens().
+ */
+export const TOKEN_REGISTRY: Record<NetworkId, TokenInfo[]> = {
+  devnet: [
+    usdcToken(NETWORK_PROFILES.devnet),
+    {
+      symbol: 'PYUSD',
+      name: 'PayPal USD',
+      mint: 'CXk2AMBfi3TwaEL2468s6zP8xq9NxTXjp9gjMgzeUynM',
+      decimals: 6,
+      tokenProgram: 'token-2022',
+    },
+  ],
+  testnet: [usdcToken(NETWORK_PROFILES.testnet)],
+  'mainnet-beta': [
+    usdcToken(NETWORK_PROFILES['mainnet-beta']),
+    {
+      symbol: 'USDT',
+      name: 'Tether USD',
+      mint: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
+      decimals: 6,
+      tokenProgram: 'token',
+    },
+    {
+      symbol: 'PYUSD',
+      name: 'PayPal USD',
+      mint: '2b1kV6DkPAnxd5ixfnxCpjxmKwqjjaYmCZfHsFu24GXo',
+      decimals: 6,
+      tokenProgram: 'token-2022',
+    },
+  ],
+  localnet: [usdcToken(NETWORK_PROFILES.localnet)],
+};
+
+/**
+ * Native SOL display and precision metadata.
+ *
+ * SOL is not an SPL token, so it is not in TOKEN_REGISTRY. The transfer form and
+ * confirm screen use this entry wherever a token's symbol/decimals are expected.
+ * 1 SOL = 1,000,000,000 lamports (9 decimals).
+ */
+export const NATIVE_SOL: Pick<TokenInfo, 'symbol' | 'name' | 'decimals'> = {
+  symbol: 'SOL',
+  name: 'Solana',
+  decimals: 9,
+};
+
+/**
+ * Type guard for network profile identifiers.
+ *
+ * Used when reading the persisted selection or environment overrides,
+ * both of which are untyped strings.
+ *
+ * @param value - Value to check
+ * @returns true if value is a known NetworkId
+ */
+export function isNetworkId(value: unknown): value is NetworkId {
+  return (
+    value === 'devnet' ||
+    value === 'testnet' ||
+    value === 'mainnet-beta' ||
+    value === 'localnet'
+  );
+}
+
+/**
+ * Identifier of the network profile selected when nothing is persisted yet.
+ *
+ * QA builds can override this with EXPO_PUBLIC_DEFAULT_NETWORK (e.g. "localnet")
+ * so a fresh install points at a local solana-test-validator.
  */
-export const SOLANA_RPC_URL = 'https://api.devnet.solana.com';
+export const DEFAULT_NETWORK_ID: NetworkId = isNetworkId(process.env.EXPO_PUBLIC_DEFAULT_NETWORK)
+  ? process.env.EXPO_PUBLIC_DEFAULT_NETWORK
+  : 'devnet';
 
 /**
  * Solana Explorer base URL.
@@ -146,5 +283,110 @@ export const SOLANA_RPC_URL = 'https://api.devnet.solana.com';
  * Append transaction signature and cluster parameter to create full URL.
  *
  * Example: https://explorer.solana.com/tx/SIGNATURE?cluster=devnet
+ * Use SolanaService.getExplorerUrl() to build links for the active network profile.
  */
 export const SOLANA_EXPLORER_URL = 'https://explorer.solana.com';
+
+/**
+ * SPL Memo program ID (v2).
+ *
+ * Used to attach payment references/notes to transfers so they are recorded on-chain.
+ * Same address on every cluster.
+ *
+ * Address: MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr
+ */
+export const MEMO_PROGRAM_ID = new PublicKey(
+  'MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr'
+);
+
+/**
+ * How long a payment request stays open before it is marked expired (24 hours).
+ * A payment that arrives later is not matched to the request.
+ */
+export const PAYMENT_REQUEST_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Interval for polling outstanding payment requests while the Payment Requests
+ * screen is open (5 seconds).
+ */
+export const PAYMENT_REQUEST_POLL_INTERVAL_MS = 5000;
+
+/**
+ * Interval between signature status polls while tracking a confirmation (1 second).
+ */
+export const CONFIRMATION_POLL_INTERVAL_MS = 1000;
+
+/**
+ * Stop polling a pending transaction after this long (5 minutes).
+ * It stays persisted and is checked again on the next resume.
+ */
+export const CONFIRMATION_TRACKING_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Number of journal entries kept that never reached the chain (signing or
+ * rejected); the oldest of those are dropped beyond this. Entries with a
+ * signature are never dropped. At least MAX_BATCH_RECIPIENTS, so a batch
+ * being signed keeps all of its entries.
+ */
+export const MAX_UNSUBMITTED_JOURNAL_ENTRIES = 100;
+
+/**
+ * Number of entry ids stored per SecureStore value of the journal id list.
+ * Keeps each chunk of the list within the SecureStore value size limit.
+ */
+export const JOURNAL_IDS_CHUNK_SIZE = 50;
+
+/**
+ * Maximum number of recipients in one batch payout.
+ */
+export const MAX_BATCH_RECIPIENTS = 100;
+
+/**
+ * Number of payment requests kept per wallet; the oldest are dropped beyond this.
+ * Keeps the list of request references within the SecureStore value size limit.
+ */
+export const MAX_PAYMENT_REQUESTS = 50;
+
+/**
+ * Number of run outcomes kept per scheduled transfer; older ones are dropped.
+ * Keeps each schedule within the SecureStore value size limit.
+ */
+export const MAX_SCHEDULE_RUNS = 10;
+
+/**
+ * Maximum number of addresses in each spending policy list (allowlist, denylist).
+ * Keeps each list within the SecureStore value size limit.
+ */
+export const MAX_POLICY_ADDRESSES = 30;
+
+/**
+ * Background time before the app locks again, offered on the Security screen.
+ */
+export const AUTO_LOCK_OPTIONS = [
+  { label: '30 seconds', ms: 30 * 1000 },
+  { label: '1 minute', ms: 60 * 1000 },
+  { label: '5 minutes', ms: 5 * 60 * 1000 },
+  { label: '15 minutes', ms: 15 * 60 * 1000 },
+];
+
+/**
+ * Inactivity after which a wallet session expires (watch mode until the passkey
+ * reconnects), offered on the Security screen.
+ */
+export const SESSION_IDLE_TIMEOUT_OPTIONS = [
+  { label: '1 day', ms: 24 * 60 * 60 * 1000 },
+  { label: '7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  { label: '30 days', ms: 30 * 24 * 60 * 60 * 1000 },
+  { label: '90 days', ms: 90 * 24 * 60 * 60 * 1000 },
+];
+
+/**
+ * Session age after which the passkey must reconnect however often the wallet
+ * is used, offered on the Security screen (null = no limit).
+ */
+export const SESSION_MAX_AGE_OPTIONS: { label: string; ms: number | null }[] = [
+  { label: '7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  { label: '30 days', ms: 30 * 24 * 60 * 60 * 1000 },
+  { label: '90 days', ms: 90 * 24 * 60 * 60 * 1000 },
+  { label: 'No limit', ms: null },
+];
@@ -0,0 +1,306 @@
+import {
+  SendTransactionError,
+  TransactionExpiredBlockheightExceededError,
+  TransactionExpiredTimeoutError,
+} from '@solana/web3.js';
+import type { WalletErrorCode } from '../types';
+import { getProgramErrorCode } from '../utils/SimulationUtils';
+
+/**
+ * Wallet Errors
+ *
+ * Typed errors for wallet and transaction failures. Each error carries a
+ * WalletErrorCode; screens render from the code and show the message as-is.
+ *
+ * Services throw the specific subclasses. Errors from the Lazorkit SDK, the
+ * paymaster, the RPC node or on-chain programs are converted with
+ * normalizeWalletError() at the screen boundary.
+ *
+ * Exports:
+ * - WalletError and one subclass per code
+ * - createWalletError(): Build the subclass for a code
+ * - normalizeWalletError(): Map any thrown value to a WalletError
+ */
+
+/**
+ * Default user-facing message for each code.
+ */
+const DEFAULT_MESSAGES: Record<WalletErrorCode, string> = {
+  USER_CANCELLED: 'Transaction signing was cancelled',
+  RECIPIENT_ATA_MISSING: 'The recipient has no token account for this token yet',
+  RENT_EXEMPT_MINIMUM: 'Amount is below the minimum balance for a new Solana account',
+  INSUFFICIENT_FUNDS: "You don't have enough funds to complete this transfer",
+  PAYMASTER_REJECTED: 'Transaction could not be sponsored. Please try again later.',
+  RPC_TIMEOUT: 'Network error. Please check your connection and try again.',
+  BLOCKHASH_EXPIRED: 'The transaction expired before it was confirmed. Please try again.',
+  PROGRAM_ERROR: 'The transaction was rejected by an on-chain program',
+  UNKNOWN: 'Transaction failed. Please try again.',
+};
+
+/**
+ * Base class for all wallet and transaction errors.
+ *
+ * @example
+ * try {
+ *   await SolanaService.buildTransfer(request, sender);
+ * } catch (error) {
+ *   const walletError = normalizeWalletError(error);
+ *   if (walletError.code === 'RECIPIENT_ATA_MISSING') { ... }
+ * }
+ */
+export class WalletError extends Error {
+  /** Error code screens render from */
+  readonly code: WalletErrorCode;
+
+  constructor(code: WalletErrorCode, message?: string, cause?: unknown) {
+    super(message || DEFAULT_MESSAGES[code]);
+    this.name = 'WalletError';
+    this.code = code;
+    this.cause = cause;
+    // Keep instanceof working when classes are compiled to ES5 functions
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/** The user dismissed the passkey/biometric prompt or the signing browser. */
+export class UserCancelledError extends WalletError {
+  constructor(message?: string, cause?: unknown) {
+    super('USER_CANCELLED', message, cause);
+    this.name = 'UserCancelledError';
+  }
+}
+
+/** The recipient has no Associated Token Account for the mint. */
+export class RecipientAccountMissingError extends WalletError {
+  constructor(message?: string, cause?: unknown) {
+    super('RECIPIENT_ATA_MISSING', message, cause);
+    this.name = 'RecipientAccountMissingError';
+  }
+}
+
+/** A SOL transfer would create an account below the rent-exempt minimum. */
+export class RentExemptMinimumError extends WalletError {
+  constructor(message?: string, cause?: unknown) {
+    super('RENT_EXEMPT_MINIMUM', message, cause);
+    this.name = 'RentExemptMinimumError';
+  }
+}
+
+/** The sender's balance is too low for the transfer. */
+export class InsufficientFundsError extends WalletError {
+  constructor(message?: string, cause?: unknown) {
+    super('INSUFFICIENT_FUNDS', message, cause);
+    this.name = 'InsufficientFundsError';
+  }
+}
+
+/** The paymaster refused to sponsor (or could not sign) the transaction. */
+export class PaymasterRejectedError extends WalletError {
+  constructor(message?: string, cause?: unknown) {
+    super('PAYMASTER_REJECTED', message, cause);
+    this.name = 'PaymasterRejectedError';
+  }
+}
+
+/** An RPC or network request failed or timed out. */
+export class RpcTimeoutError extends WalletError {
+  constructor(message?: string, cause?: unknown) {
+    super('RPC_TIMEOUT', message, cause);
+    this.name = 'RpcTimeoutError';
+  }
+}
+
+/** The transaction's blockhash expired before it was confirmed. */
+export class BlockhashExpiredError extends WalletError {
+  constructor(message?: string, cause?: unknown) {
+    super('BLOCKHASH_EXPIRED', message, cause);
+    this.name = 'BlockhashExpiredError';
+  }
+}
+
+/** An on-chain program returned an error. */
+export class ProgramError extends WalletError {
+  /** Program logs, when the error came from a simulation or send */
+  readonly logs: string[];
+
+  constructor(message?: string, cause?: unknown, logs: string[] = []) {
+    super('PROGRAM_ERROR', message, cause);
+    this.name = 'ProgramError';
+    this.logs = logs;
+  }
+}
+
+/**
+ * Error names of aborted or timed-out requests (fetch with an AbortSignal).
+ */
+const NETWORK_ERROR_NAMES = ['AbortError', 'TimeoutError'];
+
+/**
+ * Error codes of failed network connections (Node-style `error.code`).
+ */
+const NETWORK_ERROR_CODES = ['ETIMEDOUT', 'ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+
+/**
+ * Subclass constructor for each code ('UNKNOWN' uses WalletError itself).
+ */
+const ERROR_CLASSES: Record<
+  Exclude<WalletErrorCode, 'UNKNOWN'>,
+  new (message?: string, cause?: unknown) => WalletError
+> = {
+  USER_CANCELLED: UserCancelledError,
+  RECIPIENT_ATA_MISSING: RecipientAccountMissingError,
+  RENT_EXEMPT_MINIMUM: RentExemptMinimumError,
+  INSUFFICIENT_FUNDS: InsufficientFundsError,
+  PAYMASTER_REJECTED: PaymasterRejectedError,
+  RPC_TIMEOUT: RpcTimeoutError,
+  BLOCKHASH_EXPIRED: BlockhashExpiredError,
+  PROGRAM_ERROR: ProgramError,
+};
+
+/**
+ * Build the WalletError subclass for a code.
+ *
+ * @param code - Error code
+ * @param message - User-facing message (default: the code's default message)
+ * @param cause - Original error, if any
+ * @returns WalletError instance of the matching subclass
+ *
+ * @example
+ * throw createWalletError(simulation.code ?? 'PROGRAM_ERROR', simulation.reason);
+ */
+export function createWalletError(
+  code: WalletErrorCode,
+  message?: string,
+  cause?: unknown
+): WalletError {
+  return code === 'UNKNOWN'
+    ? new WalletError(code, message, cause)
+    : new ERROR_CLASSES[code](message, cause);
+}
+
+/**
+ * Context used by normalizeWalletError() to pick codes and messages.
+ */
+export interface NormalizeErrorContext {
+  /** Symbol of the transferred asset, used in INSUFFICIENT_FUNDS messages (e.g. 'USDC') */
+  symbol?: string;
+  /**
+   * True when the transaction creates the recipient's token account.
+   * Rent/lamport errors then mean the paymaster would not sponsor the rent.
+   */
+  createsRecipientAccount?: boolean;
+}
+
+/**
+ * Map any thrown value to a WalletError.
+ *
+ * WalletErrors are returned unchanged. Other errors are classified from their
+ * type first (web3.js expiry and send errors), then their name and code
+ * (aborted requests are network failures, not cancellations), then from the
+ * SDK, paymaster and RPC message text. This is the only place that inspects
+ * message text. Custom program errors are decoded only for the program that
+ * logged them (see getProgramErrorCode()).
+ *
+ * @param error - Value caught from the SDK, paymaster, RPC or a service
+ * @param context - Optional asset symbol and account-creation flag
+ * @returns WalletError with a code and user-facing message
+ *
+ * @example
+ * try {
+ *   await wallet.signAndSendTransaction(payload, options);
+ * } catch (error) {
+ *   const walletError = normalizeWalletError(error, { symbol: 'USDC' });
+ *   // walletError.code === 'USER_CANCELLED' when the passkey prompt was dismissed
+ * }
+ */
+export function normalizeWalletError(
+  error: unknown,
+  context: NormalizeErrorContext = {}
+): WalletError {
+  if (error instanceof WalletError) {
+    return error;
+  }
+
+  if (error instanceof TransactionExpiredBlockheightExceededError) {
+    return new BlockhashExpiredError(undefined, error);
+  }
+  if (error instanceof TransactionExpiredTimeoutError) {
+    return new RpcTimeoutError(
+      'Confirmation timed out. The transaction may still land; check the explorer.',
+      error
+    );
+  }
+
+  // fetch() timeouts surface as AbortError; they are network failures, not user cancels
+  const { name, code } = (error ?? {}) as { name?: unknown; code?: unknown };
+  if (
+    (typeof name === 'string' && NETWORK_ERROR_NAMES.includes(name)) ||
+    (typeof code === 'string' && NETWORK_ERROR_CODES.includes(code))
+  ) {
+    return new RpcTimeoutError(undefined, error);
+  }
+
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  const logs = error instanceof SendTransactionError ? error.logs ?? [] : [];
+  const rawText = `${message}\n${logs.join('\n')}`;
+  const text = rawText.toLowerCase();
+  const insufficientMessage = context.symbol
+    ? `You don't have enough ${context.symbol} to complete this transfer`
+    : undefined;
+
+  // Lazorkit SDK: dismissed browser/passkey sheet ("Failed to open browser: cancel")
+  if (/user rejected|cancel|dismiss/.test(text)) {
+    return new UserCancelledError(undefined, error);
+  }
+
+  if (/block ?height exceeded|blockhash not found|blockhashnotfound|expired/.test(text)) {
+    return new BlockhashExpiredError(undefined, error);
+  }
+
+  // Account creation rent is paid by the smart wallet and must be sponsored
+  if (
+    context.createsRecipientAccount &&
+    /paymaster|rejected|rent|insufficient lamports/.test(text)
+  ) {
+    return new PaymasterRejectedError(undefined, error);
+  }
+
+  if (/insufficient (funds|lamports|balance)/.test(text)) {
+    return new InsufficientFundsError(insufficientMessage, error);
+  }
+
+  // "Program <address> failed: custom program error: 0x1" (base58, so matched before lowercasing)
+  const customError = rawText.match(/Program (\w+) failed: custom program error: 0x([0-9a-f]+)/i);
+  if (customError) {
+    const programCode = getProgramErrorCode(customError[1], parseInt(customError[2], 16));
+    if (programCode === 'INSUFFICIENT_FUNDS') {
+      return new InsufficientFundsError(insufficientMessage, error);
+    }
+    if (programCode !== 'PROGRAM_ERROR') {
+      return createWalletError(programCode, undefined, error);
+    }
+  }
+
+  // Paymaster JSON-RPC: "RPC request failed with status 4xx" (auth, policy)
+  const statusMatch = message.match(/request failed with status (\d{3})/i);
+  if (statusMatch) {
+    const status = Number(statusMatch[1]);
+    return status === 408 || status === 429 || status >= 500
+      ? new RpcTimeoutError(undefined, error)
+      : new PaymasterRejectedError(undefined, error);
+  }
+
+  if (/timeout|timed out|network|failed to fetch|econn|socket|aborted/.test(text)) {
+    return new RpcTimeoutError(undefined, error);
+  }
+
+  if (/custom program error|instructionerror|program failed|simulation failed/.test(text)) {
+    return new ProgramError(undefined, error, logs);
+  }
+
+  if (/paymaster|fee payer|sponsor|failed to sign and execute|rpc error:|rejected/.test(text)) {
+    return new PaymasterRejectedError(undefined, error);
+  }
+
+  return new WalletError('UNKNOWN', undefined, error);
+}
@@ -1,48 +1,113 @@
 /**
  * Wallet session data model for persistent authentication.
  * Stored in Expo SecureStore for encrypted local storage.
+ *
+ * Identity fields are copied from the LazorKit SDK's WalletInfo after connect,
+ * so the session always names the passkey credential and smart wallet that sign.
  */
 export interface WalletSession {
   /**
-   * Solana wallet public address (base58-encoded, 32-44 characters).
-   * Retrieved from wallet.smartWalletPubkey.toString() after connection.
+   * Session schema version. Sessions from an older schema are discarded on load
+   * (version 1 had no version field and a placeholder credential ID).
+   */
+  version: number;
+
+  /**
+   * Smart wallet address (base58-encoded, 32-44 characters).
+   * Copied from WalletInfo.smartWallet; equals wallet.smartWalletPubkey.toString().
    * Example: "3jeq5nuZ3a89zpmDCvvMfxs3YJYG1jFtonrgkjyHrdu"
    */
   publicKey: string;
 
   /**
-   * WebAuthn credential ID from Lazorkit Portal.
-   * For MVP, can use placeholder like "lazorkit" if SDK doesn't expose this directly.
+   * WebAuthn credential ID of the passkey (base64), from WalletInfo.credentialId.
    */
   credentialId: string;
 
   /**
-   * Unix timestamp (milliseconds) when wallet was created.
-   * Used for session age tracking (if implementing expiration).
+   * Compressed secp256r1 public key of the passkey (33 bytes), from WalletInfo.passkeyPubkey.
+   */
+  passkeyPubkey: number[];
+
+  /**
+   * Unix timestamp (milliseconds) when the passkey last connected this wallet.
+   * Start of the absolute session age (SessionExpiryPolicy.absoluteMaxAgeMs).
    */
   createdAt: number;
 
   /**
-   * Unix timestamp (milliseconds) of last app launch.
-   * Updated each app launch, used for session age tracking.
+   * Unix timestamp (milliseconds) of the last use (launch, switch or return to
+   * the foreground) with a valid session. Start of the idle timeout
+   * (SessionExpiryPolicy.idleTimeoutMs); never updated once the session expired.
    */
   lastAccessedAt: number;
 
   /**
-   * Optional device identifier for multi-device awareness.
-   * Can use Device.modelName from expo-device if desired.
-   * Example: "iPhone 14 Pro"
+   * Device the session was created on, for multi-device awareness.
+   * Operating system and version from React Native's Platform module.
+   * Example: "ios 17.4"
    */
   deviceInfo?: string;
 }
 
 /**
- * Transaction request data model for USDC transfers.
- * Passed from Transfer Form to Transaction Confirm screen via navigation params.
- *
- * Used to build Solana SPL Token transfer transactions with all necessary details.
+ * Result of comparing a stored session with the wallet connected in the SDK.
+ * - 'match': same smart wallet and passkey credential
+ * - 'mismatch': the stored session belongs to a different wallet (stale)
+ * - 'no-session': nothing stored to compare
+ * - 'disconnected': the SDK has no connected wallet to compare
+ */
+export type SessionIdentityCheck = 'match' | 'mismatch' | 'no-session' | 'disconnected';
+
+/**
+ * How the stored session was restored on launch.
+ * - 'none': no session; the Welcome screen offers wallet creation
+ * - 'connected': the SDK wallet is restored and can sign
+ * - 'watch': read-only watch mode for the stored address; signing needs a reconnect
+ */
+export type SessionStatus = 'none' | 'connected' | 'watch';
+
+/**
+ * Wallet registered on this device (wallet registry entry).
+ */
+export interface WalletAccount {
+  /**
+   * Registry identifier. Also scopes the wallet's contacts, journal and settings
+   * in SecureStore (see WalletService.getStorageKey()).
+   */
+  id: string;
+
+  /**
+   * Name chosen by the user, shown in the wallet switcher.
+   * Example: "Test wallet"
+   */
+  nickname: string;
+
+  /**
+   * Session of the wallet (passkey credential and smart wallet identity).
+   */
+  session: WalletSession;
+}
+
+/**
+ * App-wide session state, restored by the root layout and kept in sync by WalletService.
+ */
+export interface SessionState {
+  /**
+   * Restore status of the active wallet.
+   */
+  status: SessionStatus;
+
+  /**
+   * Active wallet, or null if no wallet is registered.
+   */
+  account: WalletAccount | null;
+}
+
+/**
+ * Fields shared by every transaction request, whatever asset is transferred.
  */
-export interface TransactionRequest {
+interface TransactionRequestBase {
   /**
    * Destination Solana address (base58-encoded).
    * Must be a valid Solana public key.
@@ -51,24 +116,45 @@ export interface TransactionRequest {
   recipientAddress: string;
 
   /**
-   * USDC amount in decimal format.
-   * Example: 10.50 represents 10.50 USDC
+   * Asset amount as a normalized decimal string (display only).
+   * Kept as a string so no precision is lost to floating point.
+   * Example: "10.5" represents 10.50 USDC (or 10.5 SOL for native transfers)
    */
-  amount: number;
+  amount: string;
 
   /**
-   * USDC amount in lamports (smallest unit).
-   * Calculated by multiplying amount by 1,000,000 (USDC has 6 decimals).
-   * Example: 10.50 USDC = 10,500,000 lamports
+   * Asset amount in its smallest unit (token base units, or lamports for SOL),
+   * as a decimal integer string. Convert with BigInt() before use; stored as a
+   * string because route params are JSON, which cannot encode bigint.
+   * Produced by formatTokenAmountToLamports() from the form input.
+   * Example: "10500000" = 10.50 USDC (USDC has 6 decimals)
    */
-  amountLamports: number;
+  amountLamports: string;
 
   /**
    * Optional transaction memo/note.
-   * Can be used for transaction description or reference.
+   * Recorded on-chain with the SPL Memo program (max MAX_MEMO_BYTES UTF-8 bytes).
+   * Example: "Invoice #1042"
    */
   memo?: string;
 
+  /**
+   * Solana Pay reference keys (base58), from a scanned or deep-linked payment request.
+   * Added as read-only, non-signer account keys on the transfer instruction so the
+   * merchant can find the payment with getSignaturesForAddress(reference).
+   */
+  references?: string[];
+
+  /**
+   * Solana Pay label: who is requesting the payment (e.g. merchant name). Display only.
+   */
+  label?: string;
+
+  /**
+   * Solana Pay message: what the payment is for. Display only (not recorded on-chain).
+   */
+  message?: string;
+
   /**
    * Unix timestamp (milliseconds) when transaction was initiated.
    * Used for transaction tracking and debugging.
@@ -76,11 +162,56 @@ export interface TransactionRequest {
   timestamp: number;
 }
 
+/**
+ * Transaction request for SPL token transfers (USDC by default).
+ * Built by SolanaService.buildTokenTransfer().
+ */
+export interface SPLTransferRequest extends TransactionRequestBase {
+  /**
+   * Asset discriminator: SPL Token / Token-2022 transfer.
+   */
+  asset: 'spl-token';
+
+  /**
+   * Token being transferred (from the token registry of the active network).
+   */
+  token: TokenInfo;
+
+  /**
+   * Opt-in: create the recipient's Associated Token Account if it does not exist.
+   * Adds an idempotent create instruction before the transfer. The smart wallet pays
+   * the token account rent, which the paymaster may refuse to sponsor.
+   */
+  createRecipientAccount?: boolean;
+}
+
+/**
+ * Transaction request for native SOL transfers.
+ * Built by SolanaService.buildSOLTransfer().
+ */
+export interface SOLTransferRequest extends TransactionRequestBase {
+  /**
+   * Asset discriminator: System Program transfer of native SOL.
+   */
+  asset: 'sol';
+}
+
+/**
+ * Transaction request data model for SPL token or native SOL transfers.
+ * Passed from Transfer Form to Transaction Confirm screen via navigation params.
+ *
+ * Narrow on `asset` to reach asset-specific fields:
+ * - 'spl-token': SPLTransferRequest (token, createRecipientAccount)
+ * - 'sol': SOLTransferRequest
+ */
+export type TransactionRequest = SPLTransferRequest | SOLTransferRequest;
+
 /**
  * Transaction status data model for tracking blockchain transaction lifecycle.
- * Returned by SolanaService.confirmTransaction() and used to update UI state.
+ * Returned by SolanaService.getConfirmationStatus() and reported by
+ * ConfirmationService as the transaction progresses.
  *
- * Tracks transaction from submission through confirmation or failure.
+ * Tracks transaction from submission through finalization, failure or expiry.
  */
 export interface TransactionStatus {
   /**
@@ -92,17 +223,25 @@ export interface TransactionStatus {
 
   /**
    * Current transaction state.
-   * - 'pending': Transaction submitted, waiting for confirmation
-   * - 'confirmed': Transaction confirmed on blockchain (32 confirmations)
-   * - 'failed': Transaction failed or rejected
+   * - 'pending': Submitted, not seen by the cluster yet
+   * - 'processed': Included in a block (may still be rolled back)
+   * - 'confirmed': Voted on by a supermajority of the cluster
+   * - 'finalized': Rooted; cannot be rolled back
+   * - 'failed': Landed on-chain but an instruction failed (fee may be charged)
+   * - 'expired': Blockhash expired before the transaction landed; nothing happened on-chain
    */
-  status: 'pending' | 'confirmed' | 'failed';
+  status: 'pending' | 'processed' | 'confirmed' | 'finalized' | 'failed' | 'expired';
 
   /**
-   * Number of confirmations received from blockchain.
-   * 32 confirmations = 'confirmed' commitment level (~15-20 seconds).
+   * Number of blocks confirmed on top of the transaction's block, as reported by the RPC.
+   * 0 while pending or just processed; null once finalized (rooted).
    */
-  confirmations: number;
+  confirmations: number | null;
+
+  /**
+   * Slot the transaction landed in (undefined while pending or expired).
+   */
+  slot?: number;
 
   /**
    * Error message if transaction failed.
@@ -110,9 +249,15 @@ export interface TransactionStatus {
    */
   error?: string;
 
+  /**
+   * Error code if transaction failed (e.g. 'PROGRAM_ERROR', 'BLOCKHASH_EXPIRED').
+   * Screens choose their copy from this code.
+   */
+  errorCode?: WalletErrorCode;
+
   /**
    * Solana Explorer URL for viewing transaction details.
-   * Includes cluster parameter for Devnet.
+   * Includes cluster parameter for the active network profile.
    * Example: "https://explorer.solana.com/tx/5VERv8...?cluster=devnet"
    */
   explorerUrl?: string;
@@ -124,8 +269,1060 @@ export interface TransactionStatus {
   submittedAt: number;
 
   /**
-   * Unix timestamp (milliseconds) when transaction was confirmed.
-   * Undefined if transaction is pending or failed.
+   * Unix timestamp (milliseconds) when transaction was first seen as confirmed.
+   * Undefined if transaction is pending, failed or expired.
+   */
+  confirmedAt?: number;
+
+  /**
+   * Unix timestamp (milliseconds) when transaction was first seen as finalized.
+   */
+  finalizedAt?: number;
+}
+
+/**
+ * A submitted transaction whose confirmation is still being tracked.
+ * Persisted by ConfirmationService so tracking resumes after an app restart.
+ */
+export interface PendingTransaction {
+  /**
+   * Transaction signature (base58).
+   */
+  signature: string;
+
+  /**
+   * Network the transaction was sent to. Resumed only while that network is
+   * active, but always checked against this network's RPC.
+   */
+  networkId: NetworkId;
+
+  /**
+   * Registry id of the wallet that sent the transaction (missing without an
+   * active wallet). Its pending list and journal receive the status updates,
+   * even after a switch to another wallet (see WalletService.getStorageKey()).
+   */
+  walletId?: string;
+
+  /**
+   * Unix timestamp (milliseconds) when signAndSendTransaction() returned the signature.
+   */
+  submittedAt: number;
+
+  /**
+   * Blockhash fetched right after submission.
+   * It is at least as recent as the blockhash the SDK signed with.
+   * Missing if it could not be fetched yet (tracking fetches it later).
+   */
+  blockhash?: string;
+
+  /**
+   * Last block height at which `blockhash` is valid.
+   * Once the cluster passes this height, a transaction that has not landed never will.
+   * Missing together with `blockhash`; the transaction cannot be reported expired until known.
+   */
+  lastValidBlockHeight?: number;
+
+  /**
+   * The transfer that was sent (for display after resume).
+   */
+  request?: TransactionRequest;
+}
+
+/**
+ * Lifecycle stage of a transaction journal entry.
+ * - 'signing': Confirm & Sign was pressed; simulation or the biometric prompt is in progress
+ * - 'rejected': Stopped before reaching the chain (cancelled, pre-flight failure, paymaster rejection)
+ * - Any TransactionStatus status once the transaction was submitted
+ */
+export type JournalStatus = 'signing' | 'rejected' | TransactionStatus['status'];
+
+/**
+ * One step in the lifecycle of a journal entry.
+ */
+export interface JournalEvent {
+  /**
+   * Stage reached.
+   */
+  status: JournalStatus;
+
+  /**
+   * Unix timestamp (milliseconds) when the stage was recorded.
+   */
+  at: number;
+
+  /**
+   * Error code, for 'rejected', 'failed' and 'expired' events.
+   */
+  errorCode?: WalletErrorCode;
+}
+
+/**
+ * Audit trail entry for one transfer attempt.
+ * Persisted by TransactionJournalService, including attempts that never reached
+ * the chain (e.g. cancelled biometrics, paymaster rejection).
+ */
+export interface TransactionJournalEntry {
+  /**
+   * Unique identifier (one per Confirm & Sign attempt).
+   */
+  id: string;
+
+  /**
+   * Network the transfer was attempted on.
+   */
+  networkId: NetworkId;
+
+  /**
+   * The transfer that was attempted.
+   */
+  request: TransactionRequest;
+
+  /**
+   * Current lifecycle stage (see JournalStatus).
+   */
+  status: JournalStatus;
+
+  /**
+   * Every stage reached so far, oldest first.
+   */
+  events: JournalEvent[];
+
+  /**
+   * Transaction signature (base58), once submitted.
+   */
+  signature?: string;
+
+  /**
+   * Solana Explorer URL for the signature, once submitted.
+   */
+  explorerUrl?: string;
+
+  /**
+   * Error code of the last failure, if any.
+   */
+  errorCode?: WalletErrorCode;
+
+  /**
+   * User-facing message of the last failure, if any.
+   */
+  error?: string;
+
+  /**
+   * Unix timestamp (milliseconds) when the attempt started.
+   */
+  createdAt: number;
+
+  /**
+   * Unix timestamp (milliseconds) of the last change.
+   */
+  updatedAt: number;
+
+  /**
+   * Unix timestamp (milliseconds) when the signature was returned.
+   */
+  submittedAt?: number;
+
+  /**
+   * Unix timestamp (milliseconds) when the transaction was first seen as confirmed.
    */
   confirmedAt?: number;
+
+  /**
+   * Unix timestamp (milliseconds) when the transaction was first seen as finalized.
+   */
+  finalizedAt?: number;
+}
+
+/**
+ * Filter for TransactionJournalService.getEntries().
+ * All fields are optional; omitted fields match every entry.
+ */
+export interface TransactionJournalQuery {
+  /**
+   * Only entries currently in one of these stages.
+   */
+  status?: JournalStatus | JournalStatus[];
+
+  /**
+   * Only entries submitted (or, if never submitted, created) at or after this
+   * Unix timestamp (milliseconds), the date statements show (getJournalEntryTime()).
+   */
+  from?: number;
+
+  /**
+   * Only entries submitted (or, if never submitted, created) at or before this
+   * Unix timestamp (milliseconds).
+   */
+  to?: number;
+
+  /**
+   * Only entries from this network.
+   */
+  networkId?: NetworkId;
+}
+
+/**
+ * File format of an exported statement.
+ */
+export type StatementFormat = 'csv' | 'json';
+
+/**
+ * One transfer in an exported statement (one CSV line / JSON object).
+ * Built from journal entries and received transfers by buildStatementRows().
+ */
+export interface StatementRow {
+  /**
+   * Date of the transfer as an ISO 8601 UTC timestamp.
+   * Example: "2026-10-19T14:03:12.000Z"
+   */
+  date: string;
+
+  /**
+   * Transfer direction relative to the wallet.
+   */
+  direction: 'sent' | 'received';
+
+  /**
+   * Wallet address on the other side of the transfer (base58).
+   */
+  counterparty: string;
+
+  /**
+   * Contact label of the counterparty, if it is in the address book.
+   */
+  counterpartyLabel?: string;
+
+  /**
+   * Amount as an exact decimal string in the asset's units (no rounding or grouping).
+   * Example: "10.000001"
+   */
+  amount: string;
+
+  /**
+   * Asset symbol (e.g. 'USDC', 'SOL').
+   */
+  asset: string;
+
+  /**
+   * Token mint address (base58); undefined for native SOL.
+   */
+  mint?: string;
+
+  /**
+   * Transfer memo, if any.
+   */
+  memo?: string;
+
+  /**
+   * Lifecycle stage of the transfer (see JournalStatus).
+   */
+  status: JournalStatus;
+
+  /**
+   * Transaction signature (base58).
+   */
+  signature?: string;
+
+  /**
+   * Solana Explorer URL for the signature.
+   */
+  explorerUrl?: string;
+}
+
+/**
+ * When a scheduled transfer runs.
+ * - 'once': A single run at `at`
+ * - 'recurring': Every time matching the cron-like `cron` rule
+ *   ("minute hour day-of-month month day-of-week", local time; see ScheduleUtils),
+ *   starting at `startAt`
+ */
+export type ScheduleRule =
+  | { kind: 'once'; at: number }
+  | { kind: 'recurring'; cron: string; startAt: number };
+
+/**
+ * Outcome of one scheduled run.
+ * - 'submitted': Signed and sent, waiting for the on-chain result; not offered again meanwhile
+ * - 'sent': Confirmed on-chain
+ * - 'failed': Attempted but not sent (cancelled, pre-flight failure...), or failed or
+ *   expired on-chain; the run stays due
+ * - 'skipped': The user chose not to pay this run
+ * - 'missed': Superseded by a later run before the app was opened; never paid
+ */
+export type ScheduledRunStatus = 'submitted' | 'sent' | 'failed' | 'skipped' | 'missed';
+
+/**
+ * Recorded outcome of one run of a scheduled transfer.
+ */
+export interface ScheduledRun {
+  /**
+   * Unix timestamp (milliseconds) the run was scheduled for.
+   */
+  dueAt: number;
+
+  /**
+   * What happened to the run.
+   */
+  status: ScheduledRunStatus;
+
+  /**
+   * Unix timestamp (milliseconds) when the outcome was recorded.
+   */
+  at: number;
+
+  /**
+   * Transaction journal entry of the attempt ('submitted', 'sent' and 'failed').
+   */
+  journalEntryId?: string;
+
+  /**
+   * Signature of the submitted transaction ('submitted', and 'sent' or 'failed'
+   * after submission). Settles the run on-chain if its journal entry is missing.
+   */
+  signature?: string;
+
+  /**
+   * Error code of a 'failed' attempt.
+   */
+  errorCode?: WalletErrorCode;
+}
+
+/**
+ * Transfer paid on a schedule ("send 50 USDC to X every month").
+ * Persisted by ScheduleService; due runs are paid through the Confirm screen.
+ */
+export interface ScheduledTransfer {
+  /**
+   * Unique identifier generated by ScheduleService.
+   */
+  id: string;
+
+  /**
+   * Network the transfer is paid on. Schedules only run on this network.
+   */
+  networkId: NetworkId;
+
+  /**
+   * The transfer to send on each run (timestamp is refreshed per run).
+   */
+  request: TransactionRequest;
+
+  /**
+   * When the transfer runs.
+   */
+  rule: ScheduleRule;
+
+  /**
+   * Unix timestamp (milliseconds) of the next unpaid run, or null once the schedule is complete.
+   */
+  nextRunAt: number | null;
+
+  /**
+   * Most recent run outcomes, oldest first (at most MAX_SCHEDULE_RUNS).
+   */
+  runs: ScheduledRun[];
+
+  /**
+   * Unix timestamp (milliseconds) when the schedule was created.
+   */
+  createdAt: number;
+
+  /**
+   * Unix timestamp (milliseconds) of the last change.
+   */
+  updatedAt: number;
+}
+
+/**
+ * A scheduled run that is due and waiting to be paid.
+ * Returned by ScheduleService.getDueQueue().
+ */
+export interface DueScheduledTransfer {
+  /**
+   * The schedule the run belongs to.
+   */
+  schedule: ScheduledTransfer;
+
+  /**
+   * Unix timestamp (milliseconds) the run was scheduled for.
+   */
+  dueAt: number;
+}
+
+/**
+ * Spending limits for one asset. Amounts are base units as decimal strings
+ * (same encoding as TransactionRequest.amountLamports); omitted limits do not apply.
+ */
+export interface SpendingLimits {
+  /**
+   * Largest single transfer.
+   */
+  perTransaction?: string;
+
+  /**
+   * Total sent over the last 24 hours, including the new transfer.
+   */
+  daily?: string;
+
+  /**
+   * Total sent over the last 7 days, including the new transfer.
+   */
+  weekly?: string;
+}
+
+/**
+ * User-configured transfer policy, checked before every transfer is signed.
+ * Persisted by PolicyService and evaluated with evaluateTransferPolicy().
+ */
+export interface SpendingPolicy {
+  /**
+   * Limits per asset, keyed by token mint (base58) or 'sol' for native SOL.
+   */
+  limits: Record<string, SpendingLimits>;
+
+  /**
+   * What a transfer over a limit needs:
+   * - 'confirm': An extra explicit confirmation on the Confirm screen
+   * - 'block': It cannot be sent
+   */
+  overLimitAction: 'confirm' | 'block';
+
+  /**
+   * Ask for an extra confirmation before paying an address never paid before
+   * and not in the address book.
+   */
+  warnNewRecipients: boolean;
+
+  /**
+   * Only allow transfers to addresses in `allowlist`.
+   */
+  allowlistOnly: boolean;
+
+  /**
+   * Addresses (base58) always allowed when allowlistOnly is on.
+   */
+  allowlist: string[];
+
+  /**
+   * Addresses (base58) that can never be paid.
+   */
+  denylist: string[];
+}
+
+/**
+ * Policy rule broken by a transfer.
+ */
+export type PolicyRule =
+  | 'per-transaction'
+  | 'daily'
+  | 'weekly'
+  | 'denylist'
+  | 'allowlist'
+  | 'new-recipient';
+
+/**
+ * One policy rule broken by a transfer.
+ */
+export interface PolicyViolation {
+  /**
+   * The rule that was broken.
+   */
+  rule: PolicyRule;
+
+  /**
+   * 'block': The transfer cannot be sent; 'confirm': It needs an extra explicit confirmation.
+   */
+  severity: 'block' | 'confirm';
+
+  /**
+   * User-facing explanation (e.g. "Exceeds your daily limit of 500.00 USDC").
+   */
+  message: string;
+}
+
+/**
+ * Result of checking a transfer against the spending policy.
+ */
+export interface PolicyEvaluation {
+  /**
+   * Every rule the transfer breaks (empty if it complies).
+   */
+  violations: PolicyViolation[];
+
+  /**
+   * At least one violation blocks the transfer.
+   */
+  blocked: boolean;
+
+  /**
+   * Not blocked, but at least one violation needs an extra confirmation.
+   */
+  requiresConfirmation: boolean;
+}
+
+/**
+ * Device-wide security settings (not scoped per wallet).
+ * Persisted by SecurityService and edited on the Security screen.
+ */
+export interface SecuritySettings {
+  /**
+   * Require biometric or device passcode unlock on cold start and after the
+   * app has been in the background for autoLockAfterMs.
+   */
+  appLockEnabled: boolean;
+
+  /**
+   * Time in the background (milliseconds) after which the app locks again.
+   */
+  autoLockAfterMs: number;
+
+  /**
+   * When wallet sessions expire, and which transfers need re-authentication.
+   */
+  sessionPolicy: SessionExpiryPolicy;
+}
+
+/**
+ * Session expiry policy, part of SecuritySettings.
+ * Checked with checkSessionExpiry() and requiresReauthentication() (SessionUtils).
+ *
+ * An expired session opens the wallet in watch mode until the passkey reconnects,
+ * which starts a new session.
+ */
+export interface SessionExpiryPolicy {
+  /**
+   * Sliding expiry: inactivity (milliseconds since lastAccessedAt) after which
+   * a session expires.
+   */
+  idleTimeoutMs: number;
+
+  /**
+   * Absolute expiry: age (milliseconds since createdAt) after which a session
+   * expires however often it is used, or null for no limit.
+   */
+  absoluteMaxAgeMs: number | null;
+
+  /**
+   * Transfer amounts (base units, decimal string) at or above which biometric or
+   * device passcode authentication is required right before signing, keyed by
+   * token mint (base58) or 'sol' like SpendingPolicy.limits.
+   */
+  reauthThresholds: Record<string, string>;
+}
+
+/**
+ * Result of checking a session against the SessionExpiryPolicy.
+ * - 'valid': Not expired
+ * - 'idle': Unused for longer than idleTimeoutMs
+ * - 'absolute': Older than absoluteMaxAgeMs
+ */
+export type SessionExpiryStatus = 'valid' | 'idle' | 'absolute';
+
+/**
+ * Error codes for wallet and transaction failures.
+ * Carried by WalletError (services/errors.ts); screens choose their copy from
+ * the code instead of matching error message text.
+ *
+ * - 'USER_CANCELLED': User dismissed the passkey/biometric prompt
+ * - 'RECIPIENT_ATA_MISSING': Recipient has no token account for the mint
+ * - 'RENT_EXEMPT_MINIMUM': SOL amount too small to create the recipient account
+ * - 'INSUFFICIENT_FUNDS': Sender balance too low for the transfer
+ * - 'PAYMASTER_REJECTED': Paymaster refused to sponsor the transaction
+ * - 'RPC_TIMEOUT': RPC or network request failed or timed out
+ * - 'BLOCKHASH_EXPIRED': Transaction expired before it was confirmed
+ * - 'PROGRAM_ERROR': An on-chain program returned an error
+ * - 'UNKNOWN': Anything else
+ */
+export type WalletErrorCode =
+  | 'USER_CANCELLED'
+  | 'RECIPIENT_ATA_MISSING'
+  | 'RENT_EXEMPT_MINIMUM'
+  | 'INSUFFICIENT_FUNDS'
+  | 'PAYMASTER_REJECTED'
+  | 'RPC_TIMEOUT'
+  | 'BLOCKHASH_EXPIRED'
+  | 'PROGRAM_ERROR'
+  | 'UNKNOWN';
+
+/**
+ * Wallet balance snapshot for the Home screen.
+ * Returned by SolanaService.getBalances() and refreshed via pull-to-refresh.
+ *
+ * The USDC token account may not exist yet (wallet has never received USDC),
+ * in which case usdcAccountExists is false and USDC amounts are zero.
+ */
+export interface WalletBalances {
+  /**
+   * Native SOL balance in lamports (1 SOL = 1,000,000,000 lamports), as a
+   * decimal integer string (exact).
+   */
+  solLamports: string;
+
+  /**
+   * Native SOL balance as an exact decimal string.
+   * Example: "0.5" represents 0.5 SOL
+   */
+  sol: string;
+
+  /**
+   * Associated Token Account address for USDC (base58-encoded).
+   * Derived deterministically, so it is known even if not yet initialized.
+   */
+  usdcTokenAccount: string;
+
+  /**
+   * Whether the USDC Associated Token Account is initialized on-chain.
+   * False means the wallet has never received USDC.
+   */
+  usdcAccountExists: boolean;
+
+  /**
+   * USDC balance as an exact decimal string ("0" if token account does not exist).
+   * Example: "10.5" represents 10.50 USDC
+   */
+  usdc: string;
+
+  /**
+   * USDC balance in lamports (smallest unit, 6 decimals), as a decimal integer
+   * string (exact).
+   * Example: 10.50 USDC = "10500000"
+   */
+  usdcLamports: string;
+
+  /**
+   * Unix timestamp (milliseconds) when balances were fetched.
+   */
+  fetchedAt: number;
+}
+
+/**
+ * Supported Solana cluster identifiers.
+ * Matches the cluster names used by Solana CLI and Solana Explorer.
+ */
+export type NetworkId = 'devnet' | 'testnet' | 'mainnet-beta' | 'localnet';
+
+/**
+ * Network profile describing a Solana cluster and its Lazorkit services.
+ * Registered in NETWORK_PROFILES (services/constants.ts) and selected via NetworkService.
+ *
+ * All modules read cluster-specific values from the active profile instead of
+ * hardcoding Devnet, so QA builds can point at a local solana-test-validator.
+ */
+export interface NetworkProfile {
+  /**
+   * Unique profile identifier.
+   * Persisted in SecureStore to remember the user's selection.
+   */
+  id: NetworkId;
+
+  /**
+   * Human-readable name shown in the network selector.
+   * Example: "Devnet"
+   */
+  label: string;
+
+  /**
+   * Solana RPC endpoint URL for queries and transaction submission.
+   * Example: "https://api.devnet.solana.com"
+   */
+  rpcUrl: string;
+
+  /**
+   * USDC SPL Token mint address on this cluster (base58-encoded).
+   * Empty string if no mint is configured for the cluster.
+   */
+  usdcMint: string;
+
+  /**
+   * Lazorkit Paymaster URL for gasless transaction sponsorship.
+   * Empty string if no paymaster is configured for the cluster.
+   */
+  paymasterUrl: string;
+
+  /**
+   * Lazorkit Portal URL for WebAuthn passkey authentication.
+   * Example: "https://portal.lazor.sh"
+   */
+  portalUrl: string;
+
+  /**
+   * Value of the Solana Explorer "cluster" query parameter.
+   * Null for mainnet-beta, which is the Explorer default.
+   * Example: "devnet"
+   */
+  explorerCluster: string | null;
+
+  /**
+   * Cluster used by the Lazorkit SDK for transaction simulation.
+   * The SDK only distinguishes between Devnet-like and Mainnet clusters.
+   */
+  clusterSimulation: 'devnet' | 'mainnet';
+}
+
+/**
+ * Parsed USDC transfer from on-chain history.
+ * Returned by SolanaService.getTransferHistory() and displayed on the History screen.
+ *
+ * Mirrors TransactionStatus fields (signature, status, error, explorerUrl) and adds
+ * the transfer details decoded from the SPL Token instruction.
+ */
+export interface TransferHistoryEntry {
+  /**
+   * Blockchain transaction signature (unique identifier).
+   */
+  signature: string;
+
+  /**
+   * On-chain result of the transaction.
+   * - 'confirmed': Transaction executed successfully
+   * - 'failed': Transaction landed but failed execution
+   */
+  status: 'confirmed' | 'failed';
+
+  /**
+   * Transfer direction relative to the wallet.
+   * - 'sent': USDC left the wallet
+   * - 'received': USDC arrived in the wallet
+   */
+  direction: 'sent' | 'received';
+
+  /**
+   * Wallet address on the other side of the transfer (base58-encoded).
+   * Falls back to the counterparty token account if its owner is unknown.
+   */
+  counterparty: string;
+
+  /**
+   * SPL Memo text attached to the transaction, if any.
+   * Example: "Invoice #1042"
+   */
+  memo?: string;
+
+  /**
+   * USDC amount as an exact decimal string.
+   * Example: "10.5" represents 10.50 USDC
+   */
+  amount: string;
+
+  /**
+   * USDC amount in lamports (smallest unit, 6 decimals), as a decimal integer
+   * string (exact).
+   */
+  amountLamports: string;
+
+  /**
+   * Unix timestamp (milliseconds) of the block containing the transaction.
+   * Undefined if the RPC node does not report a block time.
+   */
+  timestamp?: number;
+
+  /**
+   * Slot in which the transaction was processed.
+   */
+  slot: number;
+
+  /**
+   * Error description if the transaction failed on-chain.
+   */
+  error?: string;
+
+  /**
+   * Solana Explorer URL for viewing transaction details.
+   */
+  explorerUrl: string;
+}
+
+/**
+ * One page of transfer history.
+ * Pass `before` back into SolanaService.getTransferHistory() to load the next page.
+ */
+export interface TransferHistoryPage {
+  /**
+   * Transfers in this page, newest first.
+   */
+  entries: TransferHistoryEntry[];
+
+  /**
+   * Cursor for the next page (oldest signature scanned in this page).
+   * Undefined if the page was empty.
+   */
+  before?: string;
+
+  /**
+   * Whether older signatures may exist beyond this page.
+   */
+  hasMore: boolean;
+}
+
+/**
+ * Recipient token account status for the Confirm screen.
+ * Returned by SolanaService.getRecipientAccountStatus().
+ */
+export interface RecipientAccountStatus {
+  /**
+   * Recipient's Associated Token Account address for the token (base58-encoded).
+   */
+  tokenAccount: string;
+
+  /**
+   * Whether the token account is already initialized on-chain.
+   */
+  exists: boolean;
+
+  /**
+   * Rent-exempt balance (lamports) required to create the token account.
+   * Paid by the sender when TransactionRequest.createRecipientAccount is enabled.
+   */
+  rentLamports: number;
+}
+
+/**
+ * Result of a pre-flight transfer simulation.
+ * Returned by SolanaService.simulateTransfer() before the Confirm screen asks for a signature.
+ */
+export interface SimulationResult {
+  /**
+   * Simulation outcome:
+   * - 'ok': All instructions executed successfully
+   * - 'failed': The transfer would fail on-chain; do not sign
+   * - 'inconclusive': The transfer could not be checked (RPC error, fee payer or
+   *   smart wallet signer could not be simulated); signing may continue
+   */
+  status: 'ok' | 'failed' | 'inconclusive';
+
+  /**
+   * User-facing reason for 'failed' or 'inconclusive'.
+   * Example: "Insufficient USDC balance for this transfer"
+   */
+  reason?: string;
+
+  /**
+   * Index of the failing instruction in the built transaction.
+   */
+  instructionIndex?: number;
+
+  /**
+   * Program that returned the error ('spl-token', 'system', 'associated-token' or its address).
+   */
+  program?: string;
+
+  /**
+   * Custom program error code (e.g. SPL Token 1 = InsufficientFunds).
+   */
+  errorCode?: number;
+
+  /**
+   * Wallet error code for 'failed' results (e.g. 'INSUFFICIENT_FUNDS').
+   */
+  code?: WalletErrorCode;
+
+  /**
+   * Program logs from the simulation (empty if the RPC call failed).
+   */
+  logs: string[];
+
+  /**
+   * Compute units consumed by the simulated instructions.
+   */
+  unitsConsumed?: number;
+}
+
+/**
+ * SPL token metadata from the token registry (TOKEN_REGISTRY in services/constants.ts).
+ * Selected on the Transfer screen and carried in TransactionRequest.
+ */
+export interface TokenInfo {
+  /**
+   * Ticker symbol shown in the UI.
+   * Example: "USDC"
+   */
+  symbol: string;
+
+  /**
+   * Full token name.
+   * Example: "USD Coin"
+   */
+  name: string;
+
+  /**
+   * Token mint address on the network (base58-encoded).
+   */
+  mint: string;
+
+  /**
+   * Number of decimal places (1 token = 10^decimals base units).
+   * Example: 6 for USDC
+   */
+  decimals: number;
+
+  /**
+   * Token program that owns the mint.
+   * - 'token': Classic SPL Token program
+   * - 'token-2022': Token Extensions (Token-2022) program
+   */
+  tokenProgram: 'token' | 'token-2022';
+}
+
+/**
+ * Saved recipient (address book entry).
+ * Persisted by ContactService and shown as a label next to truncated addresses.
+ */
+export interface Contact {
+  /**
+   * Unique identifier generated by ContactService when the contact is created.
+   */
+  id: string;
+
+  /**
+   * User-chosen display name (1-MAX_CONTACT_LABEL_LENGTH characters).
+   * Example: "Alice"
+   */
+  label: string;
+
+  /**
+   * Solana wallet address (base58-encoded). Unique across contacts.
+   * Example: "3jeq5nuZ3a89zpmDCvvMfxs3YJYG1jFtonrgkjyHrdu"
+   */
+  address: string;
+
+  /**
+   * Unix timestamp (milliseconds) when the contact was created.
+   */
+  createdAt: number;
+
+  /**
+   * Unix timestamp (milliseconds) of the last edit.
+   */
+  updatedAt: number;
+}
+
+/**
+ * Fields of a Solana Pay transfer request URL
+ * (solana:<recipient>?amount=&spl-token=&reference=&label=&message=&memo=).
+ * Produced by parseSolanaPayUrl() and consumed by encodeSolanaPayUrl().
+ *
+ * Values are kept as they appear in the URL (decoded); converting to a
+ * TransactionRequest resolves the mint against the token registry.
+ */
+export interface SolanaPayTransferRequest {
+  /**
+   * Recipient wallet address (base58). Native SOL or the owner of the token account.
+   */
+  recipient: string;
+
+  /**
+   * Amount as a decimal string in user units (e.g. "10.5"), if fixed by the requester.
+   * When absent the payer chooses the amount.
+   */
+  amount?: string;
+
+  /**
+   * SPL token mint (base58). When absent the request is for native SOL.
+   */
+  splToken?: string;
+
+  /**
+   * Reference keys (base58), in URL order. Empty if none.
+   */
+  references: string[];
+
+  /**
+   * Who is requesting the payment (e.g. merchant or person name).
+   */
+  label?: string;
+
+  /**
+   * What the payment is for (shown to the payer, not recorded on-chain).
+   */
+  message?: string;
+
+  /**
+   * Memo to record on-chain with the SPL Memo program.
+   */
+  memo?: string;
+}
+
+/**
+ * Payment request issued from the Receive screen and tracked by its reference key.
+ * Persisted by PaymentRequestService and shown on the Payment Requests screen.
+ *
+ * Lifecycle: 'pending' → 'paid' (matching transfer found) or 'expired' (expiresAt passed).
+ */
+export interface PaymentRequest {
+  /**
+   * Unique reference public key (base58). Also the request identifier.
+   * The payer's transaction includes it as a read-only account key.
+   */
+  reference: string;
+
+  /**
+   * Solana Pay URL shown as QR code and shared with the payer.
+   */
+  url: string;
+
+  /**
+   * Network the request was issued on. Requests are only checked on this network.
+   */
+  networkId: NetworkId;
+
+  /**
+   * Our wallet address (base58) that should receive the payment.
+   */
+  recipient: string;
+
+  /**
+   * Requested asset: native SOL or an SPL token.
+   */
+  asset: 'sol' | 'spl-token';
+
+  /**
+   * Requested token (when asset is 'spl-token').
+   */
+  token?: TokenInfo;
+
+  /**
+   * Requested amount in base units (decimal integer string).
+   * Undefined when the payer chooses the amount.
+   */
+  amountLamports?: string;
+
+  /**
+   * Solana Pay label (who is requesting).
+   */
+  label?: string;
+
+  /**
+   * Solana Pay message (what the payment is for).
+   */
+  message?: string;
+
+  /**
+   * Current state of the request.
+   */
+  status: 'pending' | 'paid' | 'expired';
+
+  /**
+   * Unix timestamp (milliseconds) when the request was created.
+   */
+  createdAt: number;
+
+  /**
+   * Unix timestamp (milliseconds) after which an unpaid request is marked expired.
+   */
+  expiresAt: number;
+
+  /**
+   * Signature of the verified payment transaction (when paid).
+   */
+  signature?: string;
+
+  /**
+   * Amount received in base units (decimal integer string, when paid).
+   */
+  paidAmountLamports?: string;
+
+  /**
+   * Unix timestamp (milliseconds) when the payment was verified.
+   */
+  paidAt?: number;
 }
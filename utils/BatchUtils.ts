@@ -0,0 +1,172 @@
+import { NATIVE_SOL } from '../services/constants';
+import type { TokenInfo, TransactionRequest } from '../types';
+import { formatDecimalAmount } from './DecimalUtils';
+import {
+  formatTokenAmountToLamports,
+  isValidAmount,
+  isValidMemo,
+  isValidSolanaAddress,
+} from './ValidationUtils';
+
+/**
+ * Batch Payout Utilities
+ *
+ * This module provides pure functions for batch payouts: parsing the recipient
+ * list (typed by hand or imported from CSV) and turning it into transfer requests.
+ *
+ * Recipient list format, one recipient per line:
+ *   address,amount[,memo]
+ * An optional header line ("address,amount,memo") is skipped, as are blank
+ * lines and lines starting with "#". Fields may be double-quoted (RFC 4180).
+ *
+ * Functions:
+ * - parseBatchRecipients(): Parse and validate a recipient list
+ * - buildBatchRequests(): Convert parsed recipients into TransactionRequests
+ */
+
+/**
+ * One recipient of a batch payout.
+ */
+export interface BatchRecipient {
+  /** Recipient wallet address (base58) */
+  address: string;
+  /** Amount as typed (decimal string in the asset's units) */
+  amount: string;
+  /** Optional memo recorded on-chain with this transfer */
+  memo?: string;
+}
+
+/**
+ * Result of parseBatchRecipients().
+ * `errors` lists invalid lines by 1-based line number; valid lines are still returned.
+ */
+export interface BatchParseResult {
+  recipients: BatchRecipient[];
+  errors: { line: number; message: string }[];
+}
+
+/**
+ * Split one CSV line into trimmed fields, honouring double quotes ("" is a literal quote).
+ */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+/**
+ * Parse and validate a batch recipient list.
+ *
+ * Each line is checked with isValidSolanaAddress(), isValidAmount() for the
+ * asset and isValidMemo(). The first line is treated as a header (and skipped)
+ * when its address field is not a valid address.
+ *
+ * @param text - Recipient list (typed or CSV file contents)
+ * @param asset - Symbol and decimals of the asset being paid out
+ * @returns Valid recipients and per-line errors
+ *
+ * @example
+ * parseBatchRecipients('address,amount\n3jeq...Hrdu,10.5\nbad,1', USDC)
+ * // Returns: { recipients: [{ address: '3jeq...Hrdu', amount: '10.5' }],
+ * //            errors: [{ line: 3, message: 'Invalid Solana address format' }] }
+ */
+export function parseBatchRecipients(
+  text: string,
+  asset: Pick<TokenInfo, 'symbol' | 'decimals'>
+): BatchParseResult {
+  const result: BatchParseResult = { recipients: [], errors: [] };
+  let firstLine = true;
+
+  text.split(/\r?\n/).forEach((rawLine, lineIndex) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const [address = '', amount = '', memo = ''] = splitCsvLine(line);
+    const addressValidation = isValidSolanaAddress(address);
+
+    // Header row ("address,amount,memo" or similar)
+    const isHeader = firstLine && !addressValidation.valid;
+    firstLine = false;
+    if (isHeader) return;
+
+    const amountValidation = isValidAmount(amount, asset);
+    const memoValidation = isValidMemo(memo);
+    const error = !addressValidation.valid
+      ? addressValidation.error
+      : !amountValidation.valid
+      ? amountValidation.error
+      : memoValidation.error;
+
+    if (error) {
+      result.errors.push({ line: lineIndex + 1, message: error });
+    } else {
+      result.recipients.push({ address, amount, ...(memo && { memo }) });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Convert parsed recipients into transfer requests for one asset.
+ *
+ * @param recipients - Recipients from parseBatchRecipients()
+ * @param token - Token to pay out, or null for native SOL
+ * @param options.createRecipientAccount - Create missing recipient token accounts (tokens only)
+ * @returns One TransactionRequest per recipient, in order
+ *
+ * @example
+ * const requests = buildBatchRequests(result.recipients, NetworkService.getTokens()[0], {
+ *   createRecipientAccount: true,
+ * });
+ */
+export function buildBatchRequests(
+  recipients: BatchRecipient[],
+  token: TokenInfo | null,
+  options: { createRecipientAccount?: boolean } = {}
+): TransactionRequest[] {
+  const { decimals } = token ?? NATIVE_SOL;
+  const timestamp = Date.now();
+
+  return recipients.map((recipient) => {
+    const amountLamports = formatTokenAmountToLamports(recipient.amount, decimals);
+    const details = {
+      recipientAddress: recipient.address,
+      amount: formatDecimalAmount(amountLamports, decimals),
+      amountLamports: amountLamports.toString(),
+      memo: recipient.memo,
+      timestamp,
+    };
+    return token
+      ? {
+          ...details,
+          asset: 'spl-token',
+          token,
+          createRecipientAccount: options.createRecipientAccount,
+        }
+      : { ...details, asset: 'sol' };
+  });
+}
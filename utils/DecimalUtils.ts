@@ -0,0 +1,159 @@
+/**
+ * Decimal Amount Utilities
+ *
+ * This module provides exact conversions between user-entered decimal strings
+ * and on-chain integer amounts (token base units / lamports) using bigint.
+ * No value passes through a JavaScript number, so amounts never pick up
+ * floating point rounding errors and stay exact beyond 2^53.
+ *
+ * Accepted input is plain ASCII digits with an optional "." decimal point
+ * ("10", "10.5", ".5", "10."). Exponent notation ("1e6") and locale
+ * separators ("1,000", "1 000", "10,5") are rejected explicitly, and so are
+ * amounts that do not fit the u64 on-chain amount fields (MAX_BASE_UNITS).
+ *
+ * Functions:
+ * - parseDecimalAmount(): Parse a decimal string into base units
+ * - formatDecimalAmount(): Format base units as a decimal string
+ */
+
+/**
+ * Why a decimal string could not be parsed.
+ * - 'empty': Nothing but whitespace
+ * - 'exponent': Exponent notation such as "1e6"
+ * - 'separator': Grouping or locale decimal separator such as "1,000" or "10,5"
+ * - 'format': Anything else that is not digits with an optional "." (signs, letters, "1.2.3")
+ * - 'precision': More fractional digits than the asset's decimals
+ * - 'overflow': More base units than MAX_BASE_UNITS
+ */
+export type DecimalParseError =
+  | 'empty'
+  | 'exponent'
+  | 'separator'
+  | 'format'
+  | 'precision'
+  | 'overflow';
+
+/**
+ * Result of parseDecimalAmount().
+ */
+export type DecimalParseResult =
+  | { valid: true; value: bigint }
+  | { valid: false; error: DecimalParseError };
+
+/**
+ * Largest amount in base units: u64::MAX, the size of the amount fields of
+ * System Program and SPL Token transfers.
+ */
+export const MAX_BASE_UNITS = 2n ** 64n - 1n;
+
+/**
+ * Digits with an optional "." decimal point. At least one digit is required
+ * (checked separately so "." alone is a format error).
+ */
+const DECIMAL_PATTERN = /^(\d*)(?:\.(\d*))?$/;
+
+/**
+ * Parse a decimal string into integer base units.
+ *
+ * Leading and trailing whitespace is ignored; whitespace inside the number is
+ * treated as a grouping separator and rejected.
+ *
+ * @param amount - Decimal string as typed by the user (e.g., "10.50")
+ * @param decimals - Asset decimals (e.g., 6 for USDC, 9 for SOL)
+ * @returns DecimalParseResult with the value in base units, or the reason parsing failed
+ *
+ * @example
+ * parseDecimalAmount('10.50', 6)
+ * // Returns: { valid: true, value: 10500000n }
+ *
+ * @example
+ * parseDecimalAmount('1e3', 6)
+ * // Returns: { valid: false, error: 'exponent' }
+ *
+ * @example
+ * parseDecimalAmount('1,000', 6)
+ * // Returns: { valid: false, error: 'separator' }
+ *
+ * @example
+ * parseDecimalAmount('18446744073709.551616', 6)
+ * // Returns: { valid: false, error: 'overflow' }
+ */
+export function parseDecimalAmount(amount: string, decimals: number): DecimalParseResult {
+  const trimmed = amount.trim();
+
+  if (trimmed.length === 0) {
+    return { valid: false, error: 'empty' };
+  }
+
+  // Checked before the general pattern so users get a specific message
+  if (/^[\d.]*e[+-]?\d*$/i.test(trimmed)) {
+    return { valid: false, error: 'exponent' };
+  }
+  if (/[,\s'’_]/.test(trimmed)) {
+    return { valid: false, error: 'separator' };
+  }
+
+  const match = DECIMAL_PATTERN.exec(trimmed);
+  if (!match || (match[1].length === 0 && (match[2] ?? '').length === 0)) {
+    return { valid: false, error: 'format' };
+  }
+
+  const whole = match[1];
+  const fraction = match[2] ?? '';
+  if (fraction.length > decimals) {
+    return { valid: false, error: 'precision' };
+  }
+
+  // "10.5" with 6 decimals -> "10" + "500000" -> 10500000n
+  const digits = `${whole}${fraction.padEnd(decimals, '0')}`;
+  const value = BigInt(digits.length > 0 ? digits : '0');
+  if (value > MAX_BASE_UNITS) {
+    return { valid: false, error: 'overflow' };
+  }
+  return { valid: true, value };
+}
+
+/**
+ * Format integer base units as a decimal string.
+ *
+ * Trailing fractional zeros are trimmed down to minimumFractionDigits.
+ * With grouping enabled the whole part uses "," thousands separators (en-US),
+ * which is for display only - parseDecimalAmount() rejects grouped input.
+ *
+ * @param value - Amount in base units (bigint, or a decimal integer string from JSON)
+ * @param decimals - Asset decimals (e.g., 6 for USDC, 9 for SOL)
+ * @param options - minimumFractionDigits (default 0) and grouping (default false)
+ * @returns Decimal string (e.g., "10.5")
+ *
+ * @example
+ * formatDecimalAmount(10500000n, 6)
+ * // Returns: "10.5"
+ *
+ * @example
+ * formatDecimalAmount('1234500000', 6, { minimumFractionDigits: 2, grouping: true })
+ * // Returns: "1,234.50"
+ */
+export function formatDecimalAmount(
+  value: bigint | string,
+  decimals: number,
+  options: { minimumFractionDigits?: number; grouping?: boolean } = {}
+): string {
+  const { minimumFractionDigits = 0, grouping = false } = options;
+  const baseUnits = BigInt(value);
+  const negative = baseUnits < 0n;
+  const magnitude = negative ? -baseUnits : baseUnits;
+  const scale = 10n ** BigInt(decimals);
+
+  let whole = (magnitude / scale).toString();
+  let fraction = (magnitude % scale).toString().padStart(decimals, '0');
+
+  // Trim trailing zeros, keeping at least minimumFractionDigits (capped at decimals)
+  const keep = Math.min(minimumFractionDigits, decimals);
+  fraction = fraction.replace(/0+$/, '').padEnd(keep, '0');
+
+  if (grouping) {
+    whole = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  }
+
+  return `${negative ? '-' : ''}${whole}${fraction.length > 0 ? `.${fraction}` : ''}`;
+}
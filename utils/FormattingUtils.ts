@@ -6,9 +6,17 @@
  *
  * Functions:
  * - truncateAddress(): Shorten Solana addresses for compact display
+ * - formatLabeledAddress(): Truncated address prefixed with its contact label
  * - formatUSDC(): Format USDC amounts with proper currency symbol
+ * - formatTokenBaseUnits(): Format an exact base-unit amount with its symbol
+ * - formatSOL(): Format SOL amounts with proper currency symbol
+ * - formatDateTime(): Format timestamps for transaction lists and details
+ * - formatConfirmationStatus(): Describe a transaction's confirmation progress
  */
 
+import type { TokenInfo, TransactionStatus } from '../types';
+import { formatDecimalAmount } from './DecimalUtils';
+
 /**
  * Truncate a Solana address for compact display.
  *
@@ -48,34 +56,148 @@ export function truncateAddress(
   return `${start}...${end}`;
 }
 
+/**
+ * Format an address for display with its saved contact label, if any.
+ *
+ * @param address - The full Solana address (base58-encoded)
+ * @param label - Contact label from ContactService (optional)
+ * @param startChars - Passed to truncateAddress() (default: 4)
+ * @param endChars - Passed to truncateAddress() (default: 4)
+ * @returns "Label (3jeq...Hrdu)", or the truncated address when there is no label
+ *
+ * @example
+ * formatLabeledAddress('3jeq5nuZ3a89zpmDCvvMfxs3YJYG1jFtonrgkjyHrdu', 'Alice')
+ * // Returns: "Alice (3jeq...Hrdu)"
+ */
+export function formatLabeledAddress(
+  address: string,
+  label?: string,
+  startChars: number = 4,
+  endChars: number = 4
+): string {
+  const truncated = truncateAddress(address, startChars, endChars);
+  return label ? `${label} (${truncated})` : truncated;
+}
+
 /**
  * Format a USDC amount with currency symbol for display.
  *
- * Converts a numeric USDC amount to a formatted string with the USDC symbol.
- * Handles decimal places appropriately (max 6 decimals for USDC precision).
+ * Converts an exact USDC base-unit amount (6 decimals) to a formatted string
+ * with the USDC symbol, via formatTokenBaseUnits().
  *
- * @param amount - The USDC amount to format (decimal number)
+ * @param amountLamports - USDC amount in base units (bigint, or decimal integer string)
  * @returns Formatted string with USDC symbol (e.g., "10.50 USDC")
  *
  * @example
- * formatUSDC(10.5)
+ * formatUSDC('10500000')
  * // Returns: "10.50 USDC"
  *
  * @example
- * formatUSDC(0.123456)
+ * formatUSDC('123456')
  * // Returns: "0.123456 USDC"
  *
  * @example
- * formatUSDC(1000)
+ * formatUSDC(1_000_000_000n)
  * // Returns: "1,000.00 USDC"
  */
-export function formatUSDC(amount: number): string {
-  // Format with up to 6 decimal places (USDC precision)
-  // Remove trailing zeros after decimal point
-  const formatted = amount.toLocaleString('en-US', {
+export function formatUSDC(amountLamports: bigint | string): string {
+  return formatTokenBaseUnits(amountLamports, { symbol: 'USDC', decimals: 6 });
+}
+
+/**
+ * Format an exact base-unit amount (token base units or lamports) with its symbol.
+ *
+ * Shows at least 2 decimals (fewer if the token has fewer) and at most the
+ * token's own precision, computed with bigint so every digit of a
+ * TransactionRequest amount is shown exactly.
+ *
+ * @param amountLamports - Amount in smallest units (bigint, or decimal integer string)
+ * @param token - Token symbol and decimals from TokenInfo (or NATIVE_SOL)
+ * @returns Formatted string with token symbol (e.g., "1,234.50 USDC")
+ *
+ * @example
+ * formatTokenBaseUnits('1234500000', { symbol: 'USDC', decimals: 6 })
+ * // Returns: "1,234.50 USDC"
+ */
+export function formatTokenBaseUnits(
+  amountLamports: bigint | string,
+  token: Pick<TokenInfo, 'symbol' | 'decimals'>
+): string {
+  const formatted = formatDecimalAmount(amountLamports, token.decimals, {
     minimumFractionDigits: 2,
-    maximumFractionDigits: 6,
+    grouping: true,
+  });
+
+  return `${formatted} ${token.symbol}`;
+}
+
+/**
+ * Format a SOL amount with currency symbol for display.
+ *
+ * Converts an exact lamport amount to a formatted string with the SOL symbol.
+ * Shows up to 9 decimals (lamport precision) but trims trailing zeros.
+ *
+ * @param lamports - SOL amount in lamports (bigint, or decimal integer string)
+ * @returns Formatted string with SOL symbol (e.g., "0.50 SOL")
+ *
+ * @example
+ * formatSOL('500000000')
+ * // Returns: "0.50 SOL"
+ *
+ * @example
+ * formatSOL(5000n)
+ * // Returns: "0.000005 SOL"
+ */
+export function formatSOL(lamports: bigint | string): string {
+  return formatTokenBaseUnits(lamports, { symbol: 'SOL', decimals: 9 });
+}
+
+/**
+ * Format a Unix timestamp for display in transaction lists and details.
+ *
+ * @param timestamp - Unix timestamp in milliseconds
+ * @returns Localized date and time string (e.g., "Jan 5, 2026, 3:42 PM")
+ *
+ * @example
+ * formatDateTime(1767627720000)
+ * // Returns: "Jan 5, 2026, 3:42 PM"
+ */
+export function formatDateTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
   });
+}
+
+/**
+ * Describe a transaction's confirmation progress for status text.
+ *
+ * @param status - Status from SolanaService.getConfirmationStatus() / ConfirmationService
+ * @returns Short description (e.g., "Confirmed (3 confirmations)")
+ *
+ * @example
+ * formatConfirmationStatus({ status: 'confirmed', confirmations: 3, ... })
+ * // Returns: "Confirmed (3 confirmations)"
+ */
+export function formatConfirmationStatus(status: TransactionStatus): string {
+  const count = status.confirmations ?? 0;
+  const confirmations = `${count} confirmation${count === 1 ? '' : 's'}`;
 
-  return `${formatted} USDC`;
+  switch (status.status) {
+    case 'pending':
+      return 'Submitted, waiting for the network...';
+    case 'processed':
+      return `Processed (${confirmations})`;
+    case 'confirmed':
+      return `Confirmed (${confirmations})`;
+    case 'finalized':
+      return 'Finalized';
+    case 'failed':
+      return 'Failed on-chain';
+    case 'expired':
+      return 'Expired before it was processed';
+  }
 }
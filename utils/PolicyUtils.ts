@@ -0,0 +1,230 @@
+import { NATIVE_SOL } from '../services/constants';
+import type {
+  Contact,
+  JournalStatus,
+  PolicyEvaluation,
+  PolicyViolation,
+  SpendingPolicy,
+  TokenInfo,
+  TransactionJournalEntry,
+  TransactionRequest,
+} from '../types';
+import { formatTokenBaseUnits } from './FormattingUtils';
+
+/**
+ * Spending Policy Utilities
+ *
+ * This module provides pure functions that check a transfer against the
+ * user's SpendingPolicy before it is signed.
+ *
+ * Rolling daily/weekly totals are computed from the local transaction journal:
+ * transfers that were submitted and have not failed or expired count as spent.
+ *
+ * Functions:
+ * - getPolicyAssetKey(): Key of an asset in SpendingPolicy.limits
+ * - sumRecentSpending(): Amount of an asset sent since a given time
+ * - evaluateTransferPolicy(): Check a transfer against the policy
+ * - evaluateBatchPolicy(): Check every transfer of a batch payout against the policy
+ */
+
+/**
+ * Journal stages that count as spent (submitted, not failed or expired).
+ */
+const SPENT_STATUSES: JournalStatus[] = ['pending', 'processed', 'confirmed', 'finalized'];
+
+/**
+ * Rolling windows of the daily and weekly limits.
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+/**
+ * Get the key of an asset in SpendingPolicy.limits.
+ *
+ * @param token - SPL token, or undefined for native SOL
+ * @returns Token mint (base58), or 'sol'
+ *
+ * @example
+ * getPolicyAssetKey(request.asset === 'spl-token' ? request.token : undefined)
+ */
+export function getPolicyAssetKey(token?: Pick<TokenInfo, 'mint'>): string {
+  return token?.mint ?? 'sol';
+}
+
+/**
+ * Sum the amount of an asset sent since a given time.
+ *
+ * @param entries - Journal entries of the active network
+ * @param assetKey - Asset key from getPolicyAssetKey()
+ * @param since - Unix timestamp (milliseconds); earlier transfers are ignored
+ * @returns Total in base units
+ */
+export function sumRecentSpending(
+  entries: TransactionJournalEntry[],
+  assetKey: string,
+  since: number
+): bigint {
+  return entries.reduce((total, entry) => {
+    const { request } = entry;
+    const counted =
+      SPENT_STATUSES.includes(entry.status) &&
+      (entry.submittedAt ?? entry.createdAt) >= since &&
+      getPolicyAssetKey(request.asset === 'spl-token' ? request.token : undefined) === assetKey;
+    return counted ? total + BigInt(request.amountLamports) : total;
+  }, 0n);
+}
+
+/**
+ * Check a transfer against the spending policy.
+ *
+ * - Denylisted recipients, and recipients missing from the allowlist when
+ *   allowlistOnly is on, are always blocked
+ * - Per-transaction, daily and weekly limits block or need confirmation
+ *   depending on policy.overLimitAction
+ * - A recipient never paid before and not in the address book or allowlist
+ *   needs confirmation when warnNewRecipients is on
+ *
+ * @param request - Transfer to check
+ * @param policy - Spending policy
+ * @param context.entries - Journal entries of the active network (spending history)
+ * @param context.contacts - Address book (known recipients)
+ * @param context.now - Current time (Unix timestamp, milliseconds)
+ * @param context.committed - Amount of the same asset in earlier transfers of the
+ *        same batch, counted towards the daily and weekly limits (default 0)
+ * @returns Violations, and whether the transfer is blocked or needs confirmation
+ *
+ * @example
+ * const evaluation = evaluateTransferPolicy(request, policy, { entries, contacts, now: Date.now() });
+ * // evaluation.blocked === true → do not sign
+ */
+export function evaluateTransferPolicy(
+  request: TransactionRequest,
+  policy: SpendingPolicy,
+  context: {
+    entries: TransactionJournalEntry[];
+    contacts: Contact[];
+    now: number;
+    committed?: bigint;
+  }
+): PolicyEvaluation {
+  const violations: PolicyViolation[] = [];
+  const recipient = request.recipientAddress;
+  const asset = request.asset === 'sol' ? NATIVE_SOL : request.token;
+  const assetKey = getPolicyAssetKey(request.asset === 'spl-token' ? request.token : undefined);
+  const amount = BigInt(request.amountLamports);
+
+  // Recipient lists
+  if (policy.denylist.includes(recipient)) {
+    violations.push({
+      rule: 'denylist',
+      severity: 'block',
+      message: 'This address is on your blocked recipients list',
+    });
+  } else if (policy.allowlistOnly && !policy.allowlist.includes(recipient)) {
+    violations.push({
+      rule: 'allowlist',
+      severity: 'block',
+      message: 'Only recipients on your allowed list can be paid',
+    });
+  }
+
+  // Amount limits
+  const limits = policy.limits[assetKey] ?? {};
+  const severity = policy.overLimitAction;
+  if (limits.perTransaction && amount > BigInt(limits.perTransaction)) {
+    violations.push({
+      rule: 'per-transaction',
+      severity,
+      message: `Exceeds your per-transaction limit of ${formatTokenBaseUnits(limits.perTransaction, asset)}`,
+    });
+  }
+
+  const windows = [
+    { rule: 'daily', limit: limits.daily, since: context.now - DAY_MS, period: '24 hours' },
+    { rule: 'weekly', limit: limits.weekly, since: context.now - WEEK_MS, period: '7 days' },
+  ] as const;
+  for (const { rule, limit, since, period } of windows) {
+    if (!limit) continue;
+
+    const spent = sumRecentSpending(context.entries, assetKey, since) + (context.committed ?? 0n);
+    if (spent + amount > BigInt(limit)) {
+      violations.push({
+        rule,
+        severity,
+        message: `Exceeds your ${rule} limit of ${formatTokenBaseUnits(limit, asset)} (${formatTokenBaseUnits(spent, asset)} sent in the last ${period})`,
+      });
+    }
+  }
+
+  // New recipient warning
+  if (policy.warnNewRecipients) {
+    const known =
+      policy.allowlist.includes(recipient) ||
+      context.contacts.some((contact) => contact.address === recipient) ||
+      context.entries.some(
+        (entry) =>
+          entry.request.recipientAddress === recipient && SPENT_STATUSES.includes(entry.status)
+      );
+    if (!known) {
+      violations.push({
+        rule: 'new-recipient',
+        severity: 'confirm',
+        message: 'You have not paid this address before and it is not in your contacts',
+      });
+    }
+  }
+
+  const blocked = violations.some((violation) => violation.severity === 'block');
+  return {
+    violations,
+    blocked,
+    requiresConfirmation: !blocked && violations.length > 0,
+  };
+}
+
+/**
+ * Check every transfer of a batch payout against the spending policy.
+ *
+ * Each transfer is checked as in evaluateTransferPolicy(), with the earlier
+ * transfers of the batch counted towards the daily and weekly limits. A batch
+ * has no per-transfer confirmation, so any violation blocks the whole batch.
+ *
+ * @param requests - Transfers of the batch, in sending order
+ * @param policy - Spending policy
+ * @param context - Spending history, address book and current time (see evaluateTransferPolicy())
+ * @returns Violations prefixed with the transfer number; blocked if there are any
+ *
+ * @example
+ * const evaluation = evaluateBatchPolicy(transfers, policy, { entries, contacts, now: Date.now() });
+ * // evaluation.violations[0].message === 'Transfer 3: Exceeds your daily limit of ...'
+ */
+export function evaluateBatchPolicy(
+  requests: TransactionRequest[],
+  policy: SpendingPolicy,
+  context: { entries: TransactionJournalEntry[]; contacts: Contact[]; now: number }
+): PolicyEvaluation {
+  const violations: PolicyViolation[] = [];
+  const committed = new Map<string, bigint>();
+
+  requests.forEach((request, index) => {
+    const assetKey = getPolicyAssetKey(request.asset === 'spl-token' ? request.token : undefined);
+    const evaluation = evaluateTransferPolicy(request, policy, {
+      ...context,
+      committed: committed.get(assetKey) ?? 0n,
+    });
+    for (const violation of evaluation.violations) {
+      violations.push({
+        ...violation,
+        severity: 'block',
+        message: `Transfer ${index + 1}: ${violation.message}`,
+      });
+    }
+    committed.set(assetKey, (committed.get(assetKey) ?? 0n) + BigInt(request.amountLamports));
+  });
+
+  return {
+    violations,
+    blocked: violations.length > 0,
+    requiresConfirmation: false,
+  };
+}
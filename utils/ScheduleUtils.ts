@@ -0,0 +1,257 @@
+import type { ScheduleRule } from '../types';
+import { formatDateTime } from './FormattingUtils';
+import type { ValidationResult } from './ValidationUtils';
+
+/**
+ * Schedule Utilities
+ *
+ * This module provides pure functions for scheduled transfers: validating
+ * cron-like recurrence rules, computing run times and describing rules for display.
+ *
+ * Recurring rules use five space-separated fields, in local time:
+ *   minute (0-59) hour (0-23) day-of-month (1-31) month (1-12) day-of-week (0-6, Sunday = 0 or 7)
+ * Each field is "*", a number, a range ("1-5"), a step ("*\/15", "1-31/2") or a
+ * comma-separated list of those. As in cron, when both day fields are restricted
+ * a day matches if either one does.
+ *
+ * Functions:
+ * - isValidCronExpression(): Validate a recurrence rule
+ * - getNextRunAt(): First run time after a given moment
+ * - describeScheduleRule(): Human-readable rule ("Monthly on day 1 at 09:00")
+ */
+
+/**
+ * Name and allowed range of each cron field, in expression order.
+ */
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+/**
+ * How far ahead getNextRunAt() searches. Leap-day rules ("0 9 29 2 *") can
+ * be up to eight years apart.
+ */
+const CRON_SEARCH_DAYS = 8 * 366;
+
+/**
+ * Day names indexed by Date.getDay().
+ */
+const WEEKDAY_NAMES = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+/**
+ * Parsed recurrence rule: the allowed values of each field, ascending.
+ */
+interface CronFields {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[];
+  daysOfWeek: number[];
+  /** Day-of-month field is not "*" */
+  daysOfMonthRestricted: boolean;
+  /** Day-of-week field is not "*" */
+  daysOfWeekRestricted: boolean;
+}
+
+/**
+ * Expand one cron field into its allowed values.
+ *
+ * @returns Sorted unique values, or null if the field is not valid
+ */
+function parseCronField(field: string, range: { min: number; max: number }): number[] | null {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) return null;
+
+    const [, all, startText, endText, stepText] = match;
+    const start = all === '*' ? range.min : Number(startText);
+    // "5/10" means every 10th value from 5 to the end of the range
+    const end =
+      all === '*' || (stepText && !endText) ? range.max : Number(endText ?? startText);
+    const step = stepText ? Number(stepText) : 1;
+
+    if (start < range.min || end > range.max || start > end || step < 1) return null;
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * Parse a five-field recurrence rule.
+ *
+ * @returns Parsed fields, or an error message for the first invalid field
+ */
+function parseCronExpression(expression: string): CronFields | { error: string } {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== CRON_FIELDS.length) {
+    return { error: 'Enter 5 fields: minute hour day-of-month month day-of-week' };
+  }
+
+  const values: number[][] = [];
+  for (let i = 0; i < CRON_FIELDS.length; i++) {
+    const fieldValues = parseCronField(parts[i], CRON_FIELDS[i]);
+    if (!fieldValues) {
+      return { error: `Invalid ${CRON_FIELDS[i].name} field "${parts[i]}"` };
+    }
+    values.push(fieldValues);
+  }
+
+  return {
+    minutes: values[0],
+    hours: values[1],
+    daysOfMonth: values[2],
+    months: values[3],
+    // 7 is an alias for Sunday
+    daysOfWeek: [...new Set(values[4].map((day) => day % 7))].sort((a, b) => a - b),
+    daysOfMonthRestricted: parts[2] !== '*',
+    daysOfWeekRestricted: parts[4] !== '*',
+  };
+}
+
+/**
+ * Check whether a calendar day matches the month and day fields.
+ */
+function matchesDay(fields: CronFields, day: Date): boolean {
+  if (!fields.months.includes(day.getMonth() + 1)) return false;
+
+  const dayOfMonth = fields.daysOfMonth.includes(day.getDate());
+  const dayOfWeek = fields.daysOfWeek.includes(day.getDay());
+  return fields.daysOfMonthRestricted && fields.daysOfWeekRestricted
+    ? dayOfMonth || dayOfWeek
+    : dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Format an hour and minute as HH:MM.
+ */
+function formatTime(hour: number, minute: number): string {
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+/**
+ * Validate a cron-like recurrence rule (see module documentation for the syntax).
+ *
+ * @param expression - Rule as typed (e.g. "0 9 1 * *")
+ * @returns ValidationResult with valid flag and optional error message
+ *
+ * @example
+ * isValidCronExpression('0 9 1 * *')
+ * // Returns: { valid: true }
+ *
+ * isValidCronExpression('0 25 * * *')
+ * // Returns: { valid: false, error: 'Invalid hour field "25"' }
+ */
+export function isValidCronExpression(expression: string): ValidationResult {
+  const result = parseCronExpression(expression);
+  return 'error' in result ? { valid: false, error: result.error } : { valid: true };
+}
+
+/**
+ * Get the first run time of a schedule after a given moment.
+ * Recurring rules never run before their start time.
+ *
+ * @param rule - Schedule rule
+ * @param after - Unix timestamp (milliseconds); the result is strictly later
+ * @returns Unix timestamp (milliseconds) of the next run, or null if there is none
+ *          (one-off already past, invalid rule, or no match within eight years)
+ *
+ * @example
+ * // Monthly on the 1st at 09:00, evaluated on Oct 19, 2026
+ * getNextRunAt({ kind: 'recurring', cron: '0 9 1 * *', startAt: 0 }, Date.now())
+ * // Returns: timestamp of Nov 1, 2026, 09:00 local time
+ */
+export function getNextRunAt(rule: ScheduleRule, after: number): number | null {
+  if (rule.kind === 'once') {
+    return rule.at > after ? rule.at : null;
+  }
+
+  const fields = parseCronExpression(rule.cron);
+  if ('error' in fields) return null;
+
+  // Rules have minute precision: start at the first whole minute in range
+  const from = Math.max(after + 1, rule.startAt);
+  const start = new Date(from);
+  if (start.getSeconds() !== 0 || start.getMilliseconds() !== 0) {
+    start.setSeconds(0, 0);
+    start.setMinutes(start.getMinutes() + 1);
+  }
+
+  for (let offset = 0; offset < CRON_SEARCH_DAYS; offset++) {
+    const day = new Date(start.getFullYear(), start.getMonth(), start.getDate() + offset);
+    if (!matchesDay(fields, day)) continue;
+
+    for (const hour of fields.hours) {
+      for (const minute of fields.minutes) {
+        const runAt = new Date(
+          day.getFullYear(),
+          day.getMonth(),
+          day.getDate(),
+          hour,
+          minute
+        ).getTime();
+        if (runAt >= start.getTime()) return runAt;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Describe a schedule rule for display.
+ * Daily, weekly and monthly rules at a single time are named; other rules show the expression.
+ *
+ * @param rule - Schedule rule
+ * @returns Description (e.g. "Weekly on Monday at 09:00")
+ *
+ * @example
+ * describeScheduleRule({ kind: 'recurring', cron: '0 9 1 * *', startAt })
+ * // Returns: "Monthly on day 1 at 09:00"
+ *
+ * describeScheduleRule({ kind: 'recurring', cron: '*\/30 9-17 * * 1-5', startAt })
+ * // Returns: "Custom: *\/30 9-17 * * 1-5"
+ */
+export function describeScheduleRule(rule: ScheduleRule): string {
+  if (rule.kind === 'once') {
+    return `Once on ${formatDateTime(rule.at)}`;
+  }
+
+  const custom = `Custom: ${rule.cron.trim()}`;
+  const fields = parseCronExpression(rule.cron);
+  if ('error' in fields || fields.minutes.length !== 1 || fields.hours.length !== 1) {
+    return custom;
+  }
+
+  const [, , dayOfMonth, month, dayOfWeek] = rule.cron.trim().split(/\s+/);
+  const time = formatTime(fields.hours[0], fields.minutes[0]);
+  const single = /^\d+$/;
+
+  if (month !== '*') return custom;
+  if (dayOfMonth === '*' && dayOfWeek === '*') {
+    return `Daily at ${time}`;
+  }
+  if (dayOfMonth === '*' && single.test(dayOfWeek)) {
+    return `Weekly on ${WEEKDAY_NAMES[fields.daysOfWeek[0]]} at ${time}`;
+  }
+  if (single.test(dayOfMonth) && dayOfWeek === '*') {
+    return `Monthly on day ${fields.daysOfMonth[0]} at ${time}`;
+  }
+  return custom;
+}
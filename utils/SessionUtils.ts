@@ -0,0 +1,63 @@
+import type { SessionExpiryPolicy, SessionExpiryStatus, TokenInfo, WalletSession } from '../types';
+import { getPolicyAssetKey } from './PolicyUtils';
+
+/**
+ * Session Expiry Utilities
+ *
+ * This module provides pure functions that apply the SessionExpiryPolicy
+ * (SecuritySettings.sessionPolicy). The current time is always passed in, so
+ * callers decide the clock and results are reproducible.
+ *
+ * Functions:
+ * - checkSessionExpiry(): Whether a session is valid, idle-expired or too old
+ * - requiresReauthentication(): Whether a transfer amount needs re-authentication
+ */
+
+/**
+ * Check a session against the expiry policy.
+ *
+ * The absolute limit is checked first: a session past it stays expired even
+ * if it was used recently.
+ *
+ * @param session - Session timestamps (createdAt, lastAccessedAt)
+ * @param policy - Session expiry policy
+ * @param now - Current time (Unix timestamp, milliseconds)
+ * @returns 'valid', or the limit the session is past ('absolute' or 'idle')
+ *
+ * @example
+ * checkSessionExpiry(account.session, settings.sessionPolicy, Date.now())
+ * // 'idle' → open in watch mode, do not update lastAccessedAt
+ */
+export function checkSessionExpiry(
+  session: Pick<WalletSession, 'createdAt' | 'lastAccessedAt'>,
+  policy: SessionExpiryPolicy,
+  now: number
+): SessionExpiryStatus {
+  if (policy.absoluteMaxAgeMs !== null && now - session.createdAt >= policy.absoluteMaxAgeMs) {
+    return 'absolute';
+  }
+  if (now - session.lastAccessedAt >= policy.idleTimeoutMs) {
+    return 'idle';
+  }
+  return 'valid';
+}
+
+/**
+ * Check whether a transfer needs re-authentication before signing.
+ *
+ * @param token - SPL token, or undefined for native SOL
+ * @param amount - Amount in base units (a batch passes its total)
+ * @param policy - Session expiry policy with the per-asset thresholds
+ * @returns true if a threshold is set for the asset and the amount reaches it
+ *
+ * @example
+ * requiresReauthentication(undefined, 5_000_000_000n, policy) // SOL, 5 SOL
+ */
+export function requiresReauthentication(
+  token: Pick<TokenInfo, 'mint'> | undefined,
+  amount: bigint,
+  policy: SessionExpiryPolicy
+): boolean {
+  const threshold = policy.reauthThresholds[getPolicyAssetKey(token)];
+  return threshold !== undefined && amount >= BigInt(threshold);
+}
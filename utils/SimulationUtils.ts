@@ -0,0 +1,267 @@
+import { SystemProgram } from '@solana/web3.js';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+} from '@solana/spl-token';
+import type { WalletErrorCode } from '../types';
+
+/**
+ * Simulation Utilities
+ *
+ * This module provides pure functions for turning the `err` and `logs` of a
+ * simulateTransaction() response into a user-facing reason.
+ *
+ * Functions:
+ * - decodeSimulationError(): Decode a simulation error for the instruction that failed
+ * - findErrorLog(): Find the "Program log: Error: ..." line written by the failing program
+ * - getProgramErrorCode(): Wallet error code for a custom error of a given program
+ */
+
+/**
+ * Decoded simulation failure.
+ */
+export interface DecodedSimulationError {
+  /**
+   * True if the transfer itself would fail on-chain.
+   * False if the error comes from simulating outside the smart wallet
+   * (fee payer, signer checks) and says nothing about the transfer.
+   */
+  blocking: boolean;
+  /** User-facing reason */
+  reason: string;
+  /** Wallet error code for the failure (see WalletError) */
+  code: WalletErrorCode;
+  /** Index of the failing instruction (instruction errors only) */
+  instructionIndex?: number;
+  /** Program that failed: 'spl-token', 'system', 'associated-token', or its address */
+  program?: string;
+  /** Custom program error code (e.g. SPL Token 1 = InsufficientFunds) */
+  errorCode?: number;
+}
+
+/**
+ * Short names of programs whose errors are decoded.
+ */
+const PROGRAM_NAMES: Record<string, string> = {
+  [TOKEN_PROGRAM_ID.toBase58()]: 'spl-token',
+  [TOKEN_2022_PROGRAM_ID.toBase58()]: 'spl-token',
+  [ASSOCIATED_TOKEN_PROGRAM_ID.toBase58()]: 'associated-token',
+  [SystemProgram.programId.toBase58()]: 'system',
+};
+
+/**
+ * SPL Token program error codes (TokenError, shared by Token-2022 for codes 0-19).
+ * {symbol} is replaced with the asset symbol.
+ */
+const TOKEN_ERRORS: Record<number, string> = {
+  0: 'The token account would fall below the rent-exempt minimum',
+  1: 'Insufficient {symbol} balance for this transfer',
+  2: 'The {symbol} mint is not valid',
+  3: 'The token account does not hold {symbol}',
+  4: 'Your wallet does not own the {symbol} source account',
+  9: 'The recipient {symbol} account is not initialized',
+  17: 'The {symbol} account is frozen',
+  18: 'The {symbol} decimals do not match the mint',
+};
+
+/**
+ * System Program error codes (SystemError).
+ */
+const SYSTEM_ERRORS: Record<number, string> = {
+  0: 'The account already exists',
+  1: 'Insufficient SOL balance for this transfer',
+  3: 'The account data length is invalid',
+};
+
+/**
+ * Associated Token Account program error codes.
+ */
+const ASSOCIATED_TOKEN_ERRORS: Record<number, string> = {
+  0: 'The recipient token account address does not match the recipient wallet',
+};
+
+/**
+ * Built-in instruction errors returned as strings (InstructionError variants).
+ */
+const INSTRUCTION_ERRORS: Record<string, string> = {
+  InsufficientFunds: 'Insufficient {symbol} balance for this transfer',
+  InvalidAccountData: 'An account in this transfer holds unexpected data',
+  UninitializedAccount: 'The recipient {symbol} account is not initialized',
+  AccountNotRentExempt: 'An account would fall below the rent-exempt minimum',
+  IllegalOwner: 'An account in this transfer is owned by the wrong program',
+};
+
+/**
+ * Instruction errors caused by simulating the raw instructions without the
+ * smart wallet program, which signs for its PDA through CPI when the
+ * transaction is executed for real.
+ */
+const SIGNER_ARTIFACT_ERRORS = [
+  'MissingRequiredSignature',
+  'PrivilegeEscalation',
+  'ExternalAccountLamportSpend',
+  'ModifiedProgramId',
+];
+
+/**
+ * Transaction-level errors caused by the fee payer. The paymaster pays fees,
+ * so these do not mean the transfer would fail.
+ */
+const FEE_PAYER_ERRORS = ['InsufficientFundsForFee', 'AccountNotFound', 'BlockhashNotFound'];
+
+/**
+ * Wallet error codes for decoded program errors, keyed by "<program>:<error>".
+ * Errors not listed here map to 'PROGRAM_ERROR'.
+ */
+const ERROR_CODES: Record<string, WalletErrorCode> = {
+  'spl-token:1': 'INSUFFICIENT_FUNDS',
+  'spl-token:9': 'RECIPIENT_ATA_MISSING',
+  'system:1': 'INSUFFICIENT_FUNDS',
+  'any:InsufficientFunds': 'INSUFFICIENT_FUNDS',
+  'any:UninitializedAccount': 'RECIPIENT_ATA_MISSING',
+};
+
+/**
+ * Get the wallet error code for a custom program error.
+ * Custom codes are program-specific: 0x1 is InsufficientFunds for SPL Token and
+ * the System Program, and means something else for any other program.
+ *
+ * @param programId - Address (base58) of the program that failed
+ * @param errorCode - Custom program error code
+ * @returns Matching code, or 'PROGRAM_ERROR' if the error is not decoded
+ *
+ * @example
+ * getProgramErrorCode(TOKEN_PROGRAM_ID.toBase58(), 1) // 'INSUFFICIENT_FUNDS'
+ * getProgramErrorCode(otherProgramId, 1)              // 'PROGRAM_ERROR'
+ */
+export function getProgramErrorCode(programId: string, errorCode: number): WalletErrorCode {
+  const program = PROGRAM_NAMES[programId] ?? programId;
+  return ERROR_CODES[`${program}:${errorCode}`] ?? 'PROGRAM_ERROR';
+}
+
+/**
+ * Find the last "Program log: Error: ..." line in simulation logs.
+ *
+ * @param logs - Program logs from simulateTransaction()
+ * @returns Error text without the prefix, or undefined if none was logged
+ *
+ * @example
+ * findErrorLog(['Program log: Instruction: TransferChecked', 'Program log: Error: insufficient funds'])
+ * // Returns: "insufficient funds"
+ */
+export function findErrorLog(logs: string[]): string | undefined {
+  const prefix = 'Program log: Error: ';
+  for (let i = logs.length - 1; i >= 0; i--) {
+    if (logs[i].startsWith(prefix)) {
+      return logs[i].slice(prefix.length);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Decode a simulateTransaction() error.
+ *
+ * Instruction errors are decoded against the program of the failing
+ * instruction: SPL Token / Token-2022, System Program and Associated Token
+ * Account custom codes, plus common built-in errors. Unknown errors fall back
+ * to the program's own error log line.
+ *
+ * @param err - `value.err` from simulateTransaction()
+ * @param programIds - Program address (base58) of each top-level instruction, in order
+ * @param logs - `value.logs` from simulateTransaction()
+ * @param symbol - Symbol of the transferred asset, used in messages (e.g. 'USDC')
+ * @returns Decoded error with a user-facing reason
+ *
+ * @example
+ * decodeSimulationError({ InstructionError: [1, { Custom: 1 }] }, [MEMO, TOKEN], logs, 'USDC')
+ * // Returns: { blocking: true, reason: 'Insufficient USDC balance for this transfer',
+ * //            code: 'INSUFFICIENT_FUNDS', instructionIndex: 1, program: 'spl-token', errorCode: 1 }
+ */
+export function decodeSimulationError(
+  err: unknown,
+  programIds: string[],
+  logs: string[],
+  symbol: string
+): DecodedSimulationError {
+  const fill = (message: string) => message.replace(/\{symbol\}/g, symbol);
+  const logDetail = findErrorLog(logs);
+
+  if (typeof err === 'string') {
+    if (FEE_PAYER_ERRORS.includes(err)) {
+      return { blocking: false, reason: 'Fee payer could not be simulated', code: 'UNKNOWN' };
+    }
+    return {
+      blocking: true,
+      reason: `Transaction would be rejected (${err})`,
+      code: 'PROGRAM_ERROR',
+    };
+  }
+
+  if (err && typeof err === 'object' && 'InsufficientFundsForRent' in err) {
+    return {
+      blocking: true,
+      reason: 'An account would be left below the rent-exempt minimum',
+      code: 'RENT_EXEMPT_MINIMUM',
+    };
+  }
+
+  if (err && typeof err === 'object' && 'InstructionError' in err) {
+    const [instructionIndex, instructionError] = (err as { InstructionError: [number, unknown] })
+      .InstructionError;
+    const programId = programIds[instructionIndex];
+    const program = PROGRAM_NAMES[programId] ?? programId;
+
+    if (typeof instructionError === 'string') {
+      if (SIGNER_ARTIFACT_ERRORS.includes(instructionError)) {
+        return {
+          blocking: false,
+          reason: 'Smart wallet signing could not be simulated',
+          code: 'UNKNOWN',
+          instructionIndex,
+          program,
+        };
+      }
+      const known = INSTRUCTION_ERRORS[instructionError];
+      return {
+        blocking: true,
+        reason: known
+          ? fill(known)
+          : `Transfer would fail: ${logDetail ?? instructionError}`,
+        code: ERROR_CODES[`any:${instructionError}`] ?? 'PROGRAM_ERROR',
+        instructionIndex,
+        program,
+      };
+    }
+
+    if (instructionError && typeof instructionError === 'object' && 'Custom' in instructionError) {
+      const errorCode = (instructionError as { Custom: number }).Custom;
+      const table =
+        program === 'spl-token'
+          ? TOKEN_ERRORS
+          : program === 'system'
+          ? SYSTEM_ERRORS
+          : program === 'associated-token'
+          ? ASSOCIATED_TOKEN_ERRORS
+          : {};
+      const known = table[errorCode];
+      return {
+        blocking: true,
+        reason: known
+          ? fill(known)
+          : `Transfer would fail: ${logDetail ?? `${program} error ${errorCode}`}`,
+        code: ERROR_CODES[`${program}:${errorCode}`] ?? 'PROGRAM_ERROR',
+        instructionIndex,
+        program,
+        errorCode,
+      };
+    }
+  }
+
+  return {
+    blocking: true,
+    reason: `Transfer would fail: ${logDetail ?? JSON.stringify(err)}`,
+    code: 'PROGRAM_ERROR',
+  };
+}
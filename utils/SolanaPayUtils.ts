@@ -0,0 +1,239 @@
+import { NATIVE_SOL } from '../services/constants';
+import type { SolanaPayTransferRequest, TokenInfo, TransactionRequest } from '../types';
+import { formatDecimalAmount, parseDecimalAmount } from './DecimalUtils';
+import { isValidMemo, isValidSolanaAddress } from './ValidationUtils';
+
+/**
+ * Solana Pay Utilities
+ *
+ * This module provides pure functions for Solana Pay transfer request URLs:
+ *
+ *   solana:<recipient>?amount=<amount>&spl-token=<mint>&reference=<key>
+ *     &label=<label>&message=<message>&memo=<memo>
+ *
+ * Only transfer requests are supported. Transaction request URLs
+ * (solana:https://...) are rejected.
+ *
+ * Functions:
+ * - parseSolanaPayUrl(): Parse and validate a solana: URL
+ * - encodeSolanaPayUrl(): Build a solana: URL (round-trips with parseSolanaPayUrl())
+ * - solanaPayToTransactionRequest(): Convert a parsed request to a TransactionRequest
+ */
+
+/**
+ * URL scheme of Solana Pay links (compared case-insensitively).
+ */
+const SOLANA_PAY_PROTOCOL = 'solana:';
+
+/**
+ * Query parameters that may appear at most once.
+ */
+const SINGLE_VALUE_PARAMS = ['amount', 'spl-token', 'label', 'message', 'memo'];
+
+/**
+ * Decode a URL component, treating "+" as a space (form encoding).
+ */
+function decodeComponent(value: string): string {
+  return decodeURIComponent(value.replace(/\+/g, ' '));
+}
+
+/**
+ * Parse a Solana Pay transfer request URL.
+ *
+ * Validates the recipient, spl-token and reference keys as base58 public keys,
+ * and the amount as a plain non-negative decimal (no exponent notation or
+ * separators). Unknown query parameters are ignored, as the spec requires.
+ *
+ * @param url - URL from a QR code or deep link (e.g. "solana:3jeq...?amount=1.5")
+ * @returns Parsed SolanaPayTransferRequest
+ * @throws Error if the URL is not a valid Solana Pay transfer request
+ *
+ * @example
+ * parseSolanaPayUrl('solana:3jeq5nuZ3a89zpmDCvvMfxs3YJYG1jFtonrgkjyHrdu?amount=10.5&label=Coffee')
+ * // Returns: { recipient: '3jeq...', amount: '10.5', label: 'Coffee', references: [] }
+ */
+export function parseSolanaPayUrl(url: string): SolanaPayTransferRequest {
+  const trimmed = url.trim();
+  if (trimmed.slice(0, SOLANA_PAY_PROTOCOL.length).toLowerCase() !== SOLANA_PAY_PROTOCOL) {
+    throw new Error('Not a Solana Pay link');
+  }
+
+  const body = trimmed.slice(SOLANA_PAY_PROTOCOL.length);
+  const queryIndex = body.indexOf('?');
+  const path = queryIndex === -1 ? body : body.slice(0, queryIndex);
+  const query = queryIndex === -1 ? '' : body.slice(queryIndex + 1);
+
+  let recipient: string;
+  try {
+    recipient = decodeComponent(path);
+  } catch {
+    throw new Error('Invalid Solana Pay link: malformed recipient');
+  }
+  if (/^https?:/i.test(recipient)) {
+    throw new Error('Solana Pay transaction requests are not supported');
+  }
+  if (!isValidSolanaAddress(recipient).valid) {
+    throw new Error('Invalid Solana Pay link: recipient is not a valid address');
+  }
+
+  const params: Record<string, string> = {};
+  const references: string[] = [];
+
+  for (const pair of query.split('&')) {
+    if (!pair) continue;
+
+    const separatorIndex = pair.indexOf('=');
+    const rawKey = separatorIndex === -1 ? pair : pair.slice(0, separatorIndex);
+    const rawValue = separatorIndex === -1 ? '' : pair.slice(separatorIndex + 1);
+
+    let key: string;
+    let value: string;
+    try {
+      key = decodeComponent(rawKey);
+      value = decodeComponent(rawValue);
+    } catch {
+      throw new Error(`Invalid Solana Pay link: malformed "${rawKey}" parameter`);
+    }
+
+    if (key === 'reference') {
+      if (!isValidSolanaAddress(value).valid) {
+        throw new Error('Invalid Solana Pay link: reference is not a valid address');
+      }
+      references.push(value);
+    } else if (SINGLE_VALUE_PARAMS.includes(key)) {
+      if (key in params) {
+        throw new Error(`Invalid Solana Pay link: "${key}" appears more than once`);
+      }
+      params[key] = value;
+    }
+  }
+
+  if (params.amount !== undefined) {
+    // Decimals = input length, so only the format is checked here (scaling by the
+    // input length may overflow); precision and size are checked for the token
+    // in solanaPayToTransactionRequest()
+    const parsed = parseDecimalAmount(params.amount, params.amount.length);
+    if (!parsed.valid && parsed.error !== 'overflow') {
+      throw new Error('Invalid Solana Pay link: amount is not a valid number');
+    }
+  }
+
+  if (params['spl-token'] !== undefined && !isValidSolanaAddress(params['spl-token']).valid) {
+    throw new Error('Invalid Solana Pay link: spl-token is not a valid mint address');
+  }
+
+  return {
+    recipient,
+    amount: params.amount,
+    splToken: params['spl-token'],
+    references,
+    label: params.label,
+    message: params.message,
+    memo: params.memo,
+  };
+}
+
+/**
+ * Encode a Solana Pay transfer request as a solana: URL.
+ *
+ * Parameters are written in spec order (amount, spl-token, reference..., label,
+ * message, memo) and omitted when undefined. Values are percent-encoded with
+ * encodeURIComponent, so parseSolanaPayUrl(encodeSolanaPayUrl(request)) returns
+ * the same fields.
+ *
+ * The request is not validated here; build it from validated input
+ * (the amount must be a plain decimal string such as "10.5").
+ *
+ * @param request - Transfer request fields
+ * @returns solana: URL for a QR code or share sheet
+ *
+ * @example
+ * encodeSolanaPayUrl({ recipient: '3jeq...', amount: '10.5', label: 'Coffee Shop', references: [] })
+ * // Returns: "solana:3jeq...?amount=10.5&label=Coffee%20Shop"
+ */
+export function encodeSolanaPayUrl(request: SolanaPayTransferRequest): string {
+  const params: [string, string][] = [];
+
+  if (request.amount !== undefined) params.push(['amount', request.amount]);
+  if (request.splToken !== undefined) params.push(['spl-token', request.splToken]);
+  for (const reference of request.references) {
+    params.push(['reference', reference]);
+  }
+  if (request.label !== undefined) params.push(['label', request.label]);
+  if (request.message !== undefined) params.push(['message', request.message]);
+  if (request.memo !== undefined) params.push(['memo', request.memo]);
+
+  const query = params
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join('&');
+
+  return `${SOLANA_PAY_PROTOCOL}${request.recipient}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Convert a parsed Solana Pay request into a TransactionRequest.
+ *
+ * The spl-token mint must be in the active network's token registry; without
+ * spl-token the request is a native SOL transfer. The amount must be present,
+ * positive and within the asset's precision.
+ *
+ * @param payRequest - Request from parseSolanaPayUrl()
+ * @param tokens - Tokens available on the active network (NetworkService.getTokens())
+ * @param timestamp - Request timestamp (default: Date.now())
+ * @returns TransactionRequest ready for the Confirm screen
+ * @throws Error if the amount is missing/invalid, the token is unsupported, or the memo is too long
+ *
+ * @example
+ * const request = solanaPayToTransactionRequest(
+ *   parseSolanaPayUrl(url),
+ *   NetworkService.getTokens()
+ * );
+ */
+export function solanaPayToTransactionRequest(
+  payRequest: SolanaPayTransferRequest,
+  tokens: TokenInfo[],
+  timestamp: number = Date.now()
+): TransactionRequest {
+  const token = payRequest.splToken
+    ? tokens.find((entry) => entry.mint === payRequest.splToken)
+    : undefined;
+  if (payRequest.splToken && !token) {
+    throw new Error('This payment request uses a token that is not supported on this network');
+  }
+
+  if (payRequest.amount === undefined) {
+    throw new Error('This payment request has no amount');
+  }
+
+  const asset = token ?? NATIVE_SOL;
+  const parsed = parseDecimalAmount(payRequest.amount, asset.decimals);
+  if (!parsed.valid) {
+    throw new Error(
+      parsed.error === 'overflow'
+        ? 'This payment request amount is too large'
+        : `This payment request amount is not a valid ${asset.symbol} amount`
+    );
+  }
+  if (parsed.value <= 0n) {
+    throw new Error('This payment request amount must be greater than zero');
+  }
+
+  if (payRequest.memo && !isValidMemo(payRequest.memo).valid) {
+    throw new Error('This payment request memo is too long');
+  }
+
+  const details = {
+    recipientAddress: payRequest.recipient,
+    amount: formatDecimalAmount(parsed.value, asset.decimals),
+    amountLamports: parsed.value.toString(),
+    memo: payRequest.memo || undefined,
+    references: payRequest.references.length > 0 ? payRequest.references : undefined,
+    label: payRequest.label || undefined,
+    message: payRequest.message || undefined,
+    timestamp,
+  };
+
+  return token
+    ? { ...details, asset: 'spl-token', token }
+    : { ...details, asset: 'sol' };
+}
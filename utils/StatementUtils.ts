@@ -0,0 +1,213 @@
+import { NATIVE_SOL } from '../services/constants';
+import type {
+  Contact,
+  StatementRow,
+  TokenInfo,
+  TransactionJournalEntry,
+  TransferHistoryEntry,
+} from '../types';
+import { formatDecimalAmount } from './DecimalUtils';
+
+/**
+ * Statement Utilities
+ *
+ * This module provides pure functions for turning journal entries (sent) and
+ * on-chain transfer history (received) into transaction statements for export.
+ *
+ * Output is deterministic: the same entries and contacts always produce the
+ * same bytes, whatever order they are passed in. Rows are sorted by date, then
+ * signature, direction and counterparty; columns and JSON keys have a fixed
+ * order; dates are UTC.
+ *
+ * Functions:
+ * - getJournalEntryTime(): Date a journal entry is filed under
+ * - buildStatementRows(): Convert journal entries and received transfers into statement rows
+ * - serializeStatementCsv(): Serialize rows as RFC 4180 CSV
+ * - serializeStatementJson(): Serialize rows and their date range as JSON
+ */
+
+/**
+ * Statement columns in output order: CSV header text and row field.
+ */
+const STATEMENT_COLUMNS: [header: string, field: keyof StatementRow][] = [
+  ['Date', 'date'],
+  ['Direction', 'direction'],
+  ['Counterparty', 'counterparty'],
+  ['Counterparty Label', 'counterpartyLabel'],
+  ['Amount', 'amount'],
+  ['Asset', 'asset'],
+  ['Mint', 'mint'],
+  ['Memo', 'memo'],
+  ['Status', 'status'],
+  ['Signature', 'signature'],
+  ['Explorer URL', 'explorerUrl'],
+];
+
+/**
+ * Get the date a journal entry is filed under: when the transfer was submitted
+ * (or attempted, if it never was).
+ *
+ * Statements both filter and date entries by this time, so a transfer signed
+ * just after a period boundary is not dropped from both periods.
+ *
+ * @param entry - Journal entry
+ * @returns Unix timestamp (milliseconds)
+ */
+export function getJournalEntryTime(entry: TransactionJournalEntry): number {
+  return entry.submittedAt ?? entry.createdAt;
+}
+
+/**
+ * Compare two strings by code unit (locale-independent).
+ */
+function compareText(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Order statement rows by date, then signature, direction and counterparty.
+ * Batch payouts share a date and signature, so the later keys keep their rows stable.
+ */
+function compareRows(a: StatementRow, b: StatementRow): number {
+  return (
+    compareText(a.date, b.date) ||
+    compareText(a.signature ?? '', b.signature ?? '') ||
+    compareText(a.direction, b.direction) ||
+    compareText(a.counterparty, b.counterparty)
+  );
+}
+
+/**
+ * Convert journal entries and received transfers into statement rows, oldest first.
+ *
+ * Sent rows come from the journal, dated by getJournalEntryTime(). Received rows
+ * come from on-chain history: only successful incoming transfers with a block
+ * time. Amounts are exact decimal strings in the asset's units.
+ *
+ * @param entries - Journal entries from TransactionJournalService.getEntries()
+ * @param contacts - Address book, used to label counterparties
+ * @param received - Optional on-chain transfers from SolanaService.getTransferHistory()
+ *   and the token they move
+ * @returns Statement rows sorted by date, then signature
+ *
+ * @example
+ * buildStatementRows(entries, contacts, { transfers: history, token: usdc })
+ * // Returns: [{ date: '2026-10-19T14:03:12.000Z', direction: 'sent',
+ * //             counterparty: '3jeq...', counterpartyLabel: 'Alice', amount: '10.000001', ... },
+ * //           { date: '2026-10-20T09:12:40.000Z', direction: 'received', ... }]
+ */
+export function buildStatementRows(
+  entries: TransactionJournalEntry[],
+  contacts: Contact[],
+  received?: { transfers: TransferHistoryEntry[]; token: TokenInfo }
+): StatementRow[] {
+  const labels = new Map(contacts.map((contact) => [contact.address, contact.label]));
+
+  const sentRows = entries.map((entry): StatementRow => {
+    const { request } = entry;
+    const asset = request.asset === 'sol' ? NATIVE_SOL : request.token;
+
+    return {
+      date: new Date(getJournalEntryTime(entry)).toISOString(),
+      direction: 'sent',
+      counterparty: request.recipientAddress,
+      counterpartyLabel: labels.get(request.recipientAddress),
+      amount: formatDecimalAmount(request.amountLamports, asset.decimals),
+      asset: asset.symbol,
+      mint: request.asset === 'spl-token' ? request.token.mint : undefined,
+      memo: request.memo,
+      status: entry.status,
+      signature: entry.signature,
+      explorerUrl: entry.explorerUrl,
+    };
+  });
+
+  const { transfers = [], token } = received ?? {};
+  const receivedRows = transfers.flatMap((transfer): StatementRow[] =>
+    token &&
+    transfer.direction === 'received' &&
+    transfer.status === 'confirmed' &&
+    transfer.timestamp !== undefined
+      ? [
+          {
+            date: new Date(transfer.timestamp).toISOString(),
+            direction: 'received',
+            counterparty: transfer.counterparty,
+            counterpartyLabel: labels.get(transfer.counterparty),
+            amount: formatDecimalAmount(transfer.amountLamports, token.decimals),
+            asset: token.symbol,
+            mint: token.mint,
+            memo: transfer.memo,
+            status: transfer.status,
+            signature: transfer.signature,
+            explorerUrl: transfer.explorerUrl,
+          },
+        ]
+      : []
+  );
+
+  return [...sentRows, ...receivedRows].sort(compareRows);
+}
+
+/**
+ * Quote a CSV field when needed (RFC 4180).
+ *
+ * Text fields starting with =, +, -, @ or a control character are prefixed with
+ * an apostrophe so spreadsheet apps do not evaluate them as formulas.
+ */
+function escapeCsvField(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Serialize statement rows as CSV.
+ *
+ * RFC 4180: header line, CRLF line endings (including after the last row),
+ * fields quoted only when they contain a comma, quote or line break.
+ * Missing values are empty fields.
+ *
+ * @param rows - Rows from buildStatementRows()
+ * @returns CSV text
+ *
+ * @example
+ * serializeStatementCsv(rows)
+ * // Returns: "Date,Direction,Counterparty,...\r\n2026-10-19T14:03:12.000Z,sent,3jeq...,Alice,...\r\n"
+ */
+export function serializeStatementCsv(rows: StatementRow[]): string {
+  const lines = [
+    STATEMENT_COLUMNS.map(([header]) => header).join(','),
+    ...rows.map((row) =>
+      STATEMENT_COLUMNS.map(([, field]) => escapeCsvField(row[field] ?? '')).join(',')
+    ),
+  ];
+  return lines.map((line) => `${line}\r\n`).join('');
+}
+
+/**
+ * Serialize statement rows and their date range as JSON.
+ *
+ * Every row has every column key, in column order, with null for missing
+ * values. Indented with two spaces and terminated by a newline.
+ *
+ * @param rows - Rows from buildStatementRows()
+ * @param range - Statement period as Unix timestamps (milliseconds)
+ * @returns JSON text
+ *
+ * @example
+ * serializeStatementJson(rows, { from: start, to: end })
+ * // Returns: '{\n  "from": "2026-10-01T00:00:00.000Z",\n  "to": ...,\n  "transactions": [...]\n}\n'
+ */
+export function serializeStatementJson(
+  rows: StatementRow[],
+  range: { from: number; to: number }
+): string {
+  const statement = {
+    from: new Date(range.from).toISOString(),
+    to: new Date(range.to).toISOString(),
+    transactions: rows.map((row) =>
+      Object.fromEntries(STATEMENT_COLUMNS.map(([, field]) => [field, row[field] ?? null]))
+    ),
+  };
+  return `${JSON.stringify(statement, null, 2)}\n`;
+}
@@ -0,0 +1,215 @@
+import type {
+  ParsedInstruction,
+  ParsedTransactionWithMeta,
+  PartiallyDecodedInstruction,
+} from '@solana/web3.js';
+
+/**
+ * Transaction Parsing Utilities
+ *
+ * This module provides pure functions for extracting SPL Token transfers
+ * from jsonParsed RPC transactions (connection.getParsedTransactions()).
+ *
+ * Lazorkit smart wallets execute transfers through CPI, so the SPL Token
+ * instruction is usually an inner instruction. Both top-level and inner
+ * instructions are scanned.
+ *
+ * Functions:
+ * - extractTokenTransfers(): Find SPL Token transfers touching a token account
+ * - extractSolTransfers(): Find System Program SOL transfers touching an account
+ * - extractMemo(): Read SPL Memo text attached to a transaction
+ */
+
+/**
+ * SPL Token transfer touching a specific token account.
+ */
+export interface ParsedTokenTransfer {
+  /** 'sent' if tokens left the token account, 'received' if they arrived */
+  direction: 'sent' | 'received';
+  /** Source token account (base58) */
+  source: string;
+  /** Destination token account (base58) */
+  destination: string;
+  /** Token account on the other side of the transfer (base58) */
+  counterpartyTokenAccount: string;
+  /**
+   * Wallet that owns the counterparty token account (base58).
+   * Falls back to the token account address if the owner is not in the token balances.
+   */
+  counterparty: string;
+  /** Amount in the token's smallest unit (decimal integer string, exact) */
+  amountLamports: string;
+}
+
+/**
+ * System Program SOL transfer touching a specific account.
+ */
+export interface ParsedSolTransfer {
+  /** 'sent' if lamports left the account, 'received' if they arrived */
+  direction: 'sent' | 'received';
+  /** Account on the other side of the transfer (base58) */
+  counterparty: string;
+  /** Amount in lamports (decimal integer string, exact) */
+  lamports: string;
+}
+
+/**
+ * Collect all top-level and inner instructions of a parsed transaction, in execution order.
+ */
+function getAllInstructions(
+  transaction: ParsedTransactionWithMeta
+): (ParsedInstruction | PartiallyDecodedInstruction)[] {
+  const instructions: (ParsedInstruction | PartiallyDecodedInstruction)[] = [];
+  const innerByIndex = new Map(
+    (transaction.meta?.innerInstructions ?? []).map((inner) => [inner.index, inner.instructions])
+  );
+
+  transaction.transaction.message.instructions.forEach((instruction, index) => {
+    instructions.push(instruction);
+    instructions.push(...(innerByIndex.get(index) ?? []));
+  });
+
+  return instructions;
+}
+
+/**
+ * Resolve the owner wallet of a token account from the transaction's token balances.
+ */
+function findTokenAccountOwner(
+  transaction: ParsedTransactionWithMeta,
+  tokenAccount: string
+): string | undefined {
+  const accountIndex = transaction.transaction.message.accountKeys.findIndex(
+    (key) => key.pubkey.toBase58() === tokenAccount
+  );
+  if (accountIndex === -1) return undefined;
+
+  const balances = [
+    ...(transaction.meta?.postTokenBalances ?? []),
+    ...(transaction.meta?.preTokenBalances ?? []),
+  ];
+  return balances.find((balance) => balance.accountIndex === accountIndex)?.owner;
+}
+
+/**
+ * Extract SPL Token transfers that move tokens into or out of a token account.
+ *
+ * Recognizes both `transfer` and `transferChecked` instructions. When a mint is
+ * given, `transferChecked` instructions for other mints are skipped (plain
+ * `transfer` does not carry the mint, so it is matched by token account only).
+ *
+ * @param transaction - Transaction fetched with connection.getParsedTransactions()
+ * @param tokenAccount - Token account to match as source or destination (base58)
+ * @param mint - Optional mint address to match (base58)
+ * @returns Transfers touching the token account, in execution order
+ *
+ * @example
+ * const [tx] = await connection.getParsedTransactions([signature]);
+ * const transfers = extractTokenTransfers(tx!, usdcTokenAccount.toBase58());
+ * // Returns: [{ direction: 'received', counterparty: '3jeq...', amountLamports: '10500000', ... }]
+ */
+export function extractTokenTransfers(
+  transaction: ParsedTransactionWithMeta,
+  tokenAccount: string,
+  mint?: string
+): ParsedTokenTransfer[] {
+  const transfers: ParsedTokenTransfer[] = [];
+
+  for (const instruction of getAllInstructions(transaction)) {
+    // Skip instructions the RPC could not parse (e.g. Lazorkit program itself)
+    // and anything outside the SPL Token / Token-2022 programs
+    if (!('parsed' in instruction)) continue;
+    if (instruction.program !== 'spl-token' && instruction.program !== 'spl-token-2022') continue;
+
+    const { type, info } = instruction.parsed ?? {};
+    if (type !== 'transfer' && type !== 'transferChecked') continue;
+    if (type === 'transferChecked' && mint && info.mint !== mint) continue;
+
+    const source: string = info.source;
+    const destination: string = info.destination;
+    if (source !== tokenAccount && destination !== tokenAccount) continue;
+
+    // transfer carries a raw amount; transferChecked carries a tokenAmount object
+    const amountLamports: string = type === 'transfer' ? info.amount : info.tokenAmount.amount;
+    const direction = source === tokenAccount ? 'sent' : 'received';
+    const counterpartyTokenAccount = direction === 'sent' ? destination : source;
+
+    transfers.push({
+      direction,
+      source,
+      destination,
+      counterpartyTokenAccount,
+      counterparty:
+        findTokenAccountOwner(transaction, counterpartyTokenAccount) ?? counterpartyTokenAccount,
+      amountLamports,
+    });
+  }
+
+  return transfers;
+}
+
+/**
+ * Extract System Program SOL transfers that move lamports into or out of an account.
+ *
+ * Recognizes `transfer` and `transferWithSeed` instructions, including inner
+ * instructions executed by the Lazorkit smart wallet through CPI.
+ *
+ * @param transaction - Transaction fetched with connection.getParsedTransaction(s)()
+ * @param account - Wallet address to match as source or destination (base58)
+ * @returns Transfers touching the account, in execution order
+ *
+ * @example
+ * extractSolTransfers(tx, wallet.smartWalletPubkey.toBase58())
+ * // Returns: [{ direction: 'received', counterparty: '3jeq...', lamports: '250000000' }]
+ */
+export function extractSolTransfers(
+  transaction: ParsedTransactionWithMeta,
+  account: string
+): ParsedSolTransfer[] {
+  const transfers: ParsedSolTransfer[] = [];
+
+  for (const instruction of getAllInstructions(transaction)) {
+    if (!('parsed' in instruction) || instruction.program !== 'system') continue;
+
+    const { type, info } = instruction.parsed ?? {};
+    if (type !== 'transfer' && type !== 'transferWithSeed') continue;
+
+    const source: string = info.source;
+    const destination: string = info.destination;
+    if (source !== account && destination !== account) continue;
+
+    const direction = source === account ? 'sent' : 'received';
+    transfers.push({
+      direction,
+      counterparty: direction === 'sent' ? destination : source,
+      // jsonParsed lamports is a JSON number; String() keeps it exact up to 2^53
+      lamports: String(info.lamports),
+    });
+  }
+
+  return transfers;
+}
+
+/**
+ * Extract SPL Memo text from a parsed transaction.
+ *
+ * The RPC parses Memo program instructions into their UTF-8 string. If a
+ * transaction carries more than one memo, they are joined with "; ".
+ *
+ * @param transaction - Transaction fetched with connection.getParsedTransactions()
+ * @returns Memo text, or undefined if the transaction has no memo
+ *
+ * @example
+ * extractMemo(tx)
+ * // Returns: "Invoice #1042"
+ */
+export function extractMemo(transaction: ParsedTransactionWithMeta): string | undefined {
+  const memos = getAllInstructions(transaction)
+    .filter(
+      (instruction): instruction is ParsedInstruction =>
+        'parsed' in instruction && instruction.program === 'spl-memo'
+    )
+    .map((instruction) => String(instruction.parsed));
+
+  return memos.length > 0 ? memos.join('; ') : undefined;
+}
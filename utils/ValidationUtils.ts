@@ -1,10 +1,13 @@
 import { PublicKey } from '@solana/web3.js';
+import { Buffer } from 'buffer';
+import type { TokenInfo } from '../types';
+import { parseDecimalAmount } from './DecimalUtils';
 
 /**
  * ValidationUtils Module
  *
- * Provides validation functions for Solana addresses and USDC amounts.
- * Used by the Transfer Form to validate user inputs before transaction creation.
+ * Provides validation functions for Solana addresses, token amounts, memos and contact labels.
+ * Used by the Transfer Form (and Contacts) to validate user inputs before saving or transacting.
  */
 
 /**
@@ -15,6 +18,14 @@ export interface ValidationResult {
   error?: string;
 }
 
+/**
+ * Default token precision used when no token is specified (USDC, 6 decimals).
+ */
+const USDC_PRECISION: Pick<TokenInfo, 'symbol' | 'decimals'> = {
+  symbol: 'USDC',
+  decimals: 6,
+};
+
 /**
  * Validates Solana address format.
  *
@@ -55,15 +66,19 @@ export function isValidSolanaAddress(address: string): ValidationResult {
 }
 
 /**
- * Validates USDC amount format and value.
+ * Validates token amount format and value.
  *
  * Checks that the amount is:
  * - Non-empty string
- * - Valid positive number (> 0)
- * - Not NaN
- * - Has at most 6 decimal places (USDC token precision)
+ * - Plain digits with an optional "." (no exponent notation, no locale separators)
+ * - Has at most token.decimals decimal places (token precision, 6 for USDC)
+ * - Fits a u64 in base units (MAX_BASE_UNITS)
+ * - Positive (> 0)
  *
- * @param amount - The USDC amount to validate (as string from TextInput)
+ * Parsing is exact (bigint via parseDecimalAmount()).
+ *
+ * @param amount - The token amount to validate (as string from TextInput)
+ * @param token - Token symbol and decimals (default: USDC)
  * @returns ValidationResult with valid flag and optional error message
  *
  * @example
@@ -75,54 +90,162 @@ export function isValidSolanaAddress(address: string): ValidationResult {
  *
  * isValidAmount('10.1234567')
  * // Returns: { valid: false, error: 'USDC supports up to 6 decimal places' }
+ *
+ * isValidAmount('1.5', { symbol: 'BONK', decimals: 0 })
+ * // Returns: { valid: false, error: 'BONK does not support decimal places' }
+ *
+ * isValidAmount('1,000')
+ * // Returns: { valid: false, error: 'Use "." for decimals and no thousands separators' }
+ *
+ * isValidAmount('20000000000000')
+ * // Returns: { valid: false, error: 'Amount is too large' }
  */
-export function isValidAmount(amount: string): ValidationResult {
-  // Check for empty amount
-  if (!amount || amount.trim().length === 0) {
-    return { valid: false, error: 'Amount is required' };
+export function isValidAmount(
+  amount: string,
+  token: Pick<TokenInfo, 'symbol' | 'decimals'> = USDC_PRECISION
+): ValidationResult {
+  const parsed = parseDecimalAmount(amount ?? '', token.decimals);
+
+  if (!parsed.valid) {
+    switch (parsed.error) {
+      case 'empty':
+        return { valid: false, error: 'Amount is required' };
+      case 'exponent':
+        return { valid: false, error: 'Exponent notation is not supported' };
+      case 'separator':
+        return { valid: false, error: 'Use "." for decimals and no thousands separators' };
+      case 'precision':
+        return {
+          valid: false,
+          error:
+            token.decimals === 0
+              ? `${token.symbol} does not support decimal places`
+              : `${token.symbol} supports up to ${token.decimals} decimal places`,
+        };
+      case 'overflow':
+        return { valid: false, error: 'Amount is too large' };
+      default:
+        return { valid: false, error: 'Amount must be a valid number' };
+    }
+  }
+
+  // Check for positive amount
+  if (parsed.value <= 0n) {
+    return { valid: false, error: 'Amount must be greater than zero' };
   }
 
-  // Parse as float
-  const numericAmount = parseFloat(amount);
+  return { valid: true };
+}
+
+/**
+ * Maximum memo length in UTF-8 bytes.
+ *
+ * The SPL Memo program itself has no fixed limit, but the memo shares the
+ * 1232-byte transaction size limit with the passkey verification and smart
+ * wallet instructions, so it is kept short.
+ */
+export const MAX_MEMO_BYTES = 200;
+
+/**
+ * Validates optional memo text.
+ *
+ * Checks that the memo:
+ * - Is empty (memo is optional), or
+ * - Encodes to at most MAX_MEMO_BYTES bytes in UTF-8
+ *
+ * Byte length (not character count) is checked because emoji and non-Latin
+ * characters take multiple bytes on-chain.
+ *
+ * @param memo - The memo text to validate (as string from TextInput)
+ * @returns ValidationResult with valid flag and optional error message
+ *
+ * @example
+ * isValidMemo('Invoice #1042')
+ * // Returns: { valid: true }
+ *
+ * isValidMemo('x'.repeat(201))
+ * // Returns: { valid: false, error: 'Memo is too long (201/200 bytes)' }
+ */
+export function isValidMemo(memo: string): ValidationResult {
+  if (!memo) {
+    return { valid: true };
+  }
 
-  // Check for NaN (invalid numeric format)
-  if (isNaN(numericAmount)) {
-    return { valid: false, error: 'Amount must be a valid number' };
+  const byteLength = Buffer.byteLength(memo, 'utf8');
+  if (byteLength > MAX_MEMO_BYTES) {
+    return {
+      valid: false,
+      error: `Memo is too long (${byteLength}/${MAX_MEMO_BYTES} bytes)`,
+    };
   }
 
-  // Check for positive number
-  if (numericAmount <= 0) {
-    return { valid: false, error: 'Amount must be greater than zero' };
+  return { valid: true };
+}
+
+/**
+ * Maximum contact label length in characters.
+ * Labels are shown inline next to truncated addresses, so they are kept short.
+ */
+export const MAX_CONTACT_LABEL_LENGTH = 32;
+
+/**
+ * Validates a contact (address book) label.
+ *
+ * Checks that the label:
+ * - Is not empty after trimming whitespace
+ * - Has at most MAX_CONTACT_LABEL_LENGTH characters
+ *
+ * @param label - The contact label to validate (as string from TextInput)
+ * @returns ValidationResult with valid flag and optional error message
+ *
+ * @example
+ * isValidContactLabel('Alice')
+ * // Returns: { valid: true }
+ *
+ * isValidContactLabel('  ')
+ * // Returns: { valid: false, error: 'Name is required' }
+ */
+export function isValidContactLabel(label: string): ValidationResult {
+  const trimmed = (label ?? '').trim();
+
+  if (trimmed.length === 0) {
+    return { valid: false, error: 'Name is required' };
   }
 
-  // Check decimal places (USDC has 6 decimals)
-  // Split on decimal point and check length of decimal portion
-  const parts = amount.split('.');
-  if (parts.length > 1 && parts[1].length > 6) {
-    return { valid: false, error: 'USDC supports up to 6 decimal places' };
+  if (trimmed.length > MAX_CONTACT_LABEL_LENGTH) {
+    return {
+      valid: false,
+      error: `Name must be at most ${MAX_CONTACT_LABEL_LENGTH} characters`,
+    };
   }
 
   return { valid: true };
 }
 
 /**
- * Converts USDC decimal amount to lamports (smallest unit).
+ * Converts a decimal string to its smallest unit for any token (or SOL).
  *
- * USDC token uses 6 decimal places, so 1 USDC = 1,000,000 lamports.
- * This function multiplies the decimal amount by 1,000,000 to get the integer lamport value
- * required for blockchain transactions.
+ * Shifts the decimal point by `decimals` digits on the string itself and
+ * returns the integer as a bigint, so large amounts and values like "0.1"
+ * are converted exactly.
  *
- * @param amount - The USDC amount in decimal format (e.g., 10.50)
- * @returns The amount in lamports as an integer (e.g., 10,500,000)
+ * @param amount - The amount as a decimal string (e.g., "10.50")
+ * @param decimals - Token decimals from TokenInfo (e.g., 6 for USDC, 9 for SOL)
+ * @returns The amount in smallest units as a bigint
+ * @throws Error if amount is not a valid decimal with at most `decimals` places,
+ *         or exceeds MAX_BASE_UNITS in base units
  *
  * @example
- * formatUSDCAmountToLamports(10.5)
- * // Returns: 10500000
+ * formatTokenAmountToLamports('10.5', 6)
+ * // Returns: 10500000n
  *
- * formatUSDCAmountToLamports(0.01)
- * // Returns: 10000
+ * formatTokenAmountToLamports('2', 9)
+ * // Returns: 2000000000n
  */
-export function formatUSDCAmountToLamports(amount: number): number {
-  // USDC has 6 decimals, so multiply by 1,000,000
-  return Math.round(amount * 1_000_000);
+export function formatTokenAmountToLamports(amount: string, decimals: number): bigint {
+  const parsed = parseDecimalAmount(amount, decimals);
+  if (!parsed.valid) {
+    throw new Error(`Invalid amount "${amount}" (${parsed.error})`);
+  }
+  return parsed.value;
 }
@@ -0,0 +1,49 @@
+import { MAX_BASE_UNITS, formatDecimalAmount, parseDecimalAmount } from '../DecimalUtils';
+import { formatTokenAmountToLamports, isValidAmount } from '../ValidationUtils';
+
+describe('parseDecimalAmount', () => {
+  it.each([
+    { amount: '10.50', decimals: 6, value: 10_500_000n },
+    { amount: '.5', decimals: 9, value: 500_000_000n },
+    { amount: '10.', decimals: 6, value: 10_000_000n },
+    { amount: ' 7 ', decimals: 0, value: 7n },
+    { amount: '18446744073709551615', decimals: 0, value: MAX_BASE_UNITS },
+    { amount: '18446744073709.551615', decimals: 6, value: MAX_BASE_UNITS },
+  ])('parses $amount with $decimals decimals', ({ amount, decimals, value }) => {
+    expect(parseDecimalAmount(amount, decimals)).toEqual({ valid: true, value });
+  });
+
+  it.each([
+    { amount: '  ', decimals: 6, error: 'empty' },
+    { amount: '1e6', decimals: 6, error: 'exponent' },
+    { amount: '1,000', decimals: 6, error: 'separator' },
+    { amount: '-1', decimals: 6, error: 'format' },
+    { amount: '.', decimals: 6, error: 'format' },
+    { amount: '1.1234567', decimals: 6, error: 'precision' },
+    { amount: '18446744073709551616', decimals: 0, error: 'overflow' },
+    { amount: '18446744073709.551616', decimals: 6, error: 'overflow' },
+    { amount: '18446744074', decimals: 9, error: 'overflow' },
+  ])('rejects $amount with $decimals decimals as $error', ({ amount, decimals, error }) => {
+    expect(parseDecimalAmount(amount, decimals)).toEqual({ valid: false, error });
+  });
+});
+
+describe('formatDecimalAmount', () => {
+  it('formats u64::MAX exactly', () => {
+    expect(formatDecimalAmount(MAX_BASE_UNITS, 6)).toBe('18446744073709.551615');
+  });
+});
+
+describe('amount validation', () => {
+  it('rejects amounts above u64::MAX base units', () => {
+    expect(isValidAmount('18446744073709.551616')).toEqual({
+      valid: false,
+      error: 'Amount is too large',
+    });
+    expect(() => formatTokenAmountToLamports('18446744074', 9)).toThrow('overflow');
+  });
+
+  it('accepts the largest u64 amount', () => {
+    expect(isValidAmount('18446744073709.551615')).toEqual({ valid: true });
+  });
+});
@@ -0,0 +1,86 @@
+import type { ScheduleRule } from '../../types';
+import { describeScheduleRule, getNextRunAt, isValidCronExpression } from '../ScheduleUtils';
+
+// Rules are in local time, so times are built with local Date constructors
+
+/** Monday, Oct 19, 2026, 12:00 local time */
+const NOW = new Date(2026, 9, 19, 12, 0).getTime();
+
+function recurring(cron: string, startAt = 0): ScheduleRule {
+  return { kind: 'recurring', cron, startAt };
+}
+
+describe('isValidCronExpression', () => {
+  it.each(['0 9 1 * *', '*/30 9-17 * * 1-5', '5/10 * * * *', '0 9 * * 7', '0,30 8 1-7 1,7 *'])(
+    'accepts %s',
+    (cron) => {
+      expect(isValidCronExpression(cron)).toEqual({ valid: true });
+    }
+  );
+
+  it.each([
+    { cron: '0 9 * *', error: 'Enter 5 fields: minute hour day-of-month month day-of-week' },
+    { cron: '0 25 * * *', error: 'Invalid hour field "25"' },
+    { cron: '*/0 * * * *', error: 'Invalid minute field "*/0"' },
+    { cron: '0 9 0 * *', error: 'Invalid day of month field "0"' },
+    { cron: '0 9 5-1 * *', error: 'Invalid day of month field "5-1"' },
+    { cron: '0 9 * 13 *', error: 'Invalid month field "13"' },
+    { cron: '0 9 * * 8', error: 'Invalid day of week field "8"' },
+  ])('rejects $cron', ({ cron, error }) => {
+    expect(isValidCronExpression(cron)).toEqual({ valid: false, error });
+  });
+});
+
+describe('getNextRunAt', () => {
+  it.each([
+    { name: 'of a monthly rule', cron: '0 9 1 * *', next: new Date(2026, 10, 1, 9, 0) },
+    { name: 'of a 15-minute rule', cron: '*/15 * * * *', next: new Date(2026, 9, 19, 12, 15) },
+    { name: 'on Sundays (7)', cron: '0 9 * * 7', next: new Date(2026, 9, 25, 9, 0) },
+    { name: 'on the 13th or a Friday', cron: '0 9 13 * 5', next: new Date(2026, 9, 23, 9, 0) },
+    { name: 'on leap days', cron: '0 9 29 2 *', next: new Date(2028, 1, 29, 9, 0) },
+  ])('finds the next run $name', ({ cron, next }) => {
+    expect(getNextRunAt(recurring(cron), NOW)).toBe(next.getTime());
+  });
+
+  it('returns a run strictly after the given moment', () => {
+    const runAt = new Date(2026, 10, 1, 9, 0).getTime();
+
+    expect(getNextRunAt(recurring('0 9 1 * *'), runAt)).toBe(new Date(2026, 11, 1, 9, 0).getTime());
+    expect(getNextRunAt(recurring('0 9 1 * *'), runAt - 1)).toBe(runAt);
+  });
+
+  it('never runs before the start time', () => {
+    const startAt = new Date(2027, 0, 15).getTime();
+
+    expect(getNextRunAt(recurring('0 9 1 * *', startAt), NOW)).toBe(
+      new Date(2027, 1, 1, 9, 0).getTime()
+    );
+  });
+
+  it.each([
+    { name: 'an invalid rule', cron: '0 25 * * *' },
+    { name: 'a rule that never matches', cron: '0 9 31 2 *' },
+  ])('returns null for $name', ({ cron }) => {
+    expect(getNextRunAt(recurring(cron), NOW)).toBeNull();
+  });
+
+  it('runs a one-off schedule once', () => {
+    const rule: ScheduleRule = { kind: 'once', at: NOW + 1000 };
+
+    expect(getNextRunAt(rule, NOW)).toBe(NOW + 1000);
+    expect(getNextRunAt(rule, NOW + 1000)).toBeNull();
+  });
+});
+
+describe('describeScheduleRule', () => {
+  it.each([
+    { cron: '0 9 * * *', description: 'Daily at 09:00' },
+    { cron: '30 8 * * 1', description: 'Weekly on Monday at 08:30' },
+    { cron: '0 9 * * 7', description: 'Weekly on Sunday at 09:00' },
+    { cron: '0 9 1 * *', description: 'Monthly on day 1 at 09:00' },
+    { cron: '0 9 1 6 *', description: 'Custom: 0 9 1 6 *' },
+    { cron: '*/30 9-17 * * 1-5', description: 'Custom: */30 9-17 * * 1-5' },
+  ])('describes $cron as "$description"', ({ cron, description }) => {
+    expect(describeScheduleRule(recurring(cron))).toBe(description);
+  });
+});
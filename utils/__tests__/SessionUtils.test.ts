@@ -0,0 +1,79 @@
+import type { SessionExpiryPolicy } from '../../types';
+import { checkSessionExpiry, requiresReauthentication } from '../SessionUtils';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const USDC_MINT = '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU';
+const OTHER_MINT = 'CXk2AMBfi3TwaEL2468s6zP8xq9NxTXjp9gjMgzeUynM';
+
+const NOW = Date.UTC(2026, 9, 19, 12, 0, 0);
+
+const POLICY: SessionExpiryPolicy = {
+  idleTimeoutMs: 15 * MINUTE_MS,
+  absoluteMaxAgeMs: 30 * DAY_MS,
+  reauthThresholds: {
+    sol: '5000000000', // 5 SOL
+    [USDC_MINT]: '100000000', // 100 USDC
+  },
+};
+
+describe('checkSessionExpiry', () => {
+  it.each([
+    { name: 'just used', createdAgo: DAY_MS, idleFor: 0, status: 'valid' },
+    {
+      name: 'idle just under the limit',
+      createdAgo: DAY_MS,
+      idleFor: 15 * MINUTE_MS - 1,
+      status: 'valid',
+    },
+    {
+      name: 'idle exactly at the limit',
+      createdAgo: DAY_MS,
+      idleFor: 15 * MINUTE_MS,
+      status: 'idle',
+    },
+    { name: 'idle past the limit', createdAgo: DAY_MS, idleFor: DAY_MS, status: 'idle' },
+    {
+      name: 'just under the maximum age',
+      createdAgo: 30 * DAY_MS - 1,
+      idleFor: 0,
+      status: 'valid',
+    },
+    { name: 'exactly at the maximum age', createdAgo: 30 * DAY_MS, idleFor: 0, status: 'absolute' },
+    { name: 'past both limits', createdAgo: 40 * DAY_MS, idleFor: 20 * DAY_MS, status: 'absolute' },
+  ])('reports a session $name as $status', ({ createdAgo, idleFor, status }) => {
+    const session = { createdAt: NOW - createdAgo, lastAccessedAt: NOW - idleFor };
+
+    expect(checkSessionExpiry(session, POLICY, NOW)).toBe(status);
+  });
+
+  it('never reports absolute expiry without a maximum age', () => {
+    const policy = { ...POLICY, absoluteMaxAgeMs: null };
+
+    expect(checkSessionExpiry({ createdAt: 0, lastAccessedAt: NOW }, policy, NOW)).toBe('valid');
+    expect(checkSessionExpiry({ createdAt: 0, lastAccessedAt: 0 }, policy, NOW)).toBe('idle');
+  });
+});
+
+describe('requiresReauthentication', () => {
+  it.each([
+    { name: 'SOL below the threshold', mint: undefined, amount: 4_999_999_999n, expected: false },
+    { name: 'SOL at the threshold', mint: undefined, amount: 5_000_000_000n, expected: true },
+    { name: 'SOL above the threshold', mint: undefined, amount: 6_000_000_000n, expected: true },
+    { name: 'USDC below the threshold', mint: USDC_MINT, amount: 99_999_999n, expected: false },
+    { name: 'USDC at the threshold', mint: USDC_MINT, amount: 100_000_000n, expected: true },
+    { name: 'a token without a threshold', mint: OTHER_MINT, amount: 10n ** 18n, expected: false },
+  ])('returns $expected for $name', ({ mint, amount, expected }) => {
+    const token = mint === undefined ? undefined : { mint };
+
+    expect(requiresReauthentication(token, amount, POLICY)).toBe(expected);
+  });
+
+  it('keys SOL and token thresholds separately', () => {
+    const policy = { ...POLICY, reauthThresholds: { [USDC_MINT]: '1' } };
+
+    expect(requiresReauthentication(undefined, 10n ** 18n, policy)).toBe(false);
+    expect(requiresReauthentication({ mint: USDC_MINT }, 1n, policy)).toBe(true);
+  });
+});
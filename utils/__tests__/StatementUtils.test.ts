@@ -0,0 +1,248 @@
+import type {
+  Contact,
+  TokenInfo,
+  TransactionJournalEntry,
+  TransferHistoryEntry,
+} from '../../types';
+import {
+  buildStatementRows,
+  getJournalEntryTime,
+  serializeStatementCsv,
+  serializeStatementJson,
+} from '../StatementUtils';
+
+const USDC: TokenInfo = {
+  symbol: 'USDC',
+  name: 'USD Coin',
+  mint: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU',
+  decimals: 6,
+  tokenProgram: 'token',
+};
+
+const ALICE = '3jeqd3kYDmGHxrGnhB1Ba6mV3uwHz1sHNMGZ6GsXHmPb';
+const BOB = '9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin';
+
+const CONTACTS: Contact[] = [
+  { id: 'contact-1', label: 'Alice', address: ALICE, createdAt: 0, updatedAt: 0 },
+];
+
+/**
+ * Journal entry for a submitted USDC transfer.
+ */
+function sentEntry(
+  fields: Partial<TransactionJournalEntry> & { amountLamports?: string; recipient?: string }
+): TransactionJournalEntry {
+  const { amountLamports = '10000001', recipient = ALICE, ...entry } = fields;
+  return {
+    id: 'entry',
+    networkId: 'devnet',
+    request: {
+      asset: 'spl-token',
+      token: USDC,
+      recipientAddress: recipient,
+      amount: '10.000001',
+      amountLamports,
+      timestamp: 0,
+    },
+    status: 'finalized',
+    events: [],
+    createdAt: Date.UTC(2026, 9, 19, 14, 3, 0),
+    updatedAt: Date.UTC(2026, 9, 19, 14, 3, 30),
+    submittedAt: Date.UTC(2026, 9, 19, 14, 3, 12),
+    signature: 'sigSent',
+    explorerUrl: 'https://explorer.solana.com/tx/sigSent?cluster=devnet',
+    ...entry,
+  };
+}
+
+/**
+ * On-chain USDC transfer from history.
+ */
+function historyEntry(fields: Partial<TransferHistoryEntry>): TransferHistoryEntry {
+  return {
+    signature: 'sigReceived',
+    status: 'confirmed',
+    direction: 'received',
+    counterparty: BOB,
+    amount: '2.5',
+    amountLamports: '2500000',
+    timestamp: Date.UTC(2026, 9, 20, 9, 12, 40),
+    slot: 1,
+    explorerUrl: 'https://explorer.solana.com/tx/sigReceived?cluster=devnet',
+    ...fields,
+  };
+}
+
+describe('getJournalEntryTime', () => {
+  it('uses the submission time', () => {
+    expect(getJournalEntryTime(sentEntry({}))).toBe(Date.UTC(2026, 9, 19, 14, 3, 12));
+  });
+
+  it('falls back to the creation time for entries never submitted', () => {
+    const entry = sentEntry({ submittedAt: undefined });
+
+    expect(getJournalEntryTime(entry)).toBe(entry.createdAt);
+  });
+});
+
+describe('buildStatementRows', () => {
+  it('builds sent rows from the journal with exact amounts and contact labels', () => {
+    const [row] = buildStatementRows([sentEntry({})], CONTACTS);
+
+    expect(row).toEqual({
+      date: '2026-10-19T14:03:12.000Z',
+      direction: 'sent',
+      counterparty: ALICE,
+      counterpartyLabel: 'Alice',
+      amount: '10.000001',
+      asset: 'USDC',
+      mint: USDC.mint,
+      memo: undefined,
+      status: 'finalized',
+      signature: 'sigSent',
+      explorerUrl: 'https://explorer.solana.com/tx/sigSent?cluster=devnet',
+    });
+  });
+
+  it('merges received transfers from on-chain history', () => {
+    const rows = buildStatementRows([sentEntry({})], CONTACTS, {
+      transfers: [historyEntry({ memo: 'Invoice #1042' })],
+      token: USDC,
+    });
+
+    expect(rows.map((row) => row.direction)).toEqual(['sent', 'received']);
+    expect(rows[1]).toMatchObject({
+      date: '2026-10-20T09:12:40.000Z',
+      counterparty: BOB,
+      counterpartyLabel: undefined,
+      amount: '2.5',
+      asset: 'USDC',
+      mint: USDC.mint,
+      memo: 'Invoice #1042',
+      status: 'confirmed',
+      signature: 'sigReceived',
+    });
+  });
+
+  it('skips sent, failed and undated history entries', () => {
+    const rows = buildStatementRows([], CONTACTS, {
+      transfers: [
+        historyEntry({ signature: 'sigOut', direction: 'sent' }),
+        historyEntry({ signature: 'sigFailed', status: 'failed' }),
+        historyEntry({ signature: 'sigUndated', timestamp: undefined }),
+      ],
+      token: USDC,
+    });
+
+    expect(rows).toEqual([]);
+  });
+
+  it('orders rows the same whatever the input order', () => {
+    const entries = [
+      sentEntry({ id: 'a', signature: 'sigBatch', recipient: BOB }),
+      sentEntry({ id: 'b', signature: 'sigBatch', recipient: ALICE }),
+      sentEntry({ id: 'c', signature: 'sigEarly', submittedAt: Date.UTC(2026, 9, 1) }),
+    ];
+    const transfers = [
+      historyEntry({ signature: 'sigLate' }),
+      historyEntry({ signature: 'sigEarlier', timestamp: Date.UTC(2026, 9, 2) }),
+    ];
+
+    const forward = buildStatementRows(entries, CONTACTS, { transfers, token: USDC });
+    const reversed = buildStatementRows([...entries].reverse(), CONTACTS, {
+      transfers: [...transfers].reverse(),
+      token: USDC,
+    });
+
+    expect(reversed).toEqual(forward);
+    expect(forward.map((row) => `${row.signature}:${row.counterparty}`)).toEqual([
+      `sigEarly:${ALICE}`,
+      `sigEarlier:${BOB}`,
+      `sigBatch:${ALICE}`,
+      `sigBatch:${BOB}`,
+      `sigLate:${BOB}`,
+    ]);
+  });
+});
+
+describe('serializeStatementCsv', () => {
+  const HEADER =
+    'Date,Direction,Counterparty,Counterparty Label,Amount,Asset,Mint,Memo,Status,Signature,' +
+    'Explorer URL\r\n';
+
+  it('writes a header and CRLF-terminated rows with empty missing fields', () => {
+    const csv = serializeStatementCsv(buildStatementRows([sentEntry({})], CONTACTS));
+
+    expect(csv).toBe(
+      HEADER +
+        `2026-10-19T14:03:12.000Z,sent,${ALICE},Alice,10.000001,USDC,${USDC.mint},,` +
+        'finalized,sigSent,https://explorer.solana.com/tx/sigSent?cluster=devnet\r\n'
+    );
+  });
+
+  it('writes only the header when there are no rows', () => {
+    expect(serializeStatementCsv([])).toBe(HEADER);
+  });
+
+  it.each([
+    { memo: 'Rent, October', field: '"Rent, October"' },
+    { memo: 'The "big" one', field: '"The ""big"" one"' },
+    { memo: 'Line 1\nLine 2', field: '"Line 1\nLine 2"' },
+    { memo: '=HYPERLINK("x")', field: `"'=HYPERLINK(""x"")"` },
+    { memo: '+1', field: "'+1" },
+    { memo: '@sum', field: "'@sum" },
+  ])('escapes the memo $memo', ({ memo, field }) => {
+    const entry = sentEntry({});
+    entry.request.memo = memo;
+
+    const [, line] = serializeStatementCsv(buildStatementRows([entry], CONTACTS)).split('\r\n');
+
+    expect(line).toContain(`,USDC,${USDC.mint},${field},finalized,`);
+  });
+});
+
+describe('serializeStatementJson', () => {
+  it('writes every column key in order, with null for missing values', () => {
+    const entry = sentEntry({ signature: undefined, explorerUrl: undefined });
+    const rows = buildStatementRows([entry], []);
+
+    const json = serializeStatementJson(rows, {
+      from: Date.UTC(2026, 9, 1),
+      to: Date.UTC(2026, 9, 31, 23, 59, 59, 999),
+    });
+
+    expect(json.endsWith('}\n')).toBe(true);
+    expect(JSON.parse(json)).toEqual({
+      from: '2026-10-01T00:00:00.000Z',
+      to: '2026-10-31T23:59:59.999Z',
+      transactions: [
+        {
+          date: '2026-10-19T14:03:12.000Z',
+          direction: 'sent',
+          counterparty: ALICE,
+          counterpartyLabel: null,
+          amount: '10.000001',
+          asset: 'USDC',
+          mint: USDC.mint,
+          memo: null,
+          status: 'finalized',
+          signature: null,
+          explorerUrl: null,
+        },
+      ],
+    });
+    expect(Object.keys(JSON.parse(json).transactions[0])).toEqual([
+      'date',
+      'direction',
+      'counterparty',
+      'counterpartyLabel',
+      'amount',
+      'asset',
+      'mint',
+      'memo',
+      'status',
+      'signature',
+      'explorerUrl',
+    ]);
+  });
+});